@@ -9,11 +9,19 @@ import { DreamsView } from './views/DreamsView';
 import { TransactionsView } from './views/TransactionsView';
 import { SettingsCategories } from './views/SettingsCategories';
 import { SettingsAccounts } from './views/SettingsAccounts'; 
+import { SettingsSieExport } from './views/SettingsSieExport';
+import { SettingsMerchants } from './views/SettingsMerchants';
+import { SettingsAi } from './views/SettingsAi';
+import { SettingsPrivacy } from './views/SettingsPrivacy';
+import { SettingsSync } from './views/SettingsSync';
 import { HousingCalculator } from './views/HousingCalculator';
-import { LayoutGrid, Wallet, PieChart, ArrowLeftRight, Calendar, Settings, Sparkles, Cloud, RefreshCw, Trash2, Download, Receipt, Database, AlertTriangle, Home, ChevronDown, Plus, Layout, X, Check, Edit2 } from 'lucide-react';
+import { LayoutGrid, Wallet, PieChart, ArrowLeftRight, Calendar, Settings, Sparkles, Cloud, RefreshCw, Trash2, Download, Receipt, Database, AlertTriangle, Home, ChevronDown, Plus, Layout, X, Check, Edit2, Lock } from 'lucide-react';
 import { cn, Button, Modal, Input } from './components/components';
 import { format, subMonths, addMonths } from 'date-fns';
 import { sv } from 'date-fns/locale';
+import { BackupRestoreModal } from './components/BackupRestoreModal';
+import { parseBackup, BackupFile } from './services/backupService';
+import { decryptBackup } from './services/backupCrypto';
 import { initGoogleDrive, loginToGoogle, listBackups, createBackupFile, loadBackupFile, deleteBackupFile, DriveFile } from './services/googleDrive';
 import { Budget } from './types';
 
@@ -23,7 +31,7 @@ const MainApp = () => {
   const [currentView, setCurrentView] = useState<View>('home');
   const { 
     selectedMonth, setMonth, settings, setPayday, updateSettings, 
-    getExportData, importData, deleteAllTransactions, users, updateUserName,
+    getExportData, deleteAllTransactions, users, updateUserName,
     budgets, activeBudgetId, setActiveBudget, addBudget, deleteBudget, updateBudget
   } = useApp();
   
@@ -40,6 +48,8 @@ const MainApp = () => {
   const [backups, setBackups] = useState<DriveFile[]>([]);
   const [isLoadingBackups, setIsLoadingBackups] = useState(false);
   const [backupStatus, setBackupStatus] = useState<string>('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [restoringBackup, setRestoringBackup] = useState<{ backup: BackupFile, name: string } | null>(null);
 
   useEffect(() => {
     initGoogleDrive((available) => {
@@ -77,8 +87,13 @@ const MainApp = () => {
   };
 
   const handleCreateBackup = async () => {
+      if (settings.encryptBackups && !backupPassphrase) {
+          setBackupStatus('Ange lösenfras först');
+          setTimeout(() => setBackupStatus(''), 3000);
+          return;
+      }
       setBackupStatus('Creating...');
-      const data = await getExportData();
+      const data = await getExportData(settings.encryptBackups ? backupPassphrase : undefined);
       const filename = `FamilyFlow_Backup_${format(new Date(), 'yyyy-MM-dd_HHmm')}.json`;
       
       try {
@@ -92,24 +107,15 @@ const MainApp = () => {
       }
   };
 
-  const handleRestore = async (fileId: string) => {
-      if (!confirm("Varning: Detta kommer ersätta all data i appen med backupen. Är du säker?")) return;
-      
-      setBackupStatus('Återställer...');
+  const handleRestore = async (file: DriveFile) => {
+      setBackupStatus('Läser backup...');
       try {
-          const jsonContent = await loadBackupFile(fileId);
-          const success = await importData(jsonContent);
-          
-          if (success) {
-              setBackupStatus('Återställd! Laddar om...');
-              setTimeout(() => {
-                  window.location.reload(); 
-              }, 2000);
-          } else {
-              setBackupStatus('Filen var ogiltig');
-          }
+          const jsonContent = await loadBackupFile(file.id);
+          setRestoringBackup({ backup: parseBackup(await decryptBackup(jsonContent, backupPassphrase)), name: file.name });
+          setBackupStatus('');
       } catch (e) {
-          setBackupStatus('Fel vid återställning');
+          setBackupStatus(e instanceof Error ? e.message : 'Fel vid återställning');
+          setTimeout(() => setBackupStatus(''), 4000);
           console.error(e);
       }
   };
@@ -328,6 +334,20 @@ const MainApp = () => {
           </div>
       </Modal>
 
+      {/* Restore Preview */}
+      {restoringBackup && (
+        <BackupRestoreModal
+          backup={restoringBackup.backup}
+          name={restoringBackup.name}
+          onClose={() => setRestoringBackup(null)}
+          onRestored={(message) => {
+              setRestoringBackup(null);
+              setBackupStatus(message);
+              setTimeout(() => setBackupStatus(''), 4000);
+          }}
+        />
+      )}
+
       {/* SETTINGS DRAWER */}
       {showSettings && (
           <div className="bg-slate-900 border-b border-slate-800 p-4 animate-in slide-in-from-top-2 space-y-6 max-h-[85vh] overflow-y-auto shadow-2xl no-scrollbar">
@@ -427,6 +447,31 @@ const MainApp = () => {
                         <SettingsCategories />
                     </div>
 
+                    {/* Merchants */}
+                    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                        <SettingsMerchants />
+                    </div>
+
+                    {/* AI Provider */}
+                    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                        <SettingsAi />
+                    </div>
+
+                    {/* AI Privacy */}
+                    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                        <SettingsPrivacy />
+                    </div>
+
+                    {/* Bookkeeping Export */}
+                    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                        <SettingsSieExport />
+                    </div>
+
+                    {/* Device Sync */}
+                    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                        <SettingsSync />
+                    </div>
+
                     {/* Data Management - Danger Zone */}
                     <div className="bg-red-950/10 p-4 rounded-xl border border-red-900/20 space-y-3">
                          <h4 className="text-xs font-bold text-red-400 uppercase tracking-wider flex items-center gap-2">
@@ -466,6 +511,20 @@ const MainApp = () => {
                           </Button>
                       ) : (
                           <div className="space-y-4">
+                              <div className="space-y-2">
+                                  <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                                      <span className="flex items-center gap-2"><Lock className="w-4 h-4" /> Kryptera backuper</span>
+                                      <input type="checkbox" checked={!!settings.encryptBackups} onChange={e => updateSettings({ encryptBackups: e.target.checked })} className="rounded bg-slate-700 border-slate-600" />
+                                  </label>
+                                  <input
+                                      type="password"
+                                      className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-white placeholder:text-slate-600"
+                                      placeholder={settings.encryptBackups ? 'Lösenfras' : 'Lösenfras (för krypterade backuper)'}
+                                      value={backupPassphrase}
+                                      onChange={e => setBackupPassphrase(e.target.value)}
+                                  />
+                                  <p className="text-[10px] text-slate-500">Lösenfrasen sparas inte. Tappar ni bort den går krypterade backuper inte att återställa.</p>
+                              </div>
                               <div className="flex gap-2">
                                   <Button onClick={handleCreateBackup} className="flex-1" disabled={!!backupStatus}>
                                       {backupStatus || 'Säkerhetskopiera Nu'}
@@ -492,7 +551,7 @@ const MainApp = () => {
                                                       <div className="font-mono text-xs text-slate-300">{file.name.replace('FamilyFlow_Backup_', '').replace('.json', '')}</div>
                                                   </div>
                                                   <div className="flex gap-1">
-                                                      <button onClick={() => handleRestore(file.id)} className="p-1.5 hover:bg-blue-500/20 text-blue-400 rounded" title="Återställ">
+                                                      <button onClick={() => handleRestore(file)} className="p-1.5 hover:bg-blue-500/20 text-blue-400 rounded" title="Återställ">
                                                           <Download className="w-4 h-4" />
                                                       </button>
                                                       <button onClick={() => handleDeleteBackup(file.id)} className="p-1.5 hover:bg-rose-500/20 text-rose-400 rounded" title="Ta bort">
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { useApp } from '../store';
+import { Loader2 } from 'lucide-react';
+import { Button, Modal, cn } from './components';
+import { BackupFile, BackupTableName, BACKUP_TABLES, BACKUP_TABLE_LABELS, RestoreOptions, TableRestorePlan, planRestore, hasRestoreChanges, getRestoreTables } from '../services/backupService';
+
+// Restore preview: pick what to restore, see per table what would happen, then apply exactly that plan
+export const BackupRestoreModal: React.FC<{ backup: BackupFile, name: string, onClose: () => void, onRestored: (message: string) => void }> = ({ backup, name, onClose, onRestored }) => {
+    const { restoreBackup } = useApp();
+    const [options, setOptions] = useState<RestoreOptions>({ mode: 'merge' });
+    const [plans, setPlans] = useState<TableRestorePlan[] | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        setPlans(null);
+        planRestore(backup, options)
+            .then(p => { if (!cancelled) setPlans(p); })
+            .catch(e => { console.error(e); if (!cancelled) setError('Kunde inte jämföra backupen med nuvarande data.'); });
+        return () => { cancelled = true; };
+    }, [backup, options]);
+
+    const toggle = <T,>(list: T[] | undefined, value: T) => {
+        const current = list || [];
+        return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    };
+
+    const handleRestore = async () => {
+        if (!plans) return;
+        const deleted = plans.reduce((sum, p) => sum + p.deleted.length, 0);
+        if (deleted > 0 && !confirm(`${deleted} poster som inte finns i backupen kommer att raderas. Fortsätt?`)) return;
+        setIsRestoring(true);
+        try {
+            await restoreBackup(plans);
+            const written = plans.reduce((sum, p) => sum + p.added.length + p.changed.length, 0);
+            onRestored(`Återställd: ${written} poster skrivna, ${deleted} raderade`);
+        } catch (e) {
+            console.error(e);
+            setError('Återställningen misslyckades, inget har ändrats.');
+            setIsRestoring(false);
+        }
+    };
+
+    const included = getRestoreTables(options);
+    const shown = (plans || []).filter(p => p.added.length + p.changed.length + p.deleted.length + p.unchanged > 0);
+
+    return (
+        <Modal isOpen onClose={onClose} title="Återställ backup">
+            <div className="space-y-4">
+                <p className="text-xs text-slate-500 font-mono truncate">{name}</p>
+
+                <div className="flex bg-slate-900 rounded-lg p-1">
+                    {([['merge', 'Slå ihop'], ['replace', 'Ersätt urvalet']] as const).map(([mode, label]) => (
+                        <button key={mode} onClick={() => setOptions({ ...options, mode })} className={cn("flex-1 text-xs py-2 rounded transition-all", options.mode === mode ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    {options.mode === 'merge'
+                        ? 'Lägger till och uppdaterar poster från backupen. Inget raderas.'
+                        : 'Gör urvalet identiskt med backupen. Poster som saknas i backupen raderas.'}
+                </p>
+
+                <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Budgetar</label>
+                    <div className="flex flex-wrap gap-1">
+                        {backup.tables.budgets.map(b => {
+                            const isOn = !!options.budgetIds?.includes(b.id);
+                            return (
+                                <button key={b.id} onClick={() => setOptions({ ...options, budgetIds: toggle(options.budgetIds, b.id) })} className={cn("text-xs px-2 py-1 rounded transition-all", isOn ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}>
+                                    {b.icon} {b.name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {!options.budgetIds?.length && <p className="text-[10px] text-slate-600 mt-1">Alla budgetar och delade kategorier</p>}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Från</label>
+                        <input type="date" className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white" value={options.startDate || ''} onChange={e => setOptions({ ...options, startDate: e.target.value || undefined })} />
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Till</label>
+                        <input type="date" className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white" value={options.endDate || ''} onChange={e => setOptions({ ...options, endDate: e.target.value || undefined })} />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Tabeller</label>
+                    <div className="flex flex-wrap gap-1">
+                        {BACKUP_TABLES.map((t: BackupTableName) => {
+                            const isOn = !!options.tables?.includes(t);
+                            return (
+                                <button key={t} onClick={() => setOptions({ ...options, tables: toggle(options.tables, t) })} className={cn("text-[10px] px-2 py-1 rounded transition-all", isOn ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white", !included.includes(t) && !isOn && "opacity-40")}>
+                                    {BACKUP_TABLE_LABELS[t]}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <p className="text-[10px] text-slate-600 mt-1">Inget valt = alla. En period gäller bara tabeller med datum, övriga hoppas över.</p>
+                </div>
+
+                <div className="bg-slate-900/50 rounded-lg border border-slate-700 p-2">
+                    {!plans ? (
+                        <div className="flex justify-center py-4"><Loader2 className="w-4 h-4 animate-spin text-slate-400" /></div>
+                    ) : shown.length === 0 ? (
+                        <p className="text-xs text-slate-500 text-center py-2">Urvalet innehåller inga poster.</p>
+                    ) : (
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-500 uppercase">
+                                    <th className="text-left font-bold py-1">Tabell</th>
+                                    <th className="text-right font-bold">Nya</th>
+                                    <th className="text-right font-bold">Ändrade</th>
+                                    <th className="text-right font-bold">Raderas</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {shown.map(p => (
+                                    <tr key={p.table} className="border-t border-slate-800">
+                                        <td className="py-1 text-slate-300">{BACKUP_TABLE_LABELS[p.table]}</td>
+                                        <td className="text-right font-mono text-emerald-400">{p.added.length || ''}</td>
+                                        <td className="text-right font-mono text-amber-400">{p.changed.length || ''}</td>
+                                        <td className="text-right font-mono text-rose-400">{p.deleted.length || ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                <Button onClick={handleRestore} disabled={!plans || !hasRestoreChanges(plans) || isRestoring} className="w-full">
+                    {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : plans && !hasRestoreChanges(plans) ? 'Inget att återställa' : 'Återställ'}
+                </Button>
+            </div>
+        </Modal>
+    );
+};
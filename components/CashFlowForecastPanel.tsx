@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { Account } from '../types';
+import { formatMoney } from '../utils';
+import { cn } from './components';
+import { useCashFlowForecast } from '../hooks/useCashFlowForecast';
+import { AccountForecast, CashFlowEventKind } from '../services/cashFlowForecast';
+import { ResponsiveContainer, ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { TrendingUp, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+
+const EVENT_LABELS: Record<CashFlowEventKind, string> = {
+    income: 'Inkomst',
+    transfer: 'Överföring',
+    fixed: 'Fast post',
+    subscription: 'Abonnemang',
+    daily: 'Rörlig post'
+};
+
+const SOURCE_LABELS: Record<AccountForecast['balanceSource'], string> = {
+    imported: 'Saldo från import',
+    startBalance: 'Ingående saldo',
+    none: 'Saldo saknas, räknar från 0'
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM', { locale: sv });
+
+const AccountForecastCard: React.FC<{ account: Account, forecast: AccountForecast, nextPayday: string }> = ({ account, forecast, nextPayday }) => {
+    const { updateAccount } = useApp();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [floorInput, setFloorInput] = useState(String(forecast.floor));
+
+    const chart = forecast.days.map(d => ({ name: formatDay(d.date), date: d.date, balance: Math.round(d.balance) }));
+    const upcoming = forecast.days.flatMap(d => d.events.filter(e => e.kind !== 'daily').map(e => ({ ...e, balance: d.balance })));
+    const dailyTotal = forecast.days.reduce((sum, d) => sum + d.events.filter(e => e.kind === 'daily').reduce((s, e) => s + e.amount, 0), 0);
+    const endBalance = forecast.days[forecast.days.length - 1].balance;
+
+    const saveFloor = () => {
+        const floor = Number(floorInput.replace(',', '.')) || 0;
+        if (floor !== forecast.floor) updateAccount({ ...account, balanceFloor: floor });
+    };
+
+    return (
+        <div className={cn("bg-slate-800 rounded-xl border p-4 shadow-lg", forecast.breachBeforePayday ? "border-rose-500/50" : forecast.breach ? "border-amber-500/40" : "border-slate-700")}>
+            <div className="flex justify-between items-start mb-3">
+                <div className="flex items-center gap-2">
+                    <span className="text-xl">{account.icon}</span>
+                    <div>
+                        <h4 className="font-bold text-white">{account.name}</h4>
+                        <div className="text-[10px] text-slate-500">
+                            {SOURCE_LABELS[forecast.balanceSource]}{forecast.balanceDate && ` (${formatDay(forecast.balanceDate)})`}
+                        </div>
+                    </div>
+                </div>
+                <div className="text-right">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Idag → {formatDay(forecast.days[forecast.days.length - 1].date)}</div>
+                    <div className="font-mono font-bold text-white">
+                        {formatMoney(forecast.startBalance)} <span className="text-slate-500">→</span> <span className={endBalance < forecast.floor ? "text-rose-400" : "text-emerald-400"}>{formatMoney(endBalance)}</span>
+                    </div>
+                </div>
+            </div>
+
+            {forecast.breach && (
+                <div className={cn("mb-3 p-2 rounded-lg text-xs flex items-start gap-2", forecast.breachBeforePayday ? "bg-rose-500/10 text-rose-300" : "bg-amber-500/10 text-amber-300")}>
+                    <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                    <span>
+                        Under {formatMoney(forecast.floor)} den {formatDay(forecast.breach.date)}
+                        {forecast.breachBeforePayday ? ', före nästa lön' : ''}. Lägst {formatMoney(forecast.lowest.balance)} den {formatDay(forecast.lowest.date)}.
+                    </span>
+                </div>
+            )}
+
+            <div className="h-32 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chart} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} interval="preserveStartEnd" />
+                        <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val) => `${Math.round(val / 1000)}k`} />
+                        <Tooltip
+                            contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }}
+                            itemStyle={{ fontSize: '12px' }}
+                            formatter={(value: number) => formatMoney(value)}
+                            labelStyle={{ color: '#fff', fontWeight: 'bold' }}
+                        />
+                        <ReferenceLine y={forecast.floor} stroke="#f43f5e" strokeDasharray="4 4" />
+                        <ReferenceLine x={formatDay(nextPayday)} stroke="#10b981" strokeDasharray="2 4" label={{ value: 'Lön', fill: '#10b981', fontSize: 10, position: 'insideTopRight' }} />
+                        <Area type="stepAfter" dataKey="balance" name="Saldo" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.15} />
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+
+            <div className="flex items-center justify-between mt-3">
+                <label className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-2">
+                    Varna under
+                    <input
+                        type="number"
+                        className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono"
+                        value={floorInput}
+                        onChange={e => setFloorInput(e.target.value)}
+                        onBlur={saveFloor}
+                    />
+                </label>
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+                    {upcoming.length} händelser {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+            </div>
+
+            {isExpanded && (
+                <div className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+                    {upcoming.map((e, i) => (
+                        <div key={i} className="flex justify-between items-center text-xs py-1 border-t border-slate-700/50">
+                            <div className="min-w-0">
+                                <span className="text-slate-500 font-mono mr-2">{formatDay(e.date)}</span>
+                                <span className="text-slate-300">{e.label}</span>
+                                <span className="text-[10px] text-slate-600 ml-2">{EVENT_LABELS[e.kind]}</span>
+                            </div>
+                            <span className={cn("font-mono shrink-0 ml-2", e.amount >= 0 ? "text-emerald-400" : "text-white")}>{formatMoney(e.amount)}</span>
+                        </div>
+                    ))}
+                    {dailyTotal !== 0 && (
+                        <div className="flex justify-between text-xs py-1 border-t border-slate-700/50 text-slate-400">
+                            <span>Rörliga poster, hela perioden</span>
+                            <span className="font-mono">{formatMoney(dailyTotal)}</span>
+                        </div>
+                    )}
+                    {upcoming.length === 0 && dailyTotal === 0 && <p className="text-xs text-slate-500 py-1">Inga planerade händelser.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const CashFlowForecastPanel: React.FC = () => {
+    const { accounts } = useApp();
+    const forecast = useCashFlowForecast();
+    const incomeAccount = accounts.find(a => a.id === forecast.incomeAccountId);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-bold text-white flex items-center gap-2"><TrendingUp size={18} className="text-blue-400" /> Saldoprognos</h3>
+                <span className="text-[10px] text-slate-500">Nästa lön {formatDay(forecast.nextPayday)}</span>
+            </div>
+            <p className="text-xs text-slate-500">
+                {incomeAccount
+                    ? `Lönen antas komma till ${incomeAccount.name} och behoven ovan föras över på lönedagen.`
+                    : 'Ingen importerad inkomst hittades, så prognosen räknar bara med de planerade överföringarna.'}
+                {' '}Kategoribudgetar utan datum ingår inte.
+            </p>
+            {accounts.map(account => {
+                const accountForecast = forecast.accounts.find(f => f.accountId === account.id);
+                return accountForecast && <AccountForecastCard key={account.id} account={account} forecast={accountForecast} nextPayday={forecast.nextPayday} />;
+            })}
+        </div>
+    );
+};
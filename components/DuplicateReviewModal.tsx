@@ -0,0 +1,104 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../store';
+import { Transaction } from '../types';
+import { Modal, Button, cn } from './components';
+import { DuplicatePair, pickDuplicateToKeep } from '../services/duplicateDetection';
+import { formatMoney } from '../utils';
+import { AlertTriangle, Merge, X, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    pairs: DuplicatePair[];
+    title?: string;
+    footer?: React.ReactNode;
+}
+
+export const DuplicateReviewModal: React.FC<Props> = ({ isOpen, onClose, pairs, title = 'Möjliga dubbletter', footer }) => {
+    const { transactions, accounts, importBatches, dismissedDuplicates, mergeDuplicateTransactions, dismissDuplicatePair } = useApp();
+    // Pair key -> id of the row the user wants to keep (defaults to pickDuplicateToKeep)
+    const [keepOverrides, setKeepOverrides] = useState<Record<string, string>>({});
+
+    // Pairs disappear as soon as one side is merged away or the pair is dismissed
+    const visiblePairs = useMemo(() => {
+        const ids = new Set(transactions.map(t => t.id));
+        const dismissed = new Set(dismissedDuplicates.map(d => d.id));
+        return pairs.filter(p => ids.has(p.a.id) && ids.has(p.b.id) && !dismissed.has(p.key));
+    }, [pairs, transactions, dismissedDuplicates]);
+
+    const getKeepId = (pair: DuplicatePair) => keepOverrides[pair.key] || pickDuplicateToKeep(pair).keep.id;
+
+    const handleMerge = async (pair: DuplicatePair) => {
+        const keepId = getKeepId(pair);
+        await mergeDuplicateTransactions(keepId, keepId === pair.a.id ? pair.b.id : pair.a.id);
+    };
+
+    const renderRow = (pair: DuplicatePair, tx: Transaction) => {
+        // Use the live row, it may have been edited since the pair was computed
+        const live = transactions.find(t => t.id === tx.id) || tx;
+        const isKept = getKeepId(pair) === tx.id;
+        const batch = live.batchId ? importBatches.find(b => b.id === live.batchId) : undefined;
+        return (
+            <button
+                onClick={() => setKeepOverrides(prev => ({ ...prev, [pair.key]: tx.id }))}
+                className={cn("w-full text-left p-3 flex justify-between items-center gap-3 transition-colors", isKept ? "bg-emerald-950/20" : "bg-slate-800/20 hover:bg-slate-800/50")}
+            >
+                <div className="min-w-0">
+                    <div className="text-white font-medium text-sm truncate">{live.description}</div>
+                    <div className="text-[10px] text-slate-500 flex flex-wrap items-center gap-x-2 mt-0.5">
+                        <span>{live.date}</span>
+                        {batch && <span>• {batch.filename}</span>}
+                        {live.isVerified && <span className="text-emerald-400">• Bokförd</span>}
+                    </div>
+                </div>
+                {isKept ? (
+                    <span className="text-[10px] font-bold text-emerald-400 flex items-center gap-1 shrink-0"><CheckCircle2 size={12} /> Behålls</span>
+                ) : (
+                    <span className="text-[10px] text-slate-500 shrink-0">Tas bort</span>
+                )}
+            </button>
+        );
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={title}>
+            <div className="space-y-4">
+                <div className="bg-rose-500/10 border border-rose-500/20 p-4 rounded-xl text-rose-300 text-xs flex gap-3 items-start">
+                    <AlertTriangle className="shrink-0 w-4 h-4" />
+                    <p>Dessa transaktioner har samma konto och belopp, liknande text och datum nära varandra. Välj vilken rad som ska behållas och slå ihop, eller markera paret som inte dubblett.</p>
+                </div>
+
+                {visiblePairs.length === 0 ? (
+                    <div className="text-center text-sm text-slate-400 py-6">Inga möjliga dubbletter kvar.</div>
+                ) : (
+                    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1 no-scrollbar">
+                        {visiblePairs.map(pair => {
+                            const account = accounts.find(a => a.id === pair.a.accountId);
+                            return (
+                                <div key={pair.key} className="bg-slate-900/50 rounded-xl border border-slate-700 overflow-hidden">
+                                    <div className="bg-slate-800 px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-slate-400 flex items-center justify-between gap-2">
+                                        <span>{account?.icon} {account?.name} • {formatMoney(pair.a.amount)}</span>
+                                        <span className={cn(pair.score >= 0.85 ? "text-rose-400" : "text-yellow-400")}>{Math.round(pair.score * 100)}% {pair.dayDiff > 0 ? `• ${pair.dayDiff} d` : ''}</span>
+                                    </div>
+                                    <div className="divide-y divide-slate-700/50">
+                                        {renderRow(pair, pair.a)}
+                                        {renderRow(pair, pair.b)}
+                                    </div>
+                                    <div className="flex gap-2 p-2 bg-slate-800/50">
+                                        <Button variant="secondary" onClick={() => dismissDuplicatePair(pair.key)} className="flex-1 py-1.5 text-xs"><X size={14} /> Inte dubblett</Button>
+                                        <Button onClick={() => handleMerge(pair)} className="flex-1 py-1.5 text-xs bg-rose-600 hover:bg-rose-500"><Merge size={14} /> Slå ihop</Button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="flex gap-2 pt-2 border-t border-slate-700">
+                    <Button variant="secondary" onClick={onClose} className="flex-1">Stäng</Button>
+                    {footer}
+                </div>
+            </div>
+        </Modal>
+    );
+};
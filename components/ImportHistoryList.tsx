@@ -0,0 +1,109 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../store';
+import { Transaction } from '../types';
+import { Button, cn } from './components';
+import { formatMoney } from '../utils';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, FileText, RotateCcw, Loader2 } from 'lucide-react';
+
+export const ImportHistoryList: React.FC = () => {
+    const { importBatches, transactions, accounts, rollbackImportBatch } = useApp();
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+    const sortedBatches = useMemo(() => [...importBatches].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [importBatches]);
+
+    const transactionsByBatch = useMemo(() => {
+        const map = new Map<string, Transaction[]>();
+        transactions.forEach(t => {
+            if (!t.batchId) return;
+            const list = map.get(t.batchId) || [];
+            list.push(t);
+            map.set(t.batchId, list);
+        });
+        map.forEach(list => list.sort((a, b) => b.date.localeCompare(a.date)));
+        return map;
+    }, [transactions]);
+
+    const handleRollback = async (batchId: string) => {
+        const rows = transactionsByBatch.get(batchId) || [];
+        const verifiedCount = rows.filter(t => t.isVerified).length;
+        const batch = importBatches.find(b => b.id === batchId);
+        let message = `Ångra importen? ${rows.length} transaktioner tas bort`;
+        if (batch && batch.updates.length > 0) message += ` och saldo/bank-id återställs på ${batch.updates.length} befintliga`;
+        message += '.';
+        if (verifiedCount > 0) message += `\n\nOBS: ${verifiedCount} av dem är redan bokförda.`;
+        if (!confirm(message)) return;
+
+        setRollingBackId(batchId);
+        try {
+            await rollbackImportBatch(batchId);
+            if (expandedId === batchId) setExpandedId(null);
+        } finally {
+            setRollingBackId(null);
+        }
+    };
+
+    if (sortedBatches.length === 0) {
+        return (
+            <div className="text-center py-20 bg-slate-900/50 rounded-2xl border border-slate-800 animate-in fade-in">
+                <div className="inline-block p-4 bg-slate-800 rounded-full mb-3">
+                    <FileText className="w-8 h-8 text-slate-500" />
+                </div>
+                <h3 className="text-white font-bold text-lg">Inga importer</h3>
+                <p className="text-slate-400 text-sm">Importerade filer visas här och kan ångras i efterhand.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2 animate-in fade-in">
+            {sortedBatches.map(batch => {
+                const account = accounts.find(a => a.id === batch.accountId);
+                const rows = transactionsByBatch.get(batch.id) || [];
+                const verifiedCount = rows.filter(t => t.isVerified).length;
+                const isExpanded = expandedId === batch.id;
+
+                return (
+                    <div key={batch.id} className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+                        <div className="flex items-center gap-3 p-3">
+                            <button onClick={() => setExpandedId(isExpanded ? null : batch.id)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                                {isExpanded ? <ChevronDown size={16} className="text-slate-400 shrink-0" /> : <ChevronRight size={16} className="text-slate-400 shrink-0" />}
+                                <div className="min-w-0">
+                                    <div className="text-sm font-bold text-white truncate">{batch.filename}</div>
+                                    <div className="text-[10px] text-slate-400">
+                                        {account ? `${account.icon} ${account.name}` : 'Okänt konto'} • {format(new Date(batch.createdAt), 'yyyy-MM-dd HH:mm')}
+                                        {batch.dateFrom && ` • ${batch.dateFrom} – ${batch.dateTo}`}
+                                    </div>
+                                    <div className="text-[10px] text-slate-500">
+                                        {rows.length} av {batch.rowCount} rader kvar
+                                        {verifiedCount > 0 && `, ${verifiedCount} bokförda`}
+                                        {batch.updates.length > 0 && `, ${batch.updates.length} uppdaterade`}
+                                    </div>
+                                </div>
+                            </button>
+                            <Button variant="secondary" onClick={() => handleRollback(batch.id)} disabled={rollingBackId !== null} className="px-3 py-1.5 text-xs shrink-0">
+                                {rollingBackId === batch.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Ångra
+                            </Button>
+                        </div>
+
+                        {isExpanded && (
+                            <div className="border-t border-slate-700 bg-slate-900/50 p-2 space-y-1 max-h-80 overflow-y-auto">
+                                {rows.length === 0 ? (
+                                    <div className="text-xs text-slate-500 text-center py-2">Inga transaktioner kvar från denna import.</div>
+                                ) : rows.map(t => (
+                                    <div key={t.id} className="flex items-center gap-2 text-xs px-2 py-1">
+                                        <span className="text-slate-400 w-20 shrink-0">{t.date}</span>
+                                        <span className="flex-1 truncate text-slate-200">{t.description}</span>
+                                        {!t.isVerified && <span className="text-[10px] text-yellow-400 shrink-0">Ogranskad</span>}
+                                        <span className={cn("font-mono shrink-0", t.amount < 0 ? "text-rose-300" : "text-emerald-300")}>{formatMoney(t.amount)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
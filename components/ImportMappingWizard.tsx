@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Modal, cn, Button, Input } from './components';
+import { ImportProfile, ImportColumnRole, Transaction } from '../types';
+import { readBankFileRows, mapRowsToTransactions, isImportProfileComplete, DATE_FORMAT_OPTIONS } from '../services/importService';
+import { formatMoney } from '../utils';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface Props {
+    file: File;
+    accountId: string;
+    budgetId: string;
+    initialProfile: ImportProfile;
+    isSavedProfile: boolean; // True if initialProfile already exists in the DB for this account
+    onCancel: () => void;
+    onConfirm: (transactions: Transaction[], profile: ImportProfile, saveProfile: boolean, invalidDateCount: number) => void;
+}
+
+const ROLE_LABELS: Record<ImportColumnRole, string> = {
+    date: 'Datum',
+    description: 'Text',
+    amount: 'Belopp',
+    debit: 'Uttag (Debet)',
+    credit: 'Insättning (Kredit)',
+    balance: 'Saldo'
+};
+
+const PREVIEW_ROWS = 5;
+
+export const ImportMappingWizard: React.FC<Props> = ({ file, accountId, budgetId, initialProfile, isSavedProfile, onCancel, onConfirm }) => {
+    const [profile, setProfile] = useState<ImportProfile>(initialProfile);
+    const [rows, setRows] = useState<any[][]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [readError, setReadError] = useState('');
+    const [saveProfile, setSaveProfile] = useState(!isSavedProfile);
+
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+
+    // Re-read the file whenever the raw-level settings change (only relevant for CSV)
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        readBankFileRows(file, { delimiter: profile.delimiter, encoding: profile.encoding })
+            .then(r => { if (!cancelled) { setRows(r); setReadError(''); } })
+            .catch(e => { if (!cancelled) setReadError(e?.message || 'Filen kunde inte läsas.'); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [file, profile.delimiter, profile.encoding]);
+
+    const headerRow = rows[profile.headerRow] || [];
+    const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+
+    const { transactions: parsed, invalidDateCount } = useMemo(() => mapRowsToTransactions(rows, profile, accountId, budgetId), [rows, profile, accountId, budgetId]);
+    const dataRowCount = Math.max(0, rows.length - profile.headerRow - 1);
+    const skippedCount = dataRowCount - parsed.length;
+    const isComplete = isImportProfileComplete(profile);
+
+    const setColumn = (role: ImportColumnRole, value: string) => {
+        const columns = { ...profile.columns };
+        if (value === '') delete columns[role]; else columns[role] = Number(value);
+        setProfile({ ...profile, columns });
+    };
+
+    const columnLabel = (idx: number) => {
+        const name = headerRow[idx]?.toString().trim();
+        return name ? `${idx + 1}: ${name}` : `Kolumn ${idx + 1}`;
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onCancel} title={`Importera ${file.name}`}>
+            <div className="space-y-4">
+                <Input label="Profilnamn" value={profile.name} onChange={e => setProfile({ ...profile, name: e.target.value })} />
+
+                {/* FILE SETTINGS */}
+                <div className="grid grid-cols-2 gap-2">
+                    {isCsv && (
+                        <>
+                            <div>
+                                <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Avgränsare</label>
+                                <select className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-white" value={profile.delimiter} onChange={e => setProfile({ ...profile, delimiter: e.target.value })}>
+                                    <option value="">Automatisk</option>
+                                    <option value=";">Semikolon (;)</option>
+                                    <option value=",">Komma (,)</option>
+                                    <option value={'\t'}>Tabb</option>
+                                    <option value="|">Pipe (|)</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Teckenkodning</label>
+                                <select className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-white" value={profile.encoding} onChange={e => setProfile({ ...profile, encoding: e.target.value })}>
+                                    <option value="ISO-8859-1">ISO-8859-1 (Latin-1)</option>
+                                    <option value="UTF-8">UTF-8</option>
+                                    <option value="windows-1252">Windows-1252</option>
+                                </select>
+                            </div>
+                        </>
+                    )}
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Rubrikrad</label>
+                        <input type="number" min={1} max={Math.max(1, rows.length)} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-white" value={profile.headerRow + 1} onChange={e => setProfile({ ...profile, headerRow: Math.max(0, Number(e.target.value) - 1) })} />
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Datumformat</label>
+                        <select className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-white" value={profile.dateFormat} onChange={e => setProfile({ ...profile, dateFormat: e.target.value })}>
+                            {DATE_FORMAT_OPTIONS.map(f => <option key={f} value={f}>{f === 'auto' ? 'Automatiskt' : f}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Decimaltecken</label>
+                        <select className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-white" value={profile.decimalSeparator} onChange={e => setProfile({ ...profile, decimalSeparator: e.target.value as ',' | '.' })}>
+                            <option value=",">Komma (1 234,50)</option>
+                            <option value=".">Punkt (1,234.50)</option>
+                        </select>
+                    </div>
+                </div>
+
+                {/* COLUMN ROLES */}
+                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Kolumner</div>
+                    {(Object.keys(ROLE_LABELS) as ImportColumnRole[]).map(role => (
+                        <div key={role} className="flex items-center gap-2">
+                            <span className="text-xs text-slate-300 w-32 shrink-0">{ROLE_LABELS[role]}</span>
+                            <select
+                                className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white outline-none"
+                                value={profile.columns[role] ?? ''}
+                                onChange={e => setColumn(role, e.target.value)}
+                                disabled={(role === 'debit' || role === 'credit') && profile.columns.amount !== undefined}
+                            >
+                                <option value="">-- Används ej --</option>
+                                {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                    <p className="text-[10px] text-slate-500">Välj antingen en beloppskolumn eller separata kolumner för uttag och insättning.</p>
+                </div>
+
+                {/* PREVIEW */}
+                <div>
+                    <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Förhandsgranskning</div>
+                    {isLoading ? (
+                        <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-slate-400" /></div>
+                    ) : readError ? (
+                        <div className="text-xs text-rose-400 bg-rose-950/30 p-3 rounded-lg border border-rose-500/30">{readError}</div>
+                    ) : !isComplete ? (
+                        <div className="text-xs text-yellow-300 bg-yellow-950/30 p-3 rounded-lg border border-yellow-500/30 flex items-center gap-2">
+                            <AlertTriangle size={14} /> Välj kolumner för datum, text och belopp.
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {parsed.slice(0, PREVIEW_ROWS).map(t => (
+                                <div key={t.id} className="flex items-center gap-2 bg-slate-800 p-2 rounded text-xs">
+                                    <span className="text-slate-400 w-20 shrink-0">{t.date}</span>
+                                    <span className="flex-1 truncate text-white">{t.description}</span>
+                                    <span className={cn("font-mono shrink-0", t.amount < 0 ? "text-rose-300" : "text-emerald-300")}>{formatMoney(t.amount)}</span>
+                                    {t.balance !== undefined && <span className="font-mono text-slate-500 shrink-0">{formatMoney(t.balance)}</span>}
+                                </div>
+                            ))}
+                            <div className="text-[10px] text-slate-500 pt-1">
+                                {parsed.length} transaktioner tolkade{skippedCount > 0 && `, ${skippedCount} rader hoppades över (tomma, belopp 0 eller ogiltigt datum)`}.
+                            </div>
+                            {invalidDateCount > 0 && (
+                                <div className="text-[10px] text-yellow-300 flex items-center gap-1">
+                                    <AlertTriangle size={10} /> {invalidDateCount} rader med belopp har ett datum som inte kunde tolkas. Kontrollera datumformatet.
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="rounded border-slate-600 bg-slate-800" />
+                    {isSavedProfile ? 'Spara ändringar i kontots importprofil' : 'Spara som importprofil för kontot'}
+                </label>
+
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={onCancel} className="flex-1">Avbryt</Button>
+                    <Button onClick={() => onConfirm(parsed, profile, saveProfile, invalidDateCount)} disabled={!isComplete || parsed.length === 0 || isLoading} className="flex-1">
+                        Importera {parsed.length > 0 ? parsed.length : ''}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
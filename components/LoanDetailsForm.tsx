@@ -0,0 +1,94 @@
+import React from 'react';
+import { useApp } from '../store';
+import { LoanDetails, LoanKind } from '../types';
+import { Input } from './components';
+import { LOAN_KIND_LABELS } from '../services/loanService';
+import { Plus, Trash2 } from 'lucide-react';
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-blue-500";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 block";
+const toNumber = (value: string) => Number(value.replace(',', '.')) || 0;
+
+export const LoanDetailsForm: React.FC<{ loan: LoanDetails, onChange: (loan: LoanDetails) => void }> = ({ loan, onChange }) => {
+    const { buckets, subCategories } = useApp();
+    const update = (values: Partial<LoanDetails>) => onChange({ ...loan, ...values });
+    const rates = [...loan.rateHistory].sort((a, b) => a.date.localeCompare(b.date));
+
+    const updateRate = (index: number, values: Partial<LoanDetails['rateHistory'][number]>) =>
+        update({ rateHistory: rates.map((r, i) => i === index ? { ...r, ...values } : r) });
+
+    return (
+        <div className="space-y-4 border-t border-slate-700 pt-4">
+            <div>
+                <label className={labelClass}>Typ av lån</label>
+                <select className={selectClass} value={loan.kind} onChange={e => update({ kind: e.target.value as LoanKind })}>
+                    {(Object.keys(LOAN_KIND_LABELS) as LoanKind[]).map(kind => <option key={kind} value={kind}>{LOAN_KIND_LABELS[kind]}</option>)}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <Input label="Lånebelopp" type="number" value={loan.principal || ''} onChange={e => update({ principal: toNumber(e.target.value) })} />
+                <Input label="Startdatum" type="date" value={loan.startDate} onChange={e => update({ startDate: e.target.value })} />
+                <Input label="Kvar att betala" type="number" value={loan.balance || ''} onChange={e => update({ balance: toNumber(e.target.value) })} />
+                <Input label="Per datum" type="date" value={loan.balanceDate} onChange={e => update({ balanceDate: e.target.value })} />
+            </div>
+
+            <div>
+                <label className={labelClass}>Räntehistorik</label>
+                <div className="space-y-2">
+                    {rates.map((rate, i) => (
+                        <div key={i} className="flex gap-2 items-center">
+                            <input type="date" className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white" value={rate.date} onChange={e => updateRate(i, { date: e.target.value })} />
+                            <input type="number" step="0.01" className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono" value={rate.annualRate} onChange={e => updateRate(i, { annualRate: toNumber(e.target.value) })} />
+                            <span className="text-xs text-slate-500">%</span>
+                            <button
+                                onClick={() => update({ rateHistory: rates.filter((_, j) => j !== i) })}
+                                disabled={rates.length === 1}
+                                className="text-slate-600 hover:text-rose-400 disabled:opacity-30 p-1"
+                                title="Ta bort ränta"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => update({ rateHistory: [...rates, { date: new Date().toISOString().slice(0, 10), annualRate: rates[rates.length - 1]?.annualRate || 0 }] })}
+                    className="mt-2 text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                >
+                    <Plus size={12} /> Ny ränta
+                </button>
+            </div>
+
+            <div>
+                <label className={labelClass}>Återbetalning</label>
+                <select className={selectClass} value={loan.method} onChange={e => update({ method: e.target.value as LoanDetails['method'] })}>
+                    <option value="ANNUITY">Annuitet (lika stora betalningar)</option>
+                    <option value="STRAIGHT">Rak amortering (fast amortering + ränta)</option>
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                {loan.method === 'ANNUITY'
+                    ? <Input label="Löptid (månader)" type="number" value={loan.termMonths || ''} onChange={e => update({ termMonths: Math.round(toNumber(e.target.value)) || undefined })} />
+                    : <Input label="Amortering/mån" type="number" value={loan.monthlyAmortization || ''} onChange={e => update({ monthlyAmortization: toNumber(e.target.value) || undefined })} />}
+                <Input label="Avgift/mån" type="number" value={loan.monthlyFee || ''} onChange={e => update({ monthlyFee: toNumber(e.target.value) || undefined })} />
+            </div>
+
+            <div>
+                <label className={labelClass}>Betalningar bokförs på</label>
+                <div className="grid grid-cols-2 gap-3">
+                    <select className={selectClass} value={loan.paymentBucketId || ''} onChange={e => update({ paymentBucketId: e.target.value || undefined })}>
+                        <option value="">Ingen budgetpost</option>
+                        {buckets.filter(b => !b.archivedDate).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                    </select>
+                    <select className={selectClass} value={loan.paymentSubCategoryId || ''} onChange={e => update({ paymentSubCategoryId: e.target.value || undefined })}>
+                        <option value="">Ingen kategori</option>
+                        {subCategories.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+                <p className="text-[10px] text-slate-500 mt-1">Betalningar som hamnar här delas automatiskt upp i ränta, avgift och amortering.</p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../store';
+import { Transaction } from '../types';
+import { Modal, Button, Input, cn } from './components';
+import { previewRuleReapply, RuleReapplyProtection } from '../services/ruleReapply';
+import { formatMoney } from '../utils';
+import { format, subMonths } from 'date-fns';
+import { ArrowRight, Loader2, ShieldCheck } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const PROTECTION_LABELS: Record<RuleReapplyProtection, string> = {
+    approved: 'Manuellt godkänd',
+    edited: 'Handredigerad',
+    manual: 'Manuellt skapad',
+    linked: 'Länkad'
+};
+
+export const RuleReapplyModal: React.FC<Props> = ({ isOpen, onClose }) => {
+    const { transactions, importRules, accounts, buckets, mainCategories, subCategories, updateTransactions } = useApp();
+    const [startDate, setStartDate] = useState(() => format(subMonths(new Date(), 12), 'yyyy-MM-dd'));
+    const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+    const [accountIds, setAccountIds] = useState<string[]>([]);
+    const [includeProtected, setIncludeProtected] = useState(false);
+    const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+    const [isApplying, setIsApplying] = useState(false);
+
+    const changes = useMemo(() => {
+        if (!isOpen) return [];
+        return previewRuleReapply(transactions, importRules, { startDate, endDate, accountIds });
+    }, [isOpen, transactions, importRules, startDate, endDate, accountIds]);
+
+    const visibleChanges = useMemo(() => changes.filter(c => includeProtected || !c.protection), [changes, includeProtected]);
+    const protectedCount = changes.length - changes.filter(c => !c.protection).length;
+    const selectedChanges = visibleChanges.filter(c => !excludedIds.has(c.before.id));
+
+    const describeCategory = (t: Transaction) => {
+        if (!t.type) return 'Okategoriserad';
+        if (t.type === 'TRANSFER') return `Överföring: ${buckets.find(b => b.id === t.bucketId)?.name || (t.bucketId === 'INTERNAL' ? 'Intern' : 'Ingen')}`;
+        const main = mainCategories.find(c => c.id === t.categoryMainId)?.name || 'Ingen';
+        const sub = t.categorySubId ? subCategories.find(s => s.id === t.categorySubId)?.name : undefined;
+        return `${t.type === 'INCOME' ? 'Inkomst' : 'Utgift'}: ${main}${sub ? ' / ' + sub : ''}`;
+    };
+
+    const toggleAccount = (id: string) => {
+        setAccountIds(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+    };
+
+    const toggleExcluded = (id: string) => {
+        setExcludedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const handleApply = async () => {
+        if (selectedChanges.length === 0) return;
+        if (!confirm(`Uppdatera kategoriseringen på ${selectedChanges.length} transaktioner?`)) return;
+        setIsApplying(true);
+        try {
+            await updateTransactions(selectedChanges.map(c => c.after));
+            setExcludedIds(new Set());
+            onClose();
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Kör regler på historik">
+            <div className="space-y-4">
+                <p className="text-xs text-slate-400">Reglerna körs i prioritetsordning mot redan sparade transaktioner. Granska ändringarna innan de sparas.</p>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <Input label="Från" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+                    <Input label="Till" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
+                </div>
+
+                <div>
+                    <label className="text-xs font-medium text-slate-400 uppercase tracking-wider block mb-1">Konton</label>
+                    <div className="flex flex-wrap gap-1">
+                        <button onClick={() => setAccountIds([])} className={cn("text-xs px-2 py-1 rounded transition-all", accountIds.length === 0 ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}>Alla</button>
+                        {accounts.map(a => (
+                            <button key={a.id} onClick={() => toggleAccount(a.id)} className={cn("text-xs px-2 py-1 rounded transition-all", accountIds.includes(a.id) ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}>
+                                {a.icon} {a.name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={includeProtected} onChange={e => setIncludeProtected(e.target.checked)} className="mt-1 rounded bg-slate-700 border-slate-600" />
+                    <span>
+                        Ta med skyddade rader ({protectedCount})
+                        <span className="block text-[10px] text-slate-500">Manuellt godkända, handredigerade, manuellt skapade och länkade transaktioner hoppas annars över.</span>
+                    </span>
+                </label>
+
+                {visibleChanges.length === 0 ? (
+                    <div className="text-center text-sm text-slate-400 py-6">Inga transaktioner skulle ändras.</div>
+                ) : (
+                    <div className="space-y-1 max-h-[45vh] overflow-y-auto pr-1 no-scrollbar">
+                        {visibleChanges.map(c => {
+                            const isSelected = !excludedIds.has(c.before.id);
+                            return (
+                                <button
+                                    key={c.before.id}
+                                    onClick={() => toggleExcluded(c.before.id)}
+                                    className={cn("w-full text-left p-2 rounded-lg border transition-colors", isSelected ? "bg-slate-800 border-slate-700" : "bg-slate-900/50 border-slate-800 opacity-50")}
+                                >
+                                    <div className="flex justify-between items-center gap-2 text-sm">
+                                        <span className="text-white truncate">{c.before.description}</span>
+                                        <span className="text-slate-300 font-mono shrink-0">{formatMoney(c.before.amount)}</span>
+                                    </div>
+                                    <div className="text-[10px] text-slate-500 flex items-center gap-2">
+                                        <span>{c.before.date}</span>
+                                        <span>• Regel: {c.rule.keyword || 'Valfri text'}</span>
+                                        {c.protection && <span className="text-yellow-400 flex items-center gap-1"><ShieldCheck size={10} /> {PROTECTION_LABELS[c.protection]}</span>}
+                                    </div>
+                                    <div className="text-xs flex items-center gap-2 mt-1">
+                                        <span className="text-rose-300 line-through truncate">{describeCategory(c.before)}</span>
+                                        <ArrowRight size={12} className="text-slate-500 shrink-0" />
+                                        <span className="text-emerald-300 truncate">{describeCategory(c.after)}</span>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="flex gap-2 pt-2 border-t border-slate-700">
+                    <Button variant="secondary" onClick={onClose} className="flex-1">Avbryt</Button>
+                    <Button onClick={handleApply} disabled={selectedChanges.length === 0 || isApplying} className="flex-1">
+                        {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : `Uppdatera ${selectedChanges.length}`}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
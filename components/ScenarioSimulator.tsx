@@ -0,0 +1,285 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store';
+import { BudgetScenario, ScenarioChange } from '../types';
+import { formatMoney, generateId } from '../utils';
+import { cn, Button, Input } from './components';
+import {
+    SCENARIO_HORIZONS, SCENARIO_CHANGE_LABELS, ScenarioContext, ScenarioMonth,
+    projectScenario, buildScenarioTemplateChanges, describeScenarioChange, createScenarioChange
+} from '../services/scenarioService';
+import { ResponsiveContainer, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { Sliders, Plus, Trash2, Edit2, Columns, FileCheck, X } from 'lucide-react';
+
+const fieldClass = "bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white";
+const CHART_COLORS = { baseline: '#64748b', a: '#f59e0b', b: '#8b5cf6', loan: '#ef4444' };
+
+const summarize = (months: ScenarioMonth[]) => {
+    const last = months[months.length - 1];
+    return {
+        avgSurplus: months.length > 0 ? months.reduce((sum, m) => sum + m.surplus, 0) / months.length : 0,
+        endSurplus: last?.cumulativeSurplus || 0,
+        endSavings: last?.cumulativeSavings || 0,
+        endLoan: last?.loanBalance || 0,
+        negativeMonths: months.filter(m => m.surplus < 0).length
+    };
+};
+
+export const ScenarioSimulator: React.FC<{ activeScenarioId: string | null, onActivate: (id: string | null) => void }> = ({ activeScenarioId, onActivate }) => {
+    const { scenarios, saveScenario, deleteScenario, users, buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, settings, selectedMonth, addBucket, addTemplate } = useApp();
+    const [draft, setDraft] = useState<BudgetScenario | null>(null);
+    const [compareIds, setCompareIds] = useState<string[] | null>(null);
+    const [promoteMessage, setPromoteMessage] = useState('');
+
+    const context: ScenarioContext = useMemo(() => ({ users, buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, payday: settings.payday }),
+        [users, buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, settings.payday]);
+
+    const names = { users, buckets, budgetGroups };
+    const shown = draft || scenarios.find(s => s.id === activeScenarioId) || null;
+    const compared = compareIds?.length === 2 ? compareIds.map(id => scenarios.find(s => s.id === id)).filter((s): s is BudgetScenario => !!s) : [];
+
+    // Both scenarios in a comparison share the earliest start and the longest horizon. Undated changes
+    // keep starting at their own scenario's start.
+    const projection = useMemo(() => {
+        const subjects = compared.length === 2 ? compared : shown ? [shown] : [];
+        if (subjects.length === 0) return null;
+        const startMonth = subjects.map(s => s.startMonth).sort()[0];
+        const horizonMonths = Math.max(...subjects.map(s => s.horizonMonths));
+        const baseline = projectScenario({ startMonth, horizonMonths, changes: [] }, context);
+        const results = subjects.map(s => projectScenario({
+            ...s,
+            startMonth,
+            horizonMonths,
+            changes: s.changes.map(c => ({ ...c, startMonth: c.startMonth || s.startMonth }))
+        }, context));
+        const chart = baseline.map((m, i) => ({
+            name: format(parseISO(`${m.monthKey}-01`), 'MMM yy', { locale: sv }),
+            baseline: Math.round(m.cumulativeSurplus),
+            a: Math.round(results[0][i].cumulativeSurplus),
+            b: results[1] ? Math.round(results[1][i].cumulativeSurplus) : undefined,
+            loan: results.length === 1 && results[0][i].loanBalance > 0 ? Math.round(results[0][i].loanBalance) : undefined
+        }));
+        return { subjects, baseline: summarize(baseline), results: results.map(summarize), chart, hasLoan: chart.some(c => c.loan !== undefined) };
+    }, [compared.map(s => s.id).join(), shown, context]);
+
+    const startNew = () => {
+        setCompareIds(null);
+        setDraft({ id: generateId(), budgetId: '', name: 'Nytt scenario', createdAt: new Date().toISOString(), startMonth: selectedMonth, horizonMonths: 24, changes: [] });
+    };
+
+    const updateChange = (id: string, patch: Partial<ScenarioChange>) => {
+        if (!draft) return;
+        setDraft({ ...draft, changes: draft.changes.map(c => c.id === id ? { ...c, ...patch } as ScenarioChange : c) });
+    };
+
+    const addChange = (kind: ScenarioChange['kind']) => {
+        if (!draft) return;
+        const change = createScenarioChange(kind, { userId: users[0]?.id, bucketId: buckets[0]?.id, groupId: budgetGroups[0]?.id });
+        setDraft({ ...draft, changes: [...draft.changes, change] });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        await saveScenario(draft);
+        onActivate(draft.id);
+        setDraft(null);
+    };
+
+    const handlePromote = async (scenario: BudgetScenario) => {
+        const name = prompt('Namn på den nya budgetmallen:', scenario.name);
+        if (!name) return;
+        const changes = buildScenarioTemplateChanges(scenario, buckets);
+        for (const bucket of changes.newBuckets) await addBucket(bucket);
+        await addTemplate(name, selectedMonth, { groupLimits: changes.groupLimits, bucketValues: changes.bucketValues });
+        setPromoteMessage(changes.skipped.length > 0
+            ? `Mallen "${name}" skapades. Inkomständringar ingår inte i en mall: ${changes.skipped.map(c => describeScenarioChange(c, names)).join(', ')}.`
+            : `Mallen "${name}" skapades. Välj den för en månad under Budget.`);
+    };
+
+    const toggleCompare = (id: string) => {
+        const current = compareIds || [];
+        setCompareIds(current.includes(id) ? current.filter(x => x !== id) : [...current, id].slice(-2));
+    };
+
+    const renderChangeFields = (c: ScenarioChange) => {
+        const num = (value: number, onChange: (v: number) => void, width = 'w-24') => (
+            <input type="number" className={cn(fieldClass, width)} value={value} onChange={e => onChange(Number(e.target.value))} />
+        );
+        const userSelect = (userId: string) => (
+            <select className={fieldClass} value={userId} onChange={e => updateChange(c.id, { userId: e.target.value } as Partial<ScenarioChange>)}>
+                {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+            </select>
+        );
+        switch (c.kind) {
+            case 'salary':
+                return <>{userSelect(c.userId)} {num(c.salary, v => updateChange(c.id, { salary: v }))} <span className="text-slate-500">kr/mån</span></>;
+            case 'parentalLeave':
+                return <>{userSelect(c.userId)} {num(c.days, v => updateChange(c.id, { days: v }), 'w-16')} <span className="text-slate-500">dagar/mån à</span>
+                    <input type="number" className={cn(fieldClass, 'w-20')} placeholder="Senaste" value={c.dailyDeduction ?? ''} onChange={e => updateChange(c.id, { dailyDeduction: e.target.value === '' ? undefined : Number(e.target.value) })} /> <span className="text-slate-500">kr</span></>;
+            case 'addBucket':
+                return <>
+                    <input className={cn(fieldClass, 'w-32')} value={c.name} onChange={e => updateChange(c.id, { name: e.target.value })} />
+                    {num(c.amount, v => updateChange(c.id, { amount: v }))}
+                    <select className={fieldClass} value={c.budgetGroupId || ''} onChange={e => updateChange(c.id, { budgetGroupId: e.target.value || undefined })}>
+                        <option value="">Egen rad</option>
+                        {budgetGroups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </select>
+                    <label className="flex items-center gap-1 text-slate-400"><input type="checkbox" checked={!!c.isSavings} onChange={e => updateChange(c.id, { isSavings: e.target.checked })} /> Sparande</label>
+                </>;
+            case 'removeBucket':
+                return <select className={fieldClass} value={c.bucketId} onChange={e => updateChange(c.id, { bucketId: e.target.value })}>
+                    {buckets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>;
+            case 'groupLimit':
+                return <>
+                    <select className={fieldClass} value={c.groupId} onChange={e => updateChange(c.id, { groupId: e.target.value })}>
+                        {budgetGroups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </select>
+                    {num(c.limit, v => updateChange(c.id, { limit: v }))} <span className="text-slate-500">kr/mån</span>
+                </>;
+            case 'loan':
+                return <>
+                    <input className={cn(fieldClass, 'w-28')} value={c.name} onChange={e => updateChange(c.id, { name: e.target.value })} />
+                    {num(c.principal, v => updateChange(c.id, { principal: v }))} <span className="text-slate-500">kr</span>
+                    {num(c.annualRate, v => updateChange(c.id, { annualRate: v }), 'w-16')} <span className="text-slate-500">%</span>
+                    {num(c.years, v => updateChange(c.id, { years: v }), 'w-14')} <span className="text-slate-500">år</span>
+                </>;
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-slate-700 p-6 rounded-2xl space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-amber-400">
+                    <Sliders className="w-5 h-5" />
+                    <h3 className="font-bold">Scenario Simulator</h3>
+                </div>
+                {!draft && <button onClick={startNew} className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"><Plus size={14} /> Nytt scenario</button>}
+            </div>
+            <p className="text-sm text-slate-400">Vad händer om lönen ändras, någon går på föräldraledighet eller vi tar ett lån?</p>
+
+            {/* Saved scenarios */}
+            {!draft && scenarios.length > 0 && (
+                <div className="space-y-1">
+                    {scenarios.map(s => {
+                        const isActive = s.id === activeScenarioId;
+                        const isCompared = !!compareIds?.includes(s.id);
+                        return (
+                            <div key={s.id} className={cn("flex items-center gap-2 p-2 rounded-lg border transition-colors", isActive ? "bg-amber-500/10 border-amber-500/30" : "bg-slate-900/50 border-slate-800")}>
+                                <button onClick={() => { setCompareIds(null); onActivate(isActive ? null : s.id); }} className="flex-1 text-left min-w-0">
+                                    <div className="text-sm text-white truncate">{s.name}</div>
+                                    <div className="text-[10px] text-slate-500 truncate">{s.changes.map(c => describeScenarioChange(c, names)).join(' · ') || 'Inga ändringar'}</div>
+                                </button>
+                                {compareIds && (
+                                    <input type="checkbox" checked={isCompared} onChange={() => toggleCompare(s.id)} title="Jämför" />
+                                )}
+                                <button onClick={() => handlePromote(s)} className="p-1 text-slate-400 hover:text-emerald-400" title="Gör till budgetmall"><FileCheck size={14} /></button>
+                                <button onClick={() => { setCompareIds(null); setDraft(s); }} className="p-1 text-slate-400 hover:text-white" title="Redigera"><Edit2 size={14} /></button>
+                                <button onClick={() => { if (confirm(`Ta bort "${s.name}"?`)) { deleteScenario(s.id); if (isActive) onActivate(null); } }} className="p-1 text-slate-400 hover:text-rose-400" title="Ta bort"><Trash2 size={14} /></button>
+                            </div>
+                        );
+                    })}
+                    {scenarios.length >= 2 && (
+                        <button onClick={() => setCompareIds(compareIds ? null : [])} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 pt-1">
+                            <Columns size={12} /> {compareIds ? 'Avsluta jämförelse' : 'Jämför två scenarier'}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {promoteMessage && (
+                <div className="text-xs text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded p-2 flex justify-between gap-2">
+                    <span>{promoteMessage}</span>
+                    <button onClick={() => setPromoteMessage('')}><X size={12} /></button>
+                </div>
+            )}
+
+            {/* Editor */}
+            {draft && (
+                <div className="space-y-3 bg-slate-900/50 p-3 rounded-xl border border-slate-700">
+                    <Input label="Namn" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                        <span>Från</span>
+                        <input type="month" className={fieldClass} value={draft.startMonth} onChange={e => e.target.value && setDraft({ ...draft, startMonth: e.target.value })} />
+                        <span>i</span>
+                        {SCENARIO_HORIZONS.map(h => (
+                            <button key={h} onClick={() => setDraft({ ...draft, horizonMonths: h })} className={cn("px-2 py-1 rounded", draft.horizonMonths === h ? "bg-amber-500 text-slate-900 font-bold" : "bg-slate-800 hover:text-white")}>{h} mån</button>
+                        ))}
+                    </div>
+
+                    {draft.changes.map(c => (
+                        <div key={c.id} className="bg-slate-800/50 rounded-lg p-2 space-y-2">
+                            <div className="flex justify-between items-center">
+                                <span className="text-[10px] uppercase font-bold text-amber-400">{SCENARIO_CHANGE_LABELS[c.kind]}</span>
+                                <button onClick={() => setDraft({ ...draft, changes: draft.changes.filter(x => x.id !== c.id) })} className="text-slate-500 hover:text-rose-400"><X size={12} /></button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 text-xs">{renderChangeFields(c)}</div>
+                            <div className="flex flex-wrap items-center gap-2 text-[10px] text-slate-500">
+                                <span>Gäller</span>
+                                <input type="month" className={fieldClass} value={c.startMonth || ''} onChange={e => updateChange(c.id, { startMonth: e.target.value || undefined })} />
+                                <span>–</span>
+                                <input type="month" className={fieldClass} value={c.endMonth || ''} onChange={e => updateChange(c.id, { endMonth: e.target.value || undefined })} />
+                                <span>(tomt = hela perioden)</span>
+                            </div>
+                        </div>
+                    ))}
+
+                    <select className={cn(fieldClass, 'w-full py-2')} value="" onChange={e => e.target.value && addChange(e.target.value as ScenarioChange['kind'])}>
+                        <option value="">+ Lägg till ändring...</option>
+                        {(Object.keys(SCENARIO_CHANGE_LABELS) as ScenarioChange['kind'][]).map(kind => (
+                            <option key={kind} value={kind}>{SCENARIO_CHANGE_LABELS[kind]}</option>
+                        ))}
+                    </select>
+
+                    <div className="flex gap-2">
+                        <Button variant="secondary" onClick={() => setDraft(null)} className="flex-1">Avbryt</Button>
+                        <Button onClick={handleSave} className="flex-1" disabled={!draft.name.trim()}>Spara scenario</Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Projection */}
+            {projection && (
+                <div className="space-y-3">
+                    <div className={cn("grid gap-2", projection.subjects.length === 2 ? "grid-cols-3" : "grid-cols-2")}>
+                        {[{ label: 'Utan ändringar', stats: projection.baseline, color: 'text-slate-300' },
+                          ...projection.subjects.map((s, i) => ({ label: s.name, stats: projection.results[i], color: i === 0 ? 'text-amber-400' : 'text-violet-400' }))
+                        ].map(col => (
+                            <div key={col.label} className="bg-slate-900/50 rounded-lg p-2 border border-slate-800 space-y-1">
+                                <div className={cn("text-[10px] font-bold uppercase truncate", col.color)}>{col.label}</div>
+                                <div className="text-xs text-slate-400">Snitt/mån <span className="font-mono text-white float-right">{formatMoney(col.stats.avgSurplus)}</span></div>
+                                <div className="text-xs text-slate-400">Ackumulerat <span className="font-mono text-white float-right">{formatMoney(col.stats.endSurplus)}</span></div>
+                                <div className="text-xs text-slate-400">Sparat <span className="font-mono text-white float-right">{formatMoney(col.stats.endSavings)}</span></div>
+                                {col.stats.endLoan > 0 && <div className="text-xs text-slate-400">Kvar på lån <span className="font-mono text-white float-right">{formatMoney(col.stats.endLoan)}</span></div>}
+                                {col.stats.negativeMonths > 0 && <div className="text-[10px] text-rose-400">{col.stats.negativeMonths} mån med underskott</div>}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="h-56">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={projection.chart} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} interval="preserveStartEnd" />
+                                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val) => `${Math.round(val / 1000)}k`} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }}
+                                    itemStyle={{ fontSize: '12px' }}
+                                    formatter={(value: number) => formatMoney(value)}
+                                    labelStyle={{ color: '#fff', fontWeight: 'bold' }}
+                                />
+                                <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '11px', paddingBottom: '8px' }} />
+                                <Line type="monotone" dataKey="baseline" name="Utan ändringar" stroke={CHART_COLORS.baseline} strokeDasharray="4 4" dot={false} />
+                                <Line type="monotone" dataKey="a" name={projection.subjects[0].name} stroke={CHART_COLORS.a} strokeWidth={2} dot={false} />
+                                {projection.subjects[1] && <Line type="monotone" dataKey="b" name={projection.subjects[1].name} stroke={CHART_COLORS.b} strokeWidth={2} dot={false} />}
+                                {projection.hasLoan && <Line type="monotone" dataKey="loan" name="Lånesaldo" stroke={CHART_COLORS.loan} dot={false} />}
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <p className="text-[10px] text-slate-500">Ackumulerat överskott efter budgeterade utgifter och sparande. Framtida inkomster antas vara som senast registrerade månad.</p>
+                </div>
+            )}
+        </div>
+    );
+};
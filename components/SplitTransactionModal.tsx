@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { useApp } from '../store';
+import { Transaction, TransactionSplit, TransactionType } from '../types';
+import { Modal, Button, cn } from './components';
+import { formatMoney, generateId } from '../utils';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+    transaction: Transaction | null;
+    onClose: () => void;
+}
+
+// Amounts are edited as positive numbers, the parent's sign is applied when saving
+interface SplitLineDraft {
+    id: string;
+    amount: string;
+    type: TransactionType;
+    bucketId?: string;
+    categoryMainId?: string;
+    categorySubId?: string;
+    note: string;
+}
+
+const toDraft = (line: TransactionSplit): SplitLineDraft => ({ ...line, amount: Math.abs(line.amount).toString(), note: line.note || '' });
+
+const parseAmount = (val: string) => {
+    const n = parseFloat(val.replace(',', '.'));
+    return isNaN(n) ? 0 : Math.abs(n);
+};
+
+export const SplitTransactionModal: React.FC<Props> = ({ transaction, onClose }) => {
+    const { buckets, mainCategories, subCategories, updateTransaction } = useApp();
+    const [lines, setLines] = useState<SplitLineDraft[]>([]);
+
+    useEffect(() => {
+        if (!transaction) return;
+        if (transaction.splits && transaction.splits.length > 0) {
+            setLines(transaction.splits.map(toDraft));
+        } else {
+            // Start from the current categorization so the user only has to carve out the other part
+            const type = transaction.type || (transaction.amount < 0 ? 'EXPENSE' : 'INCOME');
+            setLines([
+                { id: generateId(), amount: Math.abs(transaction.amount).toString(), type, bucketId: transaction.bucketId, categoryMainId: transaction.categoryMainId, categorySubId: transaction.categorySubId, note: '' },
+                { id: generateId(), amount: '', type, note: '' }
+            ]);
+        }
+    }, [transaction]);
+
+    if (!transaction) return null;
+
+    const total = Math.abs(transaction.amount);
+    const allocated = Math.round(lines.reduce((sum, l) => sum + parseAmount(l.amount), 0) * 100) / 100;
+    const remainder = Math.round((total - allocated) * 100) / 100;
+    const isComplete = lines.length >= 2 && remainder === 0 && lines.every(l => parseAmount(l.amount) > 0);
+
+    const updateLine = (id: string, patch: Partial<SplitLineDraft>) => {
+        setLines(prev => prev.map(l => {
+            if (l.id !== id) return l;
+            const next = { ...l, ...patch };
+            if (patch.type === 'TRANSFER') { next.categoryMainId = undefined; next.categorySubId = undefined; }
+            if (patch.type && patch.type !== 'TRANSFER') next.bucketId = undefined;
+            if (patch.categoryMainId !== undefined) next.categorySubId = undefined;
+            return next;
+        }));
+    };
+
+    const fillRemainder = (id: string) => {
+        const line = lines.find(l => l.id === id);
+        if (!line) return;
+        updateLine(id, { amount: (Math.round((parseAmount(line.amount) + remainder) * 100) / 100).toString() });
+    };
+
+    const handleSave = async () => {
+        if (!isComplete) return;
+        const sign = transaction.amount < 0 ? -1 : 1;
+        const splits: TransactionSplit[] = lines.map(l => ({
+            id: l.id,
+            amount: sign * parseAmount(l.amount),
+            type: l.type,
+            bucketId: l.bucketId || undefined,
+            categoryMainId: l.categoryMainId || undefined,
+            categorySubId: l.categorySubId || undefined,
+            note: l.note.trim() || undefined
+        }));
+        await updateTransaction({ ...transaction, splits, categorizedManually: true });
+        onClose();
+    };
+
+    const handleRemoveSplit = async () => {
+        if (!confirm('Ta bort uppdelningen? Transaktionen räknas då på sin egen kategori igen.')) return;
+        await updateTransaction({ ...transaction, splits: undefined });
+        onClose();
+    };
+
+    const selectClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white";
+
+    return (
+        <Modal isOpen={!!transaction} onClose={onClose} title="Dela upp transaktion">
+            <div className="space-y-4">
+                <div className="bg-slate-800 p-3 rounded-lg flex justify-between items-center text-sm">
+                    <div className="min-w-0">
+                        <div className="text-white font-medium truncate">{transaction.description}</div>
+                        <div className="text-[10px] text-slate-500">{transaction.date}</div>
+                    </div>
+                    <div className="font-mono font-bold text-white shrink-0">{formatMoney(transaction.amount)}</div>
+                </div>
+
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1 no-scrollbar">
+                    {lines.map((line, idx) => (
+                        <div key={line.id} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <span className="text-[10px] text-slate-500 font-bold w-4">{idx + 1}</span>
+                                <input
+                                    className="w-28 bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white font-mono"
+                                    inputMode="decimal"
+                                    placeholder="0"
+                                    value={line.amount}
+                                    onChange={e => updateLine(line.id, { amount: e.target.value })}
+                                />
+                                {remainder !== 0 && (
+                                    <button onClick={() => fillRemainder(line.id)} className="text-[10px] text-blue-400 hover:text-blue-300">+ rest</button>
+                                )}
+                                <div className="flex bg-slate-800 rounded p-0.5 ml-auto">
+                                    {(['EXPENSE', 'TRANSFER', 'INCOME'] as TransactionType[]).map(type => (
+                                        <button key={type} onClick={() => updateLine(line.id, { type })} className={cn("text-[10px] px-2 py-1 rounded", line.type === type ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>
+                                            {type === 'EXPENSE' ? 'Utgift' : type === 'TRANSFER' ? 'Överföring' : 'Inkomst'}
+                                        </button>
+                                    ))}
+                                </div>
+                                {lines.length > 2 && (
+                                    <button onClick={() => setLines(prev => prev.filter(l => l.id !== line.id))} className="p-1 text-slate-500 hover:text-rose-400"><Trash2 size={12} /></button>
+                                )}
+                            </div>
+
+                            {line.type === 'TRANSFER' ? (
+                                <select className={selectClass} value={line.bucketId || ''} onChange={e => updateLine(line.id, { bucketId: e.target.value })}>
+                                    <option value="">Välj budgetpost...</option>
+                                    {buckets.filter(b => !b.archivedDate).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                </select>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select className={selectClass} value={line.categoryMainId || ''} onChange={e => updateLine(line.id, { categoryMainId: e.target.value })}>
+                                        <option value="">Huvudkategori...</option>
+                                        {mainCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    </select>
+                                    {line.type === 'EXPENSE' && (
+                                        <select className={selectClass} value={line.categorySubId || ''} onChange={e => updateLine(line.id, { categorySubId: e.target.value })} disabled={!line.categoryMainId}>
+                                            <option value="">Underkategori...</option>
+                                            {subCategories.filter(s => s.mainCategoryId === line.categoryMainId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                        </select>
+                                    )}
+                                </div>
+                            )}
+
+                            <input
+                                className="w-full bg-transparent border-b border-slate-700 px-1 py-1 text-xs text-slate-300 placeholder-slate-600 outline-none"
+                                placeholder="Notering (t.ex. Barnkläder)"
+                                value={line.note}
+                                onChange={e => updateLine(line.id, { note: e.target.value })}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <button onClick={() => setLines(prev => [...prev, { id: generateId(), amount: '', type: prev[prev.length - 1]?.type || 'EXPENSE', note: '' }])} className="w-full text-xs text-slate-400 hover:text-white py-2 border border-dashed border-slate-700 rounded-lg flex items-center justify-center gap-1">
+                    <Plus size={12} /> Lägg till rad
+                </button>
+
+                <div className={cn("text-xs text-center", remainder === 0 ? "text-emerald-400" : "text-yellow-400")}>
+                    {remainder === 0 ? 'Hela beloppet är fördelat.' : `${formatMoney(Math.abs(remainder))} ${remainder > 0 ? 'kvar att fördela' : 'för mycket fördelat'}.`}
+                </div>
+
+                <div className="flex gap-2 pt-2 border-t border-slate-700">
+                    {transaction.splits && transaction.splits.length > 0 && (
+                        <Button variant="danger" onClick={handleRemoveSplit} className="flex-1">Ta bort uppdelning</Button>
+                    )}
+                    <Button variant="secondary" onClick={onClose} className="flex-1">Avbryt</Button>
+                    <Button onClick={handleSave} disabled={!isComplete} className="flex-1">Spara</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -16,15 +16,16 @@ interface Props {
     filterType?: 'TRANSFER' | 'EXPENSE' | 'INCOME';
     unallocatedOnly?: boolean; // New prop for showing untagged transfers
     accountId?: string; // Needed when unallocatedOnly is true
+    transactions?: Transaction[]; // Ready-made list (e.g. a search result), skips the bucket/month filtering
 }
 
-export const TransactionDrillDown: React.FC<Props> = ({ bucketId, bucketName, month, payday, onClose, filterType, unallocatedOnly, accountId }) => {
+export const TransactionDrillDown: React.FC<Props> = ({ bucketId, bucketName, month, payday, onClose, filterType, unallocatedOnly, accountId, transactions: presetTransactions }) => {
   const { buckets, updateTransaction } = useApp();
   const actuals = useBudgetActuals(month, payday);
   const [mappingTx, setMappingTx] = useState<Transaction | null>(null);
   
   // Filtrera fram transaktionerna
-  const transactions = (actuals?.transactions || [])
+  const transactions = presetTransactions || (actuals?.transactions || [])
     .filter(t => {
         // If filtering by TRANSFER, we also accept INCOME as "Funding"
         const typeMatch = !filterType || t.type === filterType || (filterType === 'TRANSFER' && t.type === 'INCOME');
@@ -61,7 +62,8 @@ export const TransactionDrillDown: React.FC<Props> = ({ bucketId, bucketName, mo
           ...mappingTx,
           bucketId: bucketId,
           // If mapping to a bucket, we ensure it is categorized as a transfer (usually already is, but safety first)
-          type: 'TRANSFER'
+          type: 'TRANSFER',
+          categorizedManually: true
       });
       
       setMappingTx(null);
@@ -115,7 +117,7 @@ export const TransactionDrillDown: React.FC<Props> = ({ bucketId, bucketName, mo
                         return (
                             <div 
                                 key={t.id} 
-                                onClick={() => unallocatedOnly && setMappingTx(t)}
+                                onClick={() => unallocatedOnly && !t.splitParent && setMappingTx(t)}
                                 className={cn(
                                     "flex justify-between items-center p-3 bg-slate-900/50 border border-slate-800 rounded-lg transition-colors group",
                                     unallocatedOnly ? "cursor-pointer hover:bg-slate-800 hover:border-blue-500/50" : ""
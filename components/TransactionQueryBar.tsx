@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { Transaction } from '../types';
+import { translateTransactionQuery } from '../services/aiService';
+import { runTransactionQuery, isEmptyTransactionQuery, TransactionQuery } from '../services/transactionQuery';
+import { TransactionDrillDown } from './TransactionDrillDown';
+import { formatMoney } from '../utils';
+import { format } from 'date-fns';
+import { Loader2, MessageSquareText, X } from 'lucide-react';
+
+const WEEKDAY_LABELS = ['sön', 'mån', 'tis', 'ons', 'tor', 'fre', 'lör'];
+const TYPE_LABELS = { EXPENSE: 'Utgifter', TRANSFER: 'Överföringar', INCOME: 'Inkomster' };
+
+// Asks in plain language, shows the interpreted filter as chips so the user can tell what was actually searched
+export const TransactionQueryBar: React.FC = () => {
+    const { activeBudgetId, buckets, mainCategories, subCategories, settings, selectedMonth } = useApp();
+    const [question, setQuestion] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [result, setResult] = useState<{ query: TransactionQuery, transactions: Transaction[] } | null>(null);
+    const [showDrillDown, setShowDrillDown] = useState(false);
+
+    const handleAsk = async () => {
+        if (!question.trim()) return;
+        setIsLoading(true);
+        setError('');
+        setResult(null);
+        try {
+            const query = await translateTransactionQuery(question.trim(), format(new Date(), 'yyyy-MM-dd'), buckets, mainCategories, subCategories, settings.ai);
+            if (isEmptyTransactionQuery(query)) {
+                setError('Frågan gav inget filter. Försök vara mer specifik, t.ex. med period eller kategori.');
+                return;
+            }
+            setResult({ query, transactions: await runTransactionQuery(activeBudgetId, query) });
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Frågan kunde inte besvaras.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const describeQuery = (q: TransactionQuery): string[] => {
+        const names = (ids: string[] | undefined, list: { id: string, name: string }[]) => (ids || []).map(id => list.find(x => x.id === id)?.name).filter((n): n is string => !!n);
+        const chips: string[] = [];
+        if (q.startDate || q.endDate) chips.push(`${q.startDate || '…'} – ${q.endDate || '…'}`);
+        if (q.types) chips.push(q.types.map(t => TYPE_LABELS[t]).join(' / '));
+        chips.push(...names(q.categoryMainIds, mainCategories), ...names(q.categorySubIds, subCategories), ...names(q.bucketIds, buckets));
+        if (q.text) chips.push(`"${q.text}"`);
+        if (q.amountMin !== undefined || q.amountMax !== undefined) chips.push(`${q.amountMin ?? 0} – ${q.amountMax ?? '∞'} kr`);
+        if (q.weekdays) chips.push(q.weekdays.map(d => WEEKDAY_LABELS[d]).join(', '));
+        return chips;
+    };
+
+    const total = result ? result.transactions.reduce((sum, t) => sum - t.amount, 0) : 0;
+
+    return (
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-700/50 space-y-2">
+            <div className="flex items-center gap-2 bg-slate-900 rounded-lg px-3 border border-slate-700">
+                <MessageSquareText size={16} className="text-purple-400 shrink-0" />
+                <input
+                    className="bg-transparent border-none outline-none text-white text-sm w-full py-2 placeholder-slate-500"
+                    placeholder='Fråga, t.ex. "Hur mycket la vi på restaurang på helger i våras?"'
+                    value={question}
+                    onChange={e => setQuestion(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAsk()}
+                />
+                {isLoading ? <Loader2 size={16} className="animate-spin text-purple-400 shrink-0" /> : question && (
+                    <button onClick={() => { setQuestion(''); setResult(null); setError(''); }}><X size={14} className="text-slate-400" /></button>
+                )}
+            </div>
+
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+
+            {result && (
+                <button onClick={() => setShowDrillDown(true)} className="w-full text-left bg-slate-900/50 hover:bg-slate-900 rounded-lg p-3 border border-slate-700 transition-colors">
+                    <div className="flex justify-between items-center gap-2">
+                        <span className="text-sm text-white font-medium truncate">{result.query.title || question}</span>
+                        <span className="font-mono font-bold text-white shrink-0">{formatMoney(total)}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                        {describeQuery(result.query).map((chip, i) => (
+                            <span key={i} className="text-[10px] bg-slate-700 text-slate-300 px-2 py-0.5 rounded-full">{chip}</span>
+                        ))}
+                        <span className="text-[10px] text-slate-500 px-1 py-0.5">{result.transactions.length} transaktioner</span>
+                    </div>
+                </button>
+            )}
+
+            {showDrillDown && result && (
+                <TransactionDrillDown
+                    bucketName={result.query.title || question}
+                    month={selectedMonth}
+                    payday={settings.payday}
+                    transactions={result.transactions}
+                    onClose={() => setShowDrillDown(false)}
+                />
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 
-import Dexie, { type Table } from 'dexie';
-import { User, Account, Bucket, AppSettings, Transaction, ImportRule, MainCategory, SubCategory, BudgetGroup, IgnoredSubscription, BudgetTemplate, MonthConfig, Budget } from './types';
+import Dexie, { type DBCore, type DBCoreMutateRequest, type Middleware, type Table, type Transaction as DexieTransaction } from 'dexie';
+import { User, Account, Bucket, AppSettings, Transaction, ImportRule, MainCategory, SubCategory, BudgetGroup, IgnoredSubscription, BudgetTemplate, MonthConfig, Budget, ImportProfile, SieExportConfig, ImportBatch, AccountReconciliation, DismissedDuplicate, Merchant, AiReport, BudgetScenario, HousingScenario, ManualAsset, SyncTombstone } from './types';
+import { generateId } from './utils';
 
 export class FamilyFlowDB extends Dexie {
   budgets!: Table<Budget, string>;
@@ -10,35 +11,142 @@ export class FamilyFlowDB extends Dexie {
   settings!: Table<AppSettings & { id?: number }, number>;
   transactions!: Table<Transaction, string>;
   importRules!: Table<ImportRule, string>;
+  importProfiles!: Table<ImportProfile, string>;
+  importBatches!: Table<ImportBatch, string>;
+  reconciliations!: Table<AccountReconciliation, string>;
   
   mainCategories!: Table<MainCategory, string>;
   subCategories!: Table<SubCategory, string>;
   budgetGroups!: Table<BudgetGroup, string>;
   ignoredSubscriptions!: Table<IgnoredSubscription, string>;
+  dismissedDuplicates!: Table<DismissedDuplicate, string>;
+  merchants!: Table<Merchant, string>;
+  aiReports!: Table<AiReport, string>;
+  scenarios!: Table<BudgetScenario, string>;
+  housingScenarios!: Table<HousingScenario, string>;
+  assets!: Table<ManualAsset, string>;
   
   budgetTemplates!: Table<BudgetTemplate, string>;
   monthConfigs!: Table<MonthConfig, string>;
+  sieConfigs!: Table<SieExportConfig, string>;
+  syncTombstones!: Table<SyncTombstone, string>;
 
   constructor() {
     super('FamilyFlowDB');
     
     // Cast 'this' to 'any' to avoid potential environment-specific TS errors with version()
-    (this as any).version(11).stores({
+    (this as any).version(22).stores({
       budgets: 'id',
       users: 'id, budgetId',
       accounts: 'id, budgetId',
       buckets: 'id, budgetId, type, isSavings, accountId',
       settings: '++id',
-      transactions: 'id, budgetId, accountId, date, bucketId, categoryMainId, categorySubId, isVerified, description, linkedTransactionId, linkedExpenseId, [accountId+description]',
+      transactions: 'id, budgetId, accountId, date, bucketId, categoryMainId, categorySubId, isVerified, description, linkedTransactionId, linkedExpenseId, batchId, merchantId, [accountId+description], [accountId+merchantId]',
       importRules: 'id, budgetId, keyword, accountId',
+      importProfiles: 'id, budgetId, accountId',
+      importBatches: 'id, budgetId, accountId, createdAt',
+      reconciliations: 'id, budgetId, accountId, monthKey',
       mainCategories: 'id',
       subCategories: 'id, mainCategoryId, budgetGroupId',
       budgetGroups: 'id, budgetId',
       ignoredSubscriptions: 'id, budgetId',
+      dismissedDuplicates: 'id, budgetId',
+      merchants: 'id, budgetId, key',
+      aiReports: 'id, budgetId, monthKey',
+      scenarios: 'id, budgetId',
+      housingScenarios: 'id, budgetId',
+      assets: 'id, budgetId',
       budgetTemplates: 'id, budgetId',
-      monthConfigs: 'monthKey, budgetId'
+      monthConfigs: 'monthKey, budgetId',
+      sieConfigs: 'budgetId',
+      syncTombstones: 'id, table, deletedAt'
+    }).upgrade((tx: DexieTransaction) => {
+      // Rows from before change tracking count as written by this device now, so the first sync publishes them
+      const stamp = { updatedAt: Date.now(), deviceId: getDeviceId() };
+      return Promise.all(SYNCED_TABLES.map(name => tx.table(name).toCollection().modify((row: any) => {
+        if (!row.updatedAt) Object.assign(row, stamp);
+      })));
     });
+
+    SYNCED_TABLES.forEach(name => trackChanges(this, name));
+    this.use(tombstoneMiddleware);
   }
 }
 
+// Every table except the sync bookkeeping itself
+export const SYNCED_TABLES = ['budgets', 'users', 'accounts', 'buckets', 'settings', 'transactions', 'importRules', 'importProfiles', 'importBatches', 'reconciliations', 'mainCategories', 'subCategories', 'budgetGroups', 'ignoredSubscriptions', 'dismissedDuplicates', 'merchants', 'aiReports', 'scenarios', 'housingScenarios', 'assets', 'budgetTemplates', 'monthConfigs', 'sieConfigs'] as const;
+export type SyncedTableName = typeof SYNCED_TABLES[number];
+
+const DEVICE_ID_KEY = 'sync_device_id';
+
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = generateId();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+// Writes coming from the sync server keep their own updatedAt/deviceId and leave no tombstones
+const remoteTransactions = new WeakSet<object>();
+const isRemote = (trans: DexieTransaction) => remoteTransactions.has(trans);
+
+export const runRemoteWrite = <T>(tables: string[], fn: () => Promise<T>): Promise<T> =>
+  (db as any).transaction('rw', tables, () => {
+    remoteTransactions.add(Dexie.currentTransaction);
+    return fn();
+  });
+
+const trackChanges = (database: FamilyFlowDB, name: SyncedTableName) => {
+  const table = database.table(name);
+  table.hook('creating', (_key, obj, trans) => {
+    if (isRemote(trans)) return;
+    obj.updatedAt = Date.now();
+    obj.deviceId = getDeviceId();
+  });
+  table.hook('updating', (_mods, _key, _obj, trans) => {
+    if (isRemote(trans)) return;
+    return { updatedAt: Date.now(), deviceId: getDeviceId() };
+  });
+};
+
+// Deletes leave a tombstone written in the same transaction, so a sync round can never see a row gone
+// without its tombstone. Every readwrite transaction on a synced table gets the tombstone table added.
+const SYNCED_TABLE_SET = new Set<string>(SYNCED_TABLES);
+const tombstoneMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'syncTombstones',
+  create: core => ({
+    ...core,
+    transaction: (stores, mode, options) => core.transaction(
+      mode === 'readwrite' && stores.some(s => SYNCED_TABLE_SET.has(s)) && !stores.includes('syncTombstones') ? [...stores, 'syncTombstones'] : stores,
+      mode,
+      options
+    ),
+    table: tableName => {
+      const table = core.table(tableName);
+      if (!SYNCED_TABLE_SET.has(tableName)) return table;
+      return {
+        ...table,
+        mutate: async (req: DBCoreMutateRequest) => {
+          if (req.type !== 'delete' && req.type !== 'deleteRange') return table.mutate(req);
+          if (Dexie.currentTransaction && isRemote(Dexie.currentTransaction)) return table.mutate(req);
+          const keys: (string | number)[] = req.type === 'delete'
+            ? req.keys
+            : (await table.query({ trans: req.trans, values: false, query: { index: table.schema.primaryKey, range: req.range } })).result;
+          const result = await table.mutate(req);
+          if (keys.length > 0) {
+            const deletedAt = Date.now();
+            const deviceId = getDeviceId();
+            const values: SyncTombstone[] = keys.map(key => ({ id: `${tableName}|${key}`, table: tableName, key, deletedAt, deviceId }));
+            await core.table('syncTombstones').mutate({ trans: req.trans, type: 'put', values });
+          }
+          return result;
+        }
+      };
+    }
+  })
+};
+
 export const db = new FamilyFlowDB();
@@ -1,7 +1,7 @@
 
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { getBudgetInterval } from '../utils';
+import { getBudgetInterval, getEffectiveAmount, expandSplitTransactions } from '../utils';
 
 export const useBudgetActuals = (selectedMonth: string, payday: number) => {
   return useLiveQuery(async () => {
@@ -11,11 +11,13 @@ export const useBudgetActuals = (selectedMonth: string, payday: number) => {
     const startStr = start.toISOString().split('T')[0];
     const endStr = end.toISOString().split('T')[0];
 
-    const transactions = await db.transactions
+    const storedTransactions = await db.transactions
       .where('date')
       .between(startStr, endStr, true, true)
       .filter(t => !t.isHidden) // Filter out hidden transactions from database query results
       .toArray();
+    // Split rows are counted per line (each with its own type/bucket)
+    const transactions = expandSplitTransactions(storedTransactions);
 
     // --- REIMBURSEMENT LOGIC ---
     // 1. Identify transactions that are reimbursements (they have linkedExpenseId)
@@ -47,10 +49,7 @@ export const useBudgetActuals = (selectedMonth: string, payday: number) => {
       // Calculate Effective Amount (Net)
       // If this transaction is an expense that has been reimbursed, reduce its magnitude.
       // Example: Expense -8400, Reimbursement +2700. Effective = -5700.
-      let effectiveAmount = t.amount;
-      if (reimbursementMap[t.id]) {
-          effectiveAmount += reimbursementMap[t.id];
-      }
+      const effectiveAmount = getEffectiveAmount(t, reimbursementMap);
 
       // Calculate generic impact for legacy spentByBucket (Consumption View)
       // Negative transaction (outflow) -> Positive Impact (Money spent)
@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { useApp } from '../store';
+import { useSubscriptionDetection } from './useSubscriptionDetection';
+import { forecastCashFlow } from '../services/cashFlowForecast';
+
+export const useCashFlowForecast = () => {
+  const { accounts, users, transactions, buckets, budgetGroups, subCategories, mainCategories, budgetTemplates, monthConfigs, settings, merchants, ignoredSubscriptions } = useApp();
+  const detected = useSubscriptionDetection(transactions, merchants);
+
+  return useMemo(() => {
+    // Ignored entries are keyed by merchant id, older ones by the raw description
+    const ignoredIds = new Set(ignoredSubscriptions.map(i => i.id));
+    const subscriptions = detected.filter(s => !ignoredIds.has(s.id) && !s.transactions.some(t => ignoredIds.has(t.description.trim())));
+    return forecastCashFlow({
+      accounts, users, transactions, subscriptions, buckets, budgetGroups, subCategories, mainCategories, budgetTemplates, monthConfigs, payday: settings.payday
+    });
+  }, [accounts, users, transactions, detected, ignoredSubscriptions, buckets, budgetGroups, subCategories, mainCategories, budgetTemplates, monthConfigs, settings.payday]);
+};
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { Transaction } from '../types';
+import { Transaction, Merchant } from '../types';
 import { differenceInDays, parseISO, getDate } from 'date-fns';
 
 export interface SubscriptionCandidate {
@@ -14,27 +14,29 @@ export interface SubscriptionCandidate {
   confidence: 'high' | 'medium';
 }
 
-export const useSubscriptionDetection = (transactions: Transaction[]) => {
+export const useSubscriptionDetection = (transactions: Transaction[], merchants: Merchant[] = []) => {
   return useMemo(() => {
-    // 1. Gruppera transaktioner på beskrivning
+    const merchantNames = new Map(merchants.map(m => [m.id, m.name]));
+
+    // 1. Gruppera transaktioner på handlare (merchantId), annars på beskrivning
     const groups: Record<string, Transaction[]> = {};
     
     transactions.forEach(t => {
       // Ignorera inkomster och väldigt små belopp (<10 kr kan vara skräp)
       if (t.amount >= 0 || Math.abs(t.amount) < 10) return; 
 
-      // Enkel rensning: Ta bort datumformat och korta sifferkoder om det behövs
-      // Vi använder trim() men behåller namnet intakt för att inte gruppera olika butiker av misstag
-      const cleanName = t.description.trim(); 
+      // Handlaren är redan normaliserad (kortnummer, datum och ort borttagna)
+      const groupKey = t.merchantId || t.description.trim(); 
       
-      if (!groups[cleanName]) groups[cleanName] = [];
-      groups[cleanName].push(t);
+      if (!groups[groupKey]) groups[groupKey] = [];
+      groups[groupKey].push(t);
     });
 
     const candidates: SubscriptionCandidate[] = [];
 
     // 2. Analysera varje grupp
-    Object.entries(groups).forEach(([name, txs]) => {
+    Object.entries(groups).forEach(([groupKey, txs]) => {
+      const name = merchantNames.get(groupKey) || groupKey;
       // Måste ha historik (minst 3 dragningar för att se mönster)
       if (txs.length < 3) return;
 
@@ -97,7 +99,7 @@ export const useSubscriptionDetection = (transactions: Transaction[]) => {
       // Fall A: Perfekt prenumeration (Exakt belopp + Månadsvis intervall)
       if (isStableAmount && isRoughlyMonthly) {
           candidates.push({
-              id: name,
+              id: groupKey,
               name: name,
               avgAmount: Math.round(avgAmount),
               frequency: 'monthly',
@@ -114,7 +116,7 @@ export const useSubscriptionDetection = (transactions: Transaction[]) => {
       // Vi tillåter varierande belopp OM det sker strikt en gång i månaden (låg frekvens)
       if (!isStableAmount && isRoughlyMonthly && txPerMonth <= 1.2) {
            candidates.push({
-              id: name,
+              id: groupKey,
               name: name,
               avgAmount: Math.round(avgAmount),
               frequency: 'monthly',
@@ -129,5 +131,5 @@ export const useSubscriptionDetection = (transactions: Transaction[]) => {
 
     // Sortera på dyrast först
     return candidates.sort((a, b) => b.avgAmount - a.avgAmount);
-  }, [transactions]);
+  }, [transactions, merchants]);
 };
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { eachDayOfInterval, getDay } from 'date-fns';
+import { Bucket, BudgetGroup, BudgetTemplate, MainCategory, MonthConfig, SubCategory } from '../types';
+import { calculateGoalBucketCost, getBudgetInterval, getEffectiveBucketData, getEffectiveBudgetGroupData, getEffectiveSubCategoryBudget } from '../utils';
+
+// Drill-down line behind an account's need
+export type NeedItem = {
+    id: string;
+    type: 'SUB' | 'BUCKET' | 'BUFFER';
+    name: string;
+    categoryLabel: string; // e.g. "Boende > Hyra" or "Fast Post"
+    amount: number;
+    originalObj: SubCategory | Bucket | null; // Null for Buffer
+};
+
+export interface AccountNeeds {
+    accountNeeds: Record<string, number>;
+    unallocatedNeeds: number;
+    detailedNeeds: Record<string, NeedItem[]>;
+    unallocatedItems: NeedItem[];
+}
+
+export interface AccountNeedsInput {
+    buckets: Bucket[];
+    budgetGroups: BudgetGroup[];
+    subCategories: SubCategory[];
+    mainCategories: MainCategory[];
+    budgetTemplates: BudgetTemplate[];
+    monthConfigs: MonthConfig[];
+    payday: number;
+}
+
+// What has to be transferred to each account for a month. Shared by the transfer view and the cash-flow forecast.
+export const calculateAccountNeeds = (monthKey: string, { buckets, budgetGroups, subCategories, mainCategories, budgetTemplates, monthConfigs, payday }: AccountNeedsInput): AccountNeeds => {
+    const needs: Record<string, number> = {};
+    const details: Record<string, NeedItem[]> = {};
+    let unallocatedSum = 0;
+    const unallocatedList: NeedItem[] = [];
+    const processedBucketIds = new Set<string>(); // Prevent double counting of buckets
+
+    // Helper to add to details
+    const addDetail = (accId: string | undefined, item: NeedItem) => {
+        if (accId) {
+            if (!details[accId]) details[accId] = [];
+            details[accId].push(item);
+        } else {
+            unallocatedList.push(item);
+        }
+    };
+
+    // Iterate ONLY over Budget Groups (The "Drift" structure).
+    budgetGroups.forEach(group => {
+        
+        // 1. Calculate needs from Subcategories
+        // Subcategories have a 1:1 relationship with groups via budgetGroupId, so no double counting risk here.
+        const groupSubs = subCategories.filter(s => s.budgetGroupId === group.id);
+        let sumSubBudgets = 0;
+
+        groupSubs.forEach(sub => {
+            const budget = getEffectiveSubCategoryBudget(sub, monthKey, budgetTemplates, monthConfigs);
+            if (budget > 0) {
+                sumSubBudgets += budget;
+                // Priority: Sub Account -> Group Default Account -> Unallocated
+                const targetAcc = sub.accountId || group.defaultAccountId;
+                
+                if (targetAcc) {
+                    needs[targetAcc] = (needs[targetAcc] || 0) + budget;
+                } else {
+                    unallocatedSum += budget;
+                }
+
+                const mainCatName = mainCategories.find(m => m.id === sub.mainCategoryId)?.name || 'Okänd';
+                addDetail(targetAcc, {
+                    id: sub.id,
+                    type: 'SUB',
+                    name: sub.name,
+                    categoryLabel: `${mainCatName} / ${group.name}`,
+                    amount: budget,
+                    originalObj: sub
+                });
+            }
+        });
+
+        // Handle "Manual Group Limit" / Buffer
+        const { data: explicitData } = getEffectiveBudgetGroupData(group, monthKey, budgetTemplates, monthConfigs);
+        const groupTotalLimit = explicitData ? explicitData.limit : 0;
+        
+        if (groupTotalLimit > sumSubBudgets) {
+            const buffer = groupTotalLimit - sumSubBudgets;
+            if (group.defaultAccountId) {
+                needs[group.defaultAccountId] = (needs[group.defaultAccountId] || 0) + buffer;
+            } else {
+                unallocatedSum += buffer;
+            }
+            addDetail(group.defaultAccountId, {
+                id: `buffer-${group.id}`,
+                type: 'BUFFER',
+                name: 'Buffert / Ospecificerat',
+                categoryLabel: group.name,
+                amount: buffer,
+                originalObj: null
+            });
+        }
+
+        // 2. Linked Buckets (Fixed costs/Goals linked to this group)
+        const groupBuckets = buckets.filter(b => {
+            // Strict Check: Only process if it belongs to this group.
+            // If bucket has an explicit budgetGroupId, it MUST match.
+            if (b.budgetGroupId) {
+                return b.budgetGroupId === group.id;
+            }
+            // Legacy Fallback: If bucket has NO group ID, check the group's legacy linked list
+            return group.linkedBucketIds && group.linkedBucketIds.includes(b.id);
+        });
+
+        groupBuckets.forEach(bucket => {
+            if (processedBucketIds.has(bucket.id)) return; // Already processed by another group (prioritized)
+
+            let cost = 0;
+            if (bucket.type === 'GOAL' && bucket.paymentSource === 'BALANCE') {
+                cost = 0; 
+            } else {
+                if (bucket.type === 'FIXED') {
+                    const { data } = getEffectiveBucketData(bucket, monthKey, budgetTemplates, monthConfigs);
+                    cost = data ? data.amount : 0;
+                }
+                else if (bucket.type === 'DAILY') {
+                    // Calculate accurately using active template/overrides
+                    const { data } = getEffectiveBucketData(bucket, monthKey, budgetTemplates, monthConfigs);
+                    if (data) {
+                        const { start, end } = getBudgetInterval(monthKey, payday);
+                        const days = eachDayOfInterval({ start, end });
+                        let count = 0;
+                        days.forEach(day => {
+                            if (data.activeDays.includes(getDay(day))) count++;
+                        });
+                        cost = count * data.dailyAmount;
+                    }
+                }
+                else if (bucket.type === 'GOAL') {
+                    cost = calculateGoalBucketCost(bucket, monthKey);
+                }
+            }
+
+            if (cost > 0) {
+                // PRIORITY: Bucket Specific Account -> Group Default Account -> Unallocated
+                const targetAcc = bucket.accountId || group.defaultAccountId;
+                
+                if (targetAcc) {
+                    needs[targetAcc] = (needs[targetAcc] || 0) + cost;
+                } else {
+                    unallocatedSum += cost;
+                }
+
+                let typeLabel = bucket.type === 'FIXED' ? 'Fast Post' : (bucket.type === 'DAILY' ? 'Rörlig Post' : 'Mål');
+                addDetail(targetAcc, {
+                    id: bucket.id,
+                    type: 'BUCKET',
+                    name: bucket.name,
+                    categoryLabel: `${typeLabel} (${group.name})`,
+                    amount: cost,
+                    originalObj: bucket
+                });
+            }
+            processedBucketIds.add(bucket.id);
+        });
+    });
+
+    return { 
+        accountNeeds: needs, 
+        unallocatedNeeds: unallocatedSum, 
+        detailedNeeds: details,
+        unallocatedItems: unallocatedList
+    };
+};
@@ -0,0 +1,89 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProviderConfig, AiProviderKind } from "../types";
+
+// Providers only turn a prompt into text. Prompt building and response validation live in aiService,
+// so every provider gets the same checks.
+
+export interface AiRequest {
+    prompt: string;
+    json?: boolean; // Ask for a JSON object instead of free text
+}
+
+export interface AiProvider {
+    kind: AiProviderKind;
+    generate: (request: AiRequest) => Promise<string>;
+}
+
+export const DEFAULT_AI_CONFIG: AiProviderConfig = { provider: 'gemini' };
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const createGeminiProvider = (config: AiProviderConfig): AiProvider => ({
+    kind: 'gemini',
+    generate: async ({ prompt, json }) => {
+        if (!config.apiKey) throw new Error("Ingen API-nyckel för Gemini. Ange den under Inställningar > AI.");
+        const ai = new GoogleGenAI({ apiKey: config.apiKey });
+        const response = await ai.models.generateContent({
+            model: config.model || DEFAULT_GEMINI_MODEL,
+            contents: prompt,
+            config: json ? { responseMimeType: "application/json" } : undefined
+        });
+        return response.text || "";
+    }
+});
+
+// Chat completions API as implemented by OpenAI, Ollama, llama.cpp server, LM Studio etc.
+const createOpenAiCompatibleProvider = (config: AiProviderConfig): AiProvider => ({
+    kind: 'openai',
+    generate: async ({ prompt, json }) => {
+        const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        const res = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: config.model || DEFAULT_OPENAI_MODEL,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.2,
+                ...(json ? { response_format: { type: 'json_object' } } : {})
+            })
+        });
+        if (!res.ok) throw new Error(`AI-servern svarade ${res.status} ${res.statusText}`);
+        const body = await res.json();
+        return body?.choices?.[0]?.message?.content || "";
+    }
+});
+
+// Deterministic and network free, used for tests and when no model is available.
+// JSON requests get an empty object, so categorization simply finds nothing.
+const createOfflineProvider = (): AiProvider => ({
+    kind: 'offline',
+    generate: async ({ json }) => json
+        ? "{}"
+        : "## Offline-läge\n\nIngen AI-modell är konfigurerad. Välj en leverantör under Inställningar > AI för att få en analys."
+});
+
+export const createAiProvider = (config: AiProviderConfig = DEFAULT_AI_CONFIG): AiProvider => {
+    switch (config.provider) {
+        case 'openai': return createOpenAiCompatibleProvider(config);
+        case 'offline': return createOfflineProvider();
+        default: return createGeminiProvider(config);
+    }
+};
+
+// Local models often wrap JSON in a markdown fence or add a sentence around it
+export const extractJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end < start) return null;
+    try {
+        return JSON.parse(candidate.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+};
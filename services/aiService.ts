@@ -1,85 +1,123 @@
 
-import { Bucket, Transaction, MainCategory, SubCategory, User, BudgetGroup } from "../types";
+import { z } from "zod";
+import { Bucket, Transaction, MainCategory, SubCategory, AiProviderConfig, FinancialSnapshot, AiReport } from "../types";
 import { formatMoney } from "../utils";
-import { GoogleGenAI } from "@google/genai";
+import { createAiProvider, extractJson } from "./aiProviders";
+import { TransactionQuery } from "./transactionQuery";
+import { createRedactor, Redactor } from "./redaction";
+
+export const AI_SUGGESTION_CONFIDENCE = 0.5; // The model gives no score of its own, rank its guesses below history
+
+export type AiCategorization = Record<string, { bucketId?: string, mainCatId?: string, subCatId?: string }>;
+
+const nullableId = z.string().nullish();
+const categorizationSchema = z.record(z.string(), z.object({
+  bucketId: nullableId,
+  mainCatId: nullableId,
+  subCatId: nullableId
+}));
+
+// The model may answer with ids it made up or copied from the wrong list. Only ids that exist,
+// for transactions we asked about, survive; a sub category must belong to the chosen main category.
+const sanitizeCategorization = (
+  raw: unknown,
+  transactionIds: Set<string>,
+  buckets: Bucket[],
+  mainCategories: MainCategory[],
+  subCategories: SubCategory[]
+): AiCategorization => {
+  const parsed = categorizationSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error("AI categorization response did not match schema", parsed.error.issues);
+    return {};
+  }
+
+  const bucketIds = new Set(buckets.map(b => b.id));
+  const mainIds = new Set(mainCategories.map(c => c.id));
+  const subById = new Map(subCategories.map(s => [s.id, s]));
+  const result: AiCategorization = {};
+
+  Object.entries(parsed.data).forEach(([txId, value]) => {
+    if (!transactionIds.has(txId)) return;
+    const bucketId = value.bucketId && bucketIds.has(value.bucketId) ? value.bucketId : undefined;
+    const mainCatId = value.mainCatId && mainIds.has(value.mainCatId) ? value.mainCatId : undefined;
+    const sub = value.subCatId ? subById.get(value.subCatId) : undefined;
+    const subCatId = sub && mainCatId && sub.mainCategoryId === mainCatId ? sub.id : undefined;
+    if (bucketId || mainCatId) result[txId] = { bucketId, mainCatId, subCatId };
+  });
+  return result;
+};
+
+// Exported so the privacy settings can show exactly what a categorization call sends
+export const buildCategorizationPrompt = (
+  transactions: Transaction[],
+  buckets: Bucket[],
+  mainCategories: MainCategory[],
+  subCategories: SubCategory[],
+  redactor: Redactor
+): string => {
+  // Prepare lists for AI
+  const bucketsList = buckets.map(b => `ID: "${b.id}", Namn: "${b.name}"`).join("\n");
+  const mainCatsList = mainCategories.map(c => `ID: "${c.id}", Namn: "${c.name}"`).join("\n");
+  const subCatsList = subCategories.map(c => `ID: "${c.id}", ParentID: "${c.mainCategoryId}", Namn: "${c.name}"`).join("\n");
+  
+  const transactionList = transactions.map(t => `- ID: "${t.id}", Text: "${redactor.redact(t.description)}", Belopp: ${t.amount}`).join("\n");
+
+  return `
+    Jag har en lista med banktransaktioner. Jag vill att du klassificerar varje transaktion enligt följande logik:
+
+    1. ÄR DETTA EN ÖVERFÖRING MELLAN KONTON (Funding)?
+       - T.ex. "Överföring till Matkonto", "Sparande", "Buffert".
+       - Om JA: Välj en matchande Budgetpost (Bucket) ID. Sätt Main/Sub Category till null.
+    
+    2. ÄR DETTA EN UTGIFT/KONSUMTION?
+       - T.ex. "ICA Maxi", "Circle K", "Netflix", "Hyra".
+       - Om JA: Välj en matchande Huvudkategori och Underkategori ID. Sätt Bucket ID till null.
+
+    BUDGETPOSTER (Endast för överföringar):
+    ${bucketsList}
+    
+    KATEGORIER (Endast för utgifter):
+    ${mainCatsList}
+    
+    UNDERKATEGORIER (Endast för utgifter):
+    ${subCatsList}
+
+    TRANSAKTIONER:
+    ${transactionList}
+
+    INSTRUKTIONER:
+    1. Analysera texten i varje transaktion.
+    2. Avgör om det är TRANSFER (Bucket) eller EXPENSE (Category).
+    3. Svara ENDAST med ett JSON-objekt där nyckeln är Transaktions-ID och värdet är ett objekt { bucketId, mainCatId, subCatId }.
+    
+    Exempel:
+    {
+      "tx_1": { "bucketId": "b1", "mainCatId": null, "subCatId": null },  // Överföring
+      "tx_2": { "bucketId": null, "mainCatId": "mc2", "subCatId": "sc1" } // Utgift
+    }
+  `;
+};
 
 // This service handles the "Smart" part of the import pipeline
 export const categorizeTransactionsWithAi = async (
   transactions: Transaction[], 
   buckets: Bucket[],
   mainCategories: MainCategory[],
-  subCategories: SubCategory[]
-): Promise<Record<string, { bucketId?: string, mainCatId?: string, subCatId?: string }>> => {
+  subCategories: SubCategory[],
+  aiConfig?: AiProviderConfig
+): Promise<AiCategorization> => {
   
   // Filter out transactions that already have assignments
   const unknown = transactions.filter(t => !t.bucketId && !t.categoryMainId);
   if (unknown.length === 0) return {};
 
   try {
-      // Fix: Used process.env.API_KEY exclusively and initialized correctly
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) {
-          console.error("API Key not found in environment");
-          return {};
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Prepare lists for AI
-      const bucketsList = buckets.map(b => `ID: "${b.id}", Namn: "${b.name}"`).join("\n");
-      const mainCatsList = mainCategories.map(c => `ID: "${c.id}", Namn: "${c.name}"`).join("\n");
-      const subCatsList = subCategories.map(c => `ID: "${c.id}", ParentID: "${c.mainCategoryId}", Namn: "${c.name}"`).join("\n");
-      
-      const transactionList = unknown.map(t => `- ID: "${t.id}", Text: "${t.description}", Belopp: ${t.amount}`).join("\n");
-
-      const prompt = `
-        Jag har en lista med banktransaktioner. Jag vill att du klassificerar varje transaktion enligt följande logik:
-
-        1. ÄR DETTA EN ÖVERFÖRING MELLAN KONTON (Funding)?
-           - T.ex. "Överföring till Matkonto", "Sparande", "Buffert".
-           - Om JA: Välj en matchande Budgetpost (Bucket) ID. Sätt Main/Sub Category till null.
-        
-        2. ÄR DETTA EN UTGIFT/KONSUMTION?
-           - T.ex. "ICA Maxi", "Circle K", "Netflix", "Hyra".
-           - Om JA: Välj en matchande Huvudkategori och Underkategori ID. Sätt Bucket ID till null.
+      const provider = createAiProvider(aiConfig);
+      const prompt = buildCategorizationPrompt(unknown, buckets, mainCategories, subCategories, createRedactor(aiConfig?.redaction));
 
-        BUDGETPOSTER (Endast för överföringar):
-        ${bucketsList}
-        
-        KATEGORIER (Endast för utgifter):
-        ${mainCatsList}
-        
-        UNDERKATEGORIER (Endast för utgifter):
-        ${subCatsList}
-
-        TRANSAKTIONER:
-        ${transactionList}
-
-        INSTRUKTIONER:
-        1. Analysera texten i varje transaktion.
-        2. Avgör om det är TRANSFER (Bucket) eller EXPENSE (Category).
-        3. Svara ENDAST med ett JSON-objekt där nyckeln är Transaktions-ID och värdet är ett objekt { bucketId, mainCatId, subCatId }.
-        
-        Exempel:
-        {
-          "tx_1": { "bucketId": "b1", "mainCatId": null, "subCatId": null },  // Överföring
-          "tx_2": { "bucketId": null, "mainCatId": "mc2", "subCatId": "sc1" } // Utgift
-        }
-      `;
-
-    // Fix: Updated model to gemini-3-flash-preview as per guidelines
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-
-    // Fix: Extracted text correctly using .text property
-    const jsonText = response.text || "{}";
-    const result = JSON.parse(jsonText);
-    return result;
+    const responseText = await provider.generate({ prompt, json: true });
+    return sanitizeCategorization(extractJson(responseText), new Set(unknown.map(t => t.id)), buckets, mainCategories, subCategories);
 
   } catch (error) {
     console.error("AI Categorization failed:", error);
@@ -87,81 +125,201 @@ export const categorizeTransactionsWithAi = async (
   }
 };
 
-export interface FinancialSnapshot {
-    totalIncome: number;
-    budgetGroups: { name: string; limit: number; spent: number; }[];
-    categoryBreakdownCurrent: { main: string; sub: string; amount: number }[];
-    topExpenses: { name: string; amount: number }[];
-    transactionLog: string; // List of all transactions for detailed analysis
-    monthLabel: string;
-}
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish();
+const idList = z.array(z.string()).nullish();
+const transactionQuerySchema = z.object({
+  title: z.string().nullish(),
+  startDate: isoDate,
+  endDate: isoDate,
+  types: z.array(z.enum(['EXPENSE', 'TRANSFER', 'INCOME'])).nullish(),
+  categoryMainIds: idList,
+  categorySubIds: idList,
+  bucketIds: idList,
+  text: z.string().nullish(),
+  amountMin: z.number().nullish(),
+  amountMax: z.number().nullish(),
+  weekdays: z.array(z.number().int().min(0).max(6)).nullish()
+});
+
+// Only the question and the category/bucket names are sent, never any transactions
+export const buildTransactionQueryPrompt = (
+  question: string,
+  today: string,
+  buckets: Bucket[],
+  mainCategories: MainCategory[],
+  subCategories: SubCategory[],
+  redactor: Redactor
+): string => `
+    Översätt en fråga om en familjs banktransaktioner till ett filter. Dagens datum är ${today}.
+
+    KATEGORIER:
+    ${mainCategories.map(c => `ID: "${c.id}", Namn: "${c.name}"`).join("\n")}
 
-export const generateMonthlyReport = async (data: FinancialSnapshot): Promise<string> => {
+    UNDERKATEGORIER:
+    ${subCategories.map(c => `ID: "${c.id}", ParentID: "${c.mainCategoryId}", Namn: "${c.name}"`).join("\n")}
+
+    BUDGETPOSTER (överföringar):
+    ${buckets.map(b => `ID: "${b.id}", Namn: "${b.name}"`).join("\n")}
+
+    FRÅGA: "${redactor.redact(question)}"
+
+    Svara ENDAST med ett JSON-objekt med följande fält (utelämna eller sätt null på det som inte behövs):
+    - title: kort svensk rubrik för resultatet
+    - startDate, endDate: "yyyy-MM-dd", inklusive. "i våras" = mars-maj, "i år" = från 1 januari i år.
+    - types: lista av "EXPENSE", "TRANSFER", "INCOME"
+    - categoryMainIds, categorySubIds, bucketIds: ID:n från listorna ovan. Flera ID:n betyder "eller".
+    - text: del av butiks-/handlarnamn, t.ex. "ica"
+    - amountMin, amountMax: belopp i kronor utan tecken
+    - weekdays: 0 = söndag ... 6 = lördag. "Helger" = [6, 0].
+  `;
+
+// Translates a question into a TransactionQuery. Unknown ids are dropped so a made-up category can't silently
+// empty the result, and if none of the asked-for ids exist the question fails instead of silently losing the filter.
+export const translateTransactionQuery = async (
+  question: string,
+  today: string,
+  buckets: Bucket[],
+  mainCategories: MainCategory[],
+  subCategories: SubCategory[],
+  aiConfig?: AiProviderConfig
+): Promise<TransactionQuery> => {
+  const provider = createAiProvider(aiConfig);
+  const redactor = createRedactor(aiConfig?.redaction);
+  const prompt = buildTransactionQueryPrompt(question, today, buckets, mainCategories, subCategories, redactor);
+
+  const parsed = transactionQuerySchema.safeParse(extractJson(redactor.restore(await provider.generate({ prompt, json: true }))));
+  if (!parsed.success) {
+    console.error("AI query response did not match schema", parsed.error.issues);
+    throw new Error("Frågan kunde inte tolkas. Försök formulera om den.");
+  }
+
+  const q = parsed.data;
+  const knownIds = (ids: string[] | null | undefined, valid: { id: string }[], label: string) => {
+    const kept = (ids || []).filter(id => valid.some(v => v.id === id));
+    if (ids?.length && kept.length === 0) throw new Error(`${label} i frågan hittades inte. Försök med namnet som det står i budgeten.`);
+    return kept.length > 0 ? kept : undefined;
+  };
+  return {
+    title: q.title || undefined,
+    startDate: q.startDate || undefined,
+    endDate: q.endDate || undefined,
+    types: q.types?.length ? q.types : undefined,
+    categoryMainIds: knownIds(q.categoryMainIds, mainCategories, 'Kategorin'),
+    categorySubIds: knownIds(q.categorySubIds, subCategories, 'Underkategorin'),
+    bucketIds: knownIds(q.bucketIds, buckets, 'Budgetposten'),
+    text: q.text?.trim() || undefined,
+    amountMin: q.amountMin ?? undefined,
+    amountMax: q.amountMax ?? undefined,
+    weekdays: q.weekdays?.length ? q.weekdays : undefined
+  };
+};
+
+export const REPORT_COMPARISON_MONTHS = 3;
+
+// Pulls one "## ..." section out of an earlier report, used to feed last month's tips back in
+const extractReportSection = (markdown: string, headingStart: string): string => {
+    const lines = markdown.split('\n');
+    const start = lines.findIndex(l => l.trim().startsWith(`## ${headingStart}`));
+    if (start === -1) return '';
+    const end = lines.findIndex((l, i) => i > start && l.trim().startsWith('## '));
+    return lines.slice(start + 1, end === -1 ? undefined : end).join('\n').trim();
+};
+
+const describePreviousReport = (report: AiReport, redactor: Redactor) => {
+    const s = report.snapshot;
+    const tips = redactor.redact(extractReportSection(report.markdown, 'Konkreta Spartips'));
+    return `
+            ### ${s.monthLabel}
+            Inkomst: ${formatMoney(s.totalIncome)}
+            ${s.budgetGroups.map(g => `- ${g.name}: Utfall ${formatMoney(g.spent)} (Budget: ${formatMoney(g.limit)})`).join('\n')}
+            Topp utgifter: ${s.topExpenses.map(e => `${redactor.redact(e.name)} ${formatMoney(e.amount)}`).join(', ')}
+            ${tips ? `Tips ni fick:\n${tips}` : ''}`;
+};
+
+// Latest single-month report per earlier month, oldest first as the prompt reads them chronologically
+export const selectPreviousReports = (reports: AiReport[], monthKey: string): AiReport[] => {
+    const latestPerMonth = new Map<string, AiReport>();
+    reports
+        .filter(r => !r.timeframeMonths || r.timeframeMonths === 1)
+        .sort((a, b) => b.monthKey.localeCompare(a.monthKey) || b.createdAt.localeCompare(a.createdAt))
+        .forEach(r => { if (r.monthKey < monthKey && !latestPerMonth.has(r.monthKey)) latestPerMonth.set(r.monthKey, r); });
+    return Array.from(latestPerMonth.values()).slice(0, REPORT_COMPARISON_MONTHS).reverse();
+};
+
+// previousReports are earlier months' stored reports, oldest first. Without them the report only sees this month.
+export const buildMonthlyReportPrompt = (data: FinancialSnapshot, previousReports: AiReport[], redactor: Redactor): string => {
+    const hasHistory = previousReports.length > 0;
+    return `
+        Agera som en skarp ekonomisk detektiv och rådgivare för en familj (2 vuxna, 1 barn på 3 år).
+        Din uppgift är att granska ekonomin för ${data.monthLabel}.
+        
+        Här är datan:
+        
+        TOTAL INKOMST: ${formatMoney(data.totalIncome)}
+        
+        BUDGETGRUPPER (Plan vs Utfall):
+        ${data.budgetGroups.map(g => `- ${g.name}: Utfall ${formatMoney(g.spent)} (Budget: ${formatMoney(g.limit)})`).join('\n')}
+        
+        TOPP UTGIFTER:
+        ${data.topExpenses.map(e => `- ${redactor.redact(e.name)}: ${formatMoney(e.amount)}`).join('\n')}
+
+        DETALJERAD TRANSAKTIONSLISTA (Datum : Belopp : Beskrivning : Kategori):
+        ${redactor.redact(data.transactionLog)}
+        ${hasHistory ? `
+        TIDIGARE MÅNADER (från tidigare rapporter):
+        ${previousReports.map(r => describePreviousReport(r, redactor)).join('\n')}
+        ` : ''}
+        INSTRUKTIONER:
+        Skriv en rapport i Markdown som fokuserar på *beteende* och *orsak*, inte bara siffror. Använd transaktionslistan för att hitta mönster (t.ex. "22 besök på Ica Nara", "Stort engångsköp på IKEA").
+        ${hasHistory
+            ? 'Jämför med de tidigare månaderna ovan där det ger en insikt (t.ex. "Mat ökade med 1 200 kr jämfört med förra månaden"). Gissa inte om du inte vet.'
+            : 'Titta INTE på historisk data (du har bara denna månad). Gissa inte om du inte vet.'}
+
+        Strukturera rapporten så här:
+
+        ## Snabbanalys: ${data.monthLabel}
+        *   Ge resultatet (Utfall vs Budget/Inkomst). Gick de plus eller minus?
+        *   What is the absolutely biggest deviation?
+
+        ## Var läckte pengarna? (Topp 3 Avvikelser/Insikter)
+        *   Välj ut de 3 mest intressanta kategorierna eller händelserna.
+        *   För varje punkt:
+            *   **Vad hände:** Analysera transaktionerna. Var det många småköp? Ett stort köp? (Nämn specifika butiker om de förekommer ofta eller med stora belopp).
+            *   **Analys:** Var det onödigt? En engångshändelse? En dålig vana?
+
+        ## Jämförelse: Er familj vs "Normalfamiljen"
+        *   Gör en tabell där du jämför deras kostnader (Mat, Transport, Nöje) med schablonvärden för 2 vuxna + 1 barn (3 år).
+        *   Ge en status (🔴/🟡/🟢) för varje rad.
+
+        ## Konkreta Spartips för Er
+        *   Ge 3 tips baserat EXAKT på deras transaktioner.
+        *   T.ex: "Ni handlade mat 25 gånger, försök storhandla", "Ni har 3 streamingtjänster", "Utemat kostade X kr". Var specifik!
+
+        ${hasHistory ? `## Uppföljning: Följdes förra månadens tips?
+        *   Gå igenom tipsen från den senaste tidigare månaden ett i taget.
+        *   Bedöm med hjälp av transaktionerna om tipset följdes (✅/➖/❌) och vad det gav i kronor.
+        ` : ''}
+        ## Slutsats
+        *   En peppande men ärlig sammanfattning på 2 meningar.
+
+        Ton: Professionell men personlig ("Ni/Er"). Använd fetstil för belopp och butiksnamn.
+    `;
+};
+
+export const generateMonthlyReport = async (data: FinancialSnapshot, aiConfig?: AiProviderConfig, previousReports: AiReport[] = []): Promise<string> => {
     try {
-        // Fix: Used process.env.API_KEY exclusively and initialized correctly
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) return "Kunde inte initiera AI-tjänsten.";
-
-        const ai = new GoogleGenAI({ apiKey });
-
-        const prompt = `
-            Agera som en skarp ekonomisk detektiv och rådgivare för en familj (2 vuxna, 1 barn på 3 år).
-            Din uppgift är att granska ekonomin för ${data.monthLabel}.
-            
-            Här är datan:
-            
-            TOTAL INKOMST: ${formatMoney(data.totalIncome)}
-            
-            BUDGETGRUPPER (Plan vs Utfall):
-            ${data.budgetGroups.map(g => `- ${g.name}: Utfall ${formatMoney(g.spent)} (Budget: ${formatMoney(g.limit)})`).join('\n')}
-            
-            TOPP UTGIFTER:
-            ${data.topExpenses.map(e => `- ${e.name}: ${formatMoney(e.amount)}`).join('\n')}
-
-            DETALJERAD TRANSAKTIONSLISTA (Datum : Belopp : Beskrivning : Kategori):
-            ${data.transactionLog}
-
-            INSTRUKTIONER:
-            Skriv en rapport i Markdown som fokuserar på *beteende* och *orsak*, inte bara siffror. Använd transaktionslistan för att hitta mönster (t.ex. "22 besök på Ica Nara", "Stort engångsköp på IKEA").
-            Titta INTE på historisk data (du har bara denna månad). Gissa inte om du inte vet.
-
-            Strukturera rapporten så här:
-
-            ## Snabbanalys: ${data.monthLabel}
-            *   Ge resultatet (Utfall vs Budget/Inkomst). Gick de plus eller minus?
-            *   What is the absolutely biggest deviation?
-
-            ## Var läckte pengarna? (Topp 3 Avvikelser/Insikter)
-            *   Välj ut de 3 mest intressanta kategorierna eller händelserna.
-            *   För varje punkt:
-                *   **Vad hände:** Analysera transaktionerna. Var det många småköp? Ett stort köp? (Nämn specifika butiker om de förekommer ofta eller med stora belopp).
-                *   **Analys:** Var det onödigt? En engångshändelse? En dålig vana?
-
-            ## Jämförelse: Er familj vs "Normalfamiljen"
-            *   Gör en tabell där du jämför deras kostnader (Mat, Transport, Nöje) med schablonvärden för 2 vuxna + 1 barn (3 år).
-            *   Ge en status (🔴/🟡/🟢) för varje rad.
-
-            ## Konkreta Spartips för Er
-            *   Ge 3 tips baserat EXAKT på deras transaktioner.
-            *   T.ex: "Ni handlade mat 25 gånger, försök storhandla", "Ni har 3 streamingtjänster", "Utemat kostade X kr". Var specifik!
-
-            ## Slutsats
-            *   En peppande men ärlig sammanfattning på 2 meningar.
-
-            Ton: Professionell men personlig ("Ni/Er"). Använd fetstil för belopp och butiksnamn.
-        `;
-
-        // Fix: Updated model to gemini-3-flash-preview as per guidelines
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: prompt,
-        });
-
-        // Fix: Extracted text correctly using .text property
-        return response.text || "Kunde inte generera analys.";
+        const provider = createAiProvider(aiConfig);
+        const redactor = createRedactor(aiConfig?.redaction);
+        const prompt = buildMonthlyReportPrompt(data, previousReports, redactor);
+
+        const text = await provider.generate({ prompt });
+        if (!text) throw new Error("Tomt svar från AI-tjänsten");
+        return redactor.restore(text);
 
     } catch (e) {
+        // Thrown rather than returned so a failed run is never saved as a report
         console.error("Report generation failed", e);
-        return "Ett fel uppstod vid generering av rapporten. Försök igen senare.";
+        const reason = e instanceof Error && e.message ? ` (${e.message})` : '';
+        throw new Error(`Ett fel uppstod vid generering av rapporten${reason}. Försök igen senare.`);
     }
 };
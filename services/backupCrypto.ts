@@ -0,0 +1,99 @@
+// Client-side encryption of backup files. The passphrase never leaves the browser and is never stored.
+// An encrypted file is a small JSON envelope: a header naming the format and every key-derivation and
+// cipher parameter needed to decrypt, followed by the AES-GCM ciphertext of the plain backup JSON.
+// The header is also authenticated, so tampering with the parameters makes decryption fail.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'familyflow-encrypted-backup';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackupHeader {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Salt in base64
+    cipher: { name: 'AES-GCM'; iv: string };
+}
+
+interface EncryptedBackup extends EncryptedBackupHeader {
+    data: string; // Base64 ciphertext
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Fixed field order so the same header always authenticates the same way
+const headerBytes = (h: EncryptedBackupHeader) => new TextEncoder().encode(JSON.stringify([
+    h.format, h.version, h.kdf.name, h.kdf.hash, h.kdf.iterations, h.kdf.salt, h.cipher.name, h.cipher.iv
+]));
+
+const deriveKey = async (passphrase: string, kdf: EncryptedBackupHeader['kdf']) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const parseEnvelope = (text: string): EncryptedBackup | null => {
+    // Cheap check first, plain backups can be large
+    if (!text.trimStart().startsWith('{') || !text.includes(ENCRYPTED_BACKUP_FORMAT)) return null;
+    try {
+        const data = JSON.parse(text);
+        return data?.format === ENCRYPTED_BACKUP_FORMAT ? data : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isEncryptedBackup = (text: string) => parseEnvelope(text) !== null;
+
+export const encryptBackup = async (json: string, passphrase: string): Promise<string> => {
+    if (!passphrase) throw new Error('Ange en lösenfras för att kryptera backupen.');
+    const header: EncryptedBackupHeader = {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        version: ENVELOPE_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))) },
+        cipher: { name: 'AES-GCM', iv: toBase64(crypto.getRandomValues(new Uint8Array(IV_BYTES))) }
+    };
+    const key = await deriveKey(passphrase, header.kdf);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: fromBase64(header.cipher.iv), additionalData: headerBytes(header) },
+        key,
+        new TextEncoder().encode(json)
+    );
+    const envelope: EncryptedBackup = { ...header, data: toBase64(new Uint8Array(ciphertext)) };
+    return JSON.stringify(envelope);
+};
+
+// Returns the plain backup JSON. Legacy unencrypted files pass straight through.
+export const decryptBackup = async (text: string, passphrase?: string): Promise<string> => {
+    const envelope = parseEnvelope(text);
+    if (!envelope) return text;
+    if (envelope.version > ENVELOPE_VERSION || envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+        throw new Error('Backupen är krypterad med ett format som den här versionen inte kan läsa.');
+    }
+    if (!passphrase) throw new Error('Backupen är krypterad. Ange lösenfrasen.');
+
+    const key = await deriveKey(passphrase, envelope.kdf);
+    try {
+        const plain = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv), additionalData: headerBytes(envelope) },
+            key,
+            fromBase64(envelope.data)
+        );
+        return new TextDecoder().decode(plain);
+    } catch {
+        // AES-GCM can't tell a wrong passphrase from a damaged file
+        throw new Error('Fel lösenfras, eller så är filen skadad.');
+    }
+};
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { withLocalSecrets, withoutSecrets } from './syncService';
+
+// Backup files and restoring them record by record. A restore is always planned first: the plan
+// lists what would be added, changed and deleted per table so the user can review it, then the
+// same plan is applied. Nothing is cleared wholesale, so a partial restore leaves the rest untouched.
+
+export const BACKUP_VERSION = 2;
+
+const isoDate = /^\d{4}-\d{2}-\d{2}/;
+const monthKey = /^\d{4}-\d{2}$/;
+const withId = { id: z.string().min(1) };
+const inBudget = { ...withId, budgetId: z.string().min(1) };
+
+// Only the fields the app can't work without are checked, the rest of each record is kept as is
+const TABLE_SCHEMAS = {
+    budgets: z.object({ ...withId, name: z.string(), icon: z.string() }).passthrough(),
+    users: z.object({ ...inBudget, name: z.string() }).passthrough(),
+    accounts: z.object({ ...inBudget, name: z.string() }).passthrough(),
+    buckets: z.object({ ...inBudget, name: z.string(), type: z.string() }).passthrough(),
+    mainCategories: z.object({ ...withId, name: z.string() }).passthrough(),
+    subCategories: z.object({ ...withId, name: z.string(), mainCategoryId: z.string() }).passthrough(),
+    budgetGroups: z.object({ ...inBudget, name: z.string() }).passthrough(),
+    budgetTemplates: z.object({ ...inBudget, name: z.string() }).passthrough(),
+    monthConfigs: z.object({ monthKey: z.string().regex(monthKey), budgetId: z.string().min(1) }).passthrough(),
+    settings: z.object({ payday: z.number() }).passthrough(),
+    transactions: z.object({ ...inBudget, accountId: z.string(), date: z.string().regex(isoDate), amount: z.number(), description: z.string() }).passthrough(),
+    importRules: z.object({ ...inBudget, keyword: z.string() }).passthrough(),
+    importProfiles: z.object({ ...inBudget, accountId: z.string() }).passthrough(),
+    importBatches: z.object({ ...inBudget, createdAt: z.string().regex(isoDate) }).passthrough(),
+    reconciliations: z.object({ ...inBudget, accountId: z.string(), monthKey: z.string().regex(monthKey) }).passthrough(),
+    ignoredSubscriptions: z.object(inBudget).passthrough(),
+    dismissedDuplicates: z.object(inBudget).passthrough(),
+    merchants: z.object({ ...inBudget, name: z.string(), key: z.string() }).passthrough(),
+    aiReports: z.object({ ...inBudget, monthKey: z.string().regex(monthKey), markdown: z.string() }).passthrough(),
+    scenarios: z.object({ ...inBudget, name: z.string(), changes: z.array(z.object({ kind: z.string() }).passthrough()) }).passthrough(),
+    housingScenarios: z.object({ ...inBudget, name: z.string(), price: z.number(), loanParts: z.array(z.object({ amount: z.number(), annualRate: z.number() }).passthrough()) }).passthrough(),
+    assets: z.object({ ...inBudget, name: z.string(), valuations: z.array(z.object({ date: z.string().regex(isoDate), value: z.number() }).passthrough()) }).passthrough(),
+    sieConfigs: z.object({ budgetId: z.string().min(1) }).passthrough()
+};
+
+export type BackupTableName = keyof typeof TABLE_SCHEMAS;
+export const BACKUP_TABLES = Object.keys(TABLE_SCHEMAS) as BackupTableName[];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTableName, string> = {
+    budgets: 'Budgetar',
+    users: 'Personer',
+    accounts: 'Konton',
+    buckets: 'Poster',
+    mainCategories: 'Huvudkategorier',
+    subCategories: 'Underkategorier',
+    budgetGroups: 'Budgetgrupper',
+    budgetTemplates: 'Budgetmallar',
+    monthConfigs: 'Månadsinställningar',
+    settings: 'Inställningar',
+    transactions: 'Transaktioner',
+    importRules: 'Importregler',
+    importProfiles: 'Importprofiler',
+    importBatches: 'Importer',
+    reconciliations: 'Avstämningar',
+    ignoredSubscriptions: 'Ignorerade abonnemang',
+    dismissedDuplicates: 'Avfärdade dubbletter',
+    merchants: 'Handlare',
+    aiReports: 'AI-rapporter',
+    scenarios: 'Scenarier',
+    housingScenarios: 'Boendekalkyler',
+    assets: 'Tillgångar',
+    sieConfigs: 'SIE-export'
+};
+
+// Shared tables have no budget, dated tables can be restored for a period
+const GLOBAL_TABLES: BackupTableName[] = ['mainCategories', 'subCategories', 'settings'];
+const DATE_OF: Partial<Record<BackupTableName, (r: any) => string>> = {
+    transactions: r => r.date,
+    importBatches: r => r.createdAt.slice(0, 10),
+    reconciliations: r => r.monthKey,
+    monthConfigs: r => r.monthKey,
+    aiReports: r => r.monthKey
+};
+
+export const isDatedTable = (table: BackupTableName) => !!DATE_OF[table];
+export const isGlobalTable = (table: BackupTableName) => GLOBAL_TABLES.includes(table);
+
+const backupSchema = z.object({
+    version: z.literal(BACKUP_VERSION),
+    exportedAt: z.string(),
+    tables: z.object(Object.fromEntries(BACKUP_TABLES.map(t => [t, z.array(TABLE_SCHEMAS[t])])) as { [K in BackupTableName]: z.ZodArray<typeof TABLE_SCHEMAS[K]> })
+});
+
+export type BackupFile = z.infer<typeof backupSchema>;
+
+// Each step lifts a backup one version. Version 1 is the unversioned export with the tables at the top level.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    1: data => {
+        const tables: Record<string, any[]> = {};
+        BACKUP_TABLES.forEach(t => {
+            tables[t] = Array.isArray(data[t]) ? data[t] : [];
+        });
+        // Same repair as the app does on start: rows from before budgets existed belong to the default budget
+        BACKUP_TABLES.filter(t => !isGlobalTable(t) && t !== 'budgets').forEach(t => {
+            tables[t] = tables[t].map(r => r.budgetId ? r : { ...r, budgetId: 'default' });
+        });
+        tables.settings = tables.settings.map((r, i) => r.id !== undefined ? r : { ...r, id: i + 1 });
+        if (tables.budgets.length === 0 && BACKUP_TABLES.some(t => tables[t].length > 0)) {
+            tables.budgets = [{ id: 'default', name: 'Gemensam', icon: '🏠', isDefault: true }];
+        }
+        return { version: 2, exportedAt: data.exportedAt || '', tables };
+    }
+};
+
+const describeIssues = (error: z.ZodError) => error.issues.slice(0, 3)
+    .map(i => `${i.path.join('.')}: ${i.message}`)
+    .join('; ');
+
+export const parseBackup = (json: string): BackupFile => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Filen är inte giltig JSON.');
+    }
+    if (!data || typeof data !== 'object') throw new Error('Filen innehåller ingen backup.');
+
+    let version = typeof data.version === 'number' ? data.version : 1;
+    if (version > BACKUP_VERSION) throw new Error(`Backupen är från en nyare version av appen (format ${version}).`);
+    while (version < BACKUP_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`Okänt backupformat (${version}).`);
+        data = migrate(data);
+        version++;
+    }
+
+    const parsed = backupSchema.safeParse(data);
+    if (!parsed.success) {
+        console.error('Backup did not match schema', parsed.error.issues);
+        throw new Error(`Backupen är ogiltig: ${describeIssues(parsed.error)}`);
+    }
+    return parsed.data;
+};
+
+export const createBackup = async (): Promise<BackupFile> => {
+    const tables = {} as Record<BackupTableName, any[]>;
+    for (const t of BACKUP_TABLES) tables[t] = (await db.table(t).toArray()).map(r => withoutSecrets(t, r));
+    return { version: BACKUP_VERSION, exportedAt: new Date().toISOString(), tables };
+};
+
+export interface RestoreOptions {
+    mode: 'merge' | 'replace'; // Replace also deletes local records in the selection that the backup doesn't have
+    tables?: BackupTableName[]; // Empty = all
+    budgetIds?: string[]; // Empty = all budgets, otherwise shared tables are left alone
+    startDate?: string; // yyyy-MM-dd, limits dated tables, undated tables are left alone
+    endDate?: string;
+}
+
+export interface TableRestorePlan {
+    table: BackupTableName;
+    added: any[];
+    changed: any[];
+    deleted: (string | number)[];
+    unchanged: number;
+}
+
+const getKeyPath = (table: BackupTableName) => db.table(table).schema.primKey.keyPath as string;
+
+// Sync metadata says when a row was written, not what it contains, so it doesn't count as a change
+const contentOf = (record: any): string => {
+    const { updatedAt, deviceId, ...rest } = record;
+    return stableStringify(rest);
+};
+
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const createSelection = (table: BackupTableName, options: RestoreOptions) => {
+    const budgetIds = options.budgetIds?.length ? options.budgetIds : null;
+    const dateOf = DATE_OF[table];
+    const hasPeriod = !!(options.startDate || options.endDate);
+    return (record: any): boolean => {
+        if (budgetIds && !budgetIds.includes(table === 'budgets' ? record.id : record.budgetId)) return false;
+        if (hasPeriod && dateOf) {
+            const date = dateOf(record);
+            // Month keys are compared at month precision
+            const start = options.startDate?.slice(0, date.length);
+            const end = options.endDate?.slice(0, date.length);
+            if (start && date < start) return false;
+            if (end && date > end) return false;
+        }
+        return true;
+    };
+};
+
+export const getRestoreTables = (options: RestoreOptions): BackupTableName[] => {
+    const hasPeriod = !!(options.startDate || options.endDate);
+    return (options.tables?.length ? options.tables : BACKUP_TABLES)
+        .filter(t => !(options.budgetIds?.length && isGlobalTable(t)))
+        .filter(t => !(hasPeriod && !isDatedTable(t)));
+};
+
+export const planRestore = async (backup: BackupFile, options: RestoreOptions): Promise<TableRestorePlan[]> => {
+    const plans: TableRestorePlan[] = [];
+    for (const table of getRestoreTables(options)) {
+        const keyPath = getKeyPath(table);
+        const inSelection = createSelection(table, options);
+        const local = new Map<any, any>((await db.table(table).toArray()).map(r => [r[keyPath], r]));
+        const incoming = (backup.tables[table] as any[]).filter(inSelection).map(r => withLocalSecrets(table, r, local.get(r[keyPath])));
+
+        const plan: TableRestorePlan = { table, added: [], changed: [], deleted: [], unchanged: 0 };
+        const incomingKeys = new Set<any>();
+        incoming.forEach(record => {
+            const key = record[keyPath];
+            incomingKeys.add(key);
+            const existing = local.get(key);
+            if (!existing) plan.added.push(record);
+            else if (contentOf(existing) !== contentOf(record)) plan.changed.push(record);
+            else plan.unchanged++;
+        });
+        if (options.mode === 'replace') {
+            local.forEach((record, key) => {
+                if (!incomingKeys.has(key) && inSelection(record)) plan.deleted.push(key);
+            });
+        }
+        plans.push(plan);
+    }
+    return plans;
+};
+
+export const hasRestoreChanges = (plans: TableRestorePlan[]) => plans.some(p => p.added.length + p.changed.length + p.deleted.length > 0);
+
+// Regular writes, so the change tracking stamps every restored row and deletes leave tombstones for sync
+export const applyRestorePlan = async (plans: TableRestorePlan[]): Promise<void> => {
+    const active = plans.filter(p => p.added.length + p.changed.length + p.deleted.length > 0);
+    if (active.length === 0) return;
+    await (db as any).transaction('rw', active.map(p => p.table), async () => {
+        for (const plan of active) {
+            const table = db.table(plan.table);
+            if (plan.deleted.length > 0) await table.bulkDelete(plan.deleted);
+            const records = [...plan.added, ...plan.changed].map(({ updatedAt, deviceId, ...record }) => record);
+            if (records.length > 0) await table.bulkPut(records);
+        }
+    });
+};
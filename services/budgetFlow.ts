@@ -0,0 +1,136 @@
+import { eachDayOfInterval, getDay } from 'date-fns';
+import { Bucket, BudgetGroup, BudgetTemplate, MonthConfig, SubCategory } from '../types';
+import { calculateGoalBucketCost, getBudgetInterval, getEffectiveBucketData, getEffectiveBudgetGroupData, getEffectiveSubCategoryBudget } from '../utils';
+
+export interface BudgetFlowItem {
+    name: string;
+    amount: number;
+    type: string; // 'SUB' | 'BUCKET' | 'BUFFER', or 'SCENARIO' for what-if additions
+}
+
+export interface BudgetFlow {
+    consumptionExpenses: number;
+    savingsExpenses: number;
+    consumptionItems: BudgetFlowItem[];
+    savingsItems: BudgetFlowItem[];
+}
+
+export interface BudgetFlowInput {
+    buckets: Bucket[];
+    budgetGroups: BudgetGroup[];
+    subCategories: SubCategory[];
+    budgetTemplates: BudgetTemplate[];
+    monthConfigs: MonthConfig[];
+    payday: number;
+}
+
+// Budgeted outflow for a month, split into consumption and savings. Shared by the waterfall and the scenario projection.
+export const calculateBudgetFlow = (monthKey: string, { buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, payday }: BudgetFlowInput): BudgetFlow => {
+    let consumption = 0;
+    let savings = 0;
+    
+    const consumptionItems: BudgetFlowItem[] = [];
+    const savingsItems: BudgetFlowItem[] = [];
+
+    const { start, end } = getBudgetInterval(monthKey, payday);
+
+    const classifyAndAdd = (amount: number, name: string, type: string, isGroupSavings: boolean, isItemSavings: boolean) => {
+        if (amount <= 0) return;
+        if (isGroupSavings || isItemSavings) {
+            savings += amount;
+            savingsItems.push({ name, amount, type });
+        } else {
+            consumption += amount;
+            consumptionItems.push({ name, amount, type });
+        }
+    };
+
+    const assignedBucketIds = new Set<string>();
+    const groupToBuckets = new Map<string, string[]>();
+
+    budgetGroups.forEach(g => groupToBuckets.set(g.id, []));
+    buckets.forEach(b => {
+        if (b.budgetGroupId) {
+            const list = groupToBuckets.get(b.budgetGroupId);
+            if (list) {
+                list.push(b.id);
+                assignedBucketIds.add(b.id);
+            }
+        }
+    });
+
+    budgetGroups.forEach(group => {
+        if (group.linkedBucketIds) {
+            group.linkedBucketIds.forEach(bid => {
+                if (!assignedBucketIds.has(bid)) {
+                    groupToBuckets.get(group.id)?.push(bid);
+                    assignedBucketIds.add(bid);
+                }
+            });
+        }
+    });
+
+    const catchAllGroup = budgetGroups.find(g => g.isCatchAll);
+    if (catchAllGroup) {
+        buckets.forEach(b => {
+            if (!assignedBucketIds.has(b.id)) {
+                groupToBuckets.get(catchAllGroup.id)?.push(b.id);
+            }
+        });
+    }
+
+    budgetGroups.forEach(group => {
+        const { data: explicitData } = getEffectiveBudgetGroupData(group, monthKey, budgetTemplates, monthConfigs);
+        const manualLimit = explicitData && !explicitData.isExplicitlyDeleted ? explicitData.limit : 0;
+        const isGroupSavings = group.forecastType === 'SAVINGS';
+
+        let groupChildrenSum = 0;
+
+        const groupSubs = subCategories.filter(s => s.budgetGroupId === group.id);
+        groupSubs.forEach(sub => {
+            const subBudget = getEffectiveSubCategoryBudget(sub, monthKey, budgetTemplates, monthConfigs);
+            if (subBudget > 0) {
+                groupChildrenSum += subBudget;
+                classifyAndAdd(subBudget, sub.name, 'SUB', isGroupSavings, !!sub.isSavings);
+            }
+        });
+
+        const groupBucketIds = groupToBuckets.get(group.id) || [];
+        buckets.filter(b => groupBucketIds.includes(b.id)).forEach(b => {
+            let cost = 0;
+
+            if (b.type === 'FIXED') {
+                const { data } = getEffectiveBucketData(b, monthKey, budgetTemplates, monthConfigs);
+                cost = data ? data.amount : 0;
+            } else if (b.type === 'DAILY') {
+                const { data } = getEffectiveBucketData(b, monthKey, budgetTemplates, monthConfigs);
+                if (data) {
+                    const days = eachDayOfInterval({ start, end });
+                    const count = days.filter(day => data.activeDays.includes(getDay(day))).length;
+                    cost = count * data.dailyAmount;
+                }
+            } else if (b.type === 'GOAL') {
+                if (b.paymentSource === 'INCOME') {
+                    cost = calculateGoalBucketCost(b, monthKey);
+                }
+            }
+
+            if (cost > 0) {
+                groupChildrenSum += cost;
+                classifyAndAdd(cost, b.name, 'BUCKET', isGroupSavings, !!b.isSavings);
+            }
+        });
+
+        const unallocated = Math.max(0, manualLimit - groupChildrenSum);
+        if (unallocated > 0) {
+            classifyAndAdd(unallocated, `Buffert: ${group.name}`, 'BUFFER', isGroupSavings, false);
+        }
+    });
+
+    return { 
+        consumptionExpenses: consumption, 
+        savingsExpenses: savings, 
+        consumptionItems: consumptionItems.sort((a,b) => b.amount - a.amount),
+        savingsItems: savingsItems.sort((a,b) => b.amount - a.amount)
+    };
+};
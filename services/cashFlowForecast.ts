@@ -0,0 +1,227 @@
+import { addDays, addMonths, eachDayOfInterval, format, getDate, getDay, getDaysInMonth, parseISO, startOfDay, subDays } from 'date-fns';
+import { Account, Bucket, BudgetGroup, Transaction, User } from '../types';
+import { getBudgetInterval, getEffectiveBucketData } from '../utils';
+import { AccountNeedsInput, calculateAccountNeeds } from './accountNeeds';
+import { getProjectedIncomeData } from './scenarioService';
+import type { SubscriptionCandidate } from '../hooks/useSubscriptionDetection';
+
+// Day-by-day balance forecast per account. Starts from what each account holds today and schedules what
+// the budget says will happen: income and the planned transfers on payday, fixed buckets on the day they
+// are usually debited, detected subscriptions and daily-bucket spending. Sub-category budgets have no date
+// and aren't scheduled, so after payday their money stays on the account. The forecast runs through the
+// budget month that starts on the next payday.
+
+export type CashFlowEventKind = 'income' | 'transfer' | 'fixed' | 'subscription' | 'daily';
+
+export interface CashFlowEvent {
+    date: string; // yyyy-MM-dd
+    accountId: string;
+    kind: CashFlowEventKind;
+    label: string;
+    amount: number; // Negative = out of the account
+}
+
+export interface ForecastDay {
+    date: string;
+    balance: number; // Closing balance of the day
+    events: CashFlowEvent[];
+}
+
+export interface AccountForecast {
+    accountId: string;
+    startBalance: number;
+    balanceSource: 'imported' | 'startBalance' | 'none'; // Last bank balance, Account.startBalances or nothing to go on
+    balanceDate?: string; // Date of the bank balance, or the month start the start balance applies to
+    floor: number;
+    days: ForecastDay[]; // First day is today with the start balance
+    lowest: { date: string, balance: number };
+    breach?: { date: string, balance: number }; // First day below the floor, never set without a balance to start from
+    breachBeforePayday: boolean;
+}
+
+export interface CashFlowForecast {
+    today: string;
+    nextPayday: string;
+    endDate: string;
+    incomeAccountId?: string; // Account the salaries land on, undefined if no income has been imported
+    accounts: AccountForecast[];
+}
+
+export interface CashFlowForecastInput extends AccountNeedsInput {
+    accounts: Account[];
+    users: User[];
+    transactions: Transaction[];
+    subscriptions: SubscriptionCandidate[]; // Already filtered from ignored ones
+}
+
+const EPSILON = 0.005;
+const DEBIT_DAY_HISTORY = 6; // Latest payments looked at to find a fixed bucket's debit day
+const INCOME_ACCOUNT_LOOKBACK_DAYS = 93;
+
+const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// The budget month a date belongs to, "2025-06" runs from the May payday to the day before the June one
+export const getBudgetMonthForDate = (date: Date, payday: number): string =>
+    format(getDate(date) >= payday ? addMonths(date, 1) : date, 'yyyy-MM');
+
+export const getCurrentBalance = (account: Account, transactions: Transaction[], todayStr: string, payday: number): Pick<AccountForecast, 'startBalance' | 'balanceSource' | 'balanceDate'> => {
+    const rows = transactions.filter(t => t.accountId === account.id && t.date <= todayStr);
+    const sum = (list: Transaction[]) => list.reduce((s, t) => s + t.amount, 0);
+
+    const withBalance = rows.filter(t => t.balance !== undefined);
+    if (withBalance.length > 0) {
+        const lastDate = withBalance.reduce((max, t) => t.date > max ? t.date : max, withBalance[0].date);
+        const sameDay = withBalance.filter(t => t.date === lastDate);
+        // Same-day order is lost on import, the closing row is the one no other row of the day continues from
+        const closing = sameDay.find(t => !sameDay.some(o => o !== t && Math.abs(o.balance! - o.amount - t.balance!) < EPSILON)) || sameDay[sameDay.length - 1];
+        return {
+            startBalance: round2(closing.balance! + sum(rows.filter(t => t.date > lastDate))),
+            balanceSource: 'imported',
+            balanceDate: lastDate
+        };
+    }
+
+    const currentMonth = getBudgetMonthForDate(parseISO(todayStr), payday);
+    const monthKey = Object.keys(account.startBalances || {}).filter(m => m <= currentMonth).sort().pop();
+    if (monthKey) {
+        const startStr = toDateStr(getBudgetInterval(monthKey, payday).start);
+        return {
+            startBalance: round2(account.startBalances[monthKey] + sum(rows.filter(t => t.date >= startStr))),
+            balanceSource: 'startBalance',
+            balanceDate: startStr
+        };
+    }
+    return { startBalance: 0, balanceSource: 'none' };
+};
+
+// The account that received the most income lately
+export const findIncomeAccountId = (transactions: Transaction[], today: Date): string | undefined => {
+    const sinceStr = toDateStr(subDays(today, INCOME_ACCOUNT_LOOKBACK_DAYS));
+    const totals = new Map<string, number>();
+    transactions.forEach(t => {
+        if (t.type === 'INCOME' && t.amount > 0 && t.date >= sinceStr) totals.set(t.accountId, (totals.get(t.accountId) || 0) + t.amount);
+    });
+    let best: string | undefined;
+    totals.forEach((total, accountId) => {
+        if (best === undefined || total > totals.get(best)!) best = accountId;
+    });
+    return best;
+};
+
+// Median day of month of the latest payments booked on the bucket
+const findDebitDay = (bucketId: string, transactions: Transaction[]): number | undefined => {
+    const days = transactions
+        .filter(t => t.bucketId === bucketId && t.amount < 0)
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, DEBIT_DAY_HISTORY)
+        .map(t => getDate(parseISO(t.date)))
+        .sort((a, b) => a - b);
+    return days.length > 0 ? days[Math.floor(days.length / 2)] : undefined;
+};
+
+// Same priority as the transfer needs: the bucket's own account, then its group's default account
+export const getBucketAccountId = (bucket: Bucket, budgetGroups: BudgetGroup[]): string | undefined => {
+    if (bucket.accountId) return bucket.accountId;
+    const group = budgetGroups.find(g => bucket.budgetGroupId ? g.id === bucket.budgetGroupId : g.linkedBucketIds?.includes(bucket.id));
+    return group?.defaultAccountId;
+};
+
+export const forecastCashFlow = (input: CashFlowForecastInput, todayDate: Date = new Date()): CashFlowForecast => {
+    const { accounts, users, transactions, subscriptions, buckets, budgetTemplates, monthConfigs, payday } = input;
+    const today = startOfDay(todayDate);
+    const todayStr = toDateStr(today);
+    const nextMonth = format(addMonths(parseISO(`${getBudgetMonthForDate(today, payday)}-01`), 1), 'yyyy-MM');
+    const { start: nextPayday, end } = getBudgetInterval(nextMonth, payday);
+    const days = eachDayOfInterval({ start: addDays(today, 1), end });
+    const accountIds = new Set(accounts.map(a => a.id));
+    const incomeAccountId = findIncomeAccountId(transactions, today);
+    const events: CashFlowEvent[] = [];
+
+    const addEvent = (event: CashFlowEvent) => {
+        if (accountIds.has(event.accountId) && Math.abs(event.amount) >= EPSILON) events.push(event);
+    };
+
+    // Payday: income lands on the income account, which then funds every other account's need
+    const paydayStr = toDateStr(nextPayday);
+    if (incomeAccountId) {
+        const income = users.reduce((sum, user) => {
+            const data = getProjectedIncomeData(user, nextMonth);
+            return sum + (data.salary || 0) + (data.childBenefit || 0) + (data.insurance || 0);
+        }, 0);
+        addEvent({ date: paydayStr, accountId: incomeAccountId, kind: 'income', label: 'Lön och bidrag', amount: income });
+    }
+    const incomeAccountName = accounts.find(a => a.id === incomeAccountId)?.name;
+    Object.entries(calculateAccountNeeds(nextMonth, input).accountNeeds).forEach(([accountId, need]) => {
+        if (accountId === incomeAccountId) return;
+        addEvent({ date: paydayStr, accountId, kind: 'transfer', label: incomeAccountName ? `Överföring från ${incomeAccountName}` : 'Planerad överföring', amount: need });
+        if (incomeAccountId && accountIds.has(accountId)) {
+            addEvent({ date: paydayStr, accountId: incomeAccountId, kind: 'transfer', label: `Överföring till ${accounts.find(a => a.id === accountId)!.name}`, amount: -need });
+        }
+    });
+
+    // Buckets: fixed ones once per calendar month on their debit day, daily ones on their active weekdays
+    const scheduledFixedIds = new Set<string>();
+    buckets.forEach(bucket => {
+        if (bucket.type !== 'FIXED' && bucket.type !== 'DAILY') return;
+        const accountId = getBucketAccountId(bucket, input.budgetGroups);
+        if (!accountId) return;
+        const debitDay = bucket.type === 'FIXED' ? findDebitDay(bucket.id, transactions) ?? payday : 0;
+        if (bucket.type === 'FIXED') scheduledFixedIds.add(bucket.id);
+
+        days.forEach(day => {
+            const { data } = getEffectiveBucketData(bucket, getBudgetMonthForDate(day, payday), budgetTemplates, monthConfigs);
+            if (!data || data.isExplicitlyDeleted) return;
+            if (bucket.type === 'FIXED' && getDate(day) === Math.min(debitDay, getDaysInMonth(day))) {
+                addEvent({ date: toDateStr(day), accountId, kind: 'fixed', label: bucket.name, amount: -data.amount });
+            }
+            if (bucket.type === 'DAILY' && data.activeDays.includes(getDay(day))) {
+                addEvent({ date: toDateStr(day), accountId, kind: 'daily', label: bucket.name, amount: -data.dailyAmount });
+            }
+        });
+    });
+
+    // Subscriptions a month after the last charge. Those already booked on a fixed bucket are scheduled above.
+    subscriptions.forEach(sub => {
+        if (sub.transactions.some(t => t.bucketId && scheduledFixedIds.has(t.bucketId))) return;
+        for (let i = 1; ; i++) {
+            const date = toDateStr(addMonths(parseISO(sub.lastDate), i));
+            if (date > toDateStr(end)) break;
+            if (date > todayStr) addEvent({ date, accountId: sub.accountId, kind: 'subscription', label: sub.name, amount: -sub.avgAmount });
+        }
+    });
+
+    return {
+        today: todayStr,
+        nextPayday: paydayStr,
+        endDate: toDateStr(end),
+        incomeAccountId,
+        // Loan accounts have no cash of their own, transfers to them are still scheduled on the paying account
+        accounts: accounts.filter(a => a.type !== 'LOAN').map(account => {
+            const current = getCurrentBalance(account, transactions, todayStr, payday);
+            const floor = account.balanceFloor ?? 0;
+            const accountEvents = events.filter(e => e.accountId === account.id);
+            let balance = current.startBalance;
+            const forecastDays: ForecastDay[] = [{ date: todayStr, balance, events: [] }];
+            days.forEach(day => {
+                const date = toDateStr(day);
+                const dayEvents = accountEvents.filter(e => e.date === date);
+                balance = round2(balance + dayEvents.reduce((sum, e) => sum + e.amount, 0));
+                forecastDays.push({ date, balance, events: dayEvents });
+            });
+
+            const lowestDay = forecastDays.reduce((low, d) => d.balance < low.balance ? d : low, forecastDays[0]);
+            // Counting from 0 the first debit would always look like a breach, so accounts without a balance never warn
+            const breachDay = current.balanceSource === 'none' ? undefined : forecastDays.find(d => d.balance < floor);
+            return {
+                accountId: account.id,
+                ...current,
+                floor,
+                days: forecastDays,
+                lowest: { date: lowestDay.date, balance: lowestDay.balance },
+                breach: breachDay && { date: breachDay.date, balance: breachDay.balance },
+                breachBeforePayday: !!breachDay && breachDay.date < paydayStr
+            };
+        })
+    };
+};
@@ -0,0 +1,81 @@
+import { Transaction, ImportRule, CategorySuggestion } from '../types';
+import { createRuleMatcher, applyRuleToTransaction, mergeMatchedRules } from './importService';
+import { normalizeMerchantKey } from './merchantService';
+import { getCategorizationKey } from './categoryModel';
+
+// Feedback loop for the review queue. When the user overrides a suggestion the original is kept
+// in correctedFrom, and the same override made repeatedly becomes an offer to create a rule.
+
+export const CORRECTION_RULE_THRESHOLD = 3; // Identical corrections before a rule is offered
+
+export interface CorrectionPattern {
+    key: string;
+    keyword: string; // Proposed rule text, the common start of the corrected descriptions
+    sample: Transaction; // Most recent corrected row, carries the target categorization
+    transactions: Transaction[];
+    sameAccount: boolean;
+}
+
+export const toCategorySuggestion = (t: Transaction): CategorySuggestion | undefined => {
+    if (!t.matchType) return undefined;
+    return { matchType: t.matchType, type: t.type, bucketId: t.bucketId, categoryMainId: t.categoryMainId, categorySubId: t.categorySubId };
+};
+
+// Rows from before confidence existed fall back on how strong their source usually is
+export const getMatchConfidence = (t: Transaction): number => {
+    if (t.matchConfidence !== undefined) return t.matchConfidence;
+    if (t.linkedTransactionId || t.matchType === 'rule') return 1;
+    if (t.matchType === 'history') return 0.8;
+    if (t.matchType) return 0.5;
+    return 0;
+};
+
+// Lowest confidence first so the rows that need a human come up first, newest first within a level
+export const sortByConfidence = (transactions: Transaction[]): Transaction[] =>
+    [...transactions].sort((a, b) => getMatchConfidence(a) - getMatchConfidence(b) || b.date.localeCompare(a.date));
+
+export const isCorrection = (t: Transaction) => !!t.correctedFrom && getCategorizationKey(t.correctedFrom) !== getCategorizationKey(t);
+
+const commonDescriptionPrefix = (descriptions: string[]): string => {
+    const upper = descriptions.map(d => d.trim().toUpperCase());
+    let prefix = upper[0];
+    upper.forEach(d => {
+        while (prefix && !d.startsWith(prefix)) prefix = prefix.slice(0, -1);
+    });
+    // Cut at a word boundary unless the whole first text is shared
+    if (prefix !== upper[0] && prefix.includes(' ')) prefix = prefix.slice(0, prefix.lastIndexOf(' '));
+    return prefix.trim();
+};
+
+export const findRepeatedCorrections = (transactions: Transaction[], rules: ImportRule[], threshold = CORRECTION_RULE_THRESHOLD): CorrectionPattern[] => {
+    const groups = new Map<string, Transaction[]>();
+    transactions.filter(isCorrection).forEach(t => {
+        const merchant = t.merchantId || normalizeMerchantKey(t.originalText || t.description);
+        const key = `${merchant}|${t.amount < 0 ? '-' : '+'}|${getCategorizationKey(t)}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(t);
+    });
+
+    const matchRule = createRuleMatcher(rules);
+    const patterns: CorrectionPattern[] = [];
+    groups.forEach((rows, key) => {
+        if (rows.length < threshold) return;
+        const sample = [...rows].sort((a, b) => b.date.localeCompare(a.date))[0];
+        // Already handled when the current rules would categorize every row the way the user wants
+        const handled = rows.every(t => {
+            const rule = mergeMatchedRules(matchRule(t));
+            return !!rule && getCategorizationKey(applyRuleToTransaction(t, rule)) === getCategorizationKey(t);
+        });
+        if (handled) return;
+
+        const keyword = commonDescriptionPrefix(rows.map(t => t.description));
+        patterns.push({
+            key,
+            keyword: keyword.length >= 3 ? keyword : sample.description,
+            sample,
+            transactions: rows,
+            sameAccount: rows.every(t => t.accountId === sample.accountId)
+        });
+    });
+    return patterns.sort((a, b) => b.transactions.length - a.transactions.length);
+};
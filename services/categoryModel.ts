@@ -0,0 +1,112 @@
+import { Transaction, TransactionType } from '../types';
+import { normalizeMerchantKey } from './merchantService';
+import { expandSplitTransactions } from '../utils';
+
+// Multinomial naive Bayes trained on our own verified transactions. Features are the words of the
+// normalized merchant text plus the sign and order of magnitude of the amount, so "ICA NARA 1234"
+// learns from every other ICA row and a 39 kr and a 3 900 kr row with the same text can still differ.
+
+export const MODEL_MIN_TRAINING_ROWS = 20;
+export const MODEL_MIN_CONFIDENCE = 0.6;
+
+export interface CategoryPrediction {
+    type: TransactionType;
+    bucketId?: string;
+    categoryMainId?: string;
+    categorySubId?: string;
+    confidence: number; // Posterior probability of the winning label, 0 - 1
+}
+
+interface LabelStats {
+    prediction: Omit<CategoryPrediction, 'confidence'>;
+    docCount: number;
+    tokenCount: number;
+    tokens: Map<string, number>;
+}
+
+export interface CategoryModel {
+    labels: Map<string, LabelStats>;
+    vocabulary: Set<string>;
+    trainingRows: number;
+}
+
+const amountToken = (amount: number) => {
+    const magnitude = Math.floor(Math.log10(Math.max(1, Math.abs(amount))) * 2); // Half decades: 1-3, 3-10, 10-31 ...
+    return `amt:${amount < 0 ? '-' : '+'}${magnitude}`;
+};
+
+export const tokenizeTransaction = (t: Pick<Transaction, 'description' | 'originalText' | 'amount'>): string[] => {
+    const words = normalizeMerchantKey(t.originalText || t.description).split(' ').filter(w => w.length >= 2);
+    return [...words, amountToken(t.amount)];
+};
+
+// Identifies a categorization, two rows with the same key are booked the same way
+export const getCategorizationKey = (t: Pick<Transaction, 'type' | 'bucketId' | 'categoryMainId' | 'categorySubId'>) =>
+    `${t.type}|${t.bucketId || ''}|${t.categoryMainId || ''}|${t.categorySubId || ''}`;
+
+// Rows that carry a complete categorization a new row could copy
+const isTrainingRow = (t: Transaction) => {
+    if (!t.isVerified || t.isHidden || t.linkedExpenseId || !t.type) return false;
+    if (t.type === 'TRANSFER') return !!t.bucketId;
+    if (t.type === 'EXPENSE') return !!t.categoryMainId && !!t.categorySubId;
+    return !!t.categoryMainId;
+};
+
+export const trainCategoryModel = (transactions: Transaction[]): CategoryModel => {
+    const labels = new Map<string, LabelStats>();
+    const vocabulary = new Set<string>();
+    let trainingRows = 0;
+
+    expandSplitTransactions(transactions).filter(isTrainingRow).forEach(t => {
+        const key = getCategorizationKey(t);
+        let stats = labels.get(key);
+        if (!stats) {
+            stats = {
+                prediction: { type: t.type!, bucketId: t.bucketId, categoryMainId: t.categoryMainId, categorySubId: t.categorySubId },
+                docCount: 0,
+                tokenCount: 0,
+                tokens: new Map()
+            };
+            labels.set(key, stats);
+        }
+        stats.docCount++;
+        tokenizeTransaction(t).forEach(token => {
+            vocabulary.add(token);
+            stats!.tokens.set(token, (stats!.tokens.get(token) || 0) + 1);
+            stats!.tokenCount++;
+        });
+        trainingRows++;
+    });
+
+    return { labels, vocabulary, trainingRows };
+};
+
+export const predictCategory = (model: CategoryModel, t: Pick<Transaction, 'description' | 'originalText' | 'amount'>): CategoryPrediction | null => {
+    if (model.trainingRows === 0) return null;
+    const tokens = tokenizeTransaction(t);
+    // Without a single known word the answer would just be the most common category
+    if (!tokens.some(token => !token.startsWith('amt:') && model.vocabulary.has(token))) return null;
+    const sign = t.amount < 0 ? -1 : 1;
+
+    const scores: { stats: LabelStats, logProb: number }[] = [];
+    model.labels.forEach(stats => {
+        // Money going out is never income and money coming in is never an expense
+        if (stats.prediction.type === 'INCOME' && sign < 0) return;
+        if (stats.prediction.type === 'EXPENSE' && sign > 0) return;
+
+        let logProb = Math.log(stats.docCount / model.trainingRows);
+        tokens.forEach(token => {
+            // Laplace smoothing so unseen words don't zero out a label
+            logProb += Math.log(((stats.tokens.get(token) || 0) + 1) / (stats.tokenCount + model.vocabulary.size));
+        });
+        scores.push({ stats, logProb });
+    });
+    if (scores.length === 0) return null;
+
+    // Normalize in log space to avoid underflow
+    const max = Math.max(...scores.map(s => s.logProb));
+    const total = scores.reduce((sum, s) => sum + Math.exp(s.logProb - max), 0);
+    const best = scores.reduce((a, b) => (b.logProb > a.logProb ? b : a));
+
+    return { ...best.stats.prediction, confidence: Math.exp(best.logProb - max) / total };
+};
@@ -0,0 +1,110 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Transaction } from '../types';
+import { normalizeMerchantKey } from './merchantService';
+
+// Scored duplicate detection. The import hash only catches rows with identical date and text,
+// but the same purchase exported as CSV and later as XLSX often has a shifted booking date
+// or a trimmed merchant text. Pairs must share account and amount; date distance and text similarity give the score.
+
+export const DUPLICATE_DATE_WINDOW = 4; // Days between booking dates that can still be the same purchase
+export const DUPLICATE_MIN_SCORE = 0.6;
+
+export interface DuplicatePair {
+    key: string;
+    a: Transaction; // The older/existing row
+    b: Transaction;
+    score: number; // 0 - 1
+    dayDiff: number;
+    textSimilarity: number;
+}
+
+export const getDuplicatePairKey = (idA: string, idB: string) => [idA, idB].sort().join('|');
+
+const textSimilarity = (a: string, b: string): number => {
+    const na = normalizeMerchantKey(a);
+    const nb = normalizeMerchantKey(b);
+    if (!na || !nb) return 0;
+    if (na === nb) return 1;
+    // Truncated exports cut the text, so a prefix match is almost as strong as equality
+    if (na.startsWith(nb) || nb.startsWith(na)) return 0.9;
+
+    const ta = new Set(na.split(' '));
+    const tb = new Set(nb.split(' '));
+    const shared = Array.from(ta).filter(t => tb.has(t)).length;
+    return shared / (ta.size + tb.size - shared);
+};
+
+// Returns null when the two rows can't be the same bank event
+export const scoreDuplicatePair = (a: Transaction, b: Transaction): DuplicatePair | null => {
+    if (a.id === b.id || a.accountId !== b.accountId || a.amount !== b.amount) return null;
+    // Two different bank ids are two different transactions
+    if (a.externalId && b.externalId && a.externalId !== b.externalId) return null;
+    // Rows from the same file are distinct purchases even if they look identical
+    if (a.batchId && a.batchId === b.batchId) return null;
+    // A transfer pair is linked on purpose
+    if (a.linkedTransactionId === b.id) return null;
+
+    const dayDiff = Math.abs(differenceInCalendarDays(parseISO(a.originalDate || a.date), parseISO(b.originalDate || b.date)));
+    if (dayDiff > DUPLICATE_DATE_WINDOW) return null;
+
+    const similarity = a.merchantId && a.merchantId === b.merchantId
+        ? 1
+        : textSimilarity(a.originalText || a.description, b.originalText || b.description);
+    const dateScore = 1 - dayDiff / (DUPLICATE_DATE_WINDOW + 1);
+    const score = Math.round((similarity * 0.6 + dateScore * 0.4) * 100) / 100;
+
+    const [first, second] = a.date <= b.date ? [a, b] : [b, a];
+    return { key: getDuplicatePairKey(a.id, b.id), a: first, b: second, score, dayDiff, textSimilarity: similarity };
+};
+
+const groupByAccountAndAmount = (transactions: Transaction[]) => {
+    const groups = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+        const key = `${t.accountId}_${t.amount}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(t);
+    });
+    return groups;
+};
+
+// All suspicious pairs within a set of transactions (on demand check)
+export const findDuplicatePairs = (transactions: Transaction[], dismissedKeys: Set<string> = new Set(), minScore = DUPLICATE_MIN_SCORE): DuplicatePair[] => {
+    const pairs: DuplicatePair[] = [];
+    groupByAccountAndAmount(transactions).forEach(group => {
+        if (group.length < 2) return;
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                const pair = scoreDuplicatePair(group[i], group[j]);
+                if (pair && pair.score >= minScore && !dismissedKeys.has(pair.key)) pairs.push(pair);
+            }
+        }
+    });
+    return pairs.sort((x, y) => y.score - x.score);
+};
+
+// Best existing match per incoming row (used during import, after exact dedupe)
+export const findImportDuplicates = (incoming: Transaction[], existing: Transaction[], dismissedKeys: Set<string> = new Set(), minScore = DUPLICATE_MIN_SCORE): DuplicatePair[] => {
+    const existingGroups = groupByAccountAndAmount(existing);
+    const claimed = new Set<string>();
+    const pairs: DuplicatePair[] = [];
+
+    incoming.forEach(t => {
+        const candidates = existingGroups.get(`${t.accountId}_${t.amount}`) || [];
+        const best = candidates
+            .filter(c => !claimed.has(c.id))
+            .map(c => scoreDuplicatePair(c, t))
+            .filter((p): p is DuplicatePair => !!p && p.score >= minScore && !dismissedKeys.has(p.key))
+            .sort((x, y) => y.score - x.score)[0];
+        if (best) {
+            claimed.add(best.a.id === t.id ? best.b.id : best.a.id);
+            pairs.push(best);
+        }
+    });
+    return pairs;
+};
+
+// The row to keep when merging: the one the user has already worked on
+export const pickDuplicateToKeep = (pair: DuplicatePair): { keep: Transaction, remove: Transaction } => {
+    const weight = (t: Transaction) => (t.isVerified ? 4 : 0) + (t.linkedTransactionId || t.linkedExpenseId ? 2 : 0) + (t.categoryMainId || t.bucketId ? 1 : 0);
+    return weight(pair.b) > weight(pair.a) ? { keep: pair.b, remove: pair.a } : { keep: pair.a, remove: pair.b };
+};
@@ -1,25 +1,33 @@
 
-import { format } from 'date-fns';
-import { Transaction, ImportRule, Bucket, MainCategory, SubCategory, TransactionType } from '../types';
+import { format, parse, isValid, parseISO, getDay, getDate } from 'date-fns';
+import { Transaction, ImportRule, Bucket, MainCategory, SubCategory, TransactionType, ImportProfile, ImportBatch } from '../types';
 import { generateId } from '../utils';
 import { db } from '../db';
 import * as XLSX from 'xlsx'; // Använd statisk import för stabilitet
+import { parseOfx, parseCamt053 } from './statementParsers';
+import { createMerchantResolver } from './merchantService';
+import { trainCategoryModel, predictCategory, getCategorizationKey, MODEL_MIN_TRAINING_ROWS, MODEL_MIN_CONFIDENCE } from './categoryModel';
 
 // --- PARSING ---
 
-const parseAmount = (val: any): number => {
+export const DATE_FORMAT_OPTIONS = ['auto', 'yyyy-MM-dd', 'yyyyMMdd', 'yy-MM-dd', 'dd/MM/yyyy', 'dd.MM.yyyy', 'd/M/yyyy', 'MM/dd/yyyy'];
+
+const parseAmount = (val: any, decimalSeparator: ',' | '.' = ','): number => {
     if (typeof val === 'number') return val;
     if (!val) return 0;
-    // Hantera svenska format "1.234,50" eller "-123,00"
-    let str = val.toString();
-    // Ta bort punkter (tusentalsavgränsare) och mellanslag
-    str = str.replace(/\./g, '').replace(/\s/g, ''); 
-    // Ersätt komma med punkt
-    str = str.replace(',', '.');
+    let str = val.toString().replace(/\s/g, '').replace(/−/g, '-');
+    if (decimalSeparator === ',') {
+        // Hantera svenska format "1.234,50" eller "-123,00"
+        // Ta bort punkter (tusentalsavgränsare) och ersätt komma med punkt
+        str = str.replace(/\./g, '').replace(',', '.');
+    } else {
+        // Engelskt format "1,234.50": kommatecken är tusentalsavgränsare
+        str = str.replace(/,/g, '');
+    }
     return parseFloat(str) || 0;
 };
 
-const parseDate = (val: any): string => {
+const parseDate = (val: any, dateFormat: string = 'auto'): string => {
     if (!val) return format(new Date(), 'yyyy-MM-dd');
     
     // Om det redan är ett datumobjekt
@@ -34,160 +42,457 @@ const parseDate = (val: any): string => {
     }
 
     const str = val.toString().trim();
+    if (dateFormat !== 'auto') {
+        const parsed = parse(str, dateFormat, new Date());
+        if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+    }
     // Matcha YYYY-MM-DD
     if (str.match(/^\d{4}-\d{2}-\d{2}$/)) return str;
     return str; // Fallback
 };
 
-// Added budgetId parameter to satisfy required Transaction property
-export const parseBankFile = async (file: File, accountId: string, budgetId: string): Promise<Transaction[]> => {
+const isIsoDate = (val: string) => /^\d{4}-\d{2}-\d{2}$/.test(val);
+
+/**
+ * Reads a bank file into raw rows (array of cells) without interpreting any columns.
+ * CSV honours the delimiter/encoding of the profile, XLSX always reads the first sheet.
+ */
+export const readBankFileRows = async (file: File, options: { delimiter?: string, encoding?: string } = {}): Promise<any[][]> => {
     const isCsv = file.name.toLowerCase().endsWith('.csv');
     
     if (isCsv) {
+        let Papa: any;
         try {
             const PapaModule = await import('papaparse');
-            const Papa = PapaModule.default || PapaModule;
-
-            return new Promise((resolve, reject) => {
-                Papa.parse(file, {
-                    encoding: "ISO-8859-1", // Standard för svenska banker
-                    skipEmptyLines: true,
-                    complete: (results: any) => {
-                        try {
-                            // Hitta raden med rubriker
-                            const headerRowIndex = results.data.findIndex((row: any) => 
-                                Array.isArray(row) && row.some((cell: any) => typeof cell === 'string' && cell.toLowerCase().includes('datum'))
-                            );
-
-                            if (headerRowIndex === -1) {
-                                console.warn("Kunde inte hitta rubriken 'Datum'.");
-                                return resolve([]);
-                            }
-
-                            const headerRow = results.data[headerRowIndex];
-                            
-                            // Dynamisk kolumnmappning
-                            const dateIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('datum'));
-                            const textIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('text') || c?.toString().toLowerCase().includes('rubrik'));
-                            const amountIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('belopp'));
-                            const balanceIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('saldo') || c?.toString().toLowerCase().includes('balance'));
-
-                            // Fallback om vi inte hittar exakta rubriker (gissa baserat på din filstruktur)
-                            const dIdx = dateIdx > -1 ? dateIdx : 1;
-                            const tIdx = textIdx > -1 ? textIdx : 4;
-                            const aIdx = amountIdx > -1 ? amountIdx : 5;
-
-                            const dataRows = results.data.slice(headerRowIndex + 1);
-                            
-                            const transactions: Transaction[] = dataRows.map((row: any) => {
-                                if (!Array.isArray(row) || row.length < Math.max(dIdx, tIdx, aIdx)) return null;
-
-                                return {
-                                    id: generateId(),
-                                    accountId,
-                                    budgetId, // Included required budgetId
-                                    date: parseDate(row[dIdx]),
-                                    description: row[tIdx] || 'Okänd transaktion',
-                                    amount: parseAmount(row[aIdx]),
-                                    balance: balanceIdx > -1 ? parseAmount(row[balanceIdx]) : undefined,
-                                    isVerified: false,
-                                    source: 'import' as const
-                                };
-                            }).filter((t: Transaction | null) => t && t.amount !== 0);
-
-                            resolve(transactions as Transaction[]);
-                        } catch (err) {
-                            console.error("Fel vid tolkning av CSV:", err);
-                            reject(new Error("Kunde inte läsa CSV-datan."));
-                        }
-                    },
-                    error: (err: any) => reject(err)
-                });
-            });
+            Papa = PapaModule.default || PapaModule;
         } catch (error) {
             console.error("Kunde inte ladda PapaParse", error);
             throw new Error("Kunde inte ladda CSV-tolkaren.");
         }
-    } else {
-        // XLSX Hantering
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                try {
-                    const data = new Uint8Array(e.target?.result as ArrayBuffer);
-                    const workbook = XLSX.read(data, { type: 'array', cellDates: true });
-                    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-                    const jsonData = XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: '' }) as any[][];
-                    
-                    const headerRowIndex = jsonData.findIndex((row) => 
-                        Array.isArray(row) && row.some(cell => typeof cell === 'string' && cell.toLowerCase().includes('datum'))
-                    );
-                    
-                    if (headerRowIndex === -1) {
-                        const preview = jsonData.slice(0, 5).map(r => JSON.stringify(r)).join('\n');
-                        reject(new Error(`Kunde inte hitta en rad med kolumnen 'Datum'.\n\nFöljande data hittades i början av filen:\n${preview}`));
-                        return;
-                    }
 
-                    const headerRow = jsonData[headerRowIndex];
-                    const dateIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('datum'));
-                    const textIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('text') || c?.toString().toLowerCase().includes('rubrik'));
-                    const amountIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('belopp'));
-                    const balanceIdx = headerRow.findIndex((c: any) => c?.toString().toLowerCase().includes('saldo') || c?.toString().toLowerCase().includes('balance'));
-
-                    const dIdx = dateIdx > -1 ? dateIdx : 0;
-                    const tIdx = textIdx > -1 ? textIdx : 3;
-                    const aIdx = amountIdx > -1 ? amountIdx : 4;
-
-                    const dataRows = jsonData.slice(headerRowIndex + 1);
-                    const transactions = dataRows.map((row) => ({
-                         id: generateId(),
-                         accountId,
-                         budgetId, // Included required budgetId
-                         date: parseDate(row[dIdx]),
-                         description: (row[tIdx] || '').toString(),
-                         amount: parseAmount(row[aIdx]),
-                         balance: balanceIdx > -1 ? parseAmount(row[balanceIdx]) : undefined,
-                         isVerified: false,
-                         source: 'import' as const
-                    })).filter(t => t.amount !== 0);
-
-                    resolve(transactions);
-                } catch (err) {
-                    reject(err);
-                }
-            };
-            reader.onerror = () => reject(new Error("Filen kunde inte läsas (läsfel)."));
-            reader.readAsArrayBuffer(file);
+        return new Promise((resolve, reject) => {
+            Papa.parse(file, {
+                encoding: options.encoding || "ISO-8859-1", // Standard för svenska banker
+                delimiter: options.delimiter || '',
+                skipEmptyLines: true,
+                complete: (results: any) => resolve((results.data || []).filter((row: any) => Array.isArray(row))),
+                error: (err: any) => reject(err)
+            });
         });
     }
+
+    // XLSX Hantering
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const data = new Uint8Array(e.target?.result as ArrayBuffer);
+                const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+                const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+                resolve(XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: '' }) as any[][]);
+            } catch (err) {
+                reject(err);
+            }
+        };
+        reader.onerror = () => reject(new Error("Filen kunde inte läsas (läsfel)."));
+        reader.readAsArrayBuffer(file);
+    });
+};
+
+/**
+ * Guesses a profile from the raw rows by looking for the usual Swedish headers.
+ * Roles that can't be found are left unmapped so the wizard can ask for them instead of guessing indexes.
+ */
+export const guessImportProfile = (rows: any[][], accountId: string, budgetId: string, name: string = 'Ny profil'): ImportProfile => {
+    const headerRowIndex = rows.findIndex(row => 
+        row.some(cell => typeof cell === 'string' && cell.toLowerCase().includes('datum'))
+    );
+    const headerRow = headerRowIndex > -1 ? rows[headerRowIndex] : [];
+    const findCol = (...keys: string[]) => {
+        const idx = headerRow.findIndex((c: any) => keys.some(k => c?.toString().toLowerCase().includes(k)));
+        return idx > -1 ? idx : undefined;
+    };
+
+    const columns: ImportProfile['columns'] = {
+        date: findCol('datum'),
+        description: findCol('text', 'rubrik', 'beskrivning', 'mottagare'),
+        amount: findCol('belopp'),
+        balance: findCol('saldo', 'balance')
+    };
+    if (columns.amount === undefined) {
+        columns.debit = findCol('uttag', 'debet');
+        columns.credit = findCol('insättning', 'kredit');
+    }
+
+    // Kolla om beloppen ser ut att använda punkt som decimaltecken
+    const sample = rows.slice(headerRowIndex + 1, headerRowIndex + 20)
+        .map(r => columns.amount !== undefined ? r[columns.amount] : undefined)
+        .filter(v => typeof v === 'string');
+    const usesDot = sample.length > 0 && sample.every(v => /^-?[\d\s,]*\.\d{1,2}$/.test(v.trim()));
+
+    const firstDate = rows[headerRowIndex + 1]?.[columns.date ?? -1];
+
+    return {
+        id: generateId(),
+        budgetId,
+        accountId,
+        name,
+        delimiter: '',
+        encoding: 'ISO-8859-1',
+        headerRow: Math.max(0, headerRowIndex),
+        dateFormat: typeof firstDate === 'string' && /^\d{8}$/.test(firstDate.trim()) ? 'yyyyMMdd' : 'auto',
+        decimalSeparator: usesDot ? '.' : ',',
+        columns
+    };
+};
+
+/** True when the profile maps enough columns to build a transaction. */
+export const isImportProfileComplete = (profile: ImportProfile) => {
+    const c = profile.columns;
+    return c.date !== undefined && c.description !== undefined && (c.amount !== undefined || c.debit !== undefined || c.credit !== undefined);
+};
+
+export interface MappedRows {
+    transactions: Transaction[];
+    invalidDateCount: number; // Rows with an amount whose date couldn't be parsed, left out of transactions
+}
+
+export const mapRowsToTransactions = (rows: any[][], profile: ImportProfile, accountId: string, budgetId: string): MappedRows => {
+    const c = profile.columns;
+    if (!isImportProfileComplete(profile)) return { transactions: [], invalidDateCount: 0 };
+
+    const dataRows = rows.slice(profile.headerRow + 1);
+    
+    const mapped = dataRows.map((row): Transaction | null => {
+        if (!Array.isArray(row) || row.length <= (c.date as number)) return null;
+
+        let amount = 0;
+        if (c.amount !== undefined) {
+            amount = parseAmount(row[c.amount], profile.decimalSeparator);
+        } else {
+            // Separata kolumner för uttag/insättning
+            const debit = c.debit !== undefined ? Math.abs(parseAmount(row[c.debit], profile.decimalSeparator)) : 0;
+            const credit = c.credit !== undefined ? Math.abs(parseAmount(row[c.credit], profile.decimalSeparator)) : 0;
+            amount = credit - debit;
+        }
+
+        const balanceCell = c.balance !== undefined ? row[c.balance] : undefined;
+
+        return {
+            id: generateId(),
+            accountId,
+            budgetId,
+            date: parseDate(row[c.date as number], profile.dateFormat),
+            description: (row[c.description as number] || '').toString().trim() || 'Okänd transaktion',
+            amount,
+            balance: balanceCell !== undefined && balanceCell !== '' ? parseAmount(balanceCell, profile.decimalSeparator) : undefined,
+            isVerified: false,
+            source: 'import' as const
+        };
+    }).filter((t): t is Transaction => !!t && t.amount !== 0);
+    const transactions = mapped.filter(t => isIsoDate(t.date));
+    return { transactions, invalidDateCount: mapped.length - transactions.length };
+};
+
+// OFX/QFX and CAMT.053 are self-describing and don't need a column mapping
+export const isStatementFile = (fileName: string) => /\.(ofx|qfx|xml)$/i.test(fileName);
+
+const readStatementText = async (file: File): Promise<string> => {
+    const buffer = await file.arrayBuffer();
+    // OFX 1.x declares "CHARSET:1252" in its header, XML declares encoding="..."
+    const head = new TextDecoder('windows-1252').decode(buffer.slice(0, 512));
+    const isLatin = /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) || /encoding=["'](windows-1252|iso-8859-1)["']/i.test(head);
+    return new TextDecoder(isLatin ? 'windows-1252' : 'utf-8').decode(buffer);
+};
+
+export const parseStatementFile = async (file: File, accountId: string, budgetId: string): Promise<Transaction[]> => {
+    const text = await readStatementText(file);
+    if (file.name.toLowerCase().endsWith('.xml')) return parseCamt053(text, accountId, budgetId);
+    return parseOfx(text, accountId, budgetId);
+};
+
+// Added budgetId parameter to satisfy required Transaction property
+export const parseBankFile = async (file: File, accountId: string, budgetId: string, profile?: ImportProfile): Promise<Transaction[]> => {
+    if (isStatementFile(file.name)) return parseStatementFile(file, accountId, budgetId);
+
+    const rows = await readBankFileRows(file, { delimiter: profile?.delimiter, encoding: profile?.encoding });
+    const activeProfile = profile || guessImportProfile(rows, accountId, budgetId);
+
+    if (!isImportProfileComplete(activeProfile)) {
+        const preview = rows.slice(0, 5).map(r => JSON.stringify(r)).join('\n');
+        throw new Error(`Kunde inte hitta kolumnerna för datum, text och belopp.\n\nFöljande data hittades i början av filen:\n${preview}`);
+    }
+
+    return mapRowsToTransactions(rows, activeProfile, accountId, budgetId).transactions;
+};
+
+// --- IMPORT BATCHES ---
+
+export const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Describes one file import. New rows are tagged with the batch id, and the previous balance/bank id
+// of existing rows touched by the pipeline is recorded so the whole batch can be rolled back.
+export const createImportBatch = (params: {
+    filename: string;
+    fileHash: string;
+    accountId: string;
+    budgetId: string;
+    rawTransactions: Transaction[];
+    newTransactions: Transaction[];
+    updatedTransactions: Transaction[];
+    existingTransactions: Transaction[];
+}): { batch: ImportBatch, newTransactions: Transaction[] } => {
+    const id = generateId();
+    const dates = params.rawTransactions.map(t => t.date).sort();
+    const existingById = new Map(params.existingTransactions.map(t => [t.id, t]));
+    const seen = new Set<string>();
+
+    const updates = params.updatedTransactions.flatMap(u => {
+        const previous = existingById.get(u.id);
+        if (!previous || seen.has(u.id)) return [];
+        seen.add(u.id);
+        return [{ transactionId: u.id, previousBalance: previous.balance, previousExternalId: previous.externalId }];
+    });
+
+    return {
+        batch: {
+            id,
+            budgetId: params.budgetId,
+            accountId: params.accountId,
+            filename: params.filename,
+            fileHash: params.fileHash,
+            rowCount: params.rawTransactions.length,
+            newCount: params.newTransactions.length,
+            dateFrom: dates[0],
+            dateTo: dates[dates.length - 1],
+            createdAt: new Date().toISOString(),
+            updates
+        },
+        newTransactions: params.newTransactions.map(t => ({ ...t, batchId: id }))
+    };
+};
+
+// --- RULE MATCHING ---
+
+// Invalid patterns return null so the editor can flag them, and the rule then never matches
+export const compileRuleRegex = (pattern: string): RegExp | null => {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+};
+
+const isInDayWindow = (day: number, from?: number, to?: number) => {
+    if (from === undefined && to === undefined) return true;
+    const start = from ?? 1;
+    const end = to ?? 31;
+    return start <= end ? day >= start && day <= end : day >= start || day <= end;
+};
+
+const matchesRule = (r: ImportRule, t: Transaction, regex: RegExp | null): boolean => {
+    const txSign = t.amount < 0 ? 'negative' : 'positive';
+    if (r.accountId && r.accountId !== t.accountId) return false;
+    if (r.sign && r.sign !== txSign) return false;
+    if (!r.sign) {
+        if (t.amount < 0 && r.targetType === 'INCOME') return false;
+        if (t.amount > 0 && r.targetType === 'EXPENSE') return false;
+    }
+
+    const absAmount = Math.abs(t.amount);
+    if (r.exactAmount !== undefined && Math.abs(absAmount - Math.abs(r.exactAmount)) >= 0.005) return false;
+    if (r.amountMin !== undefined && absAmount < r.amountMin) return false;
+    if (r.amountMax !== undefined && absAmount > r.amountMax) return false;
+
+    if (r.dayOfMonthFrom !== undefined || r.dayOfMonthTo !== undefined || (r.weekdays && r.weekdays.length > 0)) {
+        const date = parseISO(t.date);
+        if (!isInDayWindow(getDate(date), r.dayOfMonthFrom, r.dayOfMonthTo)) return false;
+        if (r.weekdays && r.weekdays.length > 0 && !r.weekdays.includes(getDay(date))) return false;
+    }
+
+    if (r.matchType === 'regex') return !!regex && regex.test(t.description);
+    const lowerDesc = t.description.toLowerCase();
+    const kw = r.keyword.toLowerCase();
+    if (r.matchType === 'exact') return lowerDesc === kw;
+    if (r.matchType === 'starts_with') return lowerDesc.startsWith(kw);
+    return lowerDesc.includes(kw);
+};
+
+// Lower priority runs first. Rules saved before ordering existed have no priority and keep their load order last.
+export const sortRulesByPriority = (rules: ImportRule[]): ImportRule[] => {
+    return rules
+        .map((rule, index) => ({ rule, index }))
+        .sort((a, b) => ((a.rule.priority ?? Infinity) - (b.rule.priority ?? Infinity)) || a.index - b.index)
+        .map(x => x.rule);
+};
+
+const compileRules = (rules: ImportRule[]) => sortRulesByPriority(rules).map(r => ({ rule: r, regex: r.matchType === 'regex' ? compileRuleRegex(r.keyword) : null }));
+
+// Returns a function giving the rules that apply to a transaction, in priority order.
+// Evaluation stops at the first matching rule that isn't marked continueAfterMatch, see mergeMatchedRules.
+export const createRuleMatcher = (rules: ImportRule[]) => {
+    const compiled = compileRules(rules);
+    return (t: Transaction): ImportRule[] => {
+        const applied: ImportRule[] = [];
+        for (const c of compiled) {
+            if (!matchesRule(c.rule, t, c.regex)) continue;
+            applied.push(c.rule);
+            if (!c.rule.continueAfterMatch) break;
+        }
+        return applied;
+    };
+};
+
+// Combines the matching rules into one. A target set by a higher priority rule wins, later rules only fill
+// in what it left empty. The category pair always comes from one rule.
+export const mergeMatchedRules = (matched: ImportRule[]): ImportRule | undefined => {
+    if (matched.length === 0) return undefined;
+    const categoryRule = matched.find(r => r.targetCategoryMainId);
+    return {
+        ...matched[0],
+        targetType: matched.find(r => r.targetType)?.targetType,
+        targetBucketId: matched.find(r => r.targetBucketId)?.targetBucketId,
+        targetCategoryMainId: categoryRule?.targetCategoryMainId,
+        targetCategorySubId: categoryRule?.targetCategorySubId
+    };
+};
+
+export const countRuleMatches = (rule: ImportRule, transactions: Transaction[]) => {
+    const match = createRuleMatcher([rule]);
+    return transactions.filter(t => match(t).length > 0).length;
+};
+
+// Sets the rule's categorization on a transaction (pipeline step 2, also used when re-running rules on history)
+// position is the rule's 1-based place in priority order, shown in the explanation
+export const applyRuleToTransaction = (t: Transaction, rule: ImportRule, position?: number): Transaction => {
+    const type: TransactionType = rule.targetType || (rule.targetBucketId ? 'TRANSFER' : 'EXPENSE');
+    const match = {
+        matchType: 'rule' as const,
+        matchConfidence: 1,
+        matchExplanation: `Regel${position ? ` #${position}` : ''} matchade '${rule.keyword || 'valfri text'}'`,
+        ruleMatch: true
+    };
+    if (type === 'TRANSFER') {
+        return {
+            ...t,
+            type: 'TRANSFER',
+            bucketId: rule.targetBucketId,
+            categoryMainId: undefined,
+            categorySubId: undefined,
+            ...match
+        };
+    }
+    return {
+        ...t,
+        type: type,
+        bucketId: undefined,
+        categoryMainId: rule.targetCategoryMainId,
+        categorySubId: rule.targetCategorySubId,
+        ...match
+    };
+};
+
+export interface RuleOverlap {
+    transaction: Transaction;
+    rules: ImportRule[]; // Every rule that matches, in priority order
+    appliedRule: ImportRule; // The highest priority one, its targets win over the others
+}
+
+export interface ShadowedRule {
+    rule: ImportRule;
+    by: ImportRule[]; // Higher priority stop rules that catch its transactions first
+    matchCount: number;
+}
+
+// Measured against existing transactions: a rule counts as shadowed when it matches something
+// but a higher priority rule stops evaluation before it on every one of those rows.
+export const analyzeRuleConflicts = (rules: ImportRule[], transactions: Transaction[]): { overlaps: RuleOverlap[], shadowed: ShadowedRule[] } => {
+    const compiled = compileRules(rules);
+    const overlaps: RuleOverlap[] = [];
+    const matchCounts = new Map<string, number>();
+    const reachedCounts = new Map<string, number>();
+    const blockers = new Map<string, Set<ImportRule>>();
+
+    transactions.forEach(t => {
+        const matching = compiled.filter(c => matchesRule(c.rule, t, c.regex)).map(c => c.rule);
+
+        let stoppedBy: ImportRule | undefined;
+        let appliedRule: ImportRule | undefined;
+        matching.forEach(r => {
+            matchCounts.set(r.id, (matchCounts.get(r.id) || 0) + 1);
+            if (stoppedBy) {
+                if (!blockers.has(r.id)) blockers.set(r.id, new Set());
+                blockers.get(r.id)!.add(stoppedBy);
+                return;
+            }
+            reachedCounts.set(r.id, (reachedCounts.get(r.id) || 0) + 1);
+            if (!appliedRule) appliedRule = r;
+            if (!r.continueAfterMatch) stoppedBy = r;
+        });
+        if (matching.length > 1) overlaps.push({ transaction: t, rules: matching, appliedRule: appliedRule! });
+    });
+
+    const shadowed = compiled
+        .filter(c => (matchCounts.get(c.rule.id) || 0) > 0 && !reachedCounts.get(c.rule.id))
+        .map(c => ({ rule: c.rule, by: Array.from(blockers.get(c.rule.id) || []), matchCount: matchCounts.get(c.rule.id)! }));
+
+    return { overlaps, shadowed };
 };
 
 // --- PIPELINE LOGIC ---
 
-const applyHistoricalCategories = async (transactions: Transaction[]): Promise<Transaction[]> => {
+const HISTORY_SAMPLE_SIZE = 8; // Recent rows the history confidence is measured over
+const EVENT_MATCH_CONFIDENCE = 0.7;
+const KEYWORD_TRANSFER_CONFIDENCE = 0.5;
+
+type CategoryNameLookup = (t: Transaction) => string;
+
+const createCategoryNameLookup = async (buckets: Bucket[]): Promise<CategoryNameLookup> => {
+    const [mains, subs] = await Promise.all([db.mainCategories.toArray(), db.subCategories.toArray()]);
+    return t => {
+        if (t.type === 'TRANSFER') return buckets.find(b => b.id === t.bucketId)?.name || 'Överföring';
+        return subs.find(s => s.id === t.categorySubId)?.name || mains.find(m => m.id === t.categoryMainId)?.name || 'Okategoriserad';
+    };
+};
+
+const applyHistoricalCategories = async (transactions: Transaction[], getCategoryName: CategoryNameLookup): Promise<Transaction[]> => {
     const enriched = await Promise.all(transactions.map(async (t): Promise<Transaction> => {
         if (t.matchType === 'rule') return t;
 
         try {
-            const lastMatch = await db.transactions
-                .where({ accountId: t.accountId, description: t.description })
+            // Match on merchant so "ICA NARA 1234" learns from "ICA NARA 5678", fall back to the exact text
+            const query = t.merchantId
+                ? db.transactions.where({ accountId: t.accountId, merchantId: t.merchantId })
+                : db.transactions.where({ accountId: t.accountId, description: t.description });
+            const recent = (await query
                 .filter(old => {
                     if (!old.type || (!old.bucketId && !old.categoryMainId)) return false;
                     const sameSign = (t.amount < 0 && old.amount < 0) || (t.amount >= 0 && old.amount >= 0);
                     return sameSign;
                 })
-                .reverse()
-                .first();
+                .toArray())
+                .sort((a, b) => b.date.localeCompare(a.date))
+                .slice(0, HISTORY_SAMPLE_SIZE);
+            const lastMatch = recent[0];
 
             if (lastMatch) {
+                // Confidence is how consistently the merchant has been categorized the same way lately
+                const key = getCategorizationKey(lastMatch);
+                const agreeing = recent.filter(old => getCategorizationKey(old) === key).length;
                 return {
                     ...t,
                     type: lastMatch.type,
                     bucketId: lastMatch.bucketId,
                     categoryMainId: lastMatch.categoryMainId,
                     categorySubId: lastMatch.categorySubId,
-                    matchType: 'history' as const
+                    matchType: 'history' as const,
+                    matchConfidence: Math.round(agreeing / recent.length * 100) / 100,
+                    matchExplanation: recent.length === 1
+                        ? `Förra gången kategoriserad som ${getCategoryName(lastMatch)}`
+                        : `Senaste ${agreeing} av ${recent.length} gångerna kategoriserad som ${getCategoryName(lastMatch)}`
                 };
             }
         } catch (e) {
@@ -199,6 +504,37 @@ const applyHistoricalCategories = async (transactions: Transaction[]): Promise<T
     return enriched;
 };
 
+const applyCategoryModel = async (transactions: Transaction[], budgetId?: string): Promise<Transaction[]> => {
+    const pending = transactions.filter(t => !t.matchType && !t.type);
+    if (!budgetId || pending.length === 0) return transactions;
+
+    try {
+        const verified = await db.transactions.where('budgetId').equals(budgetId).filter(t => t.isVerified).toArray();
+        if (verified.length < MODEL_MIN_TRAINING_ROWS) return transactions;
+        const model = trainCategoryModel(verified);
+        const explanation = `Lokal modell tränad på ${model.trainingRows} verifierade transaktioner`;
+
+        return transactions.map(t => {
+            if (t.matchType || t.type) return t;
+            const prediction = predictCategory(model, t);
+            if (!prediction || prediction.confidence < MODEL_MIN_CONFIDENCE) return t;
+            return {
+                ...t,
+                type: prediction.type,
+                bucketId: prediction.bucketId,
+                categoryMainId: prediction.categoryMainId,
+                categorySubId: prediction.categorySubId,
+                matchType: 'model' as const,
+                matchConfidence: Math.round(prediction.confidence * 100) / 100,
+                matchExplanation: explanation
+            };
+        });
+    } catch (e) {
+        console.warn("Local category model failed", e);
+        return transactions;
+    }
+};
+
 export const runImportPipeline = async (
     rawTransactions: Transaction[],
     existingTransactions: Transaction[],
@@ -209,10 +545,13 @@ export const runImportPipeline = async (
     // 1. DUPLICATE & UPDATE CHECK
     // Group existing transactions by Date, Amount, and Text to handle multi-matches
     const existingGroupMap = new Map<string, Transaction[]>();
+    // Bank ids (OFX FITID / CAMT reference) are unique per account and win over the hash
+    const existingExternalMap = new Map<string, Transaction>();
     existingTransactions.forEach(t => {
         const hash = `${t.originalDate || t.date}_${t.amount}_${(t.originalText || t.description).trim()}`;
         if (!existingGroupMap.has(hash)) existingGroupMap.set(hash, []);
         existingGroupMap.get(hash)!.push(t);
+        if (t.externalId) existingExternalMap.set(`${t.accountId}_${t.externalId}`, t);
     });
 
     const toCreate: Transaction[] = [];
@@ -223,8 +562,23 @@ export const runImportPipeline = async (
     const claimedExistingIds = new Set<string>();
 
     rawTransactions.forEach(t => {
-        const hash = `${t.date}_${t.amount}_${t.description.trim()}`;
-        const candidates = existingGroupMap.get(hash) || [];
+        // 0. Match on the bank's own id when both sides have one
+        if (t.externalId) {
+            const known = existingExternalMap.get(`${t.accountId}_${t.externalId}`);
+            if (known) {
+                if (!claimedExistingIds.has(known.id)) {
+                    claimedExistingIds.add(known.id);
+                    if (known.balance === undefined && t.balance !== undefined) {
+                        toUpdate.push({ ...known, balance: t.balance });
+                    }
+                }
+                return;
+            }
+        }
+
+        const hash = `${t.originalDate || t.date}_${t.amount}_${(t.originalText || t.description).trim()}`;
+        // An existing row with a different bank id is by definition another transaction
+        const candidates = (existingGroupMap.get(hash) || []).filter(c => !(t.externalId && c.externalId));
         
         let foundMatch = false;
 
@@ -238,7 +592,8 @@ export const runImportPipeline = async (
             if (exactDuplicate) {
                 claimedExistingIds.add(exactDuplicate.id);
                 foundMatch = true;
-                // It's a true duplicate, ignore it.
+                // It's a true duplicate, ignore it. Adopt the bank id so the next import matches directly.
+                if (t.externalId) toUpdate.push({ ...exactDuplicate, externalId: t.externalId });
             }
         }
 
@@ -251,7 +606,7 @@ export const runImportPipeline = async (
             );
             if (updatable) {
                 claimedExistingIds.add(updatable.id);
-                toUpdate.push({ ...updatable, balance: t.balance });
+                toUpdate.push({ ...updatable, balance: t.balance, externalId: updatable.externalId || t.externalId });
                 foundMatch = true;
             }
         }
@@ -264,6 +619,7 @@ export const runImportPipeline = async (
             if (unclaimed) {
                 claimedExistingIds.add(unclaimed.id);
                 foundMatch = true;
+                if (t.externalId) toUpdate.push({ ...unclaimed, externalId: t.externalId });
             }
         }
 
@@ -274,54 +630,26 @@ export const runImportPipeline = async (
     });
 
     // 2. APPLY RULES (Highest Priority)
+    const matchRule = createRuleMatcher(rules);
+    const rulePositions = new Map(sortRulesByPriority(rules).map((r, i) => [r.id, i + 1]));
     let processed = toCreate.map((t): Transaction => {
-        const lowerDesc = t.description.toLowerCase();
-        const txSign = t.amount < 0 ? 'negative' : 'positive';
-
-        const matchedRule = rules.find(r => {
-            if (r.accountId && r.accountId !== t.accountId) return false;
-            if (r.sign && r.sign !== txSign) return false;
-            if (!r.sign) {
-                if (t.amount < 0 && r.targetType === 'INCOME') return false;
-                if (t.amount > 0 && r.targetType === 'EXPENSE') return false;
-            }
-            const kw = r.keyword.toLowerCase();
-            if (r.matchType === 'exact') return lowerDesc === kw;
-            if (r.matchType === 'starts_with') return lowerDesc.startsWith(kw);
-            return lowerDesc.includes(kw); 
-        });
-
-        if (matchedRule) {
-            const type: TransactionType = matchedRule.targetType || (matchedRule.targetBucketId ? 'TRANSFER' : 'EXPENSE');
-            if (type === 'TRANSFER') {
-                return { 
-                    ...t, 
-                    type: 'TRANSFER',
-                    bucketId: matchedRule.targetBucketId,
-                    categoryMainId: undefined,
-                    categorySubId: undefined,
-                    matchType: 'rule' as const,
-                    ruleMatch: true 
-                };
-            } else {
-                return { 
-                    ...t, 
-                    type: type, 
-                    bucketId: undefined,
-                    categoryMainId: matchedRule.targetCategoryMainId,
-                    categorySubId: matchedRule.targetCategorySubId,
-                    matchType: 'rule' as const,
-                    ruleMatch: true 
-                };
-            }
-        }
-        return t;
+        const matchedRule = mergeMatchedRules(matchRule(t));
+        return matchedRule ? applyRuleToTransaction(t, matchedRule, rulePositions.get(matchedRule.id)) : t;
     });
 
     // 3. APPLY HISTORY
-    processed = await applyHistoricalCategories(processed);
+    // Resolve known merchants first, rows with new merchant texts get theirs when they are saved
+    const budgetId = processed[0]?.budgetId;
+    if (budgetId) {
+        const resolveMerchant = createMerchantResolver(await db.merchants.where('budgetId').equals(budgetId).toArray());
+        processed = processed.map(t => ({ ...t, merchantId: t.merchantId || resolveMerchant(t.originalText || t.description) }));
+    }
+    processed = await applyHistoricalCategories(processed, await createCategoryNameLookup(buckets));
+
+    // 4. LOCAL MODEL (new merchants that history doesn't know, trained on verified rows)
+    processed = await applyCategoryModel(processed, budgetId);
 
-    // 4. APPLY EVENT/TRIP AUTO-TAGGING
+    // 5. APPLY EVENT/TRIP AUTO-TAGGING
     processed = processed.map(t => {
         if (t.matchType === 'rule' || t.amount >= 0 || t.bucketId) return t;
         const eventMatch = buckets.find(b => 
@@ -333,29 +661,34 @@ export const runImportPipeline = async (
             t.date <= b.eventEndDate
         );
         if (eventMatch) {
+            if (t.matchType) return { ...t, bucketId: eventMatch.id };
             return {
                 ...t,
                 bucketId: eventMatch.id,
-                matchType: t.matchType || 'event'
+                matchType: 'event',
+                matchConfidence: EVENT_MATCH_CONFIDENCE,
+                matchExplanation: `Datum inom ${eventMatch.name} (${eventMatch.eventStartDate} – ${eventMatch.eventEndDate})`
             };
         }
         return t;
     });
 
-    // 5. SMART DETECTION & DEFAULTS
+    // 6. SMART DETECTION & DEFAULTS
     processed = processed.map(t => {
         if (t.matchType === 'rule') return t;
         const lowerDesc = t.description.toLowerCase();
         if (!t.type) {
             const isTransferKeywords = ['överföring', 'till konto', 'omsättning', 'sparande', 'flytt', 'insättning', 'girering'];
-            const isLikelyTransfer = isTransferKeywords.some(kw => lowerDesc.includes(kw));
-            if (isLikelyTransfer) {
+            const transferKeyword = isTransferKeywords.find(kw => lowerDesc.includes(kw));
+            if (transferKeyword) {
                 const targetBucket = buckets.find(b => lowerDesc.includes(b.name.toLowerCase()));
                 return {
                     ...t,
                     type: 'TRANSFER',
                     bucketId: targetBucket ? targetBucket.id : undefined,
-                    matchType: targetBucket ? 'ai' : undefined
+                    matchType: targetBucket ? 'ai' : undefined,
+                    matchConfidence: targetBucket ? KEYWORD_TRANSFER_CONFIDENCE : undefined,
+                    matchExplanation: targetBucket ? `Texten innehåller '${transferKeyword}' och '${targetBucket.name}'` : undefined
                 };
             }
         }
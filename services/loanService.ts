@@ -0,0 +1,249 @@
+import { addDays, addMonths, differenceInCalendarMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { Account, LoanDetails, LoanKind, Transaction, TransactionSplit } from '../types';
+import { generateId } from '../utils';
+import { calculateAnnuity } from './scenarioService';
+
+// Loan accounts. The debt itself isn't imported: the account holds the balance on a known date and every
+// verified payment after it is split into interest, fee and amortization (as split lines on the payment,
+// so budgets still count the whole payment). Projections and payoff strategies run month by month from there.
+
+export const LOAN_KIND_LABELS: Record<LoanKind, string> = {
+    MORTGAGE: 'Bolån',
+    CAR: 'Billån',
+    STUDENT: 'CSN',
+    CONSUMER: 'Privatlån',
+    OTHER: 'Övrigt lån'
+};
+
+export const LOAN_PART_LABELS: Record<NonNullable<TransactionSplit['loanPart']>, string> = {
+    INTEREST: 'Ränta',
+    AMORTIZATION: 'Amortering',
+    FEE: 'Avgift'
+};
+
+const MAX_MONTHS = 600;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const isLoanAccount = (account: Account): account is Account & { loan: LoanDetails } => account.type === 'LOAN' && !!account.loan;
+
+export const getRateAt = (loan: LoanDetails, date: string): number => {
+    const sorted = [...loan.rateHistory].sort((a, b) => a.date.localeCompare(b.date));
+    return (sorted.filter(r => r.date <= date).pop() || sorted[0])?.annualRate || 0;
+};
+
+// Amortization lines already booked on the loan
+const getAmortizations = (transactions: Transaction[], accountId: string) => transactions.flatMap(t => (t.splits || [])
+    .filter(line => line.loanAccountId === accountId && line.loanPart === 'AMORTIZATION')
+    .map(line => ({ date: t.date, amount: Math.abs(line.amount) })));
+
+// Balance at the start of a day, walking from the known balance forwards or backwards
+const balanceBefore = (loan: LoanDetails, amortizations: { date: string, amount: number }[], date: string): number => {
+    const balance = amortizations.reduce((sum, a) => {
+        if (a.date > loan.balanceDate && a.date < date) return sum - a.amount;
+        if (a.date <= loan.balanceDate && a.date >= date) return sum + a.amount;
+        return sum;
+    }, loan.balance);
+    return Math.max(0, balance);
+};
+
+// Outstanding debt at the end of a day
+export const getLoanBalance = (account: Account, transactions: Transaction[], date: string): number => {
+    if (!account.loan) return 0;
+    return balanceBefore(account.loan, getAmortizations(transactions, account.id), format(addDays(parseISO(date), 1), 'yyyy-MM-dd'));
+};
+
+const isLoanSplit = (t: Transaction) => !!t.splits && t.splits.length > 0 && t.splits.every(line => !!line.loanAccountId);
+
+// Only verified rows, a payment still waiting for review may get another category. Rows the user split
+// by hand are left alone.
+const isPaymentOf = (t: Transaction, loan: LoanDetails) => !!t.isVerified && t.amount < 0 && !(t.splits && t.splits.length > 0 && !isLoanSplit(t)) && (
+    (!!loan.paymentBucketId && t.bucketId === loan.paymentBucketId) ||
+    (!!loan.paymentSubCategoryId && t.categorySubId === loan.paymentSubCategoryId)
+);
+
+// A month's interest on the balance before the payment, then the fee, the rest amortizes
+export const splitLoanPayment = (t: Transaction, account: Account & { loan: LoanDetails }, balance: number): TransactionSplit[] => {
+    const payment = Math.abs(t.amount);
+    const interest = Math.min(payment, round2(balance * getRateAt(account.loan, t.date) / 100 / 12));
+    const fee = Math.min(payment - interest, account.loan.monthlyFee || 0);
+    const amortization = round2(payment - interest - fee);
+    const base = { type: t.type || 'EXPENSE', bucketId: t.bucketId, categoryMainId: t.categoryMainId, categorySubId: t.categorySubId, loanAccountId: account.id };
+    const parts: [NonNullable<TransactionSplit['loanPart']>, number][] = [['INTEREST', interest], ['FEE', fee], ['AMORTIZATION', amortization]];
+    return parts
+        .filter(([, amount]) => amount > 0)
+        .map(([loanPart, amount]) => ({ ...base, id: generateId(), amount: -amount, loanPart, note: LOAN_PART_LABELS[loanPart] }));
+};
+
+const sameLines = (a: TransactionSplit[], b: TransactionSplit[]) => a.length === b.length && a.every((line, i) =>
+    line.amount === b[i].amount && line.loanPart === b[i].loanPart && line.loanAccountId === b[i].loanAccountId && line.type === b[i].type &&
+    line.bucketId === b[i].bucketId && line.categoryMainId === b[i].categoryMainId && line.categorySubId === b[i].categorySubId);
+
+// Rebuilds the loan split of every row from scratch and returns the rows whose split changed. Each payment's
+// interest depends on the payments before it, so a changed category, loan or rate can move later rows too.
+// Rows that no longer are payments of a loan lose their loan lines.
+export const rebuildLoanSplits = (transactions: Transaction[], accounts: Account[]): Transaction[] => {
+    const loans = accounts.filter(isLoanAccount).filter(a => a.loan.paymentBucketId || a.loan.paymentSubCategoryId);
+    const amortizations = new Map(loans.map(a => [a.id, [] as { date: string, amount: number }[]]));
+    const changed: Transaction[] = [];
+
+    [...transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+        const account = loans.find(a => isPaymentOf(t, a.loan));
+        if (!account) {
+            if (isLoanSplit(t)) changed.push({ ...t, splits: undefined });
+            return;
+        }
+        const list = amortizations.get(account.id)!;
+        const splits = splitLoanPayment(t, account, balanceBefore(account.loan, list, t.date));
+        splits.filter(l => l.loanPart === 'AMORTIZATION').forEach(l => list.push({ date: t.date, amount: Math.abs(l.amount) }));
+        if (!isLoanSplit(t) || !sameLines(t.splits!, splits)) changed.push({ ...t, splits });
+    });
+    return changed;
+};
+
+// Interest and scheduled amortization for one month of the loan's own plan
+const scheduledMonth = (loan: LoanDetails, balance: number, month: Date) => {
+    const rate = getRateAt(loan, format(month, 'yyyy-MM-dd'));
+    const interest = balance * rate / 100 / 12;
+    let amortization = 0;
+    if (loan.method === 'ANNUITY') {
+        const remaining = Math.max(1, (loan.termMonths || 0) - differenceInCalendarMonths(month, parseISO(loan.startDate)));
+        amortization = calculateAnnuity(balance, rate, remaining / 12) - interest;
+    } else {
+        amortization = loan.monthlyAmortization || 0;
+    }
+    return { rate, interest, amortization: Math.min(balance, Math.max(0, amortization)), fee: loan.monthlyFee || 0 };
+};
+
+export interface LoanMonth {
+    monthKey: string;
+    rate: number;
+    interest: number;
+    amortization: number;
+    payment: number; // Interest, amortization and fee
+    balance: number; // After the payment
+}
+
+export interface LoanProjection {
+    accountId: string;
+    balance: number; // Today
+    months: LoanMonth[];
+    payoffMonth?: string; // Undefined if not paid off within 50 years
+    totalInterest: number;
+    monthlyPayment: number; // Next payment
+}
+
+export const projectLoan = (account: Account & { loan: LoanDetails }, transactions: Transaction[], today: Date = new Date()): LoanProjection => {
+    let balance = getLoanBalance(account, transactions, format(today, 'yyyy-MM-dd'));
+    const startBalance = balance;
+    const start = startOfMonth(addMonths(today, 1));
+    const months: LoanMonth[] = [];
+    for (let i = 0; i < MAX_MONTHS && balance > 0.005; i++) {
+        const month = addMonths(start, i);
+        const step = scheduledMonth(account.loan, balance, month);
+        if (step.amortization <= 0 && i > 0 && months[i - 1].amortization <= 0) {
+            // Interest-only from here on, it will never be paid off
+            months.push({ monthKey: format(month, 'yyyy-MM'), rate: step.rate, interest: step.interest, amortization: 0, payment: step.interest + step.fee, balance });
+            break;
+        }
+        balance -= step.amortization;
+        months.push({ monthKey: format(month, 'yyyy-MM'), rate: step.rate, interest: step.interest, amortization: step.amortization, payment: step.interest + step.amortization + step.fee, balance });
+    }
+    const last = months[months.length - 1];
+    return {
+        accountId: account.id,
+        balance: startBalance,
+        months,
+        payoffMonth: last && last.balance <= 0.005 ? last.monthKey : undefined,
+        totalInterest: months.reduce((sum, m) => sum + m.interest, 0),
+        monthlyPayment: months[0]?.payment || 0
+    };
+};
+
+export type PayoffStrategy = 'PLAN' | 'SNOWBALL' | 'AVALANCHE';
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+    PLAN: 'Enligt plan',
+    SNOWBALL: 'Snöboll (minsta skulden först)',
+    AVALANCHE: 'Lavin (högsta räntan först)'
+};
+
+export interface PayoffResult {
+    strategy: PayoffStrategy;
+    debtFreeMonth?: string; // Undefined if some loan isn't paid off within 50 years
+    totalInterest: number;
+    loans: { accountId: string, payoffMonth?: string, interest: number }[];
+    timeline: { monthKey: string, balance: number }[]; // Total debt after each month
+}
+
+// Every loan gets its scheduled payment. With a strategy the monthly total stays at the first month's
+// payments plus the extra, so what a finished loan no longer needs rolls over to the next target.
+export const simulatePayoff = (accounts: Account[], transactions: Transaction[], extraPerMonth: number, strategy: PayoffStrategy, today: Date = new Date()): PayoffResult => {
+    const loans = accounts.filter(isLoanAccount);
+    const balances = new Map(loans.map(a => [a.id, getLoanBalance(a, transactions, format(today, 'yyyy-MM-dd'))]));
+    const interestByLoan = new Map(loans.map(a => [a.id, 0]));
+    const payoffMonths = new Map<string, string>();
+    const start = startOfMonth(addMonths(today, 1));
+    const timeline: PayoffResult['timeline'] = [];
+    let budget: number | undefined;
+
+    const targetOrder = (active: typeof loans, month: Date) => [...active].sort((a, b) => strategy === 'SNOWBALL'
+        ? balances.get(a.id)! - balances.get(b.id)!
+        : getRateAt(b.loan, format(month, 'yyyy-MM-dd')) - getRateAt(a.loan, format(month, 'yyyy-MM-dd')));
+
+    for (let i = 0; i < MAX_MONTHS; i++) {
+        const active = loans.filter(a => balances.get(a.id)! > 0.005);
+        if (active.length === 0) break;
+        const month = addMonths(start, i);
+        const monthKey = format(month, 'yyyy-MM');
+
+        let paid = 0;
+        active.forEach(a => {
+            const step = scheduledMonth(a.loan, balances.get(a.id)!, month);
+            balances.set(a.id, balances.get(a.id)! - step.amortization);
+            interestByLoan.set(a.id, interestByLoan.get(a.id)! + step.interest);
+            paid += step.interest + step.amortization + step.fee;
+        });
+
+        if (strategy !== 'PLAN') {
+            if (budget === undefined) budget = paid + Math.max(0, extraPerMonth);
+            let leftover = budget - paid;
+            for (const a of targetOrder(active, month)) {
+                if (leftover <= 0.005) break;
+                const extra = Math.min(leftover, balances.get(a.id)!);
+                balances.set(a.id, balances.get(a.id)! - extra);
+                leftover -= extra;
+            }
+        }
+
+        active.forEach(a => {
+            if (balances.get(a.id)! <= 0.005 && !payoffMonths.has(a.id)) payoffMonths.set(a.id, monthKey);
+        });
+        timeline.push({ monthKey, balance: Array.from(balances.values()).reduce((sum, b) => sum + Math.max(0, b), 0) });
+
+        // Loans that only pay interest never finish without extra money
+        if (strategy === 'PLAN' && timeline.length > 1 && timeline[timeline.length - 2].balance - timeline[timeline.length - 1].balance <= 0.005) break;
+    }
+
+    const allPaid = loans.every(a => payoffMonths.has(a.id));
+    return {
+        strategy,
+        debtFreeMonth: allPaid && loans.length > 0 ? timeline[timeline.length - 1]?.monthKey : undefined,
+        totalInterest: Array.from(interestByLoan.values()).reduce((sum, v) => sum + v, 0),
+        loans: loans.map(a => ({ accountId: a.id, payoffMonth: payoffMonths.get(a.id), interest: interestByLoan.get(a.id)! })),
+        timeline
+    };
+};
+
+export const createLoanDetails = (kind: LoanKind = 'MORTGAGE'): LoanDetails => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return {
+        kind,
+        principal: 0,
+        startDate: today,
+        balance: 0,
+        balanceDate: today,
+        rateHistory: [{ date: today, annualRate: kind === 'STUDENT' ? 1.5 : 4 }],
+        method: kind === 'MORTGAGE' ? 'STRAIGHT' : 'ANNUITY',
+        termMonths: kind === 'STUDENT' ? 300 : kind === 'MORTGAGE' ? undefined : 60
+    };
+};
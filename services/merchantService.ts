@@ -0,0 +1,100 @@
+import { Transaction, Merchant } from '../types';
+import { generateId } from '../utils';
+
+// Bank texts for the same shop vary per purchase ("ICA NARA 1234 STOCKHOLM", "K*ICA NARA", "ICA NARA 5678").
+// Normalization strips the noise to a stable key. Each key belongs to one merchant; users can add aliases
+// to fold other keys (or everything starting with a text) into the same merchant.
+
+// Trailing city names added by card terminals
+const CITY_SUFFIXES = new Set([
+    'stockholm', 'sthlm', 'göteborg', 'goteborg', 'gbg', 'malmö', 'malmo', 'uppsala', 'västerås', 'vasteras', 'örebro', 'orebro',
+    'linköping', 'linkoping', 'helsingborg', 'jönköping', 'jonkoping', 'norrköping', 'norrkoping', 'lund', 'umeå', 'umea',
+    'gävle', 'gavle', 'borås', 'boras', 'södertälje', 'sodertalje', 'eskilstuna', 'halmstad', 'växjö', 'vaxjo', 'karlstad',
+    'sundsvall', 'luleå', 'lulea', 'östersund', 'ostersund', 'trollhättan', 'trollhattan', 'kalmar', 'falun', 'solna',
+    'sundbyberg', 'nacka', 'täby', 'taby', 'huddinge', 'kista', 'visby', 'kiruna', 'se', 'swe', 'sweden', 'sverige'
+]);
+
+// Legal forms that don't identify the merchant
+const LEGAL_SUFFIXES = new Set(['ab', 'hb', 'kb', 'publ', 'inc', 'ltd', 'as', 'aps', 'oy']);
+
+// Keeps the original casing, used both for the key and the display name
+const cleanMerchantText = (text: string): string => {
+    let s = ` ${text} `
+        .replace(/\b[a-z]\*/gi, ' ') // Card prefixes like "K*" / "P*"
+        .replace(/(?<![\p{L}\p{N}])(kortköp|kortkop|reserverat|prel|preliminär|pos)(?![\p{L}\p{N}])\.?/giu, ' ') // Whole words only, \b doesn't know å, ä, ö
+        .replace(/\bwww\./gi, ' ')
+        .replace(/\*+\d+|x{2,}\d+/gi, ' ') // Masked card numbers "*1234", "XXXX1234"
+        .replace(/\d{4}-\d{2}-\d{2}|\d{2}[-./]\d{2}([-./]\d{2,4})?|\b\d{6}\b/g, ' ') // Dates
+        .replace(/\b\d{3,}\b/g, ' ') // Store numbers, terminal ids, references
+        .replace(/[^\p{L}\p{N}& ]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    // Drop trailing city and legal suffixes, but never the whole name
+    const words = s.split(' ');
+    while (words.length > 1 && (CITY_SUFFIXES.has(words[words.length - 1].toLowerCase()) || LEGAL_SUFFIXES.has(words[words.length - 1].toLowerCase()))) {
+        words.pop();
+    }
+    s = words.join(' ');
+    return s || text.trim();
+};
+
+export const normalizeMerchantKey = (text: string) => cleanMerchantText(text).toLowerCase();
+
+export const formatMerchantName = (text: string) => {
+    const cleaned = cleanMerchantText(text);
+    // Bank exports are often all caps, "ICA NARA" reads better as "Ica Nara"
+    if (cleaned === cleaned.toUpperCase()) {
+        return cleaned.toLowerCase().replace(/(^|\s)\p{L}/gu, c => c.toUpperCase());
+    }
+    return cleaned;
+};
+
+// True if the normalized key is covered by a user alias (exact, or alias followed by more words)
+export const aliasMatchesKey = (alias: string, key: string) => key === alias || key.startsWith(`${alias} `);
+
+export const createMerchantResolver = (merchants: Merchant[]) => {
+    const exact = new Map<string, string>();
+    const prefixAliases: { alias: string, id: string }[] = [];
+    merchants.forEach(m => {
+        exact.set(m.key, m.id);
+        m.aliases.forEach(a => prefixAliases.push({ alias: a, id: m.id }));
+    });
+    // Longest alias wins, "ica nara skogen" before "ica"
+    prefixAliases.sort((a, b) => b.alias.length - a.alias.length);
+
+    return (text: string): string | undefined => {
+        const key = normalizeMerchantKey(text);
+        return prefixAliases.find(p => aliasMatchesKey(p.alias, key))?.id || exact.get(key);
+    };
+};
+
+// Sets merchantId on every transaction, creating merchants for texts that don't resolve to one yet
+export const assignMerchants = (transactions: Transaction[], merchants: Merchant[], budgetId: string): { transactions: Transaction[], newMerchants: Merchant[] } => {
+    const known = new Set(merchants.map(m => m.id));
+    const resolve = createMerchantResolver(merchants);
+    const created = new Map<string, Merchant>();
+
+    const result = transactions.map(t => {
+        if (t.merchantId && known.has(t.merchantId)) return t;
+        const text = t.originalText || t.description;
+        let merchantId = resolve(text);
+        if (!merchantId) {
+            const key = normalizeMerchantKey(text);
+            let merchant = created.get(key);
+            if (!merchant) {
+                merchant = { id: generateId(), budgetId, name: formatMerchantName(text), key, aliases: [] };
+                created.set(key, merchant);
+            }
+            merchantId = merchant.id;
+        }
+        return { ...t, merchantId };
+    });
+
+    return { transactions: result, newMerchants: Array.from(created.values()) };
+};
+
+// Display name for grouping in insights, falls back to the cleaned text for rows without a merchant
+export const getMerchantName = (t: Transaction, merchantsById: Map<string, Merchant>) => {
+    return (t.merchantId && merchantsById.get(t.merchantId)?.name) || formatMerchantName(t.description);
+};
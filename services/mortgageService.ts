@@ -0,0 +1,220 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { HousingScenario, MonthKey, MortgageLoanPart, User } from '../types';
+import { generateId } from '../utils';
+import { getProjectedIncomeData } from './scenarioService';
+
+// Swedish mortgage model for the housing calculator. A loan is split in parts with their own rate and
+// binding period, amortization follows the amorteringskrav (loan-to-value and debt-to-income) and the
+// net cost includes the ränteavdrag. Everything is calculated month by month from the purchase.
+
+export const MORTGAGE_RULES = {
+    maxLoanToValue: 0.85, // Bolånetak, the rest is the minimum down payment
+    loanToValueSteps: [{ above: 0.7, rate: 0.02 }, { above: 0.5, rate: 0.01 }], // Yearly amortization of the original loan
+    debtToIncomeLimit: 4.5, // Skärpt amorteringskrav: total debt above 4.5 × gross yearly income...
+    debtToIncomeRate: 0.01, // ...adds 1 % a year
+    interestDeductionRate: 0.3,
+    interestDeductionReducedRate: 0.21, // For interest above the cap
+    interestDeductionCap: 100000, // Per person and year
+    maxTermMonths: 600
+};
+
+export const STRESS_TEST_SHOCKS = [0, 1, 2, 3]; // Percentage points on variable rates and on fixed rates once their binding ends
+export const BANK_CALCULATION_RATE = 7; // Kalkylränta banks typically use when granting a loan
+export const BINDING_PERIODS = [0, 12, 24, 36, 60, 84, 120]; // Months, 0 = variable
+const ESTIMATED_TAX_RATE = 0.3; // Net to gross when the household hasn't entered its gross income
+
+export interface MortgageContext {
+    grossAnnualIncome: number;
+    persons: number; // The interest deduction cap is per person
+}
+
+export interface MortgagePartMonth {
+    id: string;
+    balance: number; // After this month's amortization
+    rate: number;
+    interest: number;
+    amortization: number;
+}
+
+export interface MortgageMonth {
+    monthKey: MonthKey;
+    index: number; // 0 = first month
+    openingBalance: number;
+    closingBalance: number;
+    interest: number;
+    interestDeduction: number;
+    requiredAmortization: number;
+    amortization: number; // Required plus voluntary, capped by the balance
+    requirementRate: number; // Yearly rate of the original loan
+    netCost: number; // Interest after deduction, amortization, fee and operating cost
+    parts: MortgagePartMonth[];
+}
+
+export interface AmortizationRequirement {
+    loanToValueRate: number;
+    debtToIncomeRate: number;
+    rate: number;
+}
+
+export interface MortgageAnalysis {
+    loanAmount: number; // Sum of the parts
+    expectedLoan: number; // Price minus down payment
+    loanToValue: number;
+    minDownPayment: number;
+    isAboveLoanCap: boolean;
+    debtToIncome: number; // Total debt / gross yearly income, 0 without income
+    requirement: AmortizationRequirement;
+    firstMonth?: MortgageMonth;
+    payoffMonths?: number; // Undefined if not paid off within the max term
+    totalInterest: number;
+}
+
+export interface StressTestResult {
+    label: string;
+    firstYearMonthly: number; // Average net cost per month the first year
+    peakMonthly: number; // Highest net cost per month during the first five years
+    difference: number; // firstYearMonthly against the unshocked scenario
+}
+
+export const estimateGrossAnnualIncome = (users: User[], monthKey: MonthKey): number =>
+    users.reduce((sum, user) => sum + (getProjectedIncomeData(user, monthKey).salary || 0) * 12, 0) / (1 - ESTIMATED_TAX_RATE);
+
+export const getMortgageContext = (scenario: HousingScenario, users: User[]): MortgageContext => ({
+    grossAnnualIncome: scenario.grossAnnualIncome ?? estimateGrossAnnualIncome(users, scenario.startMonth),
+    persons: Math.max(1, users.length)
+});
+
+export const getAmortizationRequirement = (balance: number, valuation: number, totalDebt: number, grossAnnualIncome: number): AmortizationRequirement => {
+    const loanToValue = valuation > 0 ? balance / valuation : 0;
+    const loanToValueRate = MORTGAGE_RULES.loanToValueSteps.find(s => loanToValue > s.above)?.rate || 0;
+    const debtToIncomeRate = grossAnnualIncome > 0 && totalDebt > grossAnnualIncome * MORTGAGE_RULES.debtToIncomeLimit ? MORTGAGE_RULES.debtToIncomeRate : 0;
+    return { loanToValueRate, debtToIncomeRate, rate: loanToValueRate + debtToIncomeRate };
+};
+
+// Yearly deduction on a yearly interest cost
+export const calculateInterestDeduction = (annualInterest: number, persons: number): number => {
+    const cap = MORTGAGE_RULES.interestDeductionCap * Math.max(1, persons);
+    return Math.min(annualInterest, cap) * MORTGAGE_RULES.interestDeductionRate
+        + Math.max(0, annualInterest - cap) * MORTGAGE_RULES.interestDeductionReducedRate;
+};
+
+export const getPartRate = (part: MortgageLoanPart, monthIndex: number, shock = 0): number => {
+    if (part.rateType === 'FIXED' && monthIndex < part.bindingMonths) return part.annualRate;
+    return (part.rateType === 'FIXED' ? part.rateAfterBinding ?? part.annualRate : part.annualRate) + shock;
+};
+
+type RateOverride = (part: MortgageLoanPart, monthIndex: number) => number;
+
+export const buildAmortizationSchedule = (scenario: HousingScenario, context: MortgageContext, rateOf: RateOverride = getPartRate, maxMonths = MORTGAGE_RULES.maxTermMonths): MortgageMonth[] => {
+    const originalLoan = scenario.loanParts.reduce((sum, p) => sum + p.amount, 0);
+    const balances = new Map(scenario.loanParts.map(p => [p.id, p.amount]));
+    const start = parseISO(`${scenario.startMonth}-01`);
+    const months: MortgageMonth[] = [];
+
+    for (let index = 0; index < maxMonths; index++) {
+        const openingBalance = Array.from(balances.values()).reduce((sum, b) => sum + b, 0);
+        if (openingBalance <= 0.005) break;
+
+        const requirement = getAmortizationRequirement(openingBalance, scenario.price, openingBalance + scenario.otherDebt, context.grossAnnualIncome);
+        const requiredAmortization = Math.min(openingBalance, originalLoan * requirement.rate / 12);
+        const amortization = Math.min(openingBalance, requiredAmortization + Math.max(0, scenario.extraAmortization));
+
+        // Amortization is spread over the parts by balance
+        const parts = scenario.loanParts.map(part => {
+            const balance = balances.get(part.id) || 0;
+            const rate = rateOf(part, index);
+            const interest = balance * rate / 100 / 12;
+            const partAmortization = openingBalance > 0 ? amortization * balance / openingBalance : 0;
+            balances.set(part.id, balance - partAmortization);
+            return { id: part.id, balance: balance - partAmortization, rate, interest, amortization: partAmortization };
+        });
+
+        const interest = parts.reduce((sum, p) => sum + p.interest, 0);
+        const interestDeduction = calculateInterestDeduction(interest * 12, context.persons) / 12;
+        months.push({
+            monthKey: format(addMonths(start, index), 'yyyy-MM'),
+            index,
+            openingBalance,
+            closingBalance: openingBalance - amortization,
+            interest,
+            interestDeduction,
+            requiredAmortization,
+            amortization,
+            requirementRate: requirement.rate,
+            netCost: interest - interestDeduction + amortization + scenario.monthlyFee + scenario.operatingCost,
+            parts
+        });
+    }
+    return months;
+};
+
+export const analyzeMortgage = (scenario: HousingScenario, context: MortgageContext): MortgageAnalysis => {
+    const loanAmount = scenario.loanParts.reduce((sum, p) => sum + p.amount, 0);
+    const loanToValue = scenario.price > 0 ? loanAmount / scenario.price : 0;
+    const schedule = buildAmortizationSchedule(scenario, context);
+    const last = schedule[schedule.length - 1];
+    return {
+        loanAmount,
+        expectedLoan: Math.max(0, scenario.price - scenario.downPayment),
+        loanToValue,
+        minDownPayment: Math.round(scenario.price * (1 - MORTGAGE_RULES.maxLoanToValue)),
+        isAboveLoanCap: loanAmount > Math.round(scenario.price * MORTGAGE_RULES.maxLoanToValue),
+        debtToIncome: context.grossAnnualIncome > 0 ? (loanAmount + scenario.otherDebt) / context.grossAnnualIncome : 0,
+        requirement: getAmortizationRequirement(loanAmount, scenario.price, loanAmount + scenario.otherDebt, context.grossAnnualIncome),
+        firstMonth: schedule[0],
+        payoffMonths: last && last.closingBalance <= 0.005 ? schedule.length : undefined,
+        totalInterest: schedule.reduce((sum, m) => sum + m.interest, 0)
+    };
+};
+
+const STRESS_TEST_MONTHS = 60;
+
+export const runStressTests = (scenario: HousingScenario, context: MortgageContext): StressTestResult[] => {
+    const summarize = (label: string, rateOf: RateOverride) => {
+        const months = buildAmortizationSchedule(scenario, context, rateOf, STRESS_TEST_MONTHS);
+        const firstYear = months.slice(0, 12);
+        return {
+            label,
+            firstYearMonthly: firstYear.length > 0 ? firstYear.reduce((sum, m) => sum + m.netCost, 0) / firstYear.length : 0,
+            peakMonthly: months.reduce((max, m) => Math.max(max, m.netCost), 0),
+            difference: 0
+        };
+    };
+
+    const results = STRESS_TEST_SHOCKS.map(shock => summarize(shock === 0 ? 'Som planerat' : `+${shock} %-enheter`, (part, i) => getPartRate(part, i, shock)));
+    // The bank's test: every part at the calculation rate from day one, unless it's already higher
+    results.push(summarize(`Kalkylränta ${BANK_CALCULATION_RATE} %`, (part, i) => Math.max(getPartRate(part, i), BANK_CALCULATION_RATE)));
+    return results.map(r => ({ ...r, difference: r.firstYearMonthly - results[0].firstYearMonthly }));
+};
+
+export const createLoanPart = (amount: number, defaults: Partial<MortgageLoanPart> = {}): MortgageLoanPart => ({
+    id: generateId(), name: 'Rörlig', amount, rateType: 'VARIABLE', annualRate: 4, bindingMonths: 0, ...defaults
+});
+
+export const createHousingScenario = (startMonth: MonthKey, values: Partial<HousingScenario> = {}): HousingScenario => {
+    const price = values.price ?? 4000000;
+    const downPayment = values.downPayment ?? 600000;
+    return {
+        id: generateId(),
+        budgetId: '',
+        name: 'Nytt boende',
+        createdAt: new Date().toISOString(),
+        startMonth,
+        price,
+        downPayment,
+        monthlyFee: 3500,
+        operatingCost: 500,
+        loanParts: [createLoanPart(Math.max(0, price - downPayment))],
+        otherDebt: 0,
+        extraAmortization: 0,
+        ...values
+    };
+};
+
+// Keeps the parts adding up to the loan after the price or down payment changed, the difference goes to the last part
+export const rebalanceLoanParts = (parts: MortgageLoanPart[], loan: number): MortgageLoanPart[] => {
+    if (parts.length === 0) return [createLoanPart(loan)];
+    const others = parts.slice(0, -1).reduce((sum, p) => sum + p.amount, 0);
+    const last = parts[parts.length - 1];
+    return [...parts.slice(0, -1), { ...last, amount: Math.max(0, loan - others) }];
+};
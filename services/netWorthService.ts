@@ -0,0 +1,167 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { Account, AssetKind, Bucket, BudgetGroup, ManualAsset, Transaction } from '../types';
+import { calculateReimbursementMap, calculateSavedAmount, generateId, getBudgetInterval, getEffectiveAmount } from '../utils';
+import { getBucketAccountId, getBudgetMonthForDate, getCurrentBalance } from './cashFlowForecast';
+import { getLoanBalance, isLoanAccount } from './loanService';
+
+// Net worth on a date: bank account balances plus manually valued assets minus loans. Goal buckets are
+// never added on their own, what's been saved for them is already part of an account's balance. They only
+// show how much of that balance is earmarked.
+
+export const ASSET_KIND_LABELS: Record<AssetKind, string> = {
+    HOME: 'Bostad',
+    VEHICLE: 'Fordon',
+    PENSION: 'Pension',
+    INVESTMENT: 'Investeringar',
+    OTHER: 'Övrigt'
+};
+
+export const ASSET_KIND_ICONS: Record<AssetKind, string> = {
+    HOME: '🏠',
+    VEHICLE: '🚗',
+    PENSION: '🧓',
+    INVESTMENT: '📈',
+    OTHER: '💎'
+};
+
+export interface NetWorthInput {
+    accounts: Account[];
+    assets: ManualAsset[];
+    transactions: Transaction[];
+    buckets: Bucket[];
+    budgetGroups: BudgetGroup[];
+    payday: number;
+}
+
+export interface EarmarkedGoal {
+    bucketId: string;
+    amount: number; // Saved so far minus what has been spent on the goal
+}
+
+export interface NetWorthAccountLine {
+    accountId: string;
+    balance: number;
+    earmarked: EarmarkedGoal[];
+    free: number; // Balance not earmarked, negative if the goals aren't covered by the account
+}
+
+export interface NetWorthAssetLine {
+    assetId: string;
+    value: number;
+    valuationDate: string;
+    loanBalance?: number; // Of the linked loan, value minus this is the equity
+}
+
+export interface NetWorthLoanLine {
+    accountId: string;
+    balance: number;
+}
+
+export interface NetWorthTotals {
+    date: string;
+    cash: number;
+    assets: number;
+    debt: number;
+    netWorth: number;
+}
+
+export interface NetWorthSnapshot extends NetWorthTotals {
+    accounts: NetWorthAccountLine[];
+    assetLines: NetWorthAssetLine[];
+    loans: NetWorthLoanLine[];
+}
+
+export interface NetWorthPoint extends NetWorthTotals {
+    monthKey: string;
+}
+
+// Latest valuation on or before the date, undefined before the first one and from the day it was sold
+export const getAssetValuation = (asset: ManualAsset, date: string) => {
+    if (asset.soldDate && asset.soldDate <= date) return undefined;
+    return [...asset.valuations].sort((a, b) => a.date.localeCompare(b.date)).filter(v => v.date <= date).pop();
+};
+
+const getTotals = (input: NetWorthInput, date: string) => {
+    const cashAccounts = input.accounts.filter(a => a.type !== 'LOAN').map(account => ({
+        accountId: account.id,
+        balance: getCurrentBalance(account, input.transactions, date, input.payday).startBalance
+    }));
+    const assetLines = input.assets.flatMap(asset => {
+        const valuation = getAssetValuation(asset, date);
+        return valuation ? [{ assetId: asset.id, value: valuation.value, valuationDate: valuation.date }] : [];
+    });
+    const loans = input.accounts.filter(isLoanAccount)
+        .filter(a => a.loan.startDate <= date)
+        .map(account => ({ accountId: account.id, balance: getLoanBalance(account, input.transactions, date) }));
+
+    const cash = cashAccounts.reduce((sum, a) => sum + a.balance, 0);
+    const assets = assetLines.reduce((sum, a) => sum + a.value, 0);
+    const debt = loans.reduce((sum, l) => sum + l.balance, 0);
+    return { cashAccounts, assetLines, loans, totals: { date, cash, assets, debt, netWorth: cash + assets - debt } };
+};
+
+// What's left of each goal's savings on the date, on the account the goal saves to
+const getGoalEarmarks = (input: NetWorthInput, date: string): Map<string, EarmarkedGoal[]> => {
+    const monthKey = getBudgetMonthForDate(parseISO(date), input.payday);
+    const reimbursementMap = calculateReimbursementMap(input.transactions);
+    const byAccount = new Map<string, EarmarkedGoal[]>();
+
+    input.buckets.forEach(bucket => {
+        if (bucket.type !== 'GOAL' || !bucket.startSavingDate || bucket.startSavingDate > monthKey) return;
+        const accountId = getBucketAccountId(bucket, input.budgetGroups);
+        if (!accountId) return;
+        const spent = input.transactions
+            .filter(t => !t.isHidden && t.bucketId === bucket.id && t.date <= date && (t.type === 'EXPENSE' || (!t.type && t.amount < 0)))
+            .reduce((sum, t) => sum + Math.abs(getEffectiveAmount(t, reimbursementMap)), 0);
+        const amount = calculateSavedAmount(bucket, monthKey) - spent;
+        if (amount <= 0) return;
+        byAccount.set(accountId, [...(byAccount.get(accountId) || []), { bucketId: bucket.id, amount }]);
+    });
+    return byAccount;
+};
+
+export const getNetWorthSnapshot = (input: NetWorthInput, date: string): NetWorthSnapshot => {
+    const { cashAccounts, assetLines, loans, totals } = getTotals(input, date);
+    const earmarks = getGoalEarmarks(input, date);
+    const loanBalances = new Map(loans.map(l => [l.accountId, l.balance]));
+
+    return {
+        ...totals,
+        accounts: cashAccounts.map(line => {
+            const earmarked = earmarks.get(line.accountId) || [];
+            return { ...line, earmarked, free: line.balance - earmarked.reduce((sum, g) => sum + g.amount, 0) };
+        }),
+        assetLines: assetLines.map(line => {
+            const loanId = input.assets.find(a => a.id === line.assetId)?.linkedLoanAccountId;
+            return loanId && loanBalances.has(loanId) ? { ...line, loanBalance: loanBalances.get(loanId) } : line;
+        }),
+        loans
+    };
+};
+
+// One point at the end of each budget month, the current month ends today. Months before any balance,
+// valuation or loan are left out.
+export const buildNetWorthSeries = (input: NetWorthInput, months: number, today: Date = new Date()): NetWorthPoint[] => {
+    const todayStr = format(today, 'yyyy-MM-dd');
+    const currentMonth = getBudgetMonthForDate(today, input.payday);
+    const points: NetWorthPoint[] = [];
+
+    for (let i = months - 1; i >= 0; i--) {
+        const monthKey = format(addMonths(parseISO(`${currentMonth}-01`), -i), 'yyyy-MM');
+        const endStr = format(getBudgetInterval(monthKey, input.payday).end, 'yyyy-MM-dd');
+        const { cashAccounts, assetLines, loans, totals } = getTotals(input, endStr < todayStr ? endStr : todayStr);
+        const hasData = assetLines.length > 0 || loans.length > 0 || cashAccounts.some(a => Math.abs(a.balance) > 0.005);
+        if (points.length === 0 && !hasData) continue;
+        points.push({ monthKey, ...totals });
+    }
+    return points;
+};
+
+export const createManualAsset = (kind: AssetKind = 'HOME'): ManualAsset => ({
+    id: generateId(),
+    budgetId: '',
+    name: ASSET_KIND_LABELS[kind],
+    kind,
+    icon: ASSET_KIND_ICONS[kind],
+    valuations: [{ date: format(new Date(), 'yyyy-MM-dd'), value: 0 }]
+});
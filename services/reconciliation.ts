@@ -0,0 +1,144 @@
+import { Account, Transaction, AccountReconciliation } from '../types';
+
+// Reconciles an account against the running balance reported by the bank.
+// Opening balance + the amounts of all rows should equal the balance the bank printed on each row.
+// Where it doesn't, the computed balance "drifts" and we try to point at the row(s) that explain it.
+
+export interface ReconciliationDrift {
+    transaction: Transaction; // First row where the bank balance disagrees with the computed one
+    bankBalance: number;
+    computedBalance: number;
+    difference: number; // bankBalance - computedBalance
+    previousCheckpoint?: Transaction; // Last row that still matched, the problem lies between the two
+    suspectedDuplicates: Transaction[]; // Rows in the gap whose removal would close the difference
+    suspectedMissingAmount?: number; // Set when no duplicate explains the difference
+}
+
+export interface ReconciliationResult {
+    accountId: string;
+    monthKey: string;
+    status: 'ok' | 'mismatch' | 'unknown'; // 'unknown' = no bank balances in the period
+    openingBalance?: number;
+    openingSource: 'account' | 'inferred' | 'none'; // Account.startBalances or derived from the first row with a balance
+    computedClosing?: number;
+    bankClosing?: number;
+    transactionCount: number;
+    drifts: ReconciliationDrift[];
+}
+
+const EPSILON = 0.005;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Banks list same-day rows in an order we can't see after import. Within a day, pick the row that
+// continues the balance chain first so correct files never produce drifts because of ordering.
+const orderForBalanceChain = (txs: Transaction[], opening?: number): Transaction[] => {
+    const byDate = new Map<string, Transaction[]>();
+    [...txs].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+        const list = byDate.get(t.date) || [];
+        list.push(t);
+        byDate.set(t.date, list);
+    });
+
+    const ordered: Transaction[] = [];
+    let running = opening;
+    byDate.forEach(dayTxs => {
+        const remaining = [...dayTxs];
+        while (remaining.length > 0) {
+            let idx = running === undefined ? -1 : remaining.findIndex(t => t.balance !== undefined && Math.abs(round2(running! + t.amount) - t.balance) < EPSILON);
+            // Rows without a balance don't break the chain, take them before an unmatched row
+            if (idx === -1) idx = remaining.findIndex(t => t.balance === undefined);
+            if (idx === -1) idx = 0;
+            const [next] = remaining.splice(idx, 1);
+            ordered.push(next);
+            running = next.balance !== undefined ? next.balance : (running !== undefined ? round2(running + next.amount) : undefined);
+        }
+    });
+    return ordered;
+};
+
+const findDuplicateCandidates = (gap: Transaction[], difference: number, all: Transaction[]): Transaction[] => {
+    // A duplicated row makes the computed balance too high by its amount: difference === -amount
+    const sameAmount = gap.filter(t => Math.abs(t.amount + difference) < EPSILON);
+    const withTwin = sameAmount.filter(t => all.some(o => o.id !== t.id && o.date === t.date && o.amount === t.amount && o.description === t.description));
+    return withTwin.length > 0 ? withTwin : sameAmount;
+};
+
+export const reconcileAccount = (
+    account: Account,
+    transactions: Transaction[],
+    monthKey: string,
+    startStr: string,
+    endStr: string
+): ReconciliationResult => {
+    const inPeriod = transactions.filter(t => t.accountId === account.id && t.date >= startStr && t.date <= endStr);
+    const firstWithBalance = [...inPeriod].sort((a, b) => a.date.localeCompare(b.date)).find(t => t.balance !== undefined);
+
+    let openingBalance: number | undefined = account.startBalances?.[monthKey];
+    let openingSource: ReconciliationResult['openingSource'] = openingBalance !== undefined ? 'account' : 'none';
+    if (openingBalance === undefined && firstWithBalance) {
+        // Assumes the row was the first one booked that day
+        const earlier = inPeriod.filter(t => t.date < firstWithBalance.date);
+        openingBalance = round2(firstWithBalance.balance! - firstWithBalance.amount - earlier.reduce((s, t) => s + t.amount, 0));
+        openingSource = 'inferred';
+    }
+
+    const base: ReconciliationResult = {
+        accountId: account.id,
+        monthKey,
+        status: 'unknown',
+        openingBalance,
+        openingSource,
+        transactionCount: inPeriod.length,
+        drifts: []
+    };
+    if (openingBalance === undefined) return base;
+
+    const ordered = orderForBalanceChain(inPeriod, openingBalance);
+    const drifts: ReconciliationDrift[] = [];
+    let running = openingBalance;
+    let previousCheckpoint: Transaction | undefined;
+    let gap: Transaction[] = [];
+    let bankClosing: number | undefined;
+
+    ordered.forEach(t => {
+        running = round2(running + t.amount);
+        gap.push(t);
+        if (t.balance === undefined) return;
+
+        bankClosing = t.balance;
+        const difference = round2(t.balance - running);
+        if (Math.abs(difference) >= EPSILON) {
+            const suspectedDuplicates = findDuplicateCandidates(gap, difference, inPeriod);
+            drifts.push({
+                transaction: t,
+                bankBalance: t.balance,
+                computedBalance: running,
+                difference,
+                previousCheckpoint,
+                suspectedDuplicates,
+                suspectedMissingAmount: suspectedDuplicates.length === 0 ? difference : undefined
+            });
+            // Re-anchor on the bank's balance so one missing row is reported once, not on every following row
+            running = t.balance;
+        }
+        previousCheckpoint = t;
+        gap = [];
+    });
+
+    const computedClosing = round2(openingBalance + inPeriod.reduce((s, t) => s + t.amount, 0));
+    const hasBankData = bankClosing !== undefined;
+
+    return {
+        ...base,
+        status: !hasBankData ? 'unknown' : drifts.length > 0 ? 'mismatch' : 'ok',
+        computedClosing,
+        bankClosing,
+        drifts
+    };
+};
+
+// A reconciled period stays valid only as long as its rows and closing balance are unchanged
+export const isReconciliationCurrent = (mark: AccountReconciliation | undefined, result: ReconciliationResult) => {
+    if (!mark) return false;
+    return mark.transactionCount === result.transactionCount && mark.computedClosing === result.computedClosing;
+};
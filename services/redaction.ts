@@ -0,0 +1,98 @@
+import { RedactionKind, RedactionSettings } from '../types';
+
+// Privacy layer for everything sent to an AI provider. Personal details in bank texts are swapped for
+// stable placeholders ([NAMN_1], [TELEFON_2] ...) before the call and swapped back in the answer,
+// so the provider never sees them but the user still reads "Swish till Anna" in the result.
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+    name: 'Personnamn',
+    phone: 'Telefonnummer',
+    account: 'IBAN/kontonummer',
+    ocr: 'OCR-referenser'
+};
+
+const PLACEHOLDER_PREFIX: Record<RedactionKind, string> = { name: 'NAMN', phone: 'TELEFON', account: 'KONTO', ocr: 'OCR' };
+
+// yyyyMMdd in bank texts is a date, not a reference
+const isCompactDate = (digits: string) => {
+    if (digits.length !== 8) return false;
+    const [year, month, day] = [Number(digits.slice(0, 4)), Number(digits.slice(4, 6)), Number(digits.slice(6))];
+    return year >= 1900 && year <= 2099 && month >= 1 && month <= 12 && day >= 1 && day <= new Date(year, month, 0).getDate();
+};
+
+// Order matters: account numbers and phones are picked before the generic long digit run (OCR)
+const DIGIT_PATTERNS: { kind: RedactionKind, regex: RegExp, skip?: (match: string) => boolean }[] = [
+    { kind: 'account', regex: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?\b/g }, // IBAN
+    { kind: 'phone', regex: /(?:\+46|\b0046|\b46|\b0)[\s-]?7\d(?:[\s-]?\d){7}\b/g },
+    { kind: 'account', regex: /\b\d{4}(?:-\d)?[\s,-]\s?(?:\d[\s-]?){6,10}\d\b/g }, // Clearing (with Swedbank check digit) + account number
+    { kind: 'ocr', regex: /\b\d{8,25}\b/g, skip: isCompactDate }
+];
+
+// Swish texts carry the other person's name: "Swish till ANNA SVENSSON", "Swish inbetalning FRÅN Erik J"
+const SWISH_WORDS = 'till|från|fran|betalning|inbetalning|utbetalning|mottagen|skickad';
+const NAME_AFTER_KEYWORD = new RegExp(`\\b(swish(?:\\s+(?:${SWISH_WORDS})(?![\\p{L}]))*)\\s+(?!(?:${SWISH_WORDS})(?![\\p{L}]))((?:\\p{L}[\\p{L}'.-]*\\s*){1,3})`, 'giu');
+
+const PLACEHOLDER = /\[(NAMN|TELEFON|KONTO|OCR)_\d+\]/g;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface RedactionEntry {
+    placeholder: string;
+    value: string;
+    kind: RedactionKind;
+}
+
+export interface Redactor {
+    redact: (text: string) => string;
+    restore: (text: string) => string;
+    entries: () => RedactionEntry[];
+}
+
+// One redactor per AI call so placeholders stay stable across all texts in the same prompt
+export const createRedactor = (settings: RedactionSettings = {}): Redactor => {
+    const disabled = new Set(settings.disabledKinds || []);
+    const byValue = new Map<string, RedactionEntry>();
+    const byPlaceholder = new Map<string, RedactionEntry>();
+    const counters: Record<RedactionKind, number> = { name: 0, phone: 0, account: 0, ocr: 0 };
+    const customTerms = (settings.customTerms || [])
+        .map(t => t.trim())
+        .filter(t => t.length >= 2)
+        .sort((a, b) => b.length - a.length); // "Anna Svensson" before "Anna"
+    // Letter lookarounds instead of \b, which doesn't treat å/ä/ö as word characters
+    const customRegex = customTerms.length > 0 ? new RegExp(`(?<![\\p{L}\\d])(?:${customTerms.map(escapeRegex).join('|')})(?![\\p{L}\\d])`, 'giu') : null;
+
+    const placeholderFor = (value: string, kind: RedactionKind) => {
+        const key = `${kind}|${value.replace(/\s+/g, ' ').trim().toUpperCase()}`;
+        let entry = byValue.get(key);
+        if (!entry) {
+            counters[kind]++;
+            entry = { placeholder: `[${PLACEHOLDER_PREFIX[kind]}_${counters[kind]}]`, value: value.trim(), kind };
+            byValue.set(key, entry);
+            byPlaceholder.set(entry.placeholder, entry);
+        }
+        return entry.placeholder;
+    };
+
+    const redact = (text: string) => {
+        if (settings.disabled || !text) return text;
+        let result = text;
+        DIGIT_PATTERNS.forEach(({ kind, regex, skip }) => {
+            if (disabled.has(kind)) return;
+            result = result.replace(regex, match => skip?.(match) ? match : placeholderFor(match, kind));
+        });
+        if (!disabled.has('name')) {
+            result = result.replace(NAME_AFTER_KEYWORD, (match, keyword: string, name: string) => {
+                const trimmed = name.trim();
+                if (!trimmed) return match;
+                return `${keyword} ${placeholderFor(trimmed, 'name')}${name.slice(name.trimEnd().length)}`;
+            });
+        }
+        // Custom terms (e.g. the household's own names) are always replaced
+        if (customRegex) result = result.replace(customRegex, match => placeholderFor(match, 'name'));
+        return result;
+    };
+
+    const restore = (text: string) => text.replace(PLACEHOLDER, match => byPlaceholder.get(match)?.value ?? match);
+
+    return { redact, restore, entries: () => Array.from(byPlaceholder.values()) };
+};
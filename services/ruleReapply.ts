@@ -0,0 +1,53 @@
+import { Transaction, ImportRule } from '../types';
+import { createRuleMatcher, applyRuleToTransaction, mergeMatchedRules } from './importService';
+
+// Re-runs the import rules (pipeline step 2) over stored transactions. Only the categorization
+// is compared and changed: type, bucket and main/sub category.
+
+export type RuleReapplyProtection = 'approved' | 'edited' | 'manual' | 'linked';
+
+export interface RuleReapplyChange {
+    before: Transaction;
+    after: Transaction;
+    rule: ImportRule;
+    protection?: RuleReapplyProtection; // Set for rows that are skipped unless the user includes them
+}
+
+export interface RuleReapplyScope {
+    startDate: string;
+    endDate: string;
+    accountIds: string[]; // Empty = all accounts
+}
+
+// Rows where the user has made a decision the rules shouldn't silently undo
+export const getRuleReapplyProtection = (t: Transaction): RuleReapplyProtection | undefined => {
+    if (t.isManuallyApproved) return 'approved';
+    if (t.categorizedManually || (t.splits && t.splits.length > 0)) return 'edited';
+    if (t.source === 'manual') return 'manual';
+    // Matched transfer pairs and reimbursements, a new category would break the link
+    if (t.linkedTransactionId || t.linkedExpenseId) return 'linked';
+    return undefined;
+};
+
+const CATEGORY_FIELDS = ['type', 'bucketId', 'categoryMainId', 'categorySubId'] as const;
+
+export const getChangedCategoryFields = (before: Transaction, after: Transaction) => CATEGORY_FIELDS.filter(f => before[f] !== after[f]);
+
+export const previewRuleReapply = (transactions: Transaction[], rules: ImportRule[], scope: RuleReapplyScope): RuleReapplyChange[] => {
+    const matchRule = createRuleMatcher(rules);
+    const accounts = new Set(scope.accountIds);
+    const changes: RuleReapplyChange[] = [];
+
+    transactions.forEach(t => {
+        if (t.date < scope.startDate || t.date > scope.endDate) return;
+        if (accounts.size > 0 && !accounts.has(t.accountId)) return;
+        const rule = mergeMatchedRules(matchRule(t));
+        if (!rule) return;
+
+        const after = applyRuleToTransaction(t, rule);
+        if (getChangedCategoryFields(t, after).length === 0) return;
+        changes.push({ before: t, after, rule, protection: getRuleReapplyProtection(t) });
+    });
+
+    return changes.sort((a, b) => b.before.date.localeCompare(a.before.date));
+};
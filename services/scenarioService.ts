@@ -0,0 +1,195 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { Bucket, BucketData, BudgetScenario, MonthConfig, MonthKey, ScenarioChange, User } from '../types';
+import { generateId, getLatestDailyDeduction } from '../utils';
+import { calculateBudgetFlow, BudgetFlowInput } from './budgetFlow';
+
+// What-if projection. A scenario is a list of changes on top of the real budget: the same budget flow
+// as the waterfall is calculated month by month with the changes applied, next to a baseline without them.
+
+export const SCENARIO_HORIZONS = [12, 24, 36];
+const INCOME_LOOKBACK_MONTHS = 48; // Covers the longest horizon started a year after the last registered income
+
+export const SCENARIO_CHANGE_LABELS: Record<ScenarioChange['kind'], string> = {
+    salary: 'Ändrad lön',
+    parentalLeave: 'Föräldraledighet / VAB',
+    addBucket: 'Ny budgetpost',
+    removeBucket: 'Ta bort budgetpost',
+    groupLimit: 'Ändrad gruppbudget',
+    loan: 'Nytt lån'
+};
+
+export interface ScenarioContext extends BudgetFlowInput {
+    users: User[];
+}
+
+export interface ScenarioMonth {
+    monthKey: MonthKey;
+    income: number;
+    consumption: number;
+    savings: number;
+    surplus: number;
+    cumulativeSurplus: number;
+    cumulativeSavings: number;
+    loanBalance: number; // Remaining principal on the scenario's loans
+}
+
+const EMPTY_BUCKET_DATA: BucketData = { amount: 0, dailyAmount: 0, activeDays: [] };
+
+const isActive = (change: ScenarioChange, monthKey: MonthKey, scenarioStart: MonthKey) =>
+    (change.startMonth || scenarioStart) <= monthKey && (!change.endMonth || monthKey <= change.endMonth);
+
+export const getScenarioMonths = (startMonth: MonthKey, horizonMonths: number): MonthKey[] => {
+    const start = parseISO(`${startMonth}-01`);
+    return Array.from({ length: horizonMonths }, (_, i) => format(addMonths(start, i), 'yyyy-MM'));
+};
+
+// Income is registered per month, so future months repeat the latest registered one
+export const getProjectedIncomeData = (user: User, monthKey: MonthKey) => {
+    if (user.incomeData[monthKey]) return user.incomeData[monthKey];
+    const start = parseISO(`${monthKey}-01`);
+    for (let i = 1; i <= INCOME_LOOKBACK_MONTHS; i++) {
+        const data = user.incomeData[format(addMonths(start, -i), 'yyyy-MM')];
+        if (data) return data;
+    }
+    return { salary: 0, childBenefit: 0, insurance: 0 };
+};
+
+// Monthly annuity payment, rate in percent per year
+export const calculateAnnuity = (principal: number, annualRate: number, years: number): number => {
+    const n = Math.max(1, Math.round(years * 12));
+    const r = annualRate / 100 / 12;
+    if (r === 0) return principal / n;
+    return principal * r / (1 - Math.pow(1 + r, -n));
+};
+
+export const projectScenario = (scenario: Pick<BudgetScenario, 'startMonth' | 'horizonMonths' | 'changes'>, context: ScenarioContext): ScenarioMonth[] => {
+    const { users, buckets, monthConfigs, budgetTemplates } = context;
+    const loanBalances = new Map<string, number>();
+    let cumulativeSurplus = 0;
+    let cumulativeSavings = 0;
+
+    return getScenarioMonths(scenario.startMonth, scenario.horizonMonths).map(monthKey => {
+        const active = scenario.changes.filter(c => isActive(c, monthKey, scenario.startMonth));
+
+        // Income
+        const income = users.reduce((sum, user) => {
+            const data = getProjectedIncomeData(user, monthKey);
+            let total = (data.salary || 0) + (data.childBenefit || 0) + (data.insurance || 0);
+            active.forEach(c => {
+                if (c.kind === 'salary' && c.userId === user.id) total += c.salary - (data.salary || 0);
+                if (c.kind === 'parentalLeave' && c.userId === user.id) total -= c.days * (c.dailyDeduction ?? getLatestDailyDeduction(user, monthKey));
+            });
+            return sum + total;
+        }, 0);
+
+        // Budget flow with removed buckets, changed group limits and new grouped buckets
+        const removed = new Set(active.flatMap(c => c.kind === 'removeBucket' ? [c.bucketId] : []));
+        const groupOverrides: Record<string, number> = {};
+        active.forEach(c => { if (c.kind === 'groupLimit') groupOverrides[c.groupId] = c.limit; });
+        const baseConfig: MonthConfig = monthConfigs.find(c => c.monthKey === monthKey) || { monthKey, budgetId: '', templateId: '' };
+        const addedInGroups: Bucket[] = active.flatMap(c => c.kind === 'addBucket' && c.budgetGroupId ? [{
+            id: `scenario-${c.id}`, budgetId: '', accountId: '', name: c.name, type: 'FIXED' as const, isSavings: !!c.isSavings,
+            budgetGroupId: c.budgetGroupId, monthlyData: { [monthKey]: { ...EMPTY_BUCKET_DATA, amount: c.amount } },
+            targetAmount: 0, targetDate: '', startSavingDate: ''
+        }] : []);
+
+        const flow = calculateBudgetFlow(monthKey, {
+            ...context,
+            buckets: [...buckets.filter(b => !removed.has(b.id)), ...addedInGroups],
+            monthConfigs: [...monthConfigs.filter(c => c.monthKey !== monthKey), { ...baseConfig, groupOverrides: { ...(baseConfig.groupOverrides || {}), ...groupOverrides } }],
+            budgetTemplates
+        });
+        let consumption = flow.consumptionExpenses;
+        let savings = flow.savingsExpenses;
+
+        // Ungrouped additions and loans are their own lines
+        active.forEach(c => {
+            if (c.kind === 'addBucket' && !c.budgetGroupId) {
+                if (c.isSavings) savings += c.amount;
+                else consumption += c.amount;
+            }
+            if (c.kind === 'loan') {
+                const balance = loanBalances.has(c.id) ? loanBalances.get(c.id)! : c.principal;
+                if (balance <= 0) return;
+                const interest = balance * c.annualRate / 100 / 12;
+                const payment = Math.min(calculateAnnuity(c.principal, c.annualRate, c.years), balance + interest);
+                loanBalances.set(c.id, balance + interest - payment);
+                consumption += payment;
+            }
+        });
+
+        const surplus = income - consumption - savings;
+        cumulativeSurplus += surplus;
+        cumulativeSavings += savings;
+        const loanBalance = Array.from(loanBalances.values()).reduce((sum, b) => sum + b, 0);
+        return { monthKey, income, consumption, savings, surplus, cumulativeSurplus, cumulativeSavings, loanBalance };
+    });
+};
+
+export interface ScenarioTemplateChanges {
+    groupLimits: Record<string, number>;
+    bucketValues: Record<string, BucketData>;
+    newBuckets: Bucket[]; // Created for added posts and loans, the template holds their amounts
+    skipped: ScenarioChange[]; // Income changes, which aren't part of a budget template
+}
+
+// Turns the budget side of a scenario into template values. Time limits are dropped, a template applies to whole months.
+export const buildScenarioTemplateChanges = (scenario: BudgetScenario, buckets: Bucket[]): ScenarioTemplateChanges => {
+    const result: ScenarioTemplateChanges = { groupLimits: {}, bucketValues: {}, newBuckets: [], skipped: [] };
+    const addBucket = (name: string, amount: number, isSavings: boolean, budgetGroupId?: string) => {
+        const bucket: Bucket = {
+            id: generateId(), budgetId: scenario.budgetId, accountId: '', name, type: 'FIXED', isSavings, budgetGroupId,
+            monthlyData: {}, targetAmount: 0, targetDate: '', startSavingDate: ''
+        };
+        result.newBuckets.push(bucket);
+        result.bucketValues[bucket.id] = { ...EMPTY_BUCKET_DATA, amount: Math.round(amount) };
+    };
+
+    scenario.changes.forEach(c => {
+        switch (c.kind) {
+            case 'groupLimit':
+                result.groupLimits[c.groupId] = c.limit;
+                break;
+            case 'removeBucket': {
+                // Goals follow their own timeline and aren't in templates
+                const bucket = buckets.find(b => b.id === c.bucketId);
+                if (bucket && bucket.type !== 'GOAL') result.bucketValues[c.bucketId] = { ...EMPTY_BUCKET_DATA, isExplicitlyDeleted: true };
+                else result.skipped.push(c);
+                break;
+            }
+            case 'addBucket':
+                addBucket(c.name, c.amount, !!c.isSavings, c.budgetGroupId);
+                break;
+            case 'loan':
+                addBucket(`Lån: ${c.name}`, calculateAnnuity(c.principal, c.annualRate, c.years), false);
+                break;
+            default:
+                result.skipped.push(c);
+        }
+    });
+    return result;
+};
+
+export const describeScenarioChange = (c: ScenarioChange, names: { users: User[], buckets: Bucket[], budgetGroups: { id: string, name: string }[] }): string => {
+    const userName = (id: string) => names.users.find(u => u.id === id)?.name || 'Okänd';
+    switch (c.kind) {
+        case 'salary': return `${userName(c.userId)}: lön ${Math.round(c.salary)} kr`;
+        case 'parentalLeave': return `${userName(c.userId)}: ${c.days} dagar/mån ledig`;
+        case 'addBucket': return `+ ${c.name} ${Math.round(c.amount)} kr/mån`;
+        case 'removeBucket': return `− ${names.buckets.find(b => b.id === c.bucketId)?.name || 'Borttagen post'}`;
+        case 'groupLimit': return `${names.budgetGroups.find(g => g.id === c.groupId)?.name || 'Grupp'}: ${Math.round(c.limit)} kr`;
+        case 'loan': return `Lån ${c.name}: ${Math.round(c.principal)} kr, ${c.annualRate} %, ${c.years} år`;
+    }
+};
+
+export const createScenarioChange = (kind: ScenarioChange['kind'], defaults: { userId?: string, bucketId?: string, groupId?: string }): ScenarioChange => {
+    const id = generateId();
+    switch (kind) {
+        case 'salary': return { id, kind, userId: defaults.userId || '', salary: 0 };
+        case 'parentalLeave': return { id, kind, userId: defaults.userId || '', days: 20 };
+        case 'addBucket': return { id, kind, name: 'Ny kostnad', amount: 1000 };
+        case 'removeBucket': return { id, kind, bucketId: defaults.bucketId || '' };
+        case 'groupLimit': return { id, kind, groupId: defaults.groupId || '', limit: 0 };
+        case 'loan': return { id, kind, name: 'Billån', principal: 200000, annualRate: 6, years: 5 };
+    }
+};
@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import { Transaction, Account, Bucket, MainCategory, SubCategory, SieExportConfig } from '../types';
+
+// Builds a SIE4 file (Swedish standard for bookkeeping exchange) from verified transactions.
+// Each bank account is booked against its own ledger account, the counter entry goes to the
+// BAS account mapped for the sub category, main category or bucket.
+
+export interface SieExportInput {
+    transactions: Transaction[];
+    accounts: Account[];
+    buckets: Bucket[];
+    mainCategories: MainCategory[];
+    subCategories: SubCategory[];
+    config: SieExportConfig;
+    startDate: string; // YYYY-MM-DD
+    endDate: string;   // YYYY-MM-DD
+}
+
+export interface SieExportResult {
+    content: string;
+    voucherCount: number;
+    unmappedAccountIds: string[]; // Bank accounts without a ledger account (skipped)
+}
+
+interface SieLine { account: string; amount: number; }
+interface SieVoucher { date: string; text: string; lines: SieLine[]; }
+
+const sieDate = (isoDate: string) => isoDate.replace(/-/g, '');
+const sieAmount = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+// Strings are quoted and may not contain quotes or line breaks
+const sieText = (text: string) => `"${text.replace(/["\r\n]/g, ' ').trim()}"`;
+
+export const DEFAULT_FALLBACK_ACCOUNTS: Pick<SieExportConfig, 'fallbackExpenseAccount' | 'fallbackIncomeAccount' | 'fallbackTransferAccount'> = {
+    fallbackExpenseAccount: '6991',
+    fallbackIncomeAccount: '3990',
+    fallbackTransferAccount: '1940'
+};
+
+// An emptied fallback field exports to the default account, a #TRANS line without one is not valid SIE
+const withFallbackDefaults = (config: SieExportConfig): SieExportConfig => ({
+    ...config,
+    fallbackExpenseAccount: config.fallbackExpenseAccount || DEFAULT_FALLBACK_ACCOUNTS.fallbackExpenseAccount,
+    fallbackIncomeAccount: config.fallbackIncomeAccount || DEFAULT_FALLBACK_ACCOUNTS.fallbackIncomeAccount,
+    fallbackTransferAccount: config.fallbackTransferAccount || DEFAULT_FALLBACK_ACCOUNTS.fallbackTransferAccount
+});
+
+export const getLedgerAccount = (config: SieExportConfig, accountId: string) => config.accountMap[`account:${accountId}`];
+
+const resolveCounterAccount = (t: Transaction, config: SieExportConfig): string => {
+    const map = config.accountMap;
+    if (t.type === 'TRANSFER') {
+        return (t.bucketId && map[`bucket:${t.bucketId}`]) || config.fallbackTransferAccount;
+    }
+    if (t.type === 'INCOME') {
+        return (t.categoryMainId && map[`main:${t.categoryMainId}`]) || config.fallbackIncomeAccount;
+    }
+    return (t.categorySubId && map[`sub:${t.categorySubId}`])
+        || (t.categoryMainId && map[`main:${t.categoryMainId}`])
+        || (t.bucketId && map[`bucket:${t.bucketId}`])
+        || config.fallbackExpenseAccount;
+};
+
+const buildVouchers = (input: SieExportInput): { vouchers: SieVoucher[], unmappedAccountIds: Set<string> } => {
+    const { transactions, config, startDate, endDate } = input;
+    const inRange = transactions
+        .filter(t => t.isVerified && !t.isHidden && t.date >= startDate && t.date <= endDate)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+    const byId = new Map(transactions.map(t => [t.id, t]));
+    const handled = new Set<string>();
+    const unmappedAccountIds = new Set<string>();
+    const vouchers: SieVoucher[] = [];
+
+    inRange.forEach(t => {
+        if (handled.has(t.id)) return;
+        handled.add(t.id);
+
+        const ledger = getLedgerAccount(config, t.accountId);
+        if (!ledger) {
+            unmappedAccountIds.add(t.accountId);
+            return;
+        }
+
+        // Linked internal transfers become one voucher moving money between the two ledger accounts
+        const counterpart = t.linkedTransactionId ? byId.get(t.linkedTransactionId) : undefined;
+        if (t.type === 'TRANSFER' && counterpart) {
+            handled.add(counterpart.id);
+            const counterLedger = getLedgerAccount(config, counterpart.accountId);
+            if (!counterLedger) unmappedAccountIds.add(counterpart.accountId);
+            vouchers.push({
+                date: t.date,
+                text: t.description,
+                lines: [
+                    { account: ledger, amount: t.amount },
+                    { account: counterLedger || config.fallbackTransferAccount, amount: -t.amount }
+                ]
+            });
+            return;
+        }
+
+        // Split rows get one counter line per split line
+        const counterLines = t.splits && t.splits.length > 0
+            ? t.splits.map(line => ({ account: resolveCounterAccount({ ...t, ...line }, config), amount: -line.amount }))
+            : [{ account: resolveCounterAccount(t, config), amount: -t.amount }];
+        vouchers.push({
+            date: t.date,
+            text: t.description,
+            lines: [{ account: ledger, amount: t.amount }, ...counterLines]
+        });
+    });
+
+    return { vouchers, unmappedAccountIds };
+};
+
+const buildAccountNames = (input: SieExportInput): Map<string, string> => {
+    const { config, accounts, buckets, mainCategories, subCategories } = input;
+    const names = new Map<string, string>();
+    const add = (num: string | undefined, name: string | undefined) => {
+        if (num && name && !names.has(num)) names.set(num, name);
+    };
+
+    accounts.forEach(a => add(getLedgerAccount(config, a.id), a.name));
+    subCategories.forEach(s => add(config.accountMap[`sub:${s.id}`], s.name));
+    mainCategories.forEach(m => add(config.accountMap[`main:${m.id}`], m.name));
+    buckets.forEach(b => add(config.accountMap[`bucket:${b.id}`], b.name));
+    add(config.fallbackExpenseAccount, 'Övriga kostnader');
+    add(config.fallbackIncomeAccount, 'Övriga intäkter');
+    add(config.fallbackTransferAccount, 'Överföringar');
+    return names;
+};
+
+export const buildSieFile = (exportInput: SieExportInput): SieExportResult => {
+    const input = { ...exportInput, config: withFallbackDefaults(exportInput.config) };
+    const { vouchers, unmappedAccountIds } = buildVouchers(input);
+    const names = buildAccountNames(input);
+    const usedAccounts = Array.from(new Set(vouchers.flatMap(v => v.lines.map(l => l.account)))).sort();
+
+    const out: string[] = [
+        '#FLAGGA 0',
+        '#PROGRAM "FamilyFlow" 1.0',
+        '#FORMAT PC8',
+        `#GEN ${format(new Date(), 'yyyyMMdd')}`,
+        '#SIETYP 4',
+        `#FNAMN ${sieText(input.config.companyName || 'FamilyFlow')}`
+    ];
+    if (input.config.orgNumber) out.push(`#ORGNR ${input.config.orgNumber}`);
+    out.push(`#RAR 0 ${sieDate(input.startDate)} ${sieDate(input.endDate)}`);
+    out.push('#KPTYP BAS2014');
+
+    usedAccounts.forEach(acc => out.push(`#KONTO ${acc} ${sieText(names.get(acc) || acc)}`));
+
+    vouchers.forEach((v, idx) => {
+        out.push(`#VER A ${idx + 1} ${sieDate(v.date)} ${sieText(v.text)}`);
+        out.push('{');
+        v.lines.forEach(l => out.push(`   #TRANS ${l.account} {} ${sieAmount(l.amount)}`));
+        out.push('}');
+    });
+
+    return {
+        content: out.join('\r\n') + '\r\n',
+        voucherCount: vouchers.length,
+        unmappedAccountIds: Array.from(unmappedAccountIds)
+    };
+};
+
+// SIE #FORMAT PC8 means IBM codepage 437. Only the characters that occur in Swedish text are mapped.
+const CP437_MAP: Record<string, number> = {
+    'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ä': 0x84, 'à': 0x85, 'å': 0x86, 'ç': 0x87,
+    'ê': 0x88, 'ë': 0x89, 'è': 0x8A, 'ï': 0x8B, 'î': 0x8C, 'ì': 0x8D, 'Ä': 0x8E, 'Å': 0x8F,
+    'É': 0x90, 'æ': 0x91, 'Æ': 0x92, 'ô': 0x93, 'ö': 0x94, 'ò': 0x95, 'û': 0x96, 'ù': 0x97,
+    'ÿ': 0x98, 'Ö': 0x99, 'Ü': 0x9A, 'á': 0xA0, 'í': 0xA1, 'ó': 0xA2, 'ú': 0xA3, 'ñ': 0xA4, 'Ñ': 0xA5
+};
+
+export const encodeCp437 = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        const code = ch.charCodeAt(0);
+        bytes[i] = code < 0x80 ? code : (CP437_MAP[ch] ?? 0x3F); // '?'
+    }
+    return bytes;
+};
@@ -0,0 +1,156 @@
+import { Transaction } from '../types';
+import { generateId } from '../utils';
+
+// Parsers for structured bank statements (OFX/QFX and ISO 20022 CAMT.053).
+// Unlike CSV/XLSX these formats carry a stable bank id per entry, which is stored as externalId.
+
+const toIsoDate = (val: string | undefined): string | undefined => {
+    if (!val) return undefined;
+    const m = val.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    return m ? `${m[1]}-${m[2]}-${m[3]}` : undefined;
+};
+
+const parseStatementAmount = (val: string | undefined): number => {
+    if (!val) return 0;
+    return parseFloat(val.trim().replace(/\s/g, '').replace(',', '.')) || 0;
+};
+
+// --- OFX / QFX ---
+
+// OFX 1.x is SGML where leaf tags are not closed, OFX 2.x is XML. Reading "<TAG>value" up to the next tag handles both.
+const readOfxTag = (block: string, tag: string): string | undefined => {
+    const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    const value = m?.[1].trim();
+    return value ? decodeXmlEntities(value) : undefined;
+};
+
+const decodeXmlEntities = (val: string) => val
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const parseOfx = (text: string, accountId: string, budgetId: string): Transaction[] => {
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>/i)[0]);
+
+    return blocks.map((block): Transaction | null => {
+        const date = toIsoDate(readOfxTag(block, 'DTPOSTED'));
+        const amount = parseStatementAmount(readOfxTag(block, 'TRNAMT'));
+        if (!date || amount === 0) return null;
+
+        const name = readOfxTag(block, 'NAME');
+        const memo = readOfxTag(block, 'MEMO');
+        const description = name || memo || 'Okänd transaktion';
+
+        return {
+            id: generateId(),
+            accountId,
+            budgetId,
+            date,
+            valueDate: toIsoDate(readOfxTag(block, 'DTUSER')),
+            description,
+            amount,
+            isVerified: false,
+            source: 'import' as const,
+            originalText: description,
+            originalDate: date,
+            externalId: readOfxTag(block, 'FITID')
+        };
+    }).filter((t): t is Transaction => !!t);
+};
+
+// --- CAMT.053 ---
+
+// Namespace-agnostic helpers, CAMT files use different namespace versions (camt.053.001.02 - .08)
+const child = (el: Element | undefined, name: string): Element | undefined => {
+    if (!el) return undefined;
+    return Array.from(el.children).find(c => c.localName === name);
+};
+
+const path = (el: Element | undefined, ...names: string[]): Element | undefined => {
+    return names.reduce<Element | undefined>((cur, n) => child(cur, n), el);
+};
+
+const textOf = (el: Element | undefined) => el?.textContent?.trim() || undefined;
+
+const readCamtDate = (el: Element | undefined) => toIsoDate(textOf(child(el, 'Dt')) || textOf(child(el, 'DtTm')));
+
+const readEntryStatus = (entry: Element) => {
+    const sts = child(entry, 'Sts');
+    // Older versions: <Sts>BOOK</Sts>, newer: <Sts><Cd>BOOK</Cd></Sts>
+    return textOf(child(sts, 'Cd')) || textOf(sts);
+};
+
+const readEntryDescription = (entry: Element, isCredit: boolean): string | undefined => {
+    const txDtls = path(entry, 'NtryDtls', 'TxDtls');
+    const counterparty = isCredit
+        ? textOf(path(txDtls, 'RltdPties', 'Dbtr', 'Nm')) || textOf(path(txDtls, 'RltdPties', 'Dbtr', 'Pty', 'Nm'))
+        : textOf(path(txDtls, 'RltdPties', 'Cdtr', 'Nm')) || textOf(path(txDtls, 'RltdPties', 'Cdtr', 'Pty', 'Nm'));
+
+    return textOf(child(entry, 'AddtlNtryInf'))
+        || counterparty
+        || textOf(path(txDtls, 'RmtInf', 'Ustrd'))
+        || textOf(child(txDtls, 'AddtlTxInf'));
+};
+
+export const parseCamt053 = (text: string, accountId: string, budgetId: string): Transaction[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("Filen är inte giltig XML.");
+    }
+
+    const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+    if (statements.length === 0) {
+        throw new Error("Hittade inget kontoutdrag (Stmt) i filen. Är det en CAMT.053-fil?");
+    }
+
+    const result: Transaction[] = [];
+
+    statements.forEach(stmt => {
+        // Opening balance lets us reconstruct a running balance per entry
+        const openingBal = Array.from(stmt.children)
+            .filter(c => c.localName === 'Bal')
+            .find(b => ['OPBD', 'PRCD'].includes(textOf(path(b, 'Tp', 'CdOrPrtry', 'Cd')) || ''));
+        let runningBalance: number | undefined;
+        if (openingBal) {
+            const amt = parseStatementAmount(textOf(child(openingBal, 'Amt')));
+            runningBalance = textOf(child(openingBal, 'CdtDbtInd')) === 'DBIT' ? -amt : amt;
+        }
+
+        Array.from(stmt.children).filter(c => c.localName === 'Ntry').forEach(entry => {
+            const status = readEntryStatus(entry);
+            if (status && status !== 'BOOK') return; // Skip pending/informational entries
+
+            const isCredit = textOf(child(entry, 'CdtDbtInd')) === 'CRDT';
+            const rawAmount = parseStatementAmount(textOf(child(entry, 'Amt')));
+            const amount = isCredit ? Math.abs(rawAmount) : -Math.abs(rawAmount);
+            const date = readCamtDate(child(entry, 'BookgDt')) || readCamtDate(child(entry, 'ValDt'));
+            if (!date || amount === 0) return;
+
+            if (runningBalance !== undefined) runningBalance = Math.round((runningBalance + amount) * 100) / 100;
+
+            const description = readEntryDescription(entry, isCredit) || 'Okänd transaktion';
+            const externalId = textOf(child(entry, 'AcctSvcrRef'))
+                || textOf(child(entry, 'NtryRef'))
+                || textOf(path(entry, 'NtryDtls', 'TxDtls', 'Refs', 'AcctSvcrRef'))
+                || textOf(path(entry, 'NtryDtls', 'TxDtls', 'Refs', 'EndToEndId'));
+
+            result.push({
+                id: generateId(),
+                accountId,
+                budgetId,
+                date,
+                valueDate: readCamtDate(child(entry, 'ValDt')),
+                description,
+                amount,
+                balance: runningBalance,
+                isVerified: false,
+                source: 'import' as const,
+                originalText: description,
+                originalDate: date,
+                externalId: externalId && externalId !== 'NOTPROVIDED' ? externalId : undefined
+            });
+        });
+    });
+
+    return result;
+};
@@ -0,0 +1,46 @@
+import { SyncChange, SyncServer, isNewerChange } from './syncService';
+
+// Reference sync server kept in memory. Used in tests and as the blueprint for a hosted server:
+// it stores the newest change per record and hands out a sequence number as the pull cursor.
+
+interface StoredChange {
+    seq: number;
+    change: SyncChange;
+}
+
+export interface MemorySyncServer extends SyncServer {
+    snapshot: () => SyncChange[]; // Current state, newest change per record
+}
+
+export const createMemorySyncServer = (): MemorySyncServer => {
+    const records = new Map<string, StoredChange>();
+    let seq = 0;
+
+    const push: SyncServer['push'] = async (_deviceId, changes) => {
+        let accepted = 0;
+        const rejected: SyncChange[] = [];
+        changes.forEach(change => {
+            const key = `${change.table}|${change.key}`;
+            const existing = records.get(key);
+            if (existing && !isNewerChange(change, existing.change)) {
+                // Same change sent twice is not a conflict
+                if (existing.change.updatedAt !== change.updatedAt || existing.change.deviceId !== change.deviceId) rejected.push(existing.change);
+                return;
+            }
+            seq++;
+            records.set(key, { seq, change: change.deleted ? { ...change, record: undefined } : change });
+            accepted++;
+        });
+        return { accepted, rejected };
+    };
+
+    const pull: SyncServer['pull'] = async (since) => {
+        const changes = Array.from(records.values())
+            .filter(r => r.seq > since)
+            .sort((a, b) => a.seq - b.seq)
+            .map(r => r.change);
+        return { changes, cursor: seq };
+    };
+
+    return { push, pull, snapshot: () => Array.from(records.values()).map(r => r.change) };
+};
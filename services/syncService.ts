@@ -0,0 +1,169 @@
+import { db, getDeviceId, runRemoteWrite, SYNCED_TABLES, SyncedTableName } from '../db';
+import { SyncMetadata, SyncSettings } from '../types';
+
+// Record-level sync between the household's devices through a small server.
+//
+// Every write stamps the row with updatedAt + deviceId (see db.ts) and every delete leaves a tombstone.
+// A sync round pushes this device's changes since the last round, then pulls everything the server
+// has seen since the last cursor. Both sides resolve a conflict per record: the latest updatedAt wins,
+// deviceId breaks ties, and a delete is just a change without a record.
+//
+// HTTP protocol, for anyone hosting the server:
+//   POST {serverUrl}/push   body { deviceId, changes: SyncChange[] }  ->  SyncPushResult
+//   GET  {serverUrl}/pull?since=<cursor>&deviceId=<id>               ->  SyncPullResult
+// Both send "Authorization: Bearer <token>" when a token is set. The cursor is opaque to the client,
+// the in-memory server in syncMemoryServer.ts is the reference implementation.
+
+export interface SyncChange extends Required<SyncMetadata> {
+    table: SyncedTableName;
+    key: string | number;
+    record?: any; // Missing when the row was deleted
+    deleted?: boolean;
+}
+
+export interface SyncPushResult {
+    accepted: number;
+    rejected: SyncChange[]; // The server's newer version of each change it didn't take
+}
+
+export interface SyncPullResult {
+    changes: SyncChange[];
+    cursor: number;
+}
+
+export interface SyncServer {
+    push: (deviceId: string, changes: SyncChange[]) => Promise<SyncPushResult>;
+    pull: (since: number, deviceId: string) => Promise<SyncPullResult>;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    conflicts: number; // Records where the other device's version replaced or overruled ours
+    finishedAt: number;
+}
+
+const CURSOR_KEY = 'sync_cursor';
+const PUSHED_UNTIL_KEY = 'sync_pushed_until';
+
+// Later write wins, the device id only decides writes made in the same millisecond
+export const isNewerChange = (a: SyncMetadata, b: SyncMetadata) =>
+    (a.updatedAt || 0) > (b.updatedAt || 0) || ((a.updatedAt || 0) === (b.updatedAt || 0) && (a.deviceId || '') > (b.deviceId || ''));
+
+const changeKey = (c: Pick<SyncChange, 'table' | 'key'>) => `${c.table}|${c.key}`;
+
+// The AI key and the sync token stay on the device: they're left out of what's pushed or exported and a
+// pulled or restored settings row keeps the local ones
+export const withoutSecrets = (table: string, record: any) => {
+    if (table !== 'settings') return record;
+    const { ai, sync, ...rest } = record;
+    return {
+        ...rest,
+        ...(ai ? { ai: { ...ai, apiKey: undefined } } : {}),
+        ...(sync ? { sync: { ...sync, token: undefined } } : {})
+    };
+};
+
+export const withLocalSecrets = (table: string, record: any, local: any) => {
+    if (table !== 'settings' || !local) return record;
+    return {
+        ...record,
+        ...(record.ai || local.ai?.apiKey ? { ai: { ...(record.ai || local.ai), apiKey: local.ai?.apiKey } } : {}),
+        ...(record.sync || local.sync?.token ? { sync: { ...(record.sync || local.sync), token: local.sync?.token } } : {})
+    };
+};
+
+export const createHttpSyncServer = (config: SyncSettings): SyncServer => {
+    const baseUrl = config.serverUrl.replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+
+    const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+        const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+        if (!response.ok) throw new Error(`Synkservern svarade ${response.status} ${response.statusText}`);
+        return response.json();
+    };
+
+    return {
+        push: (deviceId, changes) => request<SyncPushResult>('/push', { method: 'POST', body: JSON.stringify({ deviceId, changes }) }),
+        pull: (since, deviceId) => request<SyncPullResult>(`/pull?since=${since}&deviceId=${encodeURIComponent(deviceId)}`)
+    };
+};
+
+// This device's writes since the last push. The upper bound leaves writes from the current millisecond for next round.
+const collectLocalChanges = async (deviceId: string, pushedUntil: number, until: number): Promise<SyncChange[]> => {
+    const isPending = (m: SyncMetadata) => m.deviceId === deviceId && (m.updatedAt || 0) > pushedUntil && (m.updatedAt || 0) <= until;
+    const changes: SyncChange[] = [];
+
+    for (const table of SYNCED_TABLES) {
+        await db.table(table).toCollection().each((record, cursor) => {
+            if (!isPending(record)) return;
+            changes.push({ table, key: cursor.primaryKey as string | number, record: withoutSecrets(table, record), updatedAt: record.updatedAt, deviceId });
+        });
+    }
+
+    const tombstones = await db.syncTombstones.where('deletedAt').above(pushedUntil).filter(t => t.deviceId === deviceId && t.deletedAt <= until).toArray();
+    tombstones.forEach(t => changes.push({ table: t.table as SyncedTableName, key: t.key, deleted: true, updatedAt: t.deletedAt, deviceId: t.deviceId }));
+    return changes;
+};
+
+// Applies server changes unless the local row (or local delete) is newer. Returns how many were applied.
+export const applyRemoteChanges = async (changes: SyncChange[]): Promise<number> => {
+    const relevant = changes.filter(c => (SYNCED_TABLES as readonly string[]).includes(c.table));
+    if (relevant.length === 0) return 0;
+    let applied = 0;
+
+    await runRemoteWrite([...SYNCED_TABLES, 'syncTombstones'], async () => {
+        for (const change of relevant) {
+            const table = db.table(change.table);
+            const local: any = await table.get(change.key);
+            if (local && isNewerChange(local, change)) continue;
+            const tombstone = await db.syncTombstones.get(changeKey(change));
+            if (tombstone && isNewerChange({ updatedAt: tombstone.deletedAt, deviceId: tombstone.deviceId }, change)) continue;
+
+            if (change.deleted) {
+                if (local) await table.delete(change.key);
+            } else {
+                const keyPath = table.schema.primKey.keyPath;
+                const record = { ...withLocalSecrets(change.table, change.record, local), updatedAt: change.updatedAt, deviceId: change.deviceId };
+                if (typeof keyPath === 'string') record[keyPath] = change.key;
+                await (keyPath ? table.put(record) : table.put(record, change.key));
+            }
+            if (tombstone) await db.syncTombstones.delete(tombstone.id);
+            applied++;
+        }
+    });
+    return applied;
+};
+
+export const syncWithServer = async (server: SyncServer): Promise<SyncResult> => {
+    const deviceId = getDeviceId();
+    const pushedUntil = Number(localStorage.getItem(PUSHED_UNTIL_KEY)) || 0;
+    const cursor = Number(localStorage.getItem(CURSOR_KEY)) || 0;
+    const until = Date.now() - 1;
+
+    // 1. Push
+    const local = await collectLocalChanges(deviceId, pushedUntil, until);
+    let conflicts = 0;
+    if (local.length > 0) {
+        const { rejected } = await server.push(deviceId, local);
+        conflicts = rejected.length;
+        await applyRemoteChanges(rejected);
+    }
+    localStorage.setItem(PUSHED_UNTIL_KEY, String(until));
+    // Pushed deletes are now on the server, which keeps them for the other devices
+    await db.syncTombstones.where('deletedAt').belowOrEqual(until).delete();
+
+    // 2. Pull, our own echoes are already applied
+    const pulled = await server.pull(cursor, deviceId);
+    const applied = await applyRemoteChanges(pulled.changes.filter(c => c.deviceId !== deviceId));
+    localStorage.setItem(CURSOR_KEY, String(pulled.cursor));
+
+    return { pushed: local.length, pulled: applied, conflicts, finishedAt: Date.now() };
+};
+
+// Forget the server position, e.g. after pointing the app at a different server. This device's own rows are pushed again.
+export const resetSyncState = () => {
+    localStorage.removeItem(CURSOR_KEY);
+    localStorage.removeItem(PUSHED_UNTIL_KEY);
+};
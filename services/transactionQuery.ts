@@ -0,0 +1,56 @@
+import { getDay, parseISO } from 'date-fns';
+import { Transaction, TransactionType } from '../types';
+import { db } from '../db';
+import { expandSplitTransactions } from '../utils';
+
+// Structured filter behind the natural-language query bar. The AI provider only translates
+// the question into this shape, the filter itself always runs locally.
+
+export interface TransactionQuery {
+    title?: string; // Short label for the result, e.g. "Restaurang på helger våren 2025"
+    startDate?: string; // yyyy-MM-dd, inclusive
+    endDate?: string;
+    types?: TransactionType[];
+    categoryMainIds?: string[];
+    categorySubIds?: string[];
+    bucketIds?: string[];
+    text?: string; // Merchant text, case-insensitive substring of the description
+    amountMin?: number; // Compared against the absolute amount
+    amountMax?: number;
+    weekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export const isEmptyTransactionQuery = (q: TransactionQuery) =>
+    !q.startDate && !q.endDate && !q.types?.length && !q.categoryMainIds?.length && !q.categorySubIds?.length && !q.bucketIds?.length
+    && !q.text && q.amountMin === undefined && q.amountMax === undefined && !q.weekdays?.length;
+
+export const matchesTransactionQuery = (t: Transaction, q: TransactionQuery): boolean => {
+    if (q.startDate && t.date < q.startDate) return false;
+    if (q.endDate && t.date > q.endDate) return false;
+    if (q.types?.length && (!t.type || !q.types.includes(t.type))) return false;
+    // Category filters are alternatives: "restaurants or takeaway" lists both
+    const hasCategoryFilter = !!(q.categoryMainIds?.length || q.categorySubIds?.length || q.bucketIds?.length);
+    if (hasCategoryFilter) {
+        const inCategory = (!!t.categoryMainId && !!q.categoryMainIds?.includes(t.categoryMainId))
+            || (!!t.categorySubId && !!q.categorySubIds?.includes(t.categorySubId))
+            || (!!t.bucketId && !!q.bucketIds?.includes(t.bucketId));
+        if (!inCategory) return false;
+    }
+    if (q.text) {
+        const term = q.text.toLowerCase();
+        if (!t.description.toLowerCase().includes(term) && !(t.originalText || '').toLowerCase().includes(term)) return false;
+    }
+    const amount = Math.abs(t.amount);
+    if (q.amountMin !== undefined && amount < q.amountMin) return false;
+    if (q.amountMax !== undefined && amount > q.amountMax) return false;
+    if (q.weekdays?.length && !q.weekdays.includes(getDay(parseISO(t.date)))) return false;
+    return true;
+};
+
+// Verified rows only, split lines are matched on their own categories
+export const runTransactionQuery = async (budgetId: string, q: TransactionQuery): Promise<Transaction[]> => {
+    const rows = await db.transactions.where('budgetId').equals(budgetId).filter(t => t.isVerified && !t.isHidden).toArray();
+    return expandSplitTransactions(rows)
+        .filter(t => matchesTransactionQuery(t, q))
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
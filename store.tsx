@@ -1,14 +1,21 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { db } from './db';
 import { 
   User, Account, Bucket, MainCategory, SubCategory, 
   BudgetGroup, BudgetTemplate, MonthConfig, Transaction, 
-  ImportRule, IgnoredSubscription, AppSettings, MonthKey, BucketData, Budget
+  ImportRule, IgnoredSubscription, AppSettings, MonthKey, BucketData, Budget, ImportProfile, SieExportConfig, ImportBatch, AccountReconciliation, DismissedDuplicate, Merchant, AiReport, BudgetScenario, HousingScenario, ManualAsset, AccountType, LoanDetails
 } from './types';
 import { generateId, getEffectiveBucketData } from './utils';
 import { format, addMonths, parseISO } from 'date-fns';
 import { DEFAULT_MAIN_CATEGORIES, DEFAULT_SUB_CATEGORIES } from './constants/defaultCategories';
+import { assignMerchants, normalizeMerchantKey, aliasMatchesKey, createMerchantResolver } from './services/merchantService';
+import { sortRulesByPriority } from './services/importService';
+import { createBackup, applyRestorePlan, TableRestorePlan } from './services/backupService';
+import { encryptBackup } from './services/backupCrypto';
+import { syncWithServer, createHttpSyncServer, SyncResult } from './services/syncService';
+import { rebuildLoanSplits } from './services/loanService';
+import { DEFAULT_FALLBACK_ACCOUNTS } from './services/sieExport';
 
 interface AppContextType {
   budgets: Budget[];
@@ -25,7 +32,17 @@ interface AppContextType {
   selectedMonth: MonthKey;
   transactions: Transaction[];
   importRules: ImportRule[];
+  importProfiles: ImportProfile[];
+  importBatches: ImportBatch[];
+  reconciliations: AccountReconciliation[];
   ignoredSubscriptions: IgnoredSubscription[];
+  dismissedDuplicates: DismissedDuplicate[];
+  merchants: Merchant[];
+  aiReports: AiReport[];
+  scenarios: BudgetScenario[];
+  housingScenarios: HousingScenario[];
+  assets: ManualAsset[];
+  sieConfig: SieExportConfig;
 
   setActiveBudget: (id: string) => void;
   addBudget: (name: string, icon: string) => Promise<string>;
@@ -36,7 +53,7 @@ interface AppContextType {
   updateUserIncome: (userId: string, month: MonthKey, type: 'salary'|'childBenefit'|'insurance'|'vabDays'|'dailyDeduction', amount: number) => Promise<void>;
   updateUserName: (userId: string, name: string) => Promise<void>;
   
-  addAccount: (name: string, type: string, icon: string) => Promise<void>;
+  addAccount: (name: string, type: AccountType, icon: string, loan?: LoanDetails) => Promise<void>;
   updateAccount: (account: Account) => Promise<void>;
   deleteAccount: (id: string) => Promise<void>;
 
@@ -58,20 +75,54 @@ interface AppContextType {
 
   addTransactions: (txs: Transaction[]) => Promise<void>;
   updateTransaction: (tx: Transaction) => Promise<void>;
+  updateTransactions: (txs: Transaction[]) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
   deleteAllTransactions: () => Promise<void>;
+  mergeDuplicateTransactions: (keepId: string, removeId: string) => Promise<void>;
 
   addImportRule: (rule: ImportRule) => Promise<void>;
   deleteImportRule: (id: string) => Promise<void>;
   updateImportRule: (rule: ImportRule) => Promise<void>;
+  reorderImportRules: (orderedIds: string[]) => Promise<void>;
+
+  saveImportProfile: (profile: ImportProfile) => Promise<void>;
+  deleteImportProfile: (id: string) => Promise<void>;
+
+  addImportBatch: (batch: ImportBatch) => Promise<void>;
+  rollbackImportBatch: (id: string) => Promise<void>;
+
+  markReconciled: (reconciliation: Omit<AccountReconciliation, 'id' | 'budgetId' | 'reconciledAt'>) => Promise<void>;
+  unmarkReconciled: (id: string) => Promise<void>;
 
   addIgnoredSubscription: (id: string) => Promise<void>;
+  dismissDuplicatePair: (key: string) => Promise<void>;
+
+  updateMerchant: (merchant: Merchant) => Promise<void>;
+  mergeMerchants: (sourceId: string, targetId: string) => Promise<void>;
+  addMerchantAlias: (merchantId: string, text: string) => Promise<void>;
+  removeMerchantAlias: (merchantId: string, alias: string) => Promise<void>;
+
+  addAiReport: (report: AiReport) => Promise<void>;
+  deleteAiReport: (id: string) => Promise<void>;
+
+  saveScenario: (scenario: BudgetScenario) => Promise<void>;
+  deleteScenario: (id: string) => Promise<void>;
+
+  saveHousingScenario: (scenario: HousingScenario) => Promise<void>;
+  deleteHousingScenario: (id: string) => Promise<void>;
+  saveAsset: (asset: ManualAsset) => Promise<void>;
+  deleteAsset: (id: string) => Promise<void>;
+
+  updateSieConfig: (config: Partial<SieExportConfig>) => Promise<void>;
 
   setPayday: (day: number) => Promise<void>;
   updateSettings: (settings: Partial<AppSettings>) => Promise<void>;
   
-  getExportData: () => Promise<string>;
-  importData: (json: string) => Promise<boolean>;
+  getExportData: (passphrase?: string) => Promise<string>;
+  restoreBackup: (plans: TableRestorePlan[]) => Promise<void>;
+
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<SyncResult | null>;
 
   setBudgetLimit: (type: 'GROUP'|'SUB'|'BUCKET', id: string, amount: number | BucketData, month: MonthKey, mode: 'TEMPLATE' | 'OVERRIDE') => Promise<void>;
   toggleMonthLock: (month: MonthKey) => Promise<void>;
@@ -79,11 +130,26 @@ interface AppContextType {
   assignTemplateToMonth: (month: MonthKey, templateId: string) => Promise<void>;
   clearBudgetOverride: (type: 'GROUP'|'SUB'|'BUCKET', id: string, month: MonthKey) => Promise<void>;
   
-  addTemplate: (name: string, sourceMonth: MonthKey) => Promise<void>;
+  addTemplate: (name: string, sourceMonth: MonthKey, changes?: Partial<Pick<BudgetTemplate, 'groupLimits' | 'subCategoryBudgets' | 'bucketValues'>>) => Promise<void>;
   updateTemplate: (template: BudgetTemplate) => Promise<void>;
   resetMonthToTemplate: (month: MonthKey) => Promise<void>;
 }
 
+export interface SyncStatus {
+  isSyncing: boolean;
+  lastResult?: SyncResult;
+  error?: string;
+}
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+const createDefaultSieConfig = (budgetId: string): SieExportConfig => ({
+  budgetId,
+  companyName: '',
+  accountMap: {},
+  ...DEFAULT_FALLBACK_ACCOUNTS
+});
+
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -102,7 +168,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [selectedMonth, setSelectedMonth] = useState<MonthKey>(format(new Date(), 'yyyy-MM'));
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [importRules, setImportRules] = useState<ImportRule[]>([]);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [reconciliations, setReconciliations] = useState<AccountReconciliation[]>([]);
   const [ignoredSubscriptions, setIgnoredSubscriptions] = useState<IgnoredSubscription[]>([]);
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<DismissedDuplicate[]>([]);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [aiReports, setAiReports] = useState<AiReport[]>([]);
+  const [scenarios, setScenarios] = useState<BudgetScenario[]>([]);
+  const [housingScenarios, setHousingScenarios] = useState<HousingScenario[]>([]);
+  const [assets, setAssets] = useState<ManualAsset[]>([]);
+  const [sieConfig, setSieConfig] = useState<SieExportConfig>(createDefaultSieConfig(''));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ isSyncing: false });
+  const [dataVersion, setDataVersion] = useState(0); // Bumped to reload everything after a sync wrote to the database
 
   // Load Budgets & Initial Sync
   useEffect(() => {
@@ -169,9 +247,32 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
 
       setMonthConfigs(await db.monthConfigs.where('budgetId').equals(activeBudgetId).toArray());
-      setTransactions(await db.transactions.where('budgetId').equals(activeBudgetId).toArray());
-      setImportRules(await db.importRules.where('budgetId').equals(activeBudgetId).toArray());
+      // Transactions + Merchants (resolve rows stored before merchants existed)
+      const txs = await db.transactions.where('budgetId').equals(activeBudgetId).toArray();
+      const m = await db.merchants.where('budgetId').equals(activeBudgetId).toArray();
+      const unresolved = txs.filter(t => !t.merchantId);
+      if (unresolved.length > 0) {
+          const { transactions: resolved, newMerchants } = assignMerchants(unresolved, m, activeBudgetId);
+          await db.merchants.bulkAdd(newMerchants);
+          await db.transactions.bulkPut(resolved);
+          m.push(...newMerchants);
+          const resolvedMap = new Map(resolved.map(t => [t.id, t]));
+          setTransactions(txs.map(t => resolvedMap.get(t.id) || t));
+      } else {
+          setTransactions(txs);
+      }
+      setMerchants(m);
+      setImportRules(sortRulesByPriority(await db.importRules.where('budgetId').equals(activeBudgetId).toArray()));
+      setImportProfiles(await db.importProfiles.where('budgetId').equals(activeBudgetId).toArray());
+      setImportBatches(await db.importBatches.where('budgetId').equals(activeBudgetId).toArray());
+      setReconciliations(await db.reconciliations.where('budgetId').equals(activeBudgetId).toArray());
       setIgnoredSubscriptions(await db.ignoredSubscriptions.where('budgetId').equals(activeBudgetId).toArray());
+      setDismissedDuplicates(await db.dismissedDuplicates.where('budgetId').equals(activeBudgetId).toArray());
+      setAiReports(await db.aiReports.where('budgetId').equals(activeBudgetId).toArray());
+      setScenarios(await db.scenarios.where('budgetId').equals(activeBudgetId).toArray());
+      setHousingScenarios(await db.housingScenarios.where('budgetId').equals(activeBudgetId).toArray());
+      setAssets(await db.assets.where('budgetId').equals(activeBudgetId).toArray());
+      setSieConfig((await db.sieConfigs.get(activeBudgetId)) || createDefaultSieConfig(activeBudgetId));
 
       // Global Settings
       const s = await db.settings.toArray();
@@ -179,7 +280,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     loadData();
-  }, [activeBudgetId]);
+  }, [activeBudgetId, dataVersion]);
 
   // Load Categories (Shared across budgets)
   useEffect(() => {
@@ -201,7 +302,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           }
       };
       loadCategories();
-  }, []);
+  }, [dataVersion]);
 
   const setActiveBudget = (id: string) => setActiveBudgetId(id);
 
@@ -220,7 +321,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const deleteBudget = async (id: string) => {
       if (budgets.length <= 1) return;
-      await (db as any).transaction('rw', ['budgets', 'users', 'accounts', 'buckets', 'budgetGroups', 'budgetTemplates', 'monthConfigs', 'transactions', 'importRules', 'ignoredSubscriptions'], async () => {
+      await (db as any).transaction('rw', ['budgets', 'users', 'accounts', 'buckets', 'budgetGroups', 'budgetTemplates', 'monthConfigs', 'transactions', 'importRules', 'importProfiles', 'importBatches', 'reconciliations', 'ignoredSubscriptions', 'dismissedDuplicates', 'merchants', 'aiReports', 'scenarios', 'housingScenarios', 'assets', 'sieConfigs'], async () => {
           await db.budgets.delete(id);
           await db.users.where('budgetId').equals(id).delete();
           await db.accounts.where('budgetId').equals(id).delete();
@@ -230,7 +331,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           await db.monthConfigs.where('budgetId').equals(id).delete();
           await db.transactions.where('budgetId').equals(id).delete();
           await db.importRules.where('budgetId').equals(id).delete();
+          await db.importProfiles.where('budgetId').equals(id).delete();
+          await db.importBatches.where('budgetId').equals(id).delete();
+          await db.reconciliations.where('budgetId').equals(id).delete();
           await db.ignoredSubscriptions.where('budgetId').equals(id).delete();
+          await db.dismissedDuplicates.where('budgetId').equals(id).delete();
+          await db.merchants.where('budgetId').equals(id).delete();
+          await db.aiReports.where('budgetId').equals(id).delete();
+          await db.scenarios.where('budgetId').equals(id).delete();
+          await db.housingScenarios.where('budgetId').equals(id).delete();
+          await db.assets.where('budgetId').equals(id).delete();
+          await db.sieConfigs.delete(id);
       });
       setBudgets(prev => prev.filter(b => b.id !== id));
       if (activeBudgetId === id) {
@@ -260,20 +371,57 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setUsers(prev => prev.map(u => u.id === userId ? updated : u));
   };
 
-  const addAccount = async (name: string, type: string, icon: string) => {
-    const acc: Account = { id: generateId(), budgetId: activeBudgetId, name, type, icon, startBalances: {} };
+  // Writes the changes and every loan payment split they move, see rebuildLoanSplits. The splits are rebuilt
+  // from the database inside the transaction, so calls made in parallel each build on the ones before them.
+  // Joins the caller's transaction when there is one. Resolves to the matching update of the transactions state.
+  const writeWithLoanSplits = (
+    changes: { put?: Transaction[]; add?: Transaction[]; removeIds?: string[] },
+    nextAccounts: Account[] = accounts
+  ): Promise<(prev: Transaction[]) => Transaction[]> => (db as any).transaction('rw', ['transactions'], async () => {
+    const put = changes.put || [];
+    const add = changes.add || [];
+    const removed = new Set(changes.removeIds || []);
+    const changedById = new Map([...put, ...add].map(t => [t.id, t]));
+
+    const current = await db.transactions.where('budgetId').equals(activeBudgetId).toArray();
+    const next = [...current.filter(t => !removed.has(t.id)).map(t => changedById.get(t.id) || t), ...add];
+    const resplit = new Map(rebuildLoanSplits(next, nextAccounts).map(t => [t.id, t.splits]));
+    const withSplits = (t: Transaction) => resplit.has(t.id) ? { ...t, splits: resplit.get(t.id) } : t;
+    const rows = put.map(withSplits);
+    const newRows = add.map(withSplits);
+    const moved = Array.from(resplit).filter(([id]) => !changedById.has(id));
+
+    if (removed.size > 0) await db.transactions.bulkDelete(Array.from(removed));
+    if (newRows.length > 0) await db.transactions.bulkAdd(newRows);
+    if (rows.length > 0) await db.transactions.bulkPut(rows);
+    if (moved.length > 0) await db.transactions.bulkUpdate(moved.map(([key, splits]) => ({ key, changes: { splits } })));
+
+    const byId = new Map(rows.map(t => [t.id, t]));
+    return (prev: Transaction[]) => [
+      ...prev.filter(t => !removed.has(t.id)).map(t => byId.get(t.id) || (resplit.has(t.id) ? { ...t, splits: resplit.get(t.id) } : t)),
+      ...newRows
+    ];
+  });
+
+  const addAccount = async (name: string, type: AccountType, icon: string, loan?: LoanDetails) => {
+    const acc: Account = { id: generateId(), budgetId: activeBudgetId, name, type, icon, startBalances: {}, ...(loan ? { loan } : {}) };
     await db.accounts.add(acc);
     setAccounts(prev => [...prev, acc]);
+    if (loan) setTransactions(await writeWithLoanSplits({}, [...accounts, acc]));
   };
 
   const updateAccount = async (account: Account) => {
     await db.accounts.put(account);
     setAccounts(prev => prev.map(a => a.id === account.id ? account : a));
+    if (account.loan || accounts.find(a => a.id === account.id)?.loan) {
+      setTransactions(await writeWithLoanSplits({}, accounts.map(a => a.id === account.id ? account : a)));
+    }
   };
 
   const deleteAccount = async (id: string) => {
     await db.accounts.delete(id);
     setAccounts(prev => prev.filter(a => a.id !== id));
+    if (accounts.find(a => a.id === id)?.loan) setTransactions(await writeWithLoanSplits({}, accounts.filter(a => a.id !== id)));
   };
 
   const addBucket = async (bucket: Bucket) => {
@@ -389,30 +537,79 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const addTransactions = async (txs: Transaction[]) => {
-    const withBudgetId = txs.map(t => ({ ...t, budgetId: activeBudgetId }));
-    await db.transactions.bulkAdd(withBudgetId);
-    setTransactions(prev => [...prev, ...withBudgetId]);
+    const { transactions: withMerchants, newMerchants } = assignMerchants(txs.map(t => ({ ...t, budgetId: activeBudgetId })), merchants, activeBudgetId);
+    if (newMerchants.length > 0) {
+      await db.merchants.bulkAdd(newMerchants);
+      setMerchants(prev => [...prev, ...newMerchants]);
+    }
+    setTransactions(await writeWithLoanSplits({ add: withMerchants }));
   };
 
   const updateTransaction = async (tx: Transaction) => {
-    await db.transactions.put(tx);
-    setTransactions(prev => prev.map(t => t.id === tx.id ? tx : t));
+    setTransactions(await writeWithLoanSplits({ put: [tx] }));
+  };
+
+  const updateTransactions = async (txs: Transaction[]) => {
+    setTransactions(await writeWithLoanSplits({ put: txs }));
   };
 
   const deleteTransaction = async (id: string) => {
-    await db.transactions.delete(id);
-    setTransactions(prev => prev.filter(t => t.id !== id));
+    setTransactions(await writeWithLoanSplits({ removeIds: [id] }));
   };
 
   const deleteAllTransactions = async () => {
     await db.transactions.where('budgetId').equals(activeBudgetId).delete();
+    await db.importBatches.where('budgetId').equals(activeBudgetId).delete();
     setTransactions([]);
+    setImportBatches([]);
+  };
+
+  // Keeps one row of a duplicate pair, fills in what it lacks from the other and moves links over
+  const mergeDuplicateTransactions = async (keepId: string, removeId: string) => {
+    const keep = transactions.find(t => t.id === keepId);
+    const remove = transactions.find(t => t.id === removeId);
+    if (!keep || !remove) return;
+
+    const merged: Transaction = {
+      ...keep,
+      balance: keep.balance ?? remove.balance,
+      externalId: keep.externalId || remove.externalId,
+      valueDate: keep.valueDate || remove.valueDate,
+      linkedTransactionId: keep.linkedTransactionId || remove.linkedTransactionId,
+      linkedExpenseId: keep.linkedExpenseId || remove.linkedExpenseId
+    };
+    if (!keep.type && remove.type) {
+      merged.type = remove.type;
+      merged.bucketId = remove.bucketId;
+      merged.categoryMainId = remove.categoryMainId;
+      merged.categorySubId = remove.categorySubId;
+    }
+
+    // A transfer link goes both ways. When the kept row already has its own counterpart, the removed
+    // row's counterpart is unlinked rather than pointed at a row that points elsewhere.
+    const relinked = transactions
+      .filter(t => t.id !== keepId && t.id !== removeId && (t.linkedTransactionId === removeId || t.linkedExpenseId === removeId))
+      .map(t => ({
+        ...t,
+        linkedTransactionId: t.linkedTransactionId === removeId ? (merged.linkedTransactionId === t.id ? keepId : undefined) : t.linkedTransactionId,
+        linkedExpenseId: t.linkedExpenseId === removeId ? keepId : t.linkedExpenseId
+      }));
+
+    setTransactions(await writeWithLoanSplits({ put: [merged, ...relinked], removeIds: [removeId] }));
   };
 
   const addImportRule = async (rule: ImportRule) => {
-    const r = { ...rule, budgetId: activeBudgetId };
+    // New rules go last so they never silently take over from existing ones. Rules from before ordering
+    // existed get their current position as priority first, otherwise they would sort after the new one.
+    let existing = importRules;
+    if (existing.some(x => x.priority === undefined)) {
+      existing = sortRulesByPriority(existing).map((x, i) => ({ ...x, priority: i }));
+      await db.importRules.bulkPut(existing);
+    }
+    const nextPriority = existing.reduce((max, x) => Math.max(max, x.priority!), -1) + 1;
+    const r = { ...rule, budgetId: activeBudgetId, priority: rule.priority ?? nextPriority };
     await db.importRules.add(r);
-    setImportRules(prev => [...prev, r]);
+    setImportRules([...existing, r]);
   };
 
   const deleteImportRule = async (id: string) => {
@@ -425,12 +622,218 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setImportRules(prev => prev.map(r => r.id === rule.id ? rule : r));
   };
 
+  const reorderImportRules = async (orderedIds: string[]) => {
+    const byId = new Map(importRules.map(r => [r.id, r]));
+    const reordered = orderedIds.map(id => byId.get(id)).filter((r): r is ImportRule => !!r).map((r, i) => ({ ...r, priority: i }));
+    await db.importRules.bulkPut(reordered);
+    setImportRules(reordered);
+  };
+
+  const saveImportProfile = async (profile: ImportProfile) => {
+    const p = { ...profile, budgetId: activeBudgetId };
+    await db.importProfiles.put(p);
+    setImportProfiles(prev => [...prev.filter(x => x.id !== p.id), p]);
+  };
+
+  const deleteImportProfile = async (id: string) => {
+    await db.importProfiles.delete(id);
+    setImportProfiles(prev => prev.filter(p => p.id !== id));
+  };
+
+  const addImportBatch = async (batch: ImportBatch) => {
+    const b = { ...batch, budgetId: activeBudgetId };
+    await db.importBatches.add(b);
+    setImportBatches(prev => [...prev, b]);
+  };
+
+  // Removes every transaction created by the batch and restores balances/bank ids it overwrote on existing rows,
+  // as well as the type, bucket and verification of rows it auto-matched as transfers
+  const rollbackImportBatch = async (id: string) => {
+    const batch = importBatches.find(b => b.id === id);
+    if (!batch) return;
+
+    const removedIds = new Set<string>();
+    let applyChanges: (prev: Transaction[]) => Transaction[] = prev => prev;
+
+    await (db as any).transaction('rw', ['transactions', 'importBatches'], async () => {
+      const created = await db.transactions.where('batchId').equals(id).toArray();
+      created.forEach(t => removedIds.add(t.id));
+
+      // Unlink transfers/reimbursements in other batches that point at the removed rows
+      const linked = await db.transactions.where('linkedTransactionId').anyOf(Array.from(removedIds)).toArray();
+      const reimbursed = await db.transactions.where('linkedExpenseId').anyOf(Array.from(removedIds)).toArray();
+      const touched = new Map<string, Transaction>();
+      [...linked, ...reimbursed].forEach(t => {
+        if (removedIds.has(t.id)) return;
+        const current = touched.get(t.id) || { ...t };
+        if (current.linkedTransactionId && removedIds.has(current.linkedTransactionId)) current.linkedTransactionId = undefined;
+        if (current.linkedExpenseId && removedIds.has(current.linkedExpenseId)) current.linkedExpenseId = undefined;
+        touched.set(t.id, current);
+      });
+
+      for (const u of batch.updates) {
+        if (removedIds.has(u.transactionId)) continue;
+        const tx = touched.get(u.transactionId) || await db.transactions.get(u.transactionId);
+        if (!tx) continue;
+        const previous = u.previousTransfer;
+        touched.set(tx.id, previous
+          ? { ...tx, type: previous.type, bucketId: previous.bucketId, isVerified: previous.isVerified, linkedTransactionId: previous.linkedTransactionId }
+          : { ...tx, balance: u.previousBalance, externalId: u.previousExternalId });
+      }
+
+      applyChanges = await writeWithLoanSplits({ put: Array.from(touched.values()), removeIds: Array.from(removedIds) });
+      await db.importBatches.delete(id);
+    });
+
+    setTransactions(applyChanges);
+    setImportBatches(prev => prev.filter(b => b.id !== id));
+  };
+
+  const markReconciled = async (reconciliation: Omit<AccountReconciliation, 'id' | 'budgetId' | 'reconciledAt'>) => {
+    const r: AccountReconciliation = {
+      ...reconciliation,
+      id: `${reconciliation.accountId}_${reconciliation.monthKey}`,
+      budgetId: activeBudgetId,
+      reconciledAt: new Date().toISOString()
+    };
+    await db.reconciliations.put(r);
+    setReconciliations(prev => [...prev.filter(x => x.id !== r.id), r]);
+  };
+
+  const unmarkReconciled = async (id: string) => {
+    await db.reconciliations.delete(id);
+    setReconciliations(prev => prev.filter(r => r.id !== id));
+  };
+
   const addIgnoredSubscription = async (id: string) => {
     const sub = { id, budgetId: activeBudgetId };
     await db.ignoredSubscriptions.add(sub);
     setIgnoredSubscriptions(prev => [...prev, sub]);
   };
 
+  const dismissDuplicatePair = async (key: string) => {
+    const d = { id: key, budgetId: activeBudgetId };
+    await db.dismissedDuplicates.put(d);
+    setDismissedDuplicates(prev => [...prev.filter(x => x.id !== key), d]);
+  };
+
+  const addAiReport = async (report: AiReport) => {
+    await db.aiReports.add(report);
+    setAiReports(prev => [...prev, report]);
+  };
+
+  const deleteAiReport = async (id: string) => {
+    await db.aiReports.delete(id);
+    setAiReports(prev => prev.filter(r => r.id !== id));
+  };
+
+  const saveScenario = async (scenario: BudgetScenario) => {
+    const s = { ...scenario, budgetId: activeBudgetId };
+    await db.scenarios.put(s);
+    setScenarios(prev => prev.some(x => x.id === s.id) ? prev.map(x => x.id === s.id ? s : x) : [...prev, s]);
+  };
+
+  const deleteScenario = async (id: string) => {
+    await db.scenarios.delete(id);
+    setScenarios(prev => prev.filter(s => s.id !== id));
+  };
+
+  const saveHousingScenario = async (scenario: HousingScenario) => {
+    const s = { ...scenario, budgetId: activeBudgetId };
+    await db.housingScenarios.put(s);
+    setHousingScenarios(prev => prev.some(x => x.id === s.id) ? prev.map(x => x.id === s.id ? s : x) : [...prev, s]);
+  };
+
+  const deleteHousingScenario = async (id: string) => {
+    await db.housingScenarios.delete(id);
+    setHousingScenarios(prev => prev.filter(s => s.id !== id));
+  };
+
+  const saveAsset = async (asset: ManualAsset) => {
+    const a = { ...asset, budgetId: activeBudgetId };
+    await db.assets.put(a);
+    setAssets(prev => prev.some(x => x.id === a.id) ? prev.map(x => x.id === a.id ? a : x) : [...prev, a]);
+  };
+
+  const deleteAsset = async (id: string) => {
+    await db.assets.delete(id);
+    setAssets(prev => prev.filter(a => a.id !== id));
+  };
+
+  const updateMerchant = async (merchant: Merchant) => {
+    await db.merchants.put(merchant);
+    setMerchants(prev => prev.map(m => m.id === merchant.id ? merchant : m));
+  };
+
+  // Moves all transactions of the source merchant to the target and keeps the source's texts as aliases
+  const mergeMerchants = async (sourceId: string, targetId: string) => {
+    const source = merchants.find(m => m.id === sourceId);
+    const target = merchants.find(m => m.id === targetId);
+    if (!source || !target || sourceId === targetId) return;
+
+    const updatedTarget = { ...target, aliases: Array.from(new Set([...target.aliases, source.key, ...source.aliases])) };
+    const moved = transactions.filter(t => t.merchantId === sourceId).map(t => ({ ...t, merchantId: targetId }));
+
+    await (db as any).transaction('rw', ['merchants', 'transactions'], async () => {
+      await db.merchants.put(updatedTarget);
+      await db.merchants.delete(sourceId);
+      await db.transactions.bulkPut(moved);
+    });
+    const movedMap = new Map(moved.map(t => [t.id, t]));
+    setTransactions(prev => prev.map(t => movedMap.get(t.id) || t));
+    setMerchants(prev => prev.filter(m => m.id !== sourceId).map(m => m.id === targetId ? updatedTarget : m));
+  };
+
+  // An alias folds every merchant whose key it covers into this one
+  const addMerchantAlias = async (merchantId: string, text: string) => {
+    const target = merchants.find(m => m.id === merchantId);
+    const alias = normalizeMerchantKey(text);
+    if (!target || !alias || target.aliases.includes(alias)) return;
+
+    const absorbed = merchants.filter(m => m.id !== merchantId && (aliasMatchesKey(alias, m.key) || m.aliases.some(a => aliasMatchesKey(alias, a))));
+    const absorbedIds = new Set(absorbed.map(m => m.id));
+    const updatedTarget = { ...target, aliases: Array.from(new Set([...target.aliases, alias, ...absorbed.flatMap(m => [m.key, ...m.aliases])])) };
+    const moved = transactions.filter(t => t.merchantId && absorbedIds.has(t.merchantId)).map(t => ({ ...t, merchantId }));
+
+    await (db as any).transaction('rw', ['merchants', 'transactions'], async () => {
+      await db.merchants.put(updatedTarget);
+      await db.merchants.bulkDelete(Array.from(absorbedIds));
+      await db.transactions.bulkPut(moved);
+    });
+    const movedMap = new Map(moved.map(t => [t.id, t]));
+    setTransactions(prev => prev.map(t => movedMap.get(t.id) || t));
+    setMerchants(prev => prev.filter(m => !absorbedIds.has(m.id)).map(m => m.id === merchantId ? updatedTarget : m));
+  };
+
+  // Rows that only matched through the removed alias get resolved again (possibly to new merchants)
+  const removeMerchantAlias = async (merchantId: string, alias: string) => {
+    const target = merchants.find(m => m.id === merchantId);
+    if (!target) return;
+
+    const updatedTarget = { ...target, aliases: target.aliases.filter(a => a !== alias) };
+    const others = merchants.filter(m => m.id !== merchantId);
+    const stillMatches = createMerchantResolver([updatedTarget]);
+    const detached = transactions
+      .filter(t => t.merchantId === merchantId && !stillMatches(t.originalText || t.description))
+      .map(t => ({ ...t, merchantId: undefined }));
+    const { transactions: reassigned, newMerchants } = assignMerchants(detached, others, activeBudgetId);
+
+    await (db as any).transaction('rw', ['merchants', 'transactions'], async () => {
+      await db.merchants.put(updatedTarget);
+      if (newMerchants.length > 0) await db.merchants.bulkAdd(newMerchants);
+      await db.transactions.bulkPut(reassigned);
+    });
+    const reassignedMap = new Map(reassigned.map(t => [t.id, t]));
+    setTransactions(prev => prev.map(t => reassignedMap.get(t.id) || t));
+    setMerchants(prev => [...prev.map(m => m.id === merchantId ? updatedTarget : m), ...newMerchants]);
+  };
+
+  const updateSieConfig = async (config: Partial<SieExportConfig>) => {
+    const updated = { ...sieConfig, ...config, budgetId: activeBudgetId };
+    await db.sieConfigs.put(updated);
+    setSieConfig(updated);
+  };
+
   const setPayday = async (day: number) => {
     const newSettings = { ...settings, payday: day };
     await db.settings.put(newSettings, 1);
@@ -443,50 +846,58 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setSettings(updated);
   };
 
-  const getExportData = async () => {
-    const data = {
-      budgets: await db.budgets.toArray(),
-      users: await db.users.toArray(),
-      accounts: await db.accounts.toArray(),
-      buckets: await db.buckets.toArray(),
-      mainCategories: await db.mainCategories.toArray(),
-      subCategories: await db.subCategories.toArray(),
-      budgetGroups: await db.budgetGroups.toArray(),
-      budgetTemplates: await db.budgetTemplates.toArray(),
-      monthConfigs: await db.monthConfigs.toArray(),
-      settings: await db.settings.toArray(),
-      transactions: await db.transactions.toArray(),
-      importRules: await db.importRules.toArray(),
-      ignoredSubscriptions: await db.ignoredSubscriptions.toArray(),
-    };
-    return JSON.stringify(data);
+  // Encrypted when a passphrase is given
+  const getExportData = async (passphrase?: string) => {
+    const json = JSON.stringify(await createBackup());
+    return passphrase ? encryptBackup(json, passphrase) : json;
+  };
+
+  // Reload everything after the database was written outside the usual actions (sync, restore)
+  const reloadAllData = async () => {
+    const b = await db.budgets.toArray();
+    setBudgets(b);
+    if (b.length > 0 && !b.some(x => x.id === activeBudgetId)) setActiveBudgetId(b[0].id);
+    setDataVersion(v => v + 1);
+  };
+
+  const restoreBackup = async (plans: TableRestorePlan[]) => {
+    await applyRestorePlan(plans);
+    await reloadAllData();
   };
 
-  const importData = async (json: string) => {
+  // Full restore of a backup file, the records the backup doesn't have are deleted
+  const isSyncingRef = useRef(false);
+
+  const syncNow = async (): Promise<SyncResult | null> => {
+    if (!settings.sync?.serverUrl || isSyncingRef.current) return null;
+    isSyncingRef.current = true;
+    setSyncStatus(prev => ({ ...prev, isSyncing: true, error: undefined }));
     try {
-      const data = JSON.parse(json);
-      await (db as any).transaction('rw', ['budgets', 'users', 'accounts', 'buckets', 'mainCategories', 'subCategories', 'budgetGroups', 'budgetTemplates', 'monthConfigs', 'settings', 'transactions', 'importRules', 'ignoredSubscriptions'], async () => {
-          await db.budgets.clear(); await db.budgets.bulkAdd(data.budgets || []);
-          await db.users.clear(); await db.users.bulkAdd(data.users || []);
-          await db.accounts.clear(); await db.accounts.bulkAdd(data.accounts || []);
-          await db.buckets.clear(); await db.buckets.bulkAdd(data.buckets || []);
-          await db.mainCategories.clear(); await db.mainCategories.bulkAdd(data.mainCategories || []);
-          await db.subCategories.clear(); await db.subCategories.bulkAdd(data.subCategories || []);
-          await db.budgetGroups.clear(); await db.budgetGroups.bulkAdd(data.budgetGroups || []);
-          await db.budgetTemplates.clear(); await db.budgetTemplates.bulkAdd(data.budgetTemplates || []);
-          await db.monthConfigs.clear(); await db.monthConfigs.bulkAdd(data.monthConfigs || []);
-          await db.settings.clear(); await db.settings.bulkAdd(data.settings || []);
-          await db.transactions.clear(); await db.transactions.bulkAdd(data.transactions || []);
-          await db.importRules.clear(); await db.importRules.bulkAdd(data.importRules || []);
-          await db.ignoredSubscriptions.clear(); await db.ignoredSubscriptions.bulkAdd(data.ignoredSubscriptions || []);
-      });
-      return true;
+      const result = await syncWithServer(createHttpSyncServer(settings.sync));
+      if (result.pulled > 0 || result.conflicts > 0) await reloadAllData();
+      setSyncStatus({ isSyncing: false, lastResult: result });
+      return result;
     } catch (e) {
-      console.error(e);
-      return false;
+      console.error('Sync failed', e);
+      setSyncStatus(prev => ({ ...prev, isSyncing: false, error: e instanceof Error ? e.message : 'Synkningen misslyckades' }));
+      return null;
+    } finally {
+      isSyncingRef.current = false;
     }
   };
 
+  // The timer calls the latest syncNow, so a budget switch or a settings change is picked up without restarting it
+  const syncNowRef = useRef(syncNow);
+  syncNowRef.current = syncNow;
+
+  // Background sync while the app is open
+  useEffect(() => {
+    if (!settings.sync?.autoSync || !settings.sync.serverUrl) return;
+    syncNowRef.current();
+    const timer = setInterval(() => syncNowRef.current(), SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [settings.sync?.autoSync, settings.sync?.serverUrl, settings.sync?.token]);
+
   const setBudgetLimit = async (type: 'GROUP'|'SUB'|'BUCKET', id: string, amount: number | BucketData, month: MonthKey, mode: 'TEMPLATE' | 'OVERRIDE') => {
     if (mode === 'TEMPLATE') {
         const config = monthConfigs.find(c => c.monthKey === month);
@@ -567,7 +978,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setMonthConfigs(prev => prev.map(c => c.monthKey === month ? updated : c));
   };
 
-  const addTemplate = async (name: string, sourceMonth: MonthKey) => {
+  // Copies the month's effective values, optionally with some of them changed (e.g. from a scenario)
+  const addTemplate = async (name: string, sourceMonth: MonthKey, changes: Partial<Pick<BudgetTemplate, 'groupLimits' | 'subCategoryBudgets' | 'bucketValues'>> = {}) => {
       const config = monthConfigs.find(c => c.monthKey === sourceMonth);
       const activeTemplateId = config?.templateId || budgetTemplates.find(t => t.isDefault)?.id;
       const activeTemplate = budgetTemplates.find(t => t.id === activeTemplateId);
@@ -576,9 +988,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           budgetId: activeBudgetId,
           name,
           isDefault: false,
-          groupLimits: { ...(activeTemplate?.groupLimits || {}), ...(config?.groupOverrides || {}) },
-          subCategoryBudgets: { ...(activeTemplate?.subCategoryBudgets || {}), ...(config?.subCategoryOverrides || {}) },
-          bucketValues: { ...(activeTemplate?.bucketValues || {}), ...(config?.bucketOverrides || {}) }
+          groupLimits: { ...(activeTemplate?.groupLimits || {}), ...(config?.groupOverrides || {}), ...(changes.groupLimits || {}) },
+          subCategoryBudgets: { ...(activeTemplate?.subCategoryBudgets || {}), ...(config?.subCategoryOverrides || {}), ...(changes.subCategoryBudgets || {}) },
+          bucketValues: { ...(activeTemplate?.bucketValues || {}), ...(config?.bucketOverrides || {}), ...(changes.bucketValues || {}) }
       };
       await db.budgetTemplates.add(newTemplate);
       setBudgetTemplates(prev => [...prev, newTemplate]);
@@ -599,10 +1011,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const value = {
     budgets, activeBudgetId, setActiveBudget, addBudget, deleteBudget, updateBudget,
-    users, accounts, buckets, mainCategories, subCategories, budgetGroups, budgetTemplates, monthConfigs, settings, selectedMonth, transactions, importRules, ignoredSubscriptions,
+    users, accounts, buckets, mainCategories, subCategories, budgetGroups, budgetTemplates, monthConfigs, settings, selectedMonth, transactions, importRules, importProfiles, importBatches, reconciliations, ignoredSubscriptions, dismissedDuplicates, merchants, aiReports, scenarios, housingScenarios, assets, sieConfig,
     setMonth, updateUserIncome, updateUserName, addAccount, updateAccount, deleteAccount, addBucket, updateBucket, deleteBucket, archiveBucket, addMainCategory, deleteMainCategory, addSubCategory, deleteSubCategory, updateSubCategory, resetCategoriesToDefault,
-    addBudgetGroup, updateBudgetGroup, deleteBudgetGroup, addTransactions, updateTransaction, deleteTransaction, deleteAllTransactions, addImportRule, deleteImportRule, updateImportRule, addIgnoredSubscription,
-    setPayday, updateSettings, getExportData, importData, setBudgetLimit, toggleMonthLock, unlockMonth, assignTemplateToMonth, clearBudgetOverride, addTemplate, updateTemplate, resetMonthToTemplate
+    addBudgetGroup, updateBudgetGroup, deleteBudgetGroup, addTransactions, updateTransaction, updateTransactions, deleteTransaction, deleteAllTransactions, mergeDuplicateTransactions, addImportRule, deleteImportRule, updateImportRule, reorderImportRules, saveImportProfile, deleteImportProfile, addImportBatch, rollbackImportBatch, markReconciled, unmarkReconciled, addIgnoredSubscription, dismissDuplicatePair, updateMerchant, mergeMerchants, addMerchantAlias, removeMerchantAlias, addAiReport, deleteAiReport, saveScenario, deleteScenario, saveHousingScenario, deleteHousingScenario, saveAsset, deleteAsset, updateSieConfig,
+    setPayday, updateSettings, getExportData, restoreBackup, syncStatus, syncNow, setBudgetLimit, toggleMonthLock, unlockMonth, assignTemplateToMonth, clearBudgetOverride, addTemplate, updateTemplate, resetMonthToTemplate
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
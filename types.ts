@@ -58,13 +58,39 @@ export interface Bucket {
   autoTagEvent?: boolean;
 }
 
+export type AccountType = 'CHECKING' | 'SAVINGS' | 'CREDIT' | 'LOAN';
+
 export interface Account {
   id: string;
   budgetId: string;
   name: string;
   icon: string;
-  type?: string; // NEW: Account type (CHECKING, SAVINGS, CREDIT)
+  type?: AccountType;
   startBalances: Record<MonthKey, number>;
+  balanceFloor?: number; // The cash-flow forecast warns when the balance is projected below this, default 0
+  loan?: LoanDetails; // Set on LOAN accounts
+}
+
+export type LoanKind = 'MORTGAGE' | 'CAR' | 'STUDENT' | 'CONSUMER' | 'OTHER';
+
+export interface LoanRateChange {
+  date: string; // YYYY-MM-DD, the rate applies from this day
+  annualRate: number; // Percent
+}
+
+export interface LoanDetails {
+  kind: LoanKind;
+  principal: number; // Original amount
+  startDate: string; // YYYY-MM-DD
+  balance: number; // Outstanding debt on balanceDate, payments after it are subtracted
+  balanceDate: string;
+  rateHistory: LoanRateChange[];
+  method: 'ANNUITY' | 'STRAIGHT'; // Equal payments, or a fixed amortization with interest on top
+  termMonths?: number; // ANNUITY: months from startDate until paid off
+  monthlyAmortization?: number; // STRAIGHT
+  monthlyFee?: number; // Aviavgift
+  paymentBucketId?: string; // Payments categorized here are split into interest and amortization
+  paymentSubCategoryId?: string;
 }
 
 export interface MainCategory {
@@ -124,6 +150,14 @@ export interface MonthConfig {
 
 export type TransactionType = 'EXPENSE' | 'TRANSFER' | 'INCOME';
 
+export interface CategorySuggestion {
+  matchType: NonNullable<Transaction['matchType']>;
+  type?: TransactionType;
+  bucketId?: string;
+  categoryMainId?: string;
+  categorySubId?: string;
+}
+
 export interface Transaction {
   id: string;
   budgetId: string;
@@ -142,25 +176,131 @@ export interface Transaction {
   source: 'manual' | 'import';
   originalText?: string;
   originalDate?: string;
+  valueDate?: string; // Value date from structured statements (OFX/CAMT), 'date' is the booking date
+  externalId?: string; // Stable bank id (OFX FITID / CAMT AcctSvcrRef), used for deduplication
+  batchId?: string; // ImportBatch that created this row
+  merchantId?: string; // Resolved from the normalized description, see merchantService
   rowId?: string;
-  matchType?: 'rule' | 'history' | 'ai' | 'event';
+  matchType?: 'rule' | 'history' | 'ai' | 'event' | 'model';
+  matchConfidence?: number; // 0 - 1, how sure the suggestion behind matchType is
+  matchExplanation?: string; // Why it was suggested, e.g. "Regel #3 matchade 'ICA'"
+  correctedFrom?: CategorySuggestion; // The suggestion the user overrode in review, feeds rule suggestions
   aiSuggested?: boolean;
   ruleMatch?: boolean;
   isManuallyApproved?: boolean;
+  categorizedManually?: boolean; // The user picked type/bucket/category by hand, re-running rules leaves it alone
   isHidden?: boolean;
+  splits?: TransactionSplit[]; // When set, the lines carry the categorization and the row's own fields are ignored in totals
+  splitParent?: { id: string; amount: number }; // Only on rows produced by expandSplitTransactions, never stored
+}
+
+// One part of a split transaction, e.g. the household goods on a grocery receipt
+export interface TransactionSplit {
+  id: string;
+  amount: number; // Signed like the parent, the lines sum to the parent amount
+  type: TransactionType;
+  bucketId?: string;
+  categoryMainId?: string;
+  categorySubId?: string;
+  note?: string;
+  loanAccountId?: string; // Set on lines of a loan payment split, see loanService
+  loanPart?: 'INTEREST' | 'AMORTIZATION' | 'FEE';
 }
 
 export interface ImportRule {
   id: string;
   budgetId: string;
-  keyword: string;
-  matchType: 'contains' | 'exact' | 'starts_with';
+  keyword: string; // Text or regex pattern depending on matchType. Empty = any text
+  matchType: 'contains' | 'exact' | 'starts_with' | 'regex';
   accountId?: string;
   targetType?: TransactionType;
   targetBucketId?: string;
   targetCategoryMainId?: string;
   targetCategorySubId?: string;
   sign?: 'positive' | 'negative';
+  // Optional extra conditions, all set conditions must match. Amounts compare against the absolute amount.
+  amountMin?: number;
+  amountMax?: number;
+  exactAmount?: number;
+  dayOfMonthFrom?: number; // 1-31, window wraps over month end when from > to (e.g. 25 - 5)
+  dayOfMonthTo?: number;
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+  priority?: number; // Lower runs first, see sortRulesByPriority
+  continueAfterMatch?: boolean; // Let later matching rules fill in targets this one leaves empty instead of stopping here
+}
+
+export type ImportColumnRole = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'balance';
+
+export interface ImportProfile {
+  id: string;
+  budgetId: string;
+  accountId: string;
+  name: string;
+  delimiter: string; // Empty string = let the parser auto-detect
+  encoding: string; // e.g. "ISO-8859-1" (most Swedish banks) or "UTF-8"
+  headerRow: number; // Zero-based row index of the header, data starts on the row after
+  dateFormat: string; // date-fns format string, or 'auto'
+  decimalSeparator: ',' | '.';
+  columns: Partial<Record<ImportColumnRole, number>>; // Column index per role
+}
+
+// Changes made to an already existing transaction during an import, kept so the batch can be rolled back
+export interface ImportBatchUpdate {
+  transactionId: string;
+  previousBalance?: number;
+  previousExternalId?: string;
+  previousTransfer?: Pick<Transaction, 'type' | 'bucketId' | 'isVerified' | 'linkedTransactionId'>; // Set when the import auto-matched the row as a transfer counterpart
+}
+
+export interface ImportBatch {
+  id: string;
+  budgetId: string;
+  accountId: string;
+  filename: string;
+  fileHash: string; // SHA-256 of the file content, used to warn about re-imports
+  rowCount: number; // Rows parsed from the file
+  newCount: number; // Rows added as new transactions
+  dateFrom?: string;
+  dateTo?: string;
+  createdAt: string; // ISO timestamp
+  updates: ImportBatchUpdate[];
+}
+
+// A budget period the user has checked against the bank statement
+export interface AccountReconciliation {
+  id: string; // `${accountId}_${monthKey}`
+  budgetId: string;
+  accountId: string;
+  monthKey: MonthKey;
+  reconciledAt: string; // ISO timestamp
+  transactionCount: number; // Snapshot used to detect changes after reconciling
+  computedClosing?: number;
+  bankClosing?: number;
+}
+
+export interface SieExportConfig {
+  budgetId: string; // One config per budget
+  companyName: string;
+  orgNumber?: string;
+  // BAS account per mapped entity, keyed "main:<id>", "sub:<id>", "bucket:<id>" or "account:<id>"
+  accountMap: Record<string, string>;
+  fallbackExpenseAccount: string;
+  fallbackIncomeAccount: string;
+  fallbackTransferAccount: string;
+}
+
+export interface Merchant {
+    id: string;
+    budgetId: string;
+    name: string; // Display name, editable
+    key: string; // Normalized description this merchant was created from
+    aliases: string[]; // Additional normalized keys; also match keys that start with the alias
+}
+
+// A pair of transactions the user has confirmed are NOT duplicates
+export interface DismissedDuplicate {
+    id: string; // Sorted transaction ids joined with "|"
+    budgetId: string;
 }
 
 export interface IgnoredSubscription {
@@ -168,12 +308,142 @@ export interface IgnoredSubscription {
     budgetId: string;
 }
 
+export type AiProviderKind = 'gemini' | 'openai' | 'offline';
+
+export type RedactionKind = 'name' | 'phone' | 'account' | 'ocr';
+
+export interface RedactionSettings {
+  disabled?: boolean; // Redaction is on unless explicitly turned off
+  disabledKinds?: RedactionKind[];
+  customTerms?: string[]; // Always replaced, e.g. the household's own names
+}
+
+export interface AiProviderConfig {
+  provider: AiProviderKind;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible servers, e.g. "http://localhost:11434/v1" (Ollama) or llama.cpp's server
+  model?: string; // Empty = provider default
+  redaction?: RedactionSettings;
+}
+
+// What the monthly AI report was based on, stored with the report so later months can compare against it
+export interface FinancialSnapshot {
+    totalIncome: number;
+    budgetGroups: { name: string; limit: number; spent: number; }[];
+    categoryBreakdownCurrent: { main: string; sub: string; amount: number }[];
+    topExpenses: { name: string; amount: number }[];
+    transactionLog: string; // List of all transactions for detailed analysis
+    monthLabel: string;
+}
+
+export interface AiReport {
+    id: string;
+    budgetId: string;
+    monthKey: string;
+    createdAt: string; // ISO timestamp
+    snapshot: FinancialSnapshot;
+    markdown: string;
+    comparedMonthKeys?: string[]; // Earlier reports that were fed into the prompt
+  timeframeMonths?: number; // Set when the report averages several months ending before monthKey, never compared against
+}
+
+// One what-if adjustment in a scenario. Each applies from startMonth (default: the scenario's first month)
+// and optionally up to and including endMonth.
+export type ScenarioChange = { id: string; startMonth?: MonthKey; endMonth?: MonthKey } & (
+    | { kind: 'salary'; userId: string; salary: number } // New monthly salary before tax-free benefits
+    | { kind: 'parentalLeave'; userId: string; days: number; dailyDeduction?: number } // Days per month, deduction defaults to the user's latest
+    | { kind: 'addBucket'; name: string; amount: number; isSavings?: boolean; budgetGroupId?: string }
+    | { kind: 'removeBucket'; bucketId: string }
+    | { kind: 'groupLimit'; groupId: string; limit: number }
+    | { kind: 'loan'; name: string; principal: number; annualRate: number; years: number } // Annuity, rate in percent
+);
+
+export interface BudgetScenario {
+    id: string;
+    budgetId: string;
+    name: string;
+    createdAt: string; // ISO timestamp
+    startMonth: MonthKey;
+    horizonMonths: number; // 12-36
+    changes: ScenarioChange[];
+}
+
+export interface MortgageLoanPart {
+    id: string;
+    name: string; // e.g. "Rörlig" or "3 år"
+    amount: number;
+    rateType: 'VARIABLE' | 'FIXED';
+    annualRate: number; // Percent
+    bindingMonths: number; // Fixed rate period, 0 for variable (which resets every 3 months)
+    rateAfterBinding?: number; // Assumed rate once the binding ends, defaults to annualRate
+}
+
+// A saved home purchase for the housing calculator
+export interface HousingScenario {
+    id: string;
+    budgetId: string;
+    name: string;
+    createdAt: string; // ISO timestamp
+    startMonth: MonthKey; // First month with loan payments
+    price: number;
+    downPayment: number;
+    monthlyFee: number;
+    operatingCost: number;
+    loanParts: MortgageLoanPart[]; // Should add up to price - downPayment
+    otherDebt: number; // Car loans, CSN etc., counted in the debt-to-income ratio
+    grossAnnualIncome?: number; // Overrides the estimate from the household's net salaries
+    extraAmortization: number; // Voluntary kr/month on top of the requirement
+}
+
+export type AssetKind = 'HOME' | 'VEHICLE' | 'PENSION' | 'INVESTMENT' | 'OTHER';
+
+export interface AssetValuation {
+    date: string; // YYYY-MM-DD
+    value: number;
+}
+
+// Something of value that isn't a bank account, valued by hand now and then
+export interface ManualAsset {
+    id: string;
+    budgetId: string;
+    name: string;
+    kind: AssetKind;
+    icon?: string;
+    valuations: AssetValuation[]; // The latest one on or before a date is the value on that date
+    linkedLoanAccountId?: string; // E.g. the mortgage on a home, shown as equity
+    soldDate?: string; // YYYY-MM-DD, no value from this day
+}
+
 export interface AppSettings {
   payday: number;
   autoApproveIncome?: boolean;
   autoApproveTransfer?: boolean;
   autoApproveExpense?: boolean;
   autoApproveSmartTransfers?: boolean;
+  ai?: AiProviderConfig;
+  sync?: SyncSettings;
+  encryptBackups?: boolean; // The passphrase itself is never stored
+}
+
+export interface SyncSettings {
+  serverUrl: string; // e.g. "https://sync.example.se/familyflow"
+  token?: string; // Sent as a bearer token, shared by the household's devices
+  autoSync?: boolean;
+}
+
+// Stamped on every row in every table by the change tracking in db.ts
+export interface SyncMetadata {
+  updatedAt?: number; // ms since epoch, last local or remote write
+  deviceId?: string; // Device that made the last write
+}
+
+// A local delete waiting to be pushed, rows themselves are gone once deleted
+export interface SyncTombstone {
+  id: string; // `${table}|${key}`
+  table: string;
+  key: string | number;
+  deletedAt: number;
+  deviceId: string;
 }
 
 export interface GlobalState {
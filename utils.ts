@@ -35,10 +35,39 @@ export const getEffectiveAmount = (t: Transaction, reimbursementMap: Record<stri
     // If t is a reimbursement (has linkedExpenseId), its effective amount is 0 for statistics/budgeting purposes (it's netting out the expense).
     if (t.linkedExpenseId) return 0;
     
+    // Split lines take their share of a reimbursement linked to the parent row
+    if (t.splitParent) {
+        const parentReimbursement = reimbursementMap[t.splitParent.id] || 0;
+        const share = t.splitParent.amount !== 0 ? t.amount / t.splitParent.amount : 0;
+        return t.amount + parentReimbursement * share;
+    }
+
     const reimbursement = reimbursementMap[t.id] || 0;
     return t.amount + reimbursement;
 };
 
+// --- SPLIT TRANSACTIONS ---
+// Replaces each split row with one row per line, so every filter on type/category/bucket counts the lines.
+// The generated rows are for reading only, edits must go to the parent (splitParent.id).
+export const expandSplitTransactions = (transactions: Transaction[]): Transaction[] => {
+    if (!transactions.some(t => t.splits && t.splits.length > 0)) return transactions;
+    return transactions.flatMap(t => {
+        if (!t.splits || t.splits.length === 0) return [t];
+        return t.splits.map((line): Transaction => ({
+            ...t,
+            id: `${t.id}_${line.id}`,
+            amount: line.amount,
+            type: line.type,
+            bucketId: line.bucketId,
+            categoryMainId: line.categoryMainId,
+            categorySubId: line.categorySubId,
+            description: line.note ? `${t.description} (${line.note})` : t.description,
+            splits: undefined,
+            splitParent: { id: t.id, amount: t.amount }
+        }));
+    });
+};
+
 /**
  * Retrieves the bucket data for a specific month.
  * UPDATED: Uses Template System for FIXED/DAILY buckets. GOAL buckets still use legacy inheritance/explicit data.
@@ -3,18 +3,20 @@ import React, { useState, useMemo } from 'react';
 import { useApp } from '../store';
 import { OperatingBudgetView } from './OperatingBudgetView';
 import { IncomeView } from './IncomeView';
-import { getBudgetInterval, calculateGoalBucketCost, formatMoney, getEffectiveBucketData, getEffectiveBudgetGroupData, getEffectiveSubCategoryBudget } from '../utils';
+import { formatMoney } from '../utils';
 import { cn, Card, Modal, Button } from '../components/components';
-import { Wallet, ArrowRightLeft, PieChart, Check, AlertTriangle, CalendarRange, ArrowRight, ChevronRight, X, Receipt } from 'lucide-react';
+import { Wallet, ArrowRightLeft, PieChart, Check, AlertTriangle, CalendarRange, ArrowRight, ChevronRight, X, Receipt, Landmark } from 'lucide-react';
 import { useBudgetActuals } from '../hooks/useBudgetActuals';
 import { BudgetProgressBar } from '../components/BudgetProgressBar';
 import { BudgetPlanningView } from './BudgetPlanningView';
 import { SubCategory, Bucket, Account, Transaction } from '../types';
-import { eachDayOfInterval, getDay } from 'date-fns';
 import { EmojiPickerModal } from '../components/EmojiPicker';
+import { calculateAccountNeeds, NeedItem } from '../services/accountNeeds';
+import { CashFlowForecastPanel } from '../components/CashFlowForecastPanel';
+import { DebtOverviewView } from './DebtOverviewView';
 
 export const BudgetView: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'income' | 'transfers' | 'operating' | 'planning'>('operating');
+  const [activeTab, setActiveTab] = useState<'income' | 'transfers' | 'operating' | 'planning' | 'debts'>('operating');
 
   return (
     <div className="space-y-6 pb-24 animate-in slide-in-from-right duration-300">
@@ -67,6 +69,16 @@ export const BudgetView: React.FC = () => {
                   <CalendarRange size={16} />
                   Planering
               </button>
+              <button 
+                onClick={() => setActiveTab('debts')}
+                className={cn(
+                    "flex-1 py-3 px-4 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all whitespace-nowrap",
+                    activeTab === 'debts' ? "bg-rose-600 text-white shadow-md" : "text-slate-400 hover:text-white hover:bg-slate-700"
+                )}
+              >
+                  <Landmark size={16} />
+                  Skulder
+              </button>
           </div>
       </div>
 
@@ -78,6 +90,8 @@ export const BudgetView: React.FC = () => {
               <TransfersViewContent />
           ) : activeTab === 'planning' ? (
               <BudgetPlanningView />
+          ) : activeTab === 'debts' ? (
+              <DebtOverviewView />
           ) : (
               <OperatingBudgetView />
           )}
@@ -86,16 +100,6 @@ export const BudgetView: React.FC = () => {
   );
 };
 
-// Internal type for drill-down items
-type NeedItem = {
-    id: string;
-    type: 'SUB' | 'BUCKET' | 'BUFFER';
-    name: string;
-    categoryLabel: string; // e.g. "Boende > Hyra" or "Fast Post"
-    amount: number;
-    originalObj: SubCategory | Bucket | null; // Null for Buffer
-};
-
 const TransfersViewContent: React.FC = () => {
   const { accounts, buckets, budgetGroups, subCategories, mainCategories, selectedMonth, settings, budgetTemplates, monthConfigs, updateSubCategory, updateBucket, updateAccount } = useApp();
   
@@ -109,148 +113,10 @@ const TransfersViewContent: React.FC = () => {
   const [iconPickerTarget, setIconPickerTarget] = useState<Account | null>(null);
 
   // --- CALCULATE NEED PER ACCOUNT ---
-  const { accountNeeds, unallocatedNeeds, detailedNeeds, unallocatedItems } = useMemo(() => {
-      const needs: Record<string, number> = {};
-      const details: Record<string, NeedItem[]> = {};
-      let unallocatedSum = 0;
-      const unallocatedList: NeedItem[] = [];
-      const processedBucketIds = new Set<string>(); // Prevent double counting of buckets
-
-      // Helper to add to details
-      const addDetail = (accId: string | undefined, item: NeedItem) => {
-          if (accId) {
-              if (!details[accId]) details[accId] = [];
-              details[accId].push(item);
-          } else {
-              unallocatedList.push(item);
-          }
-      };
-
-      // Iterate ONLY over Budget Groups (The "Drift" structure).
-      budgetGroups.forEach(group => {
-          
-          // 1. Calculate needs from Subcategories
-          // Subcategories have a 1:1 relationship with groups via budgetGroupId, so no double counting risk here.
-          const groupSubs = subCategories.filter(s => s.budgetGroupId === group.id);
-          let sumSubBudgets = 0;
-
-          groupSubs.forEach(sub => {
-              const budget = getEffectiveSubCategoryBudget(sub, selectedMonth, budgetTemplates, monthConfigs);
-              if (budget > 0) {
-                  sumSubBudgets += budget;
-                  // Priority: Sub Account -> Group Default Account -> Unallocated
-                  const targetAcc = sub.accountId || group.defaultAccountId;
-                  
-                  if (targetAcc) {
-                      needs[targetAcc] = (needs[targetAcc] || 0) + budget;
-                  } else {
-                      unallocatedSum += budget;
-                  }
-
-                  const mainCatName = mainCategories.find(m => m.id === sub.mainCategoryId)?.name || 'Okänd';
-                  addDetail(targetAcc, {
-                      id: sub.id,
-                      type: 'SUB',
-                      name: sub.name,
-                      categoryLabel: `${mainCatName} / ${group.name}`,
-                      amount: budget,
-                      originalObj: sub
-                  });
-              }
-          });
-
-          // Handle "Manual Group Limit" / Buffer
-          const { data: explicitData } = getEffectiveBudgetGroupData(group, selectedMonth, budgetTemplates, monthConfigs);
-          const groupTotalLimit = explicitData ? explicitData.limit : 0;
-          
-          if (groupTotalLimit > sumSubBudgets) {
-              const buffer = groupTotalLimit - sumSubBudgets;
-              if (group.defaultAccountId) {
-                  needs[group.defaultAccountId] = (needs[group.defaultAccountId] || 0) + buffer;
-              } else {
-                  unallocatedSum += buffer;
-              }
-              addDetail(group.defaultAccountId, {
-                  id: `buffer-${group.id}`,
-                  type: 'BUFFER',
-                  name: 'Buffert / Ospecificerat',
-                  categoryLabel: group.name,
-                  amount: buffer,
-                  originalObj: null
-              });
-          }
-
-          // 2. Linked Buckets (Fixed costs/Goals linked to this group)
-          const groupBuckets = buckets.filter(b => {
-              // Strict Check: Only process if it belongs to this group.
-              // If bucket has an explicit budgetGroupId, it MUST match.
-              if (b.budgetGroupId) {
-                  return b.budgetGroupId === group.id;
-              }
-              // Legacy Fallback: If bucket has NO group ID, check the group's legacy linked list
-              return group.linkedBucketIds && group.linkedBucketIds.includes(b.id);
-          });
-
-          groupBuckets.forEach(bucket => {
-              if (processedBucketIds.has(bucket.id)) return; // Already processed by another group (prioritized)
-
-              let cost = 0;
-              if (bucket.type === 'GOAL' && bucket.paymentSource === 'BALANCE') {
-                  cost = 0; 
-              } else {
-                  if (bucket.type === 'FIXED') {
-                      const { data } = getEffectiveBucketData(bucket, selectedMonth, budgetTemplates, monthConfigs);
-                      cost = data ? data.amount : 0;
-                  }
-                  else if (bucket.type === 'DAILY') {
-                      // Calculate accurately using active template/overrides
-                      const { data } = getEffectiveBucketData(bucket, selectedMonth, budgetTemplates, monthConfigs);
-                      if (data) {
-                          const { start, end } = getBudgetInterval(selectedMonth, settings.payday);
-                          const days = eachDayOfInterval({ start, end });
-                          let count = 0;
-                          days.forEach(day => {
-                              if (data.activeDays.includes(getDay(day))) count++;
-                          });
-                          cost = count * data.dailyAmount;
-                      }
-                  }
-                  else if (bucket.type === 'GOAL') {
-                      cost = calculateGoalBucketCost(bucket, selectedMonth);
-                  }
-              }
-
-              if (cost > 0) {
-                  // PRIORITY: Bucket Specific Account -> Group Default Account -> Unallocated
-                  const targetAcc = bucket.accountId || group.defaultAccountId;
-                  
-                  if (targetAcc) {
-                      needs[targetAcc] = (needs[targetAcc] || 0) + cost;
-                  } else {
-                      unallocatedSum += cost;
-                  }
-
-                  let typeLabel = bucket.type === 'FIXED' ? 'Fast Post' : (bucket.type === 'DAILY' ? 'Rörlig Post' : 'Mål');
-                  addDetail(targetAcc, {
-                      id: bucket.id,
-                      type: 'BUCKET',
-                      name: bucket.name,
-                      categoryLabel: `${typeLabel} (${group.name})`,
-                      amount: cost,
-                      originalObj: bucket
-                  });
-              }
-              processedBucketIds.add(bucket.id);
-          });
-      });
-
-      return { 
-          accountNeeds: needs, 
-          unallocatedNeeds: unallocatedSum, 
-          detailedNeeds: details,
-          unallocatedItems: unallocatedList
-      };
-  }, [budgetGroups, subCategories, buckets, selectedMonth, settings.payday, budgetTemplates, monthConfigs, mainCategories]);
+  const { accountNeeds, unallocatedNeeds, detailedNeeds, unallocatedItems } = useMemo(
+      () => calculateAccountNeeds(selectedMonth, { buckets, budgetGroups, subCategories, mainCategories, budgetTemplates, monthConfigs, payday: settings.payday }),
+      [budgetGroups, subCategories, buckets, selectedMonth, settings.payday, budgetTemplates, monthConfigs, mainCategories]
+  );
 
   const handleOpenDetail = (accountId: string, name: string) => {
       const items = accountId === 'UNALLOCATED' ? unallocatedItems : detailedNeeds[accountId] || [];
@@ -391,6 +257,8 @@ const TransfersViewContent: React.FC = () => {
           )}
       </div>
 
+      <CashFlowForecastPanel />
+
       <EmojiPickerModal 
         isOpen={!!iconPickerTarget} 
         onClose={() => setIconPickerTarget(null)} 
@@ -14,12 +14,17 @@ import {
   getEffectiveAmount, 
   getBudgetInterval, 
   getEffectiveBucketData, 
-  isBucketActiveInMonth 
+  isBucketActiveInMonth,
+  expandSplitTransactions
 } from '../utils';
 import { Card, cn, Modal, Button } from '../components/components';
-import { ArrowDown, Sliders, Landmark, Calculator, PiggyBank, LayoutGrid, BarChart3, Receipt, ChevronRight, Info } from 'lucide-react';
+import { ArrowDown, Landmark, Calculator, PiggyBank, LayoutGrid, BarChart3, Receipt, ChevronRight, Info, Gem } from 'lucide-react';
 import { StatsView } from './StatsView';
-import { format, parseISO, isBefore, isValid, isAfter, eachDayOfInterval, getDay, startOfDay, addDays } from 'date-fns';
+import { NetWorthView } from './NetWorthView';
+import { ScenarioSimulator } from '../components/ScenarioSimulator';
+import { calculateBudgetFlow } from '../services/budgetFlow';
+import { projectScenario } from '../services/scenarioService';
+import { format, parseISO, isBefore, isValid, isAfter, eachDayOfInterval, getDay, startOfDay, addDays, differenceInCalendarMonths } from 'date-fns';
 
 // Simple SVG Gauge Component
 const SavingsGauge = ({ percentage }: { percentage: number }) => {
@@ -60,8 +65,9 @@ const SavingsGauge = ({ percentage }: { percentage: number }) => {
 };
 
 const WaterfallOverview: React.FC = () => {
-  const { users, buckets, selectedMonth, settings, budgetGroups, subCategories, budgetTemplates, monthConfigs, transactions, accounts } = useApp();
-  const [scenarioAdjustment, setScenarioAdjustment] = useState(0);
+  const { users, buckets, selectedMonth, settings, budgetGroups, subCategories, budgetTemplates, monthConfigs, transactions: storedTransactions, accounts, scenarios } = useApp();
+  const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
   const [drillDown, setDrillDown] = useState<{ title: string, items: { name: string, amount: number, type: string }[], total: number } | null>(null);
 
   const reimbursementMap = useMemo(() => calculateReimbursementMap(transactions), [transactions]);
@@ -72,122 +78,39 @@ const WaterfallOverview: React.FC = () => {
   [users, selectedMonth]);
 
   // 2. Calculate BUDGETED Outflow
-  const budgetFlow = useMemo(() => {
-    let consumption = 0;
-    let savings = 0;
-    
-    const consumptionItems: { name: string, amount: number, type: string }[] = [];
-    const savingsItems: { name: string, amount: number, type: string }[] = [];
-
-    const { start, end } = getBudgetInterval(selectedMonth, settings.payday);
-
-    const classifyAndAdd = (amount: number, name: string, type: string, isGroupSavings: boolean, isItemSavings: boolean) => {
-        if (amount <= 0) return;
-        if (isGroupSavings || isItemSavings) {
-            savings += amount;
-            savingsItems.push({ name, amount, type });
-        } else {
-            consumption += amount;
-            consumptionItems.push({ name, amount, type });
-        }
-    };
-
-    const assignedBucketIds = new Set<string>();
-    const groupToBuckets = new Map<string, string[]>();
-
-    budgetGroups.forEach(g => groupToBuckets.set(g.id, []));
-    buckets.forEach(b => {
-        if (b.budgetGroupId) {
-            const list = groupToBuckets.get(b.budgetGroupId);
-            if (list) {
-                list.push(b.id);
-                assignedBucketIds.add(b.id);
-            }
-        }
-    });
-
-    budgetGroups.forEach(group => {
-        if (group.linkedBucketIds) {
-            group.linkedBucketIds.forEach(bid => {
-                if (!assignedBucketIds.has(bid)) {
-                    groupToBuckets.get(group.id)?.push(bid);
-                    assignedBucketIds.add(bid);
-                }
-            });
-        }
-    });
-
-    const catchAllGroup = budgetGroups.find(g => g.isCatchAll);
-    if (catchAllGroup) {
-        buckets.forEach(b => {
-            if (!assignedBucketIds.has(b.id)) {
-                groupToBuckets.get(catchAllGroup.id)?.push(b.id);
-            }
-        });
-    }
-
-    budgetGroups.forEach(group => {
-        const { data: explicitData } = getEffectiveBudgetGroupData(group, selectedMonth, budgetTemplates, monthConfigs);
-        const manualLimit = explicitData && !explicitData.isExplicitlyDeleted ? explicitData.limit : 0;
-        const isGroupSavings = group.forecastType === 'SAVINGS';
-
-        let groupChildrenSum = 0;
-
-        const groupSubs = subCategories.filter(s => s.budgetGroupId === group.id);
-        groupSubs.forEach(sub => {
-            const subBudget = getEffectiveSubCategoryBudget(sub, selectedMonth, budgetTemplates, monthConfigs);
-            if (subBudget > 0) {
-                groupChildrenSum += subBudget;
-                classifyAndAdd(subBudget, sub.name, 'SUB', isGroupSavings, !!sub.isSavings);
-            }
-        });
-
-        const groupBucketIds = groupToBuckets.get(group.id) || [];
-        buckets.filter(b => groupBucketIds.includes(b.id)).forEach(b => {
-            let cost = 0;
-
-            if (b.type === 'FIXED') {
-                const { data } = getEffectiveBucketData(b, selectedMonth, budgetTemplates, monthConfigs);
-                cost = data ? data.amount : 0;
-            } else if (b.type === 'DAILY') {
-                const { data } = getEffectiveBucketData(b, selectedMonth, budgetTemplates, monthConfigs);
-                if (data) {
-                    const days = eachDayOfInterval({ start, end });
-                    const count = days.filter(day => data.activeDays.includes(getDay(day))).length;
-                    cost = count * data.dailyAmount;
-                }
-            } else if (b.type === 'GOAL') {
-                if (b.paymentSource === 'INCOME') {
-                    cost = calculateGoalBucketCost(b, selectedMonth);
-                }
-            }
-
-            if (cost > 0) {
-                groupChildrenSum += cost;
-                classifyAndAdd(cost, b.name, 'BUCKET', isGroupSavings, !!b.isSavings);
-            }
-        });
-
-        const unallocated = Math.max(0, manualLimit - groupChildrenSum);
-        if (unallocated > 0) {
-            classifyAndAdd(unallocated, `Buffert: ${group.name}`, 'BUFFER', isGroupSavings, false);
-        }
-    });
-
-    return { 
-        consumptionExpenses: consumption, 
-        savingsExpenses: savings, 
-        consumptionItems: consumptionItems.sort((a,b) => b.amount - a.amount),
-        savingsItems: savingsItems.sort((a,b) => b.amount - a.amount)
-    };
-  }, [buckets, budgetGroups, subCategories, selectedMonth, settings.payday, budgetTemplates, monthConfigs]);
+  const budgetFlow = useMemo(() => calculateBudgetFlow(selectedMonth, { buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, payday: settings.payday }),
+  [buckets, budgetGroups, subCategories, selectedMonth, settings.payday, budgetTemplates, monthConfigs]);
 
   const { consumptionExpenses, savingsExpenses, consumptionItems, savingsItems } = budgetFlow;
 
-  const effectiveConsumption = consumptionExpenses + scenarioAdjustment;
-  const surplus = totalActualIncome - (effectiveConsumption + savingsExpenses);
-  const resultBeforeSavings = totalActualIncome - effectiveConsumption;
-  const savingsRate = totalActualIncome > 0 ? (savingsExpenses / totalActualIncome) * 100 : 0;
+  // The active scenario's effect on this month, from its start so loans have the right balance
+  const scenarioDelta = useMemo(() => {
+    const scenario = scenarios.find(s => s.id === activeScenarioId);
+    if (!scenario || selectedMonth < scenario.startMonth) return { income: 0, consumption: 0, savings: 0, name: scenario?.name };
+    const context = { users, buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, payday: settings.payday };
+    const months = differenceInCalendarMonths(parseISO(`${selectedMonth}-01`), parseISO(`${scenario.startMonth}-01`)) + 1;
+    const withScenario = projectScenario({ ...scenario, horizonMonths: months }, context)[months - 1];
+    const [without] = projectScenario({ startMonth: selectedMonth, horizonMonths: 1, changes: [] }, context);
+    return {
+        income: withScenario.income - without.income,
+        consumption: withScenario.consumption - without.consumption,
+        savings: withScenario.savings - without.savings,
+        name: scenario.name
+    };
+  }, [scenarios, activeScenarioId, selectedMonth, users, buckets, budgetGroups, subCategories, budgetTemplates, monthConfigs, settings.payday]);
+
+  const effectiveIncome = totalActualIncome + scenarioDelta.income;
+  const effectiveConsumption = consumptionExpenses + scenarioDelta.consumption;
+  const effectiveSavings = savingsExpenses + scenarioDelta.savings;
+  const surplus = effectiveIncome - (effectiveConsumption + effectiveSavings);
+  const resultBeforeSavings = effectiveIncome - effectiveConsumption;
+  const savingsRate = effectiveIncome > 0 ? (effectiveSavings / effectiveIncome) * 100 : 0;
+
+  const renderScenarioBadge = (delta: number, className: string) => Math.round(delta) !== 0 && (
+    <div className={cn("mt-2 text-xs bg-black/20 rounded px-2 py-1 inline-block", className)}>
+        {scenarioDelta.name}: {delta > 0 ? '+' : ''}{formatMoney(delta)}
+    </div>
+  );
 
   const { distribution } = useMemo(() => {
     const userCalculations = users.map(user => {
@@ -262,8 +185,9 @@ const WaterfallOverview: React.FC = () => {
             <div className="flex justify-between items-center relative z-10">
                 <div>
                     <div className="text-xs text-emerald-200 uppercase font-bold tracking-wider mb-1">Total Inkomst</div>
-                    <div className="text-3xl font-bold font-mono">{formatMoney(totalActualIncome)}</div>
+                    <div className="text-3xl font-bold font-mono">{formatMoney(effectiveIncome)}</div>
                     <div className="text-sm opacity-80 mt-1">Lön + Bidrag + Ersättningar</div>
+                    {renderScenarioBadge(scenarioDelta.income, "text-emerald-100")}
                 </div>
                 <div className="bg-emerald-800/50 rounded-xl p-2 backdrop-blur-sm border border-emerald-500/30">
                     <SavingsGauge percentage={savingsRate} />
@@ -287,11 +211,7 @@ const WaterfallOverview: React.FC = () => {
                 </div>
                 <span className="font-bold font-mono text-xl">-{formatMoney(effectiveConsumption)}</span>
             </div>
-            {scenarioAdjustment !== 0 && (
-                <div className="mt-2 text-xs bg-black/20 rounded px-2 py-1 text-rose-200 inline-block">
-                    Scenario: {scenarioAdjustment > 0 ? '+' : ''}{formatMoney(scenarioAdjustment)}
-                </div>
-            )}
+            {renderScenarioBadge(scenarioDelta.consumption, "text-rose-200")}
              <div className="absolute left-1/2 -bottom-4 w-0.5 h-4 bg-rose-600/50"></div>
         </div>
 
@@ -320,11 +240,12 @@ const WaterfallOverview: React.FC = () => {
                         Investeringar & Sparande <ChevronRight size={14} className="opacity-50 group-hover:opacity-100 group-hover:translate-x-0.5 transition-all" />
                     </span>
                  </div>
-                 <span className="font-bold font-mono text-xl">-{formatMoney(savingsExpenses)}</span>
+                 <span className="font-bold font-mono text-xl">-{formatMoney(effectiveSavings)}</span>
              </div>
              <div className="text-xs text-blue-200 max-w-[70%]">
                  Budgeterad avsättning från lön till sparande och mål.
              </div>
+             {renderScenarioBadge(scenarioDelta.savings, "text-blue-100")}
              <div className="absolute left-1/2 -bottom-4 w-0.5 h-4 bg-indigo-600/50"></div>
         </div>
 
@@ -388,28 +309,7 @@ const WaterfallOverview: React.FC = () => {
       </div>
 
       {/* SCENARIO PLAYGROUND */}
-      <div className="bg-surface border border-slate-700 p-6 rounded-2xl space-y-4">
-        <div className="flex items-center gap-2 text-amber-400 mb-2">
-            <Sliders className="w-5 h-5" />
-            <h3 className="font-bold">Scenario Simulator</h3>
-        </div>
-        <p className="text-sm text-slate-400">Vad händer om våra utgifter ökar?</p>
-        
-        <input 
-            type="range" 
-            min="0" 
-            max="10000" 
-            step="500"
-            value={scenarioAdjustment}
-            onChange={(e) => setScenarioAdjustment(Number(e.target.value))}
-            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
-        />
-        <div className="flex justify-between text-xs font-mono text-slate-500">
-            <span>0 kr</span>
-            <span className={cn(scenarioAdjustment > 0 ? "text-amber-400 font-bold" : "")}>+{formatMoney(scenarioAdjustment)} / mån</span>
-            <span>+10 000 kr</span>
-        </div>
-      </div>
+      <ScenarioSimulator activeScenarioId={activeScenarioId} onActivate={setActiveScenarioId} />
 
       {/* DRILL DOWN MODAL */}
       <Modal isOpen={!!drillDown} onClose={() => setDrillDown(null)} title={drillDown?.title || 'Detaljer'}>
@@ -450,7 +350,7 @@ const WaterfallOverview: React.FC = () => {
 };
 
 export const DashboardView: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'waterfall' | 'stats'>('stats');
+    const [activeTab, setActiveTab] = useState<'waterfall' | 'stats' | 'netWorth'>('stats');
 
     return (
         <div className="space-y-6 pb-24">
@@ -481,10 +381,20 @@ export const DashboardView: React.FC = () => {
                         <LayoutGrid size={16} />
                         Kassaflöde (Vattenfall)
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('netWorth')}
+                        className={cn(
+                            "flex-1 py-3 px-4 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all",
+                            activeTab === 'netWorth' ? "bg-emerald-600 text-white shadow-md" : "text-slate-400 hover:text-white hover:bg-slate-700"
+                        )}
+                    >
+                        <Gem size={16} />
+                        Förmögenhet
+                    </button>
                 </div>
             </div>
 
-            {activeTab === 'waterfall' ? <WaterfallOverview /> : <StatsView />}
+            {activeTab === 'waterfall' ? <WaterfallOverview /> : activeTab === 'netWorth' ? <NetWorthView /> : <StatsView />}
         </div>
     );
 };
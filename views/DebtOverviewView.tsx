@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store';
+import { formatMoney } from '../utils';
+import { cn } from '../components/components';
+import {
+    getRateAt, isLoanAccount, projectLoan, simulatePayoff, LOAN_KIND_LABELS, PAYOFF_STRATEGY_LABELS, PayoffStrategy
+} from '../services/loanService';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { Landmark, TrendingDown } from 'lucide-react';
+
+const STRATEGIES: PayoffStrategy[] = ['PLAN', 'SNOWBALL', 'AVALANCHE'];
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = { PLAN: '#64748b', SNOWBALL: '#3b82f6', AVALANCHE: '#10b981' };
+
+const formatMonth = (monthKey?: string) => monthKey ? format(parseISO(`${monthKey}-01`), 'MMM yyyy', { locale: sv }) : 'Aldrig';
+
+export const DebtOverviewView: React.FC = () => {
+    const { accounts, transactions } = useApp();
+    const [extraInput, setExtraInput] = useState('1000');
+    const extra = Number(extraInput.replace(',', '.')) || 0;
+
+    const loans = useMemo(() => accounts.filter(isLoanAccount), [accounts]);
+    const todayStr = format(new Date(), 'yyyy-MM-dd');
+    const yearStart = `${todayStr.slice(0, 4)}-01-01`;
+
+    const projections = useMemo(() => loans.map(loan => {
+        // Interest and amortization this year, from the split payments
+        const paidThisYear = { interest: 0, amortization: 0 };
+        transactions.forEach(t => {
+            if (t.date < yearStart) return;
+            (t.splits || []).forEach(line => {
+                if (line.loanAccountId !== loan.id) return;
+                if (line.loanPart === 'INTEREST') paidThisYear.interest += Math.abs(line.amount);
+                if (line.loanPart === 'AMORTIZATION') paidThisYear.amortization += Math.abs(line.amount);
+            });
+        });
+        return { account: loan, projection: projectLoan(loan, transactions), paidThisYear };
+    }), [loans, transactions, yearStart]);
+
+    const results = useMemo(() => STRATEGIES.map(strategy => simulatePayoff(loans, transactions, extra, strategy)), [loans, transactions, extra]);
+
+    const chartData = useMemo(() => {
+        const longest = results.reduce((max, r) => r.timeline.length > max.timeline.length ? r : max, results[0]);
+        return longest.timeline.map((point, i) => ({
+            name: formatMonth(point.monthKey),
+            ...Object.fromEntries(results.map(r => [r.strategy, Math.round(r.timeline[i]?.balance ?? 0)]))
+        }));
+    }, [results]);
+
+    if (loans.length === 0) {
+        return (
+            <div className="text-center py-16 text-slate-500">
+                <Landmark size={40} className="mx-auto mb-3 opacity-50" />
+                <p className="text-sm">Inga lån ännu.</p>
+                <p className="text-xs mt-1">Lägg till ett konto av typen Lån under Inställningar → Konton.</p>
+            </div>
+        );
+    }
+
+    const totalDebt = projections.reduce((sum, p) => sum + p.projection.balance, 0);
+    const monthlyPayment = projections.reduce((sum, p) => sum + p.projection.monthlyPayment, 0);
+    const plan = results[0];
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Total skuld</div>
+                    <div className="text-xl font-mono font-bold text-white">{formatMoney(totalDebt)}</div>
+                </div>
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Betalning/mån</div>
+                    <div className="text-xl font-mono font-bold text-white">{formatMoney(monthlyPayment)}</div>
+                </div>
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Kvarvarande ränta</div>
+                    <div className="text-xl font-mono font-bold text-rose-300">{formatMoney(plan.totalInterest)}</div>
+                </div>
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Skuldfri</div>
+                    <div className="text-xl font-bold text-emerald-400">{formatMonth(plan.debtFreeMonth)}</div>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                {projections.map(({ account, projection, paidThisYear }) => (
+                    <div key={account.id} className="bg-slate-800 rounded-xl border border-slate-700 p-4">
+                        <div className="flex justify-between items-start mb-3">
+                            <div className="flex items-center gap-2">
+                                <span className="text-xl">{account.icon}</span>
+                                <div>
+                                    <h4 className="font-bold text-white">{account.name}</h4>
+                                    <div className="text-[10px] text-slate-500 uppercase">
+                                        {LOAN_KIND_LABELS[account.loan.kind]} · {getRateAt(account.loan, todayStr).toLocaleString('sv-SE')} % · {account.loan.method === 'ANNUITY' ? 'Annuitet' : 'Rak amortering'}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="text-right">
+                                <div className="font-mono font-bold text-white">{formatMoney(projection.balance)}</div>
+                                {account.loan.principal > 0 && (
+                                    <div className="text-[10px] text-slate-500">av {formatMoney(account.loan.principal)}</div>
+                                )}
+                            </div>
+                        </div>
+                        {account.loan.principal > 0 && (
+                            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden mb-3">
+                                <div className="h-full bg-emerald-500" style={{ width: `${Math.min(100, Math.max(0, (1 - projection.balance / account.loan.principal) * 100))}%` }} />
+                            </div>
+                        )}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                            <div><span className="text-slate-500 block">Nästa betalning</span><span className="font-mono text-white">{formatMoney(projection.monthlyPayment)}</span></div>
+                            <div><span className="text-slate-500 block">Betalt</span><span className="text-white">{formatMonth(projection.payoffMonth)}</span></div>
+                            <div><span className="text-slate-500 block">Ränta kvar</span><span className="font-mono text-rose-300">{formatMoney(projection.totalInterest)}</span></div>
+                            <div><span className="text-slate-500 block">I år ränta / amortering</span><span className="font-mono text-white">{formatMoney(paidThisYear.interest)} / {formatMoney(paidThisYear.amortization)}</span></div>
+                        </div>
+                        {!account.loan.paymentBucketId && !account.loan.paymentSubCategoryId && (
+                            <p className="text-[10px] text-amber-400 mt-2">Koppla lånet till en budgetpost eller kategori så delas betalningarna upp automatiskt.</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-bold text-white flex items-center gap-2"><TrendingDown size={18} className="text-emerald-400" /> Avbetalningsstrategi</h3>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-2">
+                        Extra/mån
+                        <input
+                            type="number"
+                            className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono"
+                            value={extraInput}
+                            onChange={e => setExtraInput(e.target.value)}
+                        />
+                    </label>
+                </div>
+                <p className="text-xs text-slate-500">
+                    Snöboll och lavin betalar dagens månadsbelopp plus det extra. När ett lån är betalt går dess betalning vidare till nästa.
+                </p>
+
+                <div className="space-y-2">
+                    {results.map(result => (
+                        <div key={result.strategy} className={cn("flex justify-between items-center text-sm p-2 rounded-lg", result.strategy === 'PLAN' ? "bg-slate-900/40" : "bg-slate-900")}>
+                            <span className="text-slate-300 flex items-center gap-2">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STRATEGY_COLORS[result.strategy] }} />
+                                {PAYOFF_STRATEGY_LABELS[result.strategy]}
+                            </span>
+                            <div className="text-right">
+                                <div className="text-white">{formatMonth(result.debtFreeMonth)} · <span className="font-mono text-rose-300">{formatMoney(result.totalInterest)}</span></div>
+                                {result.strategy !== 'PLAN' && result.totalInterest < plan.totalInterest && (
+                                    <div className="text-[10px] text-emerald-400">Sparar {formatMoney(plan.totalInterest - result.totalInterest)} i ränta</div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {results.slice(1).map(result => (
+                    <div key={result.strategy} className="text-xs text-slate-400">
+                        <span className="font-bold text-slate-300">{PAYOFF_STRATEGY_LABELS[result.strategy]}:</span>{' '}
+                        {[...result.loans]
+                            .sort((a, b) => (a.payoffMonth || '9999').localeCompare(b.payoffMonth || '9999'))
+                            .map(l => `${accounts.find(a => a.id === l.accountId)?.name} ${formatMonth(l.payoffMonth)}`)
+                            .join(' → ')}
+                    </div>
+                ))}
+
+                <div className="h-56 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData} margin={{ top: 5, right: 0, left: -10, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} interval="preserveStartEnd" />
+                            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val) => `${Math.round(val / 1000)}k`} />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }}
+                                itemStyle={{ fontSize: '12px' }}
+                                formatter={(value: number) => formatMoney(value)}
+                                labelStyle={{ color: '#fff', fontWeight: 'bold' }}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '11px' }} />
+                            {STRATEGIES.map(strategy => (
+                                <Line key={strategy} type="monotone" dataKey={strategy} name={PAYOFF_STRATEGY_LABELS[strategy]} stroke={STRATEGY_COLORS[strategy]} dot={false} strokeWidth={2} />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        </div>
+    );
+};
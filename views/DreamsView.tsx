@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { useApp } from '../store';
-import { calculateSavedAmount, calculateGoalBucketCost, formatMoney, generateId, calculateReimbursementMap, getEffectiveAmount } from '../utils';
+import { calculateSavedAmount, calculateGoalBucketCost, formatMoney, generateId, calculateReimbursementMap, getEffectiveAmount, expandSplitTransactions } from '../utils';
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
 import { format, parseISO, isValid, addMonths, differenceInMonths } from 'date-fns';
 import { sv } from 'date-fns/locale';
@@ -125,7 +125,8 @@ const DreamCard: React.FC<DreamCardProps> = ({ goal, isArchived, selectedMonth,
 };
 
 export const DreamsView: React.FC<{ onNavigate?: (view: any) => void }> = ({ onNavigate }) => {
-    const { buckets, updateBucket, deleteBucket, archiveBucket, selectedMonth, addBucket, accounts, transactions, mainCategories, subCategories } = useApp();
+    const { buckets, updateBucket, deleteBucket, archiveBucket, selectedMonth, addBucket, accounts, transactions: storedTransactions, mainCategories, subCategories } = useApp();
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     const [showArchived, setShowArchived] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editingGoal, setEditingGoal] = useState<Bucket | null>(null);
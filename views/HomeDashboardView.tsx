@@ -3,6 +3,7 @@ import React, { useMemo, useState } from 'react';
 import { useApp } from '../store';
 import { useBudgetMonth } from '../hooks/useBudgetMonth';
 import { useSubscriptionDetection } from '../hooks/useSubscriptionDetection';
+import { useCashFlowForecast } from '../hooks/useCashFlowForecast';
 import { 
     formatMoney, 
     getEffectiveBudgetGroupData, 
@@ -14,7 +15,8 @@ import {
     getEffectiveBucketData,
     calculateGoalBucketCost,
     isBucketActiveInMonth,
-    getBudgetInterval
+    getBudgetInterval,
+    expandSplitTransactions
 } from '../utils';
 import { 
     differenceInDays, 
@@ -29,7 +31,8 @@ import {
     getDay,
     isValid,
     isSameMonth,
-    subYears
+    subYears,
+    subDays
 } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { cn, Modal, Button } from '../components/components';
@@ -60,15 +63,17 @@ import {
     BarChart3,
     AlertTriangle,
     Magnet,
-    History,
-    Layers
+    History
 } from 'lucide-react';
 import { BudgetProgressBar } from '../components/BudgetProgressBar';
+import { DuplicateReviewModal } from '../components/DuplicateReviewModal';
+import { findDuplicatePairs, DUPLICATE_DATE_WINDOW } from '../services/duplicateDetection';
+import { getMerchantName } from '../services/merchantService';
 
 export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> = ({ onNavigate }) => {
     const { 
         selectedMonth, 
-        transactions, 
+        transactions: storedTransactions, 
         budgetGroups, 
         buckets, 
         users, 
@@ -78,10 +83,14 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
         budgetTemplates,
         monthConfigs,
         mainCategories,
+        dismissedDuplicates,
+        merchants,
         accounts
     } = useApp();
     
     const { start, end, startStr, endStr, intervalLabel } = useBudgetMonth(selectedMonth);
+    // Budget figures count split lines, row-level checks (duplicates, review counts) use the stored rows
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     const reimbursementMap = useMemo(() => calculateReimbursementMap(transactions), [transactions]);
     
     const [isBudgetDrillDownOpen, setIsBudgetDrillDownOpen] = useState(false);
@@ -344,55 +353,38 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
         const currentTxs = transactions.filter(t => !t.isHidden && t.date >= startStr && t.date <= endStr);
         const expenseTxs = currentTxs.filter(t => t.type === 'EXPENSE' || (!t.type && t.amount < 0));
         
-        const cleanName = (desc: string) => {
-            let name = desc.trim();
-            // Remove common suffixes like "AB", "SE", date stamps etc.
-            name = name.replace(/\d{4}-\d{2}-\d{2}|\d{6}|AB|SE|Kortköp|Reserverat|Betalning|Månad/gi, '').trim();
-            // Take first few words for grouping
-            const parts = name.split(' ').filter(p => p.length > 2);
-            name = parts.slice(0, 2).join(' ');
-            return name || 'Övrigt';
-        };
-
-        // Potentials Duplicates (Same Day, Same Amount, Same Account, Same Text)
-        const duplicateGroups = new Map<string, import('../types').Transaction[]>();
-        currentTxs.forEach(t => {
-            const key = `${t.date}_${t.amount}_${t.accountId}_${t.description.trim().toLowerCase()}`;
-            if (!duplicateGroups.has(key)) duplicateGroups.set(key, []);
-            duplicateGroups.get(key)!.push(t);
-        });
-        const duplicateList = Array.from(duplicateGroups.values()).filter(group => group.length > 1);
-        const duplicateCount = duplicateList.length;
+        const merchantsById = new Map(merchants.map(m => [m.id, m]));
 
-        // Money Magnet & Habitual Animal (All expenses)
-        const merchantMap = new Map<string, { total: number, count: number }>();
+        // Money Magnet & Habitual Animal (All expenses), grouped per merchant
+        const merchantMap = new Map<string, { name: string, total: number, count: number }>();
         // Small Spends Map (Only individual transactions < 200)
-        const smallSpendsMap = new Map<string, { total: number, count: number }>();
+        const smallSpendsMap = new Map<string, { name: string, total: number, count: number }>();
         
         let smallSpendsTotal = 0;
 
         expenseTxs.forEach(t => {
             const eff = Math.abs(getEffectiveAmount(t, reimbursementMap));
             if (eff === 0) return;
-            const name = cleanName(t.description);
+            const key = t.merchantId || t.description.trim().toLowerCase();
+            const name = getMerchantName(t, merchantsById);
             
             // All-expense tracking
-            const current = merchantMap.get(name) || { total: 0, count: 0 };
-            merchantMap.set(name, { total: current.total + eff, count: current.count + 1 });
+            const current = merchantMap.get(key) || { name, total: 0, count: 0 };
+            merchantMap.set(key, { name, total: current.total + eff, count: current.count + 1 });
 
             // Small Spends tracking (If this specific purchase was < 200)
             if (eff < 200) {
                 smallSpendsTotal += eff;
-                const currentSmall = smallSpendsMap.get(name) || { total: 0, count: 0 };
-                smallSpendsMap.set(name, { total: currentSmall.total + eff, count: currentSmall.count + 1 });
+                const currentSmall = smallSpendsMap.get(key) || { name, total: 0, count: 0 };
+                smallSpendsMap.set(key, { name, total: currentSmall.total + eff, count: currentSmall.count + 1 });
             }
         });
 
         // 1. Small Spends List (Sorted by total amount of the small purchases)
-        const topSmallSpends = Array.from(smallSpendsMap.entries())
-            .sort((a, b) => b[1].total - a[1].total)
+        const topSmallSpends = Array.from(smallSpendsMap.values())
+            .sort((a, b) => b.total - a.total)
             .slice(0, 5)
-            .map(([name, data]) => ({ name, amount: data.total, count: data.count }));
+            .map(data => ({ name: data.name, amount: data.total, count: data.count }));
 
         // 2. Money Magnets (Top 5 largest INDIVIDUAL transactions)
         const topMoneyMagnets = expenseTxs
@@ -405,10 +397,10 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
             .slice(0, 5);
 
         // 3. Habitual Animals (Top 5 most frequent merchants)
-        const topHabitualAnimals = Array.from(merchantMap.entries())
-            .sort((a, b) => b[1].count - a[1].count)
+        const topHabitualAnimals = Array.from(merchantMap.values())
+            .sort((a, b) => b.count - a.count)
             .slice(0, 5)
-            .map(([name, data]) => ({ name, count: data.count, amount: data.total }));
+            .map(data => ({ name: data.name, count: data.count, amount: data.total }));
 
         // Year-over-Year comparison
         const lastYearMonth = format(subYears(parseISO(`${selectedMonth}-01`), 1), 'yyyy-MM');
@@ -454,8 +446,6 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
         }
 
         return { 
-            duplicateCount,
-            duplicateList,
             smallSpendsTotal,
             topSmallSpends,
             topMoneyMagnets,
@@ -465,10 +455,24 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
             hasLastYearData,
             categoryShiftMessage
         };
-    }, [transactions, startStr, endStr, reimbursementMap, budgetData.totalSpent, mainCategories, selectedMonth, settings.payday]);
-
-    const unverifiedCount = transactions.filter(t => !t.isVerified && !t.isHidden).length;
-    const unlinkedTransfersCount = transactions.filter(t => !t.isHidden && t.type === 'TRANSFER' && (!t.bucketId || t.bucketId === 'INTERNAL') && !t.linkedTransactionId && t.date >= startStr && t.date <= endStr).length;
+    }, [transactions, startStr, endStr, reimbursementMap, budgetData.totalSpent, mainCategories, selectedMonth, settings.payday, merchants]);
+
+    // Potential duplicates (same account and amount, similar text, dates close together).
+    // Look a few days before the period so a pair straddling the period start is still found.
+    const duplicatePairs = useMemo(() => {
+        const windowStart = format(subDays(parseISO(startStr), DUPLICATE_DATE_WINDOW), 'yyyy-MM-dd');
+        const candidates = storedTransactions.filter(t => !t.isHidden && t.date >= windowStart && t.date <= endStr);
+        const dismissed = new Set(dismissedDuplicates.map(d => d.id));
+        return findDuplicatePairs(candidates, dismissed).filter(p => p.b.date >= startStr);
+    }, [storedTransactions, startStr, endStr, dismissedDuplicates]);
+
+    // Accounts projected to drop below their floor before the next payday. Accounts without balance data
+    // only get the hint in the forecast panel.
+    const cashFlowForecast = useCashFlowForecast();
+    const lowBalanceWarnings = cashFlowForecast.accounts.filter(f => f.breachBeforePayday && f.balanceSource !== 'none');
+
+    const unverifiedCount = storedTransactions.filter(t => !t.isVerified && !t.isHidden).length;
+    const unlinkedTransfersCount = storedTransactions.filter(t => !t.isHidden && t.type === 'TRANSFER' && (!t.bucketId || t.bucketId === 'INTERNAL') && !t.linkedTransactionId && t.date >= startStr && t.date <= endStr).length;
     
     const nextDream = useMemo(() => {
         const activeGoals = buckets.filter(b => b.type === 'GOAL' && !b.archivedDate && b.targetAmount > 0);
@@ -526,17 +530,32 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
                 </div>
             </div>
 
-            {(unverifiedCount > 0 || unlinkedTransfersCount > 0 || analysisData.duplicateCount > 0) && (
+            {(unverifiedCount > 0 || unlinkedTransfersCount > 0 || duplicatePairs.length > 0 || lowBalanceWarnings.length > 0) && (
                 <div className="space-y-3">
                     <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1 flex items-center gap-2"><Zap size={12} className="text-yellow-400" /> Att Hantera</h3>
                     
-                    {analysisData.duplicateCount > 0 && (
+                    {duplicatePairs.length > 0 && (
                          <div onClick={() => setIsDuplicatesModalOpen(true)} className="bg-slate-800 p-4 rounded-xl border-l-4 border-l-rose-500 border-y border-r border-slate-700 flex justify-between items-center cursor-pointer hover:bg-slate-750">
                             <div className="flex items-center gap-3">
                                 <div className="bg-rose-500/20 p-2 rounded-full text-rose-400"><AlertTriangle size={18} /></div>
                                 <div>
                                     <div className="font-bold text-white">Varning: Dubbeldragningar</div>
-                                    <div className="text-xs text-slate-400">{analysisData.duplicateCount} potentiella dubbelköp hittade idag.</div>
+                                    <div className="text-xs text-slate-400">{duplicatePairs.length} potentiella dubbelköp hittade i perioden.</div>
+                                </div>
+                            </div>
+                            <ChevronRight size={18} className="text-slate-500" />
+                        </div>
+                    )}
+
+                    {lowBalanceWarnings.length > 0 && (
+                        <div onClick={() => onNavigate('budget')} className="bg-slate-800 p-4 rounded-xl border-l-4 border-l-rose-500 border-y border-r border-slate-700 flex justify-between items-center cursor-pointer hover:bg-slate-750">
+                            <div className="flex items-center gap-3">
+                                <div className="bg-rose-500/20 p-2 rounded-full text-rose-400"><AlertTriangle size={18} /></div>
+                                <div>
+                                    <div className="font-bold text-white">Varning: Lågt saldo före lön</div>
+                                    <div className="text-xs text-slate-400">
+                                        {lowBalanceWarnings.map(w => `${accounts.find(a => a.id === w.accountId)?.name} ${format(parseISO(w.breach!.date), 'd/M')}`).join(', ')}. Se Budget → Flöde.
+                                    </div>
                                 </div>
                             </div>
                             <ChevronRight size={18} className="text-slate-500" />
@@ -716,49 +735,13 @@ export const HomeDashboardView: React.FC<{ onNavigate: (view: any) => void }> =
             )}
 
             {/* DUPLICATES MODAL */}
-            <Modal isOpen={isDuplicatesModalOpen} onClose={() => setIsDuplicatesModalOpen(false)} title="Potentiella Dubbeldragningar">
-                <div className="space-y-4">
-                    <div className="bg-rose-500/10 border border-rose-500/20 p-4 rounded-xl text-rose-300 text-xs flex gap-3 items-start">
-                        <AlertTriangle className="shrink-0 w-4 h-4" />
-                        <p>Dessa transaktioner delar exakt datum, belopp och konto. Kontrollera om din bank har debiterat dig två gånger av misstag.</p>
-                    </div>
-
-                    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1 no-scrollbar">
-                        {analysisData.duplicateList.map((group, groupIdx) => (
-                            <div key={groupIdx} className="bg-slate-900/50 rounded-xl border border-slate-700 overflow-hidden">
-                                <div className="bg-slate-800 px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
-                                    <Layers size={12}/> Grupp {groupIdx + 1}
-                                </div>
-                                <div className="divide-y divide-slate-700/50">
-                                    {group.map(tx => {
-                                        const account = accounts.find(a => a.id === tx.accountId);
-                                        return (
-                                            <div key={tx.id} className="p-3 flex justify-between items-center bg-slate-800/20">
-                                                <div className="min-w-0 pr-4">
-                                                    <div className="text-white font-medium text-sm truncate">{tx.description}</div>
-                                                    <div className="text-[10px] text-slate-500 flex items-center gap-2 mt-0.5">
-                                                        <span>{tx.date}</span>
-                                                        <span>•</span>
-                                                        <span>{account?.icon} {account?.name}</span>
-                                                    </div>
-                                                </div>
-                                                <div className="font-mono font-bold text-rose-400 whitespace-nowrap">
-                                                    {formatMoney(tx.amount)}
-                                                </div>
-                                            </div>
-                                        );
-                                    })}
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                    
-                    <div className="flex gap-2 pt-2 border-t border-slate-700">
-                        <Button variant="secondary" onClick={() => setIsDuplicatesModalOpen(false)} className="flex-1">Stäng</Button>
-                        <Button onClick={() => { setIsDuplicatesModalOpen(false); onNavigate('transactions'); }} className="flex-1 bg-blue-600">Gå till Import</Button>
-                    </div>
-                </div>
-            </Modal>
+            <DuplicateReviewModal
+                isOpen={isDuplicatesModalOpen}
+                onClose={() => setIsDuplicatesModalOpen(false)}
+                pairs={duplicatePairs}
+                title="Potentiella Dubbeldragningar"
+                footer={<Button onClick={() => { setIsDuplicatesModalOpen(false); onNavigate('transactions'); }} className="flex-1 bg-blue-600">Gå till Import</Button>}
+            />
 
             <Modal isOpen={isBudgetDrillDownOpen} onClose={() => setIsBudgetDrillDownOpen(false)} title="Beräkning: Kvar att använda">
                 <div className="space-y-6">
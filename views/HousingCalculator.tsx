@@ -1,10 +1,18 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useApp } from '../store';
-import { formatMoney, getEffectiveAmount, calculateReimbursementMap } from '../utils';
+import { formatMoney, getEffectiveAmount, calculateReimbursementMap, expandSplitTransactions } from '../utils';
 import { Input, Button, cn, Modal } from '../components/components';
-import { Home, Calculator, ArrowRight, TrendingUp, TrendingDown, DollarSign, RefreshCw, AlertTriangle, Settings, CheckSquare, Square, PieChart, Repeat, ChevronDown, ChevronRight, Search, Wallet } from 'lucide-react';
-import { subMonths, format, parseISO } from 'date-fns';
+import { Home, Calculator, ArrowRight, TrendingUp, TrendingDown, DollarSign, RefreshCw, AlertTriangle, Settings, CheckSquare, Square, PieChart, Repeat, ChevronDown, ChevronRight, Search, Wallet, Plus, Save, Trash2, X, Zap } from 'lucide-react';
+import { subMonths, addMonths, format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { HousingScenario, MortgageLoanPart } from '../types';
+import {
+    MORTGAGE_RULES, BINDING_PERIODS, MortgageMonth,
+    analyzeMortgage, buildAmortizationSchedule, runStressTests, getMortgageContext, estimateGrossAnnualIncome,
+    createHousingScenario, createLoanPart, rebalanceLoanParts
+} from '../services/mortgageService';
 
 // Helper to normalize descriptions (remove dates, digits at end, etc to group "Hyra Jan" and "Hyra Feb")
 const cleanDescription = (desc: string) => {
@@ -30,8 +38,19 @@ const parseDisplay = (val: string) => {
     return Number(clean);
 };
 
+// The calculator used to keep a single scenario in localStorage, it seeds the first one until that's saved
+const LEGACY_KEYS = ['housing_price', 'housing_downpayment', 'housing_fee', 'housing_operating', 'housing_interest'];
+
+const readLegacyInputs = (): Partial<HousingScenario> => {
+    const [price, downPayment, monthlyFee, operatingCost, interest] = LEGACY_KEYS.map(key => localStorage.getItem(key));
+    if (!price) return {};
+    const values = { price: Number(price), downPayment: Number(downPayment) || 0, monthlyFee: Number(monthlyFee) || 0, operatingCost: Number(operatingCost) || 0 };
+    return { ...values, loanParts: [createLoanPart(Math.max(0, values.price - values.downPayment), { annualRate: Number(interest) || 4 })] };
+};
+
 export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack }) => {
-    const { transactions, mainCategories, subCategories, budgetGroups } = useApp();
+    const { transactions: storedTransactions, mainCategories, subCategories, budgetGroups, users, housingScenarios, saveHousingScenario, deleteHousingScenario } = useApp();
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     
     // --- STATE ---
     const [currentCost, setCurrentCost] = useState(0); 
@@ -46,34 +65,20 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
     const [isSourceModalOpen, setIsSourceModalOpen] = useState(false);
     const [expandedGroupIds, setExpandedGroupIds] = useState<Set<string>>(new Set());
 
-    // --- HOUSING INPUTS (PERSISTED) ---
-    // We try to load from localStorage, otherwise defaults
-    const [price, setPrice] = useState(() => Number(localStorage.getItem('housing_price')) || 4000000);
-    const [downPayment, setDownPayment] = useState(() => {
-        const saved = localStorage.getItem('housing_downpayment');
-        return saved ? Number(saved) : 600000;
-    });
-    const [monthlyFee, setMonthlyFee] = useState(() => Number(localStorage.getItem('housing_fee')) || 3500);
-    const [operatingCost, setOperatingCost] = useState(() => Number(localStorage.getItem('housing_operating')) || 500);
-    const [interestRate, setInterestRate] = useState(() => Number(localStorage.getItem('housing_interest')) || 4.0);
-
-    // Calculated Results
-    const [loanAmount, setLoanAmount] = useState(0);
-    const [loanRatio, setLoanRatio] = useState(0);
-    const [interestCostNet, setInterestCostNet] = useState(0); 
-    const [amortization, setAmortization] = useState(0);
-    const [totalNewCost, setTotalNewCost] = useState(0);
+    // --- HOUSING SCENARIO ---
+    // The scenario being edited, saved scenarios live in IndexedDB under the active budget
+    const [draft, setDraft] = useState<HousingScenario>(() => createHousingScenario(format(addMonths(new Date(), 1), 'yyyy-MM'), readLegacyInputs()));
+    const [isDirty, setIsDirty] = useState(false);
+    const [expandedYear, setExpandedYear] = useState<number | null>(null);
+    const isSaved = housingScenarios.some(s => s.id === draft.id);
 
     const reimbursementMap = useMemo(() => calculateReimbursementMap(transactions), [transactions]);
 
-    // --- PERSISTENCE EFFECT ---
+    // Open the latest saved scenario once they've loaded, unless the user already started editing
     useEffect(() => {
-        localStorage.setItem('housing_price', price.toString());
-        localStorage.setItem('housing_downpayment', downPayment.toString());
-        localStorage.setItem('housing_fee', monthlyFee.toString());
-        localStorage.setItem('housing_operating', operatingCost.toString());
-        localStorage.setItem('housing_interest', interestRate.toString());
-    }, [price, downPayment, monthlyFee, operatingCost, interestRate]);
+        if (isDirty || isSaved || housingScenarios.length === 0) return;
+        setDraft([...housingScenarios].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]);
+    }, [housingScenarios]);
 
     // --- ANALYZE HISTORY FOR MODAL ---
     const historyData = useMemo(() => {
@@ -182,44 +187,86 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
     }, [transactions, mainCategories, subCategories, reimbursementMap, selectedMatchers]);
 
     // --- CALCULATION ENGINE ---
-    useEffect(() => {
-        // 1. Loan
-        const loan = Math.max(0, price - downPayment);
-        setLoanAmount(loan);
-
-        // 2. LTV (Belåningsgrad)
-        const ratio = price > 0 ? (loan / price) * 100 : 0;
-        setLoanRatio(ratio);
-
-        // 3. Interest (Net after 30% deduction)
-        const yearlyInterest = loan * (interestRate / 100);
-        const monthlyInterestBrutto = yearlyInterest / 12;
-        const taxDeduction = monthlyInterestBrutto * 0.30; 
-        setInterestCostNet(monthlyInterestBrutto - taxDeduction);
-
-        // 4. Amortization (Swedish Rules)
-        // >70% LTV = 2%, >50% LTV = 1%
-        let amortPercent = 0;
-        if (ratio > 70) amortPercent = 0.02;
-        else if (ratio > 50) amortPercent = 0.01;
-        
-        const yearlyAmort = loan * amortPercent;
-        setAmortization(yearlyAmort / 12);
-
-        // 5. Total Monthly Cost
-        setTotalNewCost((monthlyInterestBrutto - taxDeduction) + (yearlyAmort / 12) + monthlyFee + operatingCost);
-
-    }, [price, downPayment, monthlyFee, interestRate, operatingCost]);
+    const context = useMemo(() => getMortgageContext(draft, users), [draft, users]);
+    const analysis = useMemo(() => analyzeMortgage(draft, context), [draft, context]);
+    const stressTests = useMemo(() => runStressTests(draft, context), [draft, context]);
+    const schedule = useMemo(() => buildAmortizationSchedule(draft, context), [draft, context]);
+    const estimatedIncome = useMemo(() => estimateGrossAnnualIncome(users, draft.startMonth), [users, draft.startMonth]);
+
+    // Whole years of the schedule, the chart and the table show one row per year
+    const years = useMemo(() => {
+        const result: { year: number, label: string, interest: number, amortization: number, closingBalance: number, months: MortgageMonth[] }[] = [];
+        schedule.forEach(m => {
+            const year = Math.floor(m.index / 12);
+            if (!result[year]) result[year] = { year, label: format(parseISO(`${m.monthKey}-01`), 'yyyy'), interest: 0, amortization: 0, closingBalance: 0, months: [] };
+            result[year].interest += m.interest;
+            result[year].amortization += m.amortization;
+            result[year].closingBalance = m.closingBalance;
+            result[year].months.push(m);
+        });
+        return result;
+    }, [schedule]);
+
+    const update = (changes: Partial<HousingScenario>) => {
+        setDraft(prev => {
+            const next = { ...prev, ...changes };
+            // Price and down payment decide the loan, the last part absorbs the change
+            if (changes.price !== undefined || changes.downPayment !== undefined) {
+                next.loanParts = rebalanceLoanParts(next.loanParts, Math.max(0, next.price - next.downPayment));
+            }
+            return next;
+        });
+        setIsDirty(true);
+    };
+
+    const updatePart = (id: string, changes: Partial<MortgageLoanPart>) => {
+        update({ loanParts: draft.loanParts.map(p => p.id === id ? { ...p, ...changes } : p) });
+    };
 
+    const addPart = () => {
+        const remaining = Math.max(0, analysis.expectedLoan - analysis.loanAmount);
+        update({ loanParts: [...draft.loanParts, createLoanPart(remaining, { name: `Del ${draft.loanParts.length + 1}` })] });
+    };
+
+    const handleSave = async () => {
+        await saveHousingScenario(draft);
+        LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+        setIsDirty(false);
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Radera "${draft.name}"?`)) return;
+        await deleteHousingScenario(draft.id);
+        const next = housingScenarios.find(s => s.id !== draft.id);
+        setDraft(next || createHousingScenario(draft.startMonth));
+        setIsDirty(false);
+    };
+
+    const selectScenario = (scenario: HousingScenario) => {
+        if (isDirty && !confirm('Osparade ändringar går förlorade. Fortsätt?')) return;
+        setDraft(scenario);
+        setIsDirty(false);
+    };
+
+    const startNew = () => {
+        if (isDirty && !confirm('Osparade ändringar går förlorade. Fortsätt?')) return;
+        setDraft(createHousingScenario(format(addMonths(new Date(), 1), 'yyyy-MM')));
+        setIsDirty(true);
+    };
+
+    const first = analysis.firstMonth;
+    const interestCostNet = first ? first.interest - first.interestDeduction : 0;
+    const amortization = first?.amortization || 0;
+    const totalNewCost = first ? first.netCost : draft.monthlyFee + draft.operatingCost;
     const totalDiff = totalNewCost - currentCost;
-    const minDownPayment = price * 0.15;
-    const isDownPaymentLow = downPayment < minDownPayment;
+    const isDownPaymentLow = draft.downPayment < analysis.minDownPayment;
+    const partsMismatch = Math.round(analysis.loanAmount - analysis.expectedLoan);
     
     // Percentage for Slider
-    const downPaymentPercent = price > 0 ? Math.round((downPayment / price) * 100) : 0;
+    const downPaymentPercent = draft.price > 0 ? Math.round((draft.downPayment / draft.price) * 100) : 0;
 
     // Cost Excluding Amortization
-    const costExclAmort = interestCostNet + monthlyFee + operatingCost;
+    const costExclAmort = totalNewCost - amortization;
     const diffExclAmort = costExclAmort - currentCost;
 
     return (
@@ -234,6 +281,22 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                 </div>
             </header>
 
+            {/* SAVED SCENARIOS */}
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                {housingScenarios.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => selectScenario(s)}
+                        className={cn("px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap transition-all", s.id === draft.id ? "bg-orange-500 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}
+                    >
+                        {s.name}
+                    </button>
+                ))}
+                <button onClick={startNew} className="px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap bg-slate-800 text-slate-400 hover:text-white flex items-center gap-1">
+                    <Plus size={12} /> Nytt
+                </button>
+            </div>
+
             {/* COMPARISON CARD */}
             <div className="bg-slate-800 p-6 rounded-3xl border border-slate-700 shadow-xl relative overflow-hidden">
                 <div className="relative z-10 grid grid-cols-2 gap-8 text-center">
@@ -270,9 +333,41 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
 
             {/* SCENARIO INPUTS */}
             <div className="space-y-4">
-                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Scenario</h3>
+                <div className="flex items-center justify-between px-1">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Scenario</h3>
+                    <div className="flex gap-2">
+                        {isSaved && (
+                            <button onClick={handleDelete} className="p-1.5 text-slate-500 hover:text-rose-400"><Trash2 size={14} /></button>
+                        )}
+                        <Button onClick={handleSave} disabled={isSaved && !isDirty} className="text-xs py-1 px-3">
+                            <Save size={12} className="mr-1" /> {isSaved && !isDirty ? 'Sparat' : 'Spara'}
+                        </Button>
+                    </div>
+                </div>
                 
                 <div className="bg-slate-900/50 p-4 rounded-2xl border border-slate-700 space-y-5">
+
+                    {/* Name & Start */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2">
+                            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">Namn</label>
+                            <input
+                                type="text"
+                                value={draft.name}
+                                onChange={e => update({ name: e.target.value })}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full text-sm mt-1"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">Tillträde</label>
+                            <input
+                                type="month"
+                                value={draft.startMonth}
+                                onChange={e => e.target.value && update({ startMonth: e.target.value })}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl px-2 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full text-sm mt-1"
+                            />
+                        </div>
+                    </div>
                     
                     {/* Price */}
                     <div>
@@ -280,11 +375,8 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                         <input 
                             type="text"
                             inputMode="numeric"
-                            value={formatDisplay(price)}
-                            onChange={e => {
-                                const newPrice = parseDisplay(e.target.value);
-                                setPrice(newPrice);
-                            }}
+                            value={formatDisplay(draft.price)}
+                            onChange={e => update({ price: parseDisplay(e.target.value) })}
                             className="bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full text-lg font-mono placeholder:text-slate-600"
                         />
                     </div>
@@ -301,8 +393,8 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <input 
                                 type="text"
                                 inputMode="numeric"
-                                value={formatDisplay(downPayment)} 
-                                onChange={e => setDownPayment(parseDisplay(e.target.value))} 
+                                value={formatDisplay(draft.downPayment)} 
+                                onChange={e => update({ downPayment: parseDisplay(e.target.value) })} 
                                 className={cn(
                                     "bg-slate-900/50 border rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 w-full text-lg font-mono placeholder:text-slate-600 mb-2",
                                     isDownPaymentLow ? "border-rose-500/50 text-rose-200 focus:ring-rose-500" : "border-slate-700 focus:ring-blue-500"
@@ -310,7 +402,7 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             />
                             {isDownPaymentLow && (
                                 <div className="absolute -top-6 right-0 text-[10px] text-rose-400 flex items-center gap-1">
-                                    <AlertTriangle size={10} /> Minst {formatMoney(minDownPayment)}
+                                    <AlertTriangle size={10} /> Minst {formatMoney(analysis.minDownPayment)}
                                 </div>
                             )}
                         </div>
@@ -322,38 +414,13 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                                 type="range" 
                                 min="0" max="100" step="1"
                                 value={downPaymentPercent}
-                                onChange={(e) => {
-                                    const pct = Number(e.target.value);
-                                    setDownPayment(Math.round(price * (pct / 100)));
-                                }}
+                                onChange={(e) => update({ downPayment: Math.round(draft.price * (Number(e.target.value) / 100)) })}
                                 className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
                             />
                             <span className="text-[10px] text-slate-500 w-6 text-right">100%</span>
                         </div>
                     </div>
 
-                    {/* Interest Slider */}
-                    <div>
-                        <div className="flex justify-between items-center mb-2">
-                            <label className="text-xs font-bold text-slate-500 uppercase">Ränta (Stressa kalkylen)</label>
-                            <span className="text-orange-400 font-bold text-sm bg-orange-500/10 px-2 py-0.5 rounded">{interestRate.toFixed(2)}%</span>
-                        </div>
-                        <input 
-                            type="range" 
-                            min="1" max="10" step="0.1"
-                            value={interestRate}
-                            onChange={(e) => setInterestRate(Number(e.target.value))}
-                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
-                        />
-                        <div className="flex justify-between text-[10px] text-slate-600 mt-1 font-mono">
-                            <span>1%</span>
-                            <span>3%</span>
-                            <span>5%</span>
-                            <span>7%</span>
-                            <span>10%</span>
-                        </div>
-                    </div>
-
                     {/* Fees */}
                     <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -361,8 +428,8 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <input 
                                 type="text"
                                 inputMode="numeric"
-                                value={formatDisplay(monthlyFee)} 
-                                onChange={e => setMonthlyFee(parseDisplay(e.target.value))} 
+                                value={formatDisplay(draft.monthlyFee)} 
+                                onChange={e => update({ monthlyFee: parseDisplay(e.target.value) })} 
                                 className="bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full text-sm font-mono placeholder:text-slate-600 mt-1"
                             />
                         </div>
@@ -371,8 +438,8 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <input 
                                 type="text"
                                 inputMode="numeric"
-                                value={formatDisplay(operatingCost)} 
-                                onChange={e => setOperatingCost(parseDisplay(e.target.value))} 
+                                value={formatDisplay(draft.operatingCost)} 
+                                onChange={e => update({ operatingCost: parseDisplay(e.target.value) })} 
                                 className="bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full text-sm font-mono placeholder:text-slate-600 mt-1"
                             />
                         </div>
@@ -380,9 +447,141 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                 </div>
             </div>
 
+            {/* LOAN PARTS */}
+            <div className="space-y-3">
+                <div className="flex items-center justify-between px-1">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Lånedelar</h3>
+                    <button onClick={addPart} className="text-xs text-orange-400 hover:text-orange-300 flex items-center gap-1"><Plus size={12} /> Lägg till del</button>
+                </div>
+
+                <div className="bg-slate-900/50 p-3 rounded-2xl border border-slate-700 space-y-3">
+                    {draft.loanParts.map(part => (
+                        <div key={part.id} className="bg-slate-800 rounded-xl p-3 space-y-2">
+                            <div className="flex gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={part.name}
+                                    onChange={e => updatePart(part.id, { name: e.target.value })}
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+                                />
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={formatDisplay(part.amount)}
+                                    onChange={e => updatePart(part.id, { amount: parseDisplay(e.target.value) })}
+                                    className="w-32 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono text-right"
+                                />
+                                {draft.loanParts.length > 1 && (
+                                    <button onClick={() => update({ loanParts: draft.loanParts.filter(p => p.id !== part.id) })} className="text-slate-500 hover:text-rose-400"><X size={14} /></button>
+                                )}
+                            </div>
+                            <div className="flex gap-2 items-center text-xs">
+                                <select
+                                    value={part.rateType === 'VARIABLE' ? 0 : part.bindingMonths}
+                                    onChange={e => {
+                                        const months = Number(e.target.value);
+                                        updatePart(part.id, { rateType: months > 0 ? 'FIXED' : 'VARIABLE', bindingMonths: months });
+                                    }}
+                                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white"
+                                >
+                                    {BINDING_PERIODS.map(m => <option key={m} value={m}>{m === 0 ? 'Rörlig (3 mån)' : `Bunden ${m / 12} år`}</option>)}
+                                </select>
+                                <label className="flex items-center gap-1 text-slate-400">
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={part.annualRate}
+                                        onChange={e => updatePart(part.id, { annualRate: Number(e.target.value) })}
+                                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white font-mono"
+                                    />
+                                    %
+                                </label>
+                                {part.rateType === 'FIXED' && (
+                                    <label className="flex items-center gap-1 text-slate-500">
+                                        sedan
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            value={part.rateAfterBinding ?? part.annualRate}
+                                            onChange={e => updatePart(part.id, { rateAfterBinding: Number(e.target.value) })}
+                                            className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white font-mono"
+                                        />
+                                        %
+                                    </label>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    {partsMismatch !== 0 && (
+                        <div className="flex items-center justify-between text-xs text-amber-300 bg-amber-500/10 rounded-lg p-2">
+                            <span><AlertTriangle size={12} className="inline mr-1" />Delarna är {formatMoney(Math.abs(partsMismatch))} {partsMismatch > 0 ? 'mer' : 'mindre'} än lånet ({formatMoney(analysis.expectedLoan)}).</span>
+                            <button onClick={() => update({ loanParts: rebalanceLoanParts(draft.loanParts, analysis.expectedLoan) })} className="font-bold hover:text-white">Justera</button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* AMORTIZATION REQUIREMENT */}
+            <div className="space-y-3">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Amorteringskrav</h3>
+                <div className="bg-slate-900/50 p-4 rounded-2xl border border-slate-700 space-y-4">
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">Bruttoinkomst/år</label>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder={formatDisplay(Math.round(estimatedIncome))}
+                                value={draft.grossAnnualIncome !== undefined ? formatDisplay(draft.grossAnnualIncome) : ''}
+                                onChange={e => update({ grossAnnualIncome: e.target.value.trim() ? parseDisplay(e.target.value) : undefined })}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-white w-full text-xs font-mono placeholder:text-slate-500 mt-1"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">Andra lån</label>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={formatDisplay(draft.otherDebt)}
+                                onChange={e => update({ otherDebt: parseDisplay(e.target.value) })}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-white w-full text-xs font-mono mt-1"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">Extra amort./mån</label>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={formatDisplay(draft.extraAmortization)}
+                                onChange={e => update({ extraAmortization: parseDisplay(e.target.value) })}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-white w-full text-xs font-mono mt-1"
+                            />
+                        </div>
+                    </div>
+                    {draft.grossAnnualIncome === undefined && (
+                        <p className="text-[10px] text-slate-500">Inkomsten är uppskattad från hushållets nettolöner. Ange bruttoinkomsten för en exakt skuldkvot.</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-3 text-xs">
+                        <div className="bg-slate-800 rounded-xl p-3">
+                            <div className="text-[10px] text-slate-500 uppercase font-bold">Belåningsgrad</div>
+                            <div className="font-mono text-white text-lg">{(analysis.loanToValue * 100).toFixed(0)}%</div>
+                            <div className="text-slate-400">{(analysis.requirement.loanToValueRate * 100).toFixed(0)}% amortering/år</div>
+                        </div>
+                        <div className="bg-slate-800 rounded-xl p-3">
+                            <div className="text-[10px] text-slate-500 uppercase font-bold">Skuldkvot</div>
+                            <div className={cn("font-mono text-lg", analysis.requirement.debtToIncomeRate > 0 ? "text-amber-300" : "text-white")}>{analysis.debtToIncome.toFixed(1)}×</div>
+                            <div className="text-slate-400">
+                                {analysis.requirement.debtToIncomeRate > 0 ? `Över ${MORTGAGE_RULES.debtToIncomeLimit}×: +${(analysis.requirement.debtToIncomeRate * 100).toFixed(0)}%` : `Under ${MORTGAGE_RULES.debtToIncomeLimit}×, inget tillägg`}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
             {/* BREAKDOWN */}
             <div className="space-y-3">
-                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Kostnadsanalys (Månad)</h3>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Kostnadsanalys (Första månaden)</h3>
                 
                 <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden divide-y divide-slate-700/50">
                     <div className="p-3 flex justify-between items-center">
@@ -390,7 +589,9 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <div className="bg-blue-500/20 p-1.5 rounded text-blue-400"><DollarSign size={16}/></div>
                             <div>
                                 <span className="text-sm text-slate-300 block">Ränta (Netto)</span>
-                                <span className="text-[10px] text-slate-500">Efter 30% avdrag</span>
+                                <span className="text-[10px] text-slate-500">
+                                    {formatMoney(first?.interest || 0)} minus ränteavdrag {formatMoney(first?.interestDeduction || 0)}
+                                </span>
                             </div>
                         </div>
                         <span className="font-mono text-white">{formatMoney(interestCostNet)}</span>
@@ -402,7 +603,7 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <div>
                                 <span className="text-sm text-slate-300 block">Amortering</span>
                                 <span className="text-[10px] text-slate-500">
-                                    {loanRatio.toFixed(0)}% belåning ({loanRatio > 70 ? '2%' : (loanRatio > 50 ? '1%' : '0%')} krav)
+                                    {(analysis.requirement.rate * 100).toFixed(0)}% krav{draft.extraAmortization > 0 ? ` + ${formatMoney(draft.extraAmortization)} extra` : ''}
                                 </span>
                             </div>
                         </div>
@@ -414,7 +615,7 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                             <div className="bg-amber-500/20 p-1.5 rounded text-amber-400"><Home size={16}/></div>
                             <span className="text-sm text-slate-300">Avgift & Drift</span>
                         </div>
-                        <span className="font-mono text-white">{formatMoney(monthlyFee + operatingCost)}</span>
+                        <span className="font-mono text-white">{formatMoney(draft.monthlyFee + draft.operatingCost)}</span>
                     </div>
 
                     {/* NEW ROW: Cost Excluding Amortization */}
@@ -435,16 +636,105 @@ export const HousingCalculator: React.FC<{ onBack: () => void }> = ({ onBack })
                     </div>
                 </div>
                 
-                {loanRatio > 85 && (
+                {analysis.isAboveLoanCap && (
                     <div className="bg-rose-500/10 border border-rose-500/30 p-3 rounded-xl flex gap-3 items-start mt-2">
                         <TrendingUp className="text-rose-400 w-5 h-5 shrink-0 mt-0.5" />
                         <div className="text-xs text-rose-200">
-                            <strong>Högt lån!</strong> Belåningsgraden är {loanRatio.toFixed(1)}%. Bankerna lånar oftast bara ut upp till 85%. Ni behöver {formatMoney((loanAmount - (price * 0.85)))} till i kontantinsats.
+                            <strong>Högt lån!</strong> Belåningsgraden är {(analysis.loanToValue * 100).toFixed(1)}%. Bolånetaket är {MORTGAGE_RULES.maxLoanToValue * 100}%. Ni behöver {formatMoney(analysis.loanAmount - draft.price * MORTGAGE_RULES.maxLoanToValue)} till i kontantinsats.
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* STRESS TEST */}
+            <div className="space-y-3">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1 flex items-center gap-2"><Zap size={12} className="text-orange-400" /> Stresstest</h3>
+                <div className="bg-slate-800 rounded-xl border border-slate-700 p-3">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-slate-500 uppercase">
+                                <th className="text-left font-bold py-1">Ränta</th>
+                                <th className="text-right font-bold">Första året</th>
+                                <th className="text-right font-bold">Högsta (5 år)</th>
+                                <th className="text-right font-bold">Skillnad</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {stressTests.map(r => (
+                                <tr key={r.label} className="border-t border-slate-700/50">
+                                    <td className="py-1.5 text-slate-300">{r.label}</td>
+                                    <td className="text-right font-mono text-white">{formatMoney(r.firstYearMonthly)}</td>
+                                    <td className="text-right font-mono text-slate-400">{formatMoney(r.peakMonthly)}</td>
+                                    <td className={cn("text-right font-mono", r.difference > 0 ? "text-rose-400" : "text-slate-500")}>{r.difference > 0 ? '+' : ''}{formatMoney(r.difference)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-slate-500 mt-2">Höjningen slår på rörliga delar direkt och på bundna när bindningstiden löper ut. Kostnad per månad efter ränteavdrag, inklusive amortering, avgift och drift.</p>
+                </div>
+            </div>
+
+            {/* AMORTIZATION SCHEDULE */}
+            <div className="space-y-3">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider px-1">Amorteringsplan</h3>
+                <div className="bg-slate-800 rounded-xl border border-slate-700 p-3 space-y-3">
+                    <div className="text-xs text-slate-400 flex justify-between">
+                        <span>Total ränta: <span className="font-mono text-white">{formatMoney(analysis.totalInterest)}</span></span>
+                        <span>{analysis.payoffMonths ? `Betalt ${years[years.length - 1]?.label} (${Math.ceil(analysis.payoffMonths / 12)} år)` : `Ej avbetalt inom ${MORTGAGE_RULES.maxTermMonths / 12} år`}</span>
+                    </div>
+                    <div className="h-40 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <AreaChart data={years.map(y => ({ name: y.label, balance: Math.round(y.closingBalance) }))} margin={{ top: 5, right: 0, left: -10, bottom: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} interval="preserveStartEnd" />
+                                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val) => `${Math.round(val / 1000000 * 10) / 10}M`} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }}
+                                    itemStyle={{ fontSize: '12px' }}
+                                    formatter={(value: number) => formatMoney(value)}
+                                    labelStyle={{ color: '#fff', fontWeight: 'bold' }}
+                                />
+                                <Area type="monotone" dataKey="balance" name="Restskuld" stroke="#f97316" fill="#f97316" fillOpacity={0.15} />
+                            </AreaChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto">
+                        <table className="w-full text-xs">
+                            <thead className="sticky top-0 bg-slate-800">
+                                <tr className="text-[10px] text-slate-500 uppercase">
+                                    <th className="text-left font-bold py-1">År</th>
+                                    <th className="text-right font-bold">Ränta</th>
+                                    <th className="text-right font-bold">Amortering</th>
+                                    <th className="text-right font-bold">Restskuld</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {years.map(y => (
+                                    <React.Fragment key={y.year}>
+                                        <tr onClick={() => setExpandedYear(expandedYear === y.year ? null : y.year)} className="border-t border-slate-700/50 cursor-pointer hover:bg-slate-700/30">
+                                            <td className="py-1.5 text-slate-300 flex items-center gap-1">
+                                                {expandedYear === y.year ? <ChevronDown size={12} /> : <ChevronRight size={12} />} {y.label}
+                                            </td>
+                                            <td className="text-right font-mono text-slate-300">{formatMoney(y.interest)}</td>
+                                            <td className="text-right font-mono text-emerald-400">{formatMoney(y.amortization)}</td>
+                                            <td className="text-right font-mono text-white">{formatMoney(y.closingBalance)}</td>
+                                        </tr>
+                                        {expandedYear === y.year && y.months.map(m => (
+                                            <tr key={m.monthKey} className="text-slate-500">
+                                                <td className="py-1 pl-5">{format(parseISO(`${m.monthKey}-01`), 'MMM', { locale: sv })} <span className="text-[10px]">{m.parts.map(p => `${p.rate.toFixed(2)}%`).join(' / ')}</span></td>
+                                                <td className="text-right font-mono">{formatMoney(m.interest)}</td>
+                                                <td className="text-right font-mono">{formatMoney(m.amortization)}</td>
+                                                <td className="text-right font-mono">{formatMoney(m.closingBalance)}</td>
+                                            </tr>
+                                        ))}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
             {/* SOURCE SELECTION MODAL */}
             <Modal isOpen={isSourceModalOpen} onClose={() => setIsSourceModalOpen(false)} title="Välj kostnader">
                 <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
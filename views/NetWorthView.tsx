@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../store';
+import { AssetKind, ManualAsset } from '../types';
+import { formatMoney } from '../utils';
+import { Button, cn, Input, Modal } from '../components/components';
+import { ASSET_KIND_ICONS, ASSET_KIND_LABELS, buildNetWorthSeries, createManualAsset, getNetWorthSnapshot } from '../services/netWorthService';
+import { isLoanAccount } from '../services/loanService';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { Plus, Trash2, Pencil } from 'lucide-react';
+
+const SERIES_MONTHS = 24;
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-blue-500";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 block";
+const toNumber = (value: string) => Number(value.replace(',', '.')) || 0;
+const formatDate = (date: string) => format(parseISO(date), 'd MMM yyyy', { locale: sv });
+
+const Change: React.FC<{ label: string, value?: number }> = ({ label, value }) => {
+    if (value === undefined) return null;
+    return (
+        <div className="text-xs">
+            <span className="text-slate-500">{label} </span>
+            <span className={cn("font-mono font-bold", value >= 0 ? "text-emerald-400" : "text-rose-400")}>
+                {value >= 0 ? '+' : ''}{formatMoney(value)}
+            </span>
+        </div>
+    );
+};
+
+export const NetWorthView: React.FC = () => {
+    const { accounts, assets, transactions, buckets, budgetGroups, settings, saveAsset, deleteAsset } = useApp();
+    const [editingAsset, setEditingAsset] = useState<ManualAsset | null>(null);
+
+    const input = useMemo(() => ({ accounts, assets, transactions, buckets, budgetGroups, payday: settings.payday }),
+        [accounts, assets, transactions, buckets, budgetGroups, settings.payday]);
+    const todayStr = format(new Date(), 'yyyy-MM-dd');
+    const snapshot = useMemo(() => getNetWorthSnapshot(input, todayStr), [input, todayStr]);
+    const series = useMemo(() => buildNetWorthSeries(input, SERIES_MONTHS), [input]);
+
+    const chartData = series.map(p => ({
+        name: format(parseISO(`${p.monthKey}-01`), 'MMM yy', { locale: sv }),
+        netWorth: Math.round(p.netWorth),
+        assets: Math.round(p.cash + p.assets),
+        debt: Math.round(-p.debt)
+    }));
+    const previous = series.length > 1 ? series[series.length - 2] : undefined;
+    const yearAgo = series.length > 12 ? series[series.length - 13] : undefined;
+    const loanAccounts = accounts.filter(isLoanAccount);
+
+    const handleSave = async () => {
+        if (!editingAsset || !editingAsset.name) return;
+        await saveAsset({ ...editingAsset, valuations: editingAsset.valuations.filter(v => v.date) });
+        setEditingAsset(null);
+    };
+
+    const handleDelete = async (asset: ManualAsset) => {
+        if (confirm(`Ta bort ${asset.name} och dess värderingar?`)) {
+            await deleteAsset(asset.id);
+            setEditingAsset(null);
+        }
+    };
+
+    const updateValuation = (index: number, values: Partial<ManualAsset['valuations'][number]>) => {
+        if (!editingAsset) return;
+        setEditingAsset({ ...editingAsset, valuations: editingAsset.valuations.map((v, i) => i === index ? { ...v, ...values } : v) });
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in">
+            <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-2xl border border-slate-700 shadow-lg">
+                <div className="text-xs text-slate-400 uppercase font-bold tracking-wider">Nettoförmögenhet</div>
+                <div className={cn("text-4xl font-mono font-bold mt-1", snapshot.netWorth >= 0 ? "text-white" : "text-rose-400")}>{formatMoney(snapshot.netWorth)}</div>
+                <div className="flex gap-4 mt-2">
+                    <Change label="Senaste månaden" value={previous && snapshot.netWorth - previous.netWorth} />
+                    <Change label="Senaste året" value={yearAgo && snapshot.netWorth - yearAgo.netWorth} />
+                </div>
+                <div className="grid grid-cols-3 gap-3 mt-4 text-xs">
+                    <div><span className="text-slate-500 block">Konton</span><span className="font-mono text-white">{formatMoney(snapshot.cash)}</span></div>
+                    <div><span className="text-slate-500 block">Tillgångar</span><span className="font-mono text-white">{formatMoney(snapshot.assets)}</span></div>
+                    <div><span className="text-slate-500 block">Skulder</span><span className="font-mono text-rose-300">{formatMoney(-snapshot.debt)}</span></div>
+                </div>
+            </div>
+
+            {chartData.length > 1 && (
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={chartData} margin={{ top: 5, right: 0, left: -10, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} interval="preserveStartEnd" />
+                            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val) => `${Math.round(val / 1000)}k`} />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }}
+                                itemStyle={{ fontSize: '12px' }}
+                                formatter={(value: number) => formatMoney(value)}
+                                labelStyle={{ color: '#fff', fontWeight: 'bold' }}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '11px' }} />
+                            <Line type="monotone" dataKey="assets" name="Tillgångar" stroke="#10b981" dot={false} strokeWidth={1.5} />
+                            <Line type="monotone" dataKey="debt" name="Skulder" stroke="#f43f5e" dot={false} strokeWidth={1.5} />
+                            <Area type="monotone" dataKey="netWorth" name="Netto" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.2} strokeWidth={2} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <h3 className="font-bold text-sm text-slate-400 uppercase">Konton</h3>
+                {snapshot.accounts.map(line => {
+                    const account = accounts.find(a => a.id === line.accountId)!;
+                    return (
+                        <div key={line.accountId} className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                            <div className="flex justify-between items-center">
+                                <span className="text-sm text-white flex items-center gap-2"><span>{account.icon}</span>{account.name}</span>
+                                <span className="font-mono text-white text-sm">{formatMoney(line.balance)}</span>
+                            </div>
+                            {line.earmarked.length > 0 && (
+                                <div className="mt-2 pl-7 space-y-0.5">
+                                    {line.earmarked.map(goal => (
+                                        <div key={goal.bucketId} className="flex justify-between text-xs text-purple-300">
+                                            <span>varav {buckets.find(b => b.id === goal.bucketId)?.name}</span>
+                                            <span className="font-mono">{formatMoney(goal.amount)}</span>
+                                        </div>
+                                    ))}
+                                    <div className={cn("flex justify-between text-xs", line.free < 0 ? "text-rose-400" : "text-slate-500")}>
+                                        <span>{line.free < 0 ? 'Målen täcks inte av saldot' : 'Fritt'}</span>
+                                        <span className="font-mono">{formatMoney(line.free)}</span>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                <p className="text-[10px] text-slate-500">Sparade mål ingår redan i kontots saldo och räknas inte två gånger.</p>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                    <h3 className="font-bold text-sm text-slate-400 uppercase">Tillgångar</h3>
+                    <button onClick={() => setEditingAsset(createManualAsset())} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                        <Plus size={12} /> Lägg till
+                    </button>
+                </div>
+                {assets.length === 0 && <p className="text-xs text-slate-500">Lägg till bostad, bil, pension och annat som har ett värde.</p>}
+                {assets.map(asset => {
+                    const line = snapshot.assetLines.find(l => l.assetId === asset.id);
+                    return (
+                        <div key={asset.id} className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex justify-between items-center group cursor-pointer" onClick={() => setEditingAsset(asset)}>
+                            <div className="flex items-center gap-3">
+                                <div className="text-xl bg-slate-900 p-2 rounded">{asset.icon || ASSET_KIND_ICONS[asset.kind]}</div>
+                                <div>
+                                    <div className="font-bold text-white text-sm">{asset.name}</div>
+                                    <div className="text-[10px] text-slate-500">
+                                        {ASSET_KIND_LABELS[asset.kind]}
+                                        {line ? ` · värderad ${formatDate(line.valuationDate)}` : asset.soldDate ? ` · såld ${formatDate(asset.soldDate)}` : ' · ingen värdering'}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="text-right flex items-center gap-2">
+                                <div>
+                                    <div className="font-mono text-white text-sm">{formatMoney(line?.value || 0)}</div>
+                                    {line?.loanBalance !== undefined && (
+                                        <div className="text-[10px] text-slate-500">Eget kapital <span className="font-mono text-emerald-400">{formatMoney(line.value - line.loanBalance)}</span></div>
+                                    )}
+                                </div>
+                                <Pencil size={12} className="text-slate-600 opacity-0 group-hover:opacity-100" />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {snapshot.loans.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="font-bold text-sm text-slate-400 uppercase">Skulder</h3>
+                    {snapshot.loans.map(line => {
+                        const account = accounts.find(a => a.id === line.accountId)!;
+                        return (
+                            <div key={line.accountId} className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex justify-between items-center">
+                                <span className="text-sm text-white flex items-center gap-2"><span>{account.icon}</span>{account.name}</span>
+                                <span className="font-mono text-rose-300 text-sm">{formatMoney(-line.balance)}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <Modal isOpen={!!editingAsset} onClose={() => setEditingAsset(null)} title={editingAsset && assets.some(a => a.id === editingAsset.id) ? 'Redigera tillgång' : 'Ny tillgång'}>
+                {editingAsset && (
+                    <div className="space-y-4">
+                        <div>
+                            <label className={labelClass}>Typ</label>
+                            <select
+                                className={selectClass}
+                                value={editingAsset.kind}
+                                onChange={e => {
+                                    const kind = e.target.value as AssetKind;
+                                    const keepsName = editingAsset.name && editingAsset.name !== ASSET_KIND_LABELS[editingAsset.kind];
+                                    setEditingAsset({ ...editingAsset, kind, icon: ASSET_KIND_ICONS[kind], name: keepsName ? editingAsset.name : ASSET_KIND_LABELS[kind] });
+                                }}
+                            >
+                                {(Object.keys(ASSET_KIND_LABELS) as AssetKind[]).map(kind => <option key={kind} value={kind}>{ASSET_KIND_LABELS[kind]}</option>)}
+                            </select>
+                        </div>
+                        <Input label="Namn" value={editingAsset.name} onChange={e => setEditingAsset({ ...editingAsset, name: e.target.value })} />
+
+                        <div>
+                            <label className={labelClass}>Värderingar</label>
+                            <div className="space-y-2">
+                                {editingAsset.valuations.map((valuation, i) => (
+                                    <div key={i} className="flex gap-2 items-center">
+                                        <input type="date" className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white" value={valuation.date} onChange={e => updateValuation(i, { date: e.target.value })} />
+                                        <input type="number" className="w-32 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono" value={valuation.value || ''} onChange={e => updateValuation(i, { value: toNumber(e.target.value) })} />
+                                        <button
+                                            onClick={() => setEditingAsset({ ...editingAsset, valuations: editingAsset.valuations.filter((_, j) => j !== i) })}
+                                            className="text-slate-600 hover:text-rose-400 p-1"
+                                            title="Ta bort värdering"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                onClick={() => setEditingAsset({ ...editingAsset, valuations: [...editingAsset.valuations, { date: todayStr, value: editingAsset.valuations[editingAsset.valuations.length - 1]?.value || 0 }] })}
+                                className="mt-2 text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                            >
+                                <Plus size={12} /> Ny värdering
+                            </button>
+                        </div>
+
+                        {loanAccounts.length > 0 && (
+                            <div>
+                                <label className={labelClass}>Lån kopplat till tillgången</label>
+                                <select className={selectClass} value={editingAsset.linkedLoanAccountId || ''} onChange={e => setEditingAsset({ ...editingAsset, linkedLoanAccountId: e.target.value || undefined })}>
+                                    <option value="">Inget</option>
+                                    {loanAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                </select>
+                            </div>
+                        )}
+
+                        <Input label="Såld (valfritt)" type="date" value={editingAsset.soldDate || ''} onChange={e => setEditingAsset({ ...editingAsset, soldDate: e.target.value || undefined })} />
+
+                        <div className="flex gap-2">
+                            {assets.some(a => a.id === editingAsset.id) && (
+                                <Button variant="danger" onClick={() => handleDelete(editingAsset)}><Trash2 size={16} /></Button>
+                            )}
+                            <Button onClick={handleSave} className="flex-1">Spara</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
@@ -2,7 +2,7 @@
 import React, { useMemo, useState } from 'react';
 import { useApp } from '../store';
 import { useBudgetMonth } from '../hooks/useBudgetMonth';
-import { formatMoney, getEffectiveBudgetGroupData, getEffectiveSubCategoryBudget, calculateFixedBucketCost, calculateDailyBucketCost, calculateGoalBucketCost, calculateReimbursementMap, getEffectiveAmount, getSubCategoryAverage, generateId, getEffectiveBucketData, isBucketActiveInMonth, getBudgetInterval } from '../utils';
+import { formatMoney, getEffectiveBudgetGroupData, getEffectiveSubCategoryBudget, calculateFixedBucketCost, calculateDailyBucketCost, calculateGoalBucketCost, calculateReimbursementMap, getEffectiveAmount, getSubCategoryAverage, generateId, getEffectiveBucketData, isBucketActiveInMonth, getBudgetInterval, expandSplitTransactions } from '../utils';
 import { ChevronRight, ChevronDown, Check, AlertTriangle, PieChart, Edit2, Plus, Trash2, Settings, ArrowRightLeft, Rocket, Calendar, Plane, RefreshCw, Lock, Unlock, ChevronUp, BarChart3, Wallet, Link2, X, PiggyBank, FolderInput, ArrowRight, Link, Save, Copy, LayoutTemplate, Activity, RotateCcw, CreditCard, Target, Info, Landmark } from 'lucide-react';
 import { BudgetProgressBar } from '../components/BudgetProgressBar';
 import { cn, Button, Modal, Input } from '../components/components';
@@ -33,7 +33,7 @@ interface DisplayBucket extends Bucket {
 
 export const OperatingBudgetView: React.FC = () => {
   const { 
-      selectedMonth, budgetGroups, subCategories, mainCategories, transactions, 
+      selectedMonth, budgetGroups, subCategories, mainCategories, transactions: storedTransactions, 
       buckets, accounts, settings, addBudgetGroup, updateBudgetGroup, 
       deleteBudgetGroup, updateSubCategory, addSubCategory, addBucket, updateBucket, deleteBucket,
       budgetTemplates, monthConfigs, setBudgetLimit, toggleMonthLock, unlockMonth, assignTemplateToMonth, clearBudgetOverride, resetMonthToTemplate
@@ -78,6 +78,8 @@ export const OperatingBudgetView: React.FC = () => {
   const [isTotalBreakdownOpen, setIsTotalBreakdownOpen] = useState(false);
   const [drillDownData, setDrillDownData] = useState<{ title: string, transactions: Transaction[] } | null>(null);
 
+  // Split rows count once per line in the group totals
+  const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
   const reimbursementMap = useMemo(() => calculateReimbursementMap(transactions), [transactions]);
 
   const isMonthLocked = useMemo(() => {
@@ -3,7 +3,9 @@ import React, { useState } from 'react';
 import { useApp } from '../store';
 import { Trash2, Plus } from 'lucide-react';
 import { Button, Input, Modal } from '../components/components';
-import { Account } from '../types';
+import { Account, AccountType } from '../types';
+import { LoanDetailsForm } from '../components/LoanDetailsForm';
+import { createLoanDetails } from '../services/loanService';
 
 export const SettingsAccounts: React.FC = () => {
   const { accounts, addAccount, updateAccount, deleteAccount } = useApp();
@@ -18,7 +20,7 @@ export const SettingsAccounts: React.FC = () => {
         await updateAccount(editingAccount as Account);
     } else {
         // Skapa nytt (ID genereras i store)
-        await addAccount(editingAccount.name, editingAccount.type || 'CHECKING', editingAccount.icon || '💳');
+        await addAccount(editingAccount.name, editingAccount.type || 'CHECKING', editingAccount.icon || '💳', editingAccount.type === 'LOAN' ? editingAccount.loan : undefined);
     }
     setIsModalOpen(false);
   };
@@ -56,6 +58,7 @@ export const SettingsAccounts: React.FC = () => {
                         {acc.type === 'CHECKING' && 'Brukskonto'}
                         {acc.type === 'SAVINGS' && 'Sparkonto'}
                         {acc.type === 'CREDIT' && 'Kreditkort'}
+                        {acc.type === 'LOAN' && 'Lån'}
                      </div>
                  </div>
              </div>
@@ -88,14 +91,22 @@ export const SettingsAccounts: React.FC = () => {
                   <select 
                     className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-blue-500"
                     value={editingAccount.type || 'CHECKING'}
-                    onChange={e => setEditingAccount({...editingAccount, type: e.target.value})}
+                    onChange={e => {
+                        const type = e.target.value as AccountType;
+                        setEditingAccount({...editingAccount, type, loan: type === 'LOAN' ? editingAccount.loan || createLoanDetails() : editingAccount.loan});
+                    }}
                   >
                       <option value="CHECKING">Lönekonto / Brukskonto</option>
                       <option value="SAVINGS">Sparkonto</option>
                       <option value="CREDIT">Kreditkort</option>
+                      <option value="LOAN">Lån</option>
                   </select>
               </div>
 
+              {editingAccount.type === 'LOAN' && editingAccount.loan && (
+                  <LoanDetailsForm loan={editingAccount.loan} onChange={loan => setEditingAccount({...editingAccount, loan})} />
+              )}
+
               <div>
                   <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 block">Välj Ikon</label>
                   <div className="flex gap-2">
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { Loader2, Plug } from 'lucide-react';
+import { Button, Input, cn } from '../components/components';
+import { AiProviderConfig, AiProviderKind } from '../types';
+import { createAiProvider, DEFAULT_AI_CONFIG, DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../services/aiProviders';
+
+const PROVIDERS: { id: AiProviderKind, label: string }[] = [
+    { id: 'gemini', label: 'Gemini' },
+    { id: 'openai', label: 'OpenAI-kompatibel' },
+    { id: 'offline', label: 'Offline' }
+];
+
+export const SettingsAi: React.FC = () => {
+    const { settings, updateSettings } = useApp();
+    const config = settings.ai || DEFAULT_AI_CONFIG;
+    const [testStatus, setTestStatus] = useState<{ ok: boolean, message: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const update = (patch: Partial<AiProviderConfig>) => {
+        setTestStatus(null);
+        updateSettings({ ai: { ...config, ...patch } });
+    };
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setTestStatus(null);
+        try {
+            const reply = await createAiProvider(config).generate({ prompt: 'Svara med ett JSON-objekt: {"ok": true}', json: true });
+            setTestStatus({ ok: true, message: `Svar mottaget: ${reply.slice(0, 80)}` });
+        } catch (e) {
+            setTestStatus({ ok: false, message: e instanceof Error ? e.message : 'Anslutningen misslyckades.' });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-bold text-sm text-slate-400 uppercase">AI</h3>
+            <p className="text-xs text-slate-500">Används för AI-gissning av kategorier och månadsanalys. En lokal server (Ollama, llama.cpp) skickar ingen data utanför din dator.</p>
+
+            <div className="flex bg-slate-900 rounded-lg p-1">
+                {PROVIDERS.map(p => (
+                    <button key={p.id} onClick={() => update({ provider: p.id })} className={cn("flex-1 text-xs py-2 rounded transition-all", config.provider === p.id ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+
+            {config.provider === 'gemini' && (
+                <div className="space-y-2">
+                    <Input label="API-nyckel" type="password" value={config.apiKey || ''} onChange={e => update({ apiKey: e.target.value })} placeholder="AIza..." />
+                    <Input label="Modell" value={config.model || ''} onChange={e => update({ model: e.target.value })} placeholder={DEFAULT_GEMINI_MODEL} />
+                </div>
+            )}
+
+            {config.provider === 'openai' && (
+                <div className="space-y-2">
+                    <Input label="Server-URL" value={config.baseUrl || ''} onChange={e => update({ baseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} />
+                    <Input label="Modell" value={config.model || ''} onChange={e => update({ model: e.target.value })} placeholder={DEFAULT_OPENAI_MODEL} />
+                    <Input label="API-nyckel (valfri)" type="password" value={config.apiKey || ''} onChange={e => update({ apiKey: e.target.value })} />
+                </div>
+            )}
+
+            {config.provider === 'offline' && (
+                <p className="text-xs text-slate-400 bg-slate-800 p-3 rounded-lg border border-slate-700">Inga anrop görs. AI-gissningar hittar inget och analysen visar ett fast meddelande.</p>
+            )}
+
+            <Button variant="secondary" onClick={handleTest} disabled={isTesting} className="w-full">
+                {isTesting ? <Loader2 size={16} className="animate-spin" /> : <Plug size={16} />} Testa anslutning
+            </Button>
+            {testStatus && <p className={cn("text-xs break-all", testStatus.ok ? "text-emerald-400" : "text-rose-400")}>{testStatus.message}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../store';
+import { ChevronRight, ChevronDown, Search, X, Plus } from 'lucide-react';
+import { Input } from '../components/components';
+
+const PAGE_SIZE = 30;
+
+export const SettingsMerchants: React.FC = () => {
+  const { merchants, transactions, updateMerchant, mergeMerchants, addMerchantAlias, removeMerchantAlias } = useApp();
+
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newAlias, setNewAlias] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const countByMerchant = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(t => { if (t.merchantId) counts[t.merchantId] = (counts[t.merchantId] || 0) + 1; });
+    return counts;
+  }, [transactions]);
+
+  const sorted = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return merchants
+      .filter(m => !term || m.name.toLowerCase().includes(term) || m.key.includes(term) || m.aliases.some(a => a.includes(term)))
+      .sort((a, b) => (countByMerchant[b.id] || 0) - (countByMerchant[a.id] || 0) || a.name.localeCompare(b.name));
+  }, [merchants, search, countByMerchant]);
+
+  const toggleExpand = (id: string) => {
+    setExpandedId(expandedId === id ? null : id);
+    setNewAlias('');
+  };
+
+  const handleAddAlias = async (merchantId: string) => {
+    if (!newAlias.trim()) return;
+    await addMerchantAlias(merchantId, newAlias.trim());
+    setNewAlias('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-bold text-sm text-slate-400 uppercase">Handlare</h3>
+      <p className="text-xs text-slate-500">Banktexter normaliseras till handlare (kortnummer, datum och ort tas bort). Lägg till alias för att slå ihop texter som fortfarande skiljer sig.</p>
+
+      <div className="bg-slate-900 rounded-lg flex items-center px-3 border border-slate-700">
+        <Search size={14} className="text-slate-400 mr-2" />
+        <input placeholder="Sök handlare..." className="bg-transparent border-none outline-none text-white text-sm w-full py-2 placeholder-slate-500" value={search} onChange={e => { setSearch(e.target.value); setLimit(PAGE_SIZE); }} />
+        {search && <button onClick={() => setSearch('')}><X size={14} className="text-slate-400" /></button>}
+      </div>
+
+      <div className="space-y-2">
+        {sorted.slice(0, limit).map(m => {
+          const isExpanded = expandedId === m.id;
+          return (
+            <div key={m.id} className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+              <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-slate-700/50" onClick={() => toggleExpand(m.id)}>
+                <div className="flex items-center gap-2 min-w-0">
+                  {isExpanded ? <ChevronDown size={16} className="text-blue-400 shrink-0" /> : <ChevronRight size={16} className="text-slate-500 shrink-0" />}
+                  <span className="font-medium text-white truncate">{m.name}</span>
+                  {m.aliases.length > 0 && <span className="text-[10px] text-slate-500 shrink-0">+{m.aliases.length} alias</span>}
+                </div>
+                <span className="text-xs text-slate-400 shrink-0">{countByMerchant[m.id] || 0} st</span>
+              </div>
+
+              {isExpanded && (
+                <div className="bg-slate-900/50 p-3 border-t border-slate-700 space-y-3">
+                  <Input label="Visningsnamn" value={m.name} onChange={e => updateMerchant({ ...m, name: e.target.value })} />
+                  <div className="text-[10px] text-slate-500">Nyckel: <span className="font-mono text-slate-400">{m.key}</span></div>
+
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Alias</label>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {m.aliases.length === 0 && <span className="text-xs text-slate-600 italic">Inga alias</span>}
+                      {m.aliases.map(a => (
+                        <span key={a} className="flex items-center gap-1 bg-slate-700 text-slate-200 text-xs px-2 py-0.5 rounded-full font-mono">
+                          {a}
+                          <button onClick={() => removeMerchantAlias(m.id, a)} className="text-slate-400 hover:text-rose-400"><X size={10} /></button>
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                        placeholder="T.ex. ICA NARA"
+                        value={newAlias}
+                        onChange={e => setNewAlias(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleAddAlias(m.id)}
+                      />
+                      <button onClick={() => handleAddAlias(m.id)} className="bg-blue-600 hover:bg-blue-500 text-white p-1.5 rounded"><Plus size={14} /></button>
+                    </div>
+                    <p className="text-[10px] text-slate-500 mt-1">Texter som börjar med aliaset räknas också till handlaren.</p>
+                  </div>
+
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Slå ihop med</label>
+                    <select
+                      className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white"
+                      value=""
+                      onChange={async e => {
+                        const target = merchants.find(x => x.id === e.target.value);
+                        if (target && confirm(`Flytta alla transaktioner från "${m.name}" till "${target.name}"?`)) {
+                          await mergeMerchants(m.id, target.id);
+                          setExpandedId(target.id);
+                        }
+                      }}
+                    >
+                      <option value="">Välj handlare...</option>
+                      {merchants.filter(x => x.id !== m.id).sort((a, b) => a.name.localeCompare(b.name)).map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+                    </select>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {sorted.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="w-full text-xs text-slate-400 hover:text-white py-2">
+          Visa fler ({sorted.length - limit} kvar)
+        </button>
+      )}
+    </div>
+  );
+};
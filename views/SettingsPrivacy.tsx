@@ -0,0 +1,163 @@
+import React, { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { useApp } from '../store';
+import { ShieldCheck, Plus, X, Users } from 'lucide-react';
+import { cn } from '../components/components';
+import { RedactionKind, RedactionSettings } from '../types';
+import { createRedactor, REDACTION_LABELS } from '../services/redaction';
+import { buildCategorizationPrompt, buildMonthlyReportPrompt, buildTransactionQueryPrompt, selectPreviousReports } from '../services/aiService';
+import { DEFAULT_AI_CONFIG } from '../services/aiProviders';
+
+const PREVIEW_SIZE = 10;
+
+type PromptKind = 'categorize' | 'query' | 'report';
+
+const PROMPT_LABELS: Record<PromptKind, string> = {
+    categorize: 'AI-gissning',
+    query: 'Fråga',
+    report: 'Månadsrapport'
+};
+
+export const SettingsPrivacy: React.FC = () => {
+    const { settings, updateSettings, users, transactions, buckets, mainCategories, subCategories, aiReports } = useApp();
+    const config = settings.ai || DEFAULT_AI_CONFIG;
+    const redaction = config.redaction || {};
+    const [newTerm, setNewTerm] = useState('');
+    const [sample, setSample] = useState('Swish till Anna Svensson 0701234567');
+    const [showPrompt, setShowPrompt] = useState(false);
+    const [promptKind, setPromptKind] = useState<PromptKind>('categorize');
+    const [question, setQuestion] = useState('Hur mycket handlade vi mat för i våras?');
+
+    const update = (patch: Partial<RedactionSettings>) => {
+        updateSettings({ ai: { ...config, redaction: { ...redaction, ...patch } } });
+    };
+
+    const toggleKind = (kind: RedactionKind) => {
+        const current = redaction.disabledKinds || [];
+        update({ disabledKinds: current.includes(kind) ? current.filter(k => k !== kind) : [...current, kind] });
+    };
+
+    const addTerms = (terms: string[]) => {
+        const existing = redaction.customTerms || [];
+        const fresh = terms.map(t => t.trim()).filter(t => t && !existing.some(e => e.toLowerCase() === t.toLowerCase()));
+        if (fresh.length > 0) update({ customTerms: [...existing, ...fresh] });
+    };
+
+    // Same input as the AI guess in the review list: unverified rows, or the latest ones when the queue is empty
+    const previewTransactions = useMemo(() => {
+        if (!showPrompt) return [];
+        const unverified = transactions.filter(t => !t.isVerified);
+        return (unverified.length > 0 ? unverified : [...transactions].sort((a, b) => b.date.localeCompare(a.date))).slice(0, PREVIEW_SIZE);
+    }, [showPrompt, transactions]);
+
+    // The report preview reuses the latest stored report's data, with the earlier months a new run would compare against
+    const latestReport = useMemo(() => [...aiReports].sort((a, b) => b.monthKey.localeCompare(a.monthKey) || b.createdAt.localeCompare(a.createdAt))[0], [aiReports]);
+
+    const preview = useMemo(() => {
+        const redactor = createRedactor(redaction);
+        const sampleOut = redactor.redact(sample);
+        let prompt = '';
+        if (showPrompt && promptKind === 'categorize') prompt = buildCategorizationPrompt(previewTransactions, buckets, mainCategories, subCategories, redactor);
+        if (showPrompt && promptKind === 'query') prompt = buildTransactionQueryPrompt(question, format(new Date(), 'yyyy-MM-dd'), buckets, mainCategories, subCategories, redactor);
+        if (showPrompt && promptKind === 'report' && latestReport) {
+            prompt = buildMonthlyReportPrompt(latestReport.snapshot, selectPreviousReports(aiReports, latestReport.monthKey), redactor);
+        }
+        return { sampleOut, prompt, entries: redactor.entries() };
+    }, [redaction, sample, showPrompt, promptKind, question, previewTransactions, buckets, mainCategories, subCategories, latestReport, aiReports]);
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-bold text-sm text-slate-400 uppercase flex items-center gap-2"><ShieldCheck size={14} /> Integritet vid AI-anrop</h3>
+            <p className="text-xs text-slate-500">Personuppgifter i banktexter byts mot platshållare innan något skickas till AI-tjänsten och sätts tillbaka i svaret.</p>
+
+            <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                <span>Maskera personuppgifter</span>
+                <input type="checkbox" checked={!redaction.disabled} onChange={e => update({ disabled: !e.target.checked })} className="rounded bg-slate-700 border-slate-600" />
+            </label>
+
+            {!redaction.disabled && (
+                <>
+                    <div className="flex flex-wrap gap-1">
+                        {(Object.keys(REDACTION_LABELS) as RedactionKind[]).map(kind => {
+                            const isOn = !(redaction.disabledKinds || []).includes(kind);
+                            return (
+                                <button key={kind} onClick={() => toggleKind(kind)} className={cn("text-xs px-2 py-1 rounded transition-all", isOn ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}>
+                                    {REDACTION_LABELS[kind]}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Maskeras alltid</label>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                            {(redaction.customTerms || []).length === 0 && <span className="text-xs text-slate-600 italic">Inga egna ord</span>}
+                            {(redaction.customTerms || []).map(term => (
+                                <span key={term} className="flex items-center gap-1 bg-slate-700 text-slate-200 text-xs px-2 py-0.5 rounded-full">
+                                    {term}
+                                    <button onClick={() => update({ customTerms: (redaction.customTerms || []).filter(t => t !== term) })} className="text-slate-400 hover:text-rose-400"><X size={10} /></button>
+                                </span>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                                placeholder="T.ex. ett namn"
+                                value={newTerm}
+                                onChange={e => setNewTerm(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') { addTerms([newTerm]); setNewTerm(''); } }}
+                            />
+                            <button onClick={() => { addTerms([newTerm]); setNewTerm(''); }} className="bg-blue-600 hover:bg-blue-500 text-white p-1.5 rounded"><Plus size={14} /></button>
+                        </div>
+                        {users.length > 0 && (
+                            <button onClick={() => addTerms(users.map(u => u.name))} className="text-[10px] text-blue-400 hover:text-blue-300 mt-1 flex items-center gap-1"><Users size={10} /> Lägg till hushållets namn</button>
+                        )}
+                    </div>
+                </>
+            )}
+
+            <div className="space-y-2">
+                <label className="text-[10px] text-slate-500 uppercase font-bold block">Förhandsgranska</label>
+                <input className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white" value={sample} onChange={e => setSample(e.target.value)} />
+                <div className="text-xs font-mono bg-slate-900 p-2 rounded border border-slate-700 text-emerald-300 break-all">{preview.sampleOut || ' '}</div>
+
+                <button onClick={() => setShowPrompt(!showPrompt)} className="text-xs text-blue-400 hover:text-blue-300">
+                    {showPrompt ? 'Dölj' : 'Visa'} exakt vad som skickas till AI-tjänsten
+                </button>
+                {showPrompt && (
+                    <>
+                        <div className="flex gap-1 bg-slate-800 rounded-lg p-1 w-fit">
+                            {(Object.keys(PROMPT_LABELS) as PromptKind[]).map(kind => (
+                                <button key={kind} onClick={() => setPromptKind(kind)} className={cn("text-xs px-2 py-1 rounded transition-all", promptKind === kind ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>
+                                    {PROMPT_LABELS[kind]}
+                                </button>
+                            ))}
+                        </div>
+                        {promptKind === 'categorize' && <p className="text-[10px] text-slate-500">{PREVIEW_SIZE} transaktioner ur granskningskön.</p>}
+                        {promptKind === 'query' && (
+                            <input className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white" value={question} onChange={e => setQuestion(e.target.value)} />
+                        )}
+                        {promptKind === 'report' && (
+                            <p className="text-[10px] text-slate-500">
+                                {latestReport
+                                    ? `Underlaget för ${latestReport.snapshot.monthLabel}, jämfört med tidigare månader.`
+                                    : 'Skapa en AI-analys under Statistik först, förhandsgranskningen visar dess underlag.'}
+                            </p>
+                        )}
+                        <pre className="text-[10px] font-mono bg-slate-900 p-2 rounded border border-slate-700 text-slate-300 whitespace-pre-wrap max-h-64 overflow-y-auto">{preview.prompt}</pre>
+                        {preview.entries.length > 0 && (
+                            <div className="text-[10px] space-y-0.5">
+                                {preview.entries.map(e => (
+                                    <div key={e.placeholder} className="flex gap-2 font-mono">
+                                        <span className="text-emerald-400 w-24 shrink-0">{e.placeholder}</span>
+                                        <span className="text-slate-400 truncate">{e.value}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
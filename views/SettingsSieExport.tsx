@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { FileDown, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button, Input, cn } from '../components/components';
+import { buildSieFile, encodeCp437, DEFAULT_FALLBACK_ACCOUNTS } from '../services/sieExport';
+import { getBudgetInterval } from '../utils';
+import { format } from 'date-fns';
+
+const MapInput: React.FC<{ label: string, value?: string, placeholder?: string, onChange: (v: string) => void }> = ({ label, value, placeholder = '----', onChange }) => (
+    <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-300 flex-1 truncate">{label}</span>
+        <input
+            className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white text-center font-mono"
+            placeholder={placeholder}
+            inputMode="numeric"
+            value={value || ''}
+            onChange={e => onChange(e.target.value.replace(/\D/g, '').slice(0, 4))}
+        />
+    </div>
+);
+
+export const SettingsSieExport: React.FC = () => {
+    const { transactions, accounts, buckets, mainCategories, subCategories, sieConfig, updateSieConfig, selectedMonth, settings } = useApp();
+    const defaultRange = getBudgetInterval(selectedMonth, settings.payday);
+    const [startDate, setStartDate] = useState(format(defaultRange.start, 'yyyy-MM-dd'));
+    const [endDate, setEndDate] = useState(format(defaultRange.end, 'yyyy-MM-dd'));
+    const [openSection, setOpenSection] = useState<'accounts' | 'categories' | 'buckets' | null>(null);
+    const [status, setStatus] = useState('');
+
+    const setMapping = (key: string, value: string) => {
+        const accountMap = { ...sieConfig.accountMap };
+        if (value) accountMap[key] = value; else delete accountMap[key];
+        updateSieConfig({ accountMap });
+    };
+
+    const handleExport = () => {
+        const result = buildSieFile({ transactions, accounts, buckets, mainCategories, subCategories, config: sieConfig, startDate, endDate });
+        if (result.voucherCount === 0) {
+            setStatus('Inga bokförda transaktioner i perioden (eller saknade bankkonton).');
+            return;
+        }
+
+        const blob = new Blob([encodeCp437(result.content)], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `FamilyFlow_${startDate}_${endDate}.se`;
+        a.click();
+        URL.revokeObjectURL(url);
+
+        const skipped = result.unmappedAccountIds.map(id => accounts.find(a => a.id === id)?.name || id);
+        setStatus(`Exporterade ${result.voucherCount} verifikationer.${skipped.length > 0 ? ` Hoppade över konton utan bokföringskonto: ${skipped.join(', ')}.` : ''}`);
+    };
+
+    const renderSectionHeader = (id: 'accounts' | 'categories' | 'buckets', label: string) => (
+        <button onClick={() => setOpenSection(openSection === id ? null : id)} className="w-full flex items-center gap-2 text-xs font-bold text-slate-400 uppercase py-2">
+            {openSection === id ? <ChevronDown size={14} /> : <ChevronRight size={14} />} {label}
+        </button>
+    );
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-bold text-sm text-slate-400 uppercase">Bokföringsexport (SIE4)</h3>
+
+            <div className="grid grid-cols-2 gap-2">
+                <Input label="Namn" value={sieConfig.companyName} onChange={e => updateSieConfig({ companyName: e.target.value })} placeholder="Familjen" />
+                <Input label="Org.nr (valfritt)" value={sieConfig.orgNumber || ''} onChange={e => updateSieConfig({ orgNumber: e.target.value })} />
+            </div>
+
+            <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-1">
+                {renderSectionHeader('accounts', 'Bankkonton')}
+                {openSection === 'accounts' && (
+                    <div className="space-y-2 pb-2">
+                        {accounts.map(a => <MapInput key={a.id} label={`${a.icon} ${a.name}`} value={sieConfig.accountMap[`account:${a.id}`]} onChange={v => setMapping(`account:${a.id}`, v)} />)}
+                    </div>
+                )}
+
+                {renderSectionHeader('categories', 'Kategorier')}
+                {openSection === 'categories' && (
+                    <div className="space-y-3 pb-2">
+                        {mainCategories.map(m => (
+                            <div key={m.id} className="space-y-1">
+                                <MapInput label={m.name} value={sieConfig.accountMap[`main:${m.id}`]} onChange={v => setMapping(`main:${m.id}`, v)} />
+                                <div className="pl-4 space-y-1 border-l border-slate-700">
+                                    {subCategories.filter(s => s.mainCategoryId === m.id).map(s => (
+                                        <MapInput key={s.id} label={s.name} value={sieConfig.accountMap[`sub:${s.id}`]} onChange={v => setMapping(`sub:${s.id}`, v)} />
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {renderSectionHeader('buckets', 'Budgetposter')}
+                {openSection === 'buckets' && (
+                    <div className="space-y-2 pb-2">
+                        {buckets.filter(b => !b.archivedDate).map(b => <MapInput key={b.id} label={b.name} value={sieConfig.accountMap[`bucket:${b.id}`]} onChange={v => setMapping(`bucket:${b.id}`, v)} />)}
+                    </div>
+                )}
+
+                <div className="border-t border-slate-700 pt-2 space-y-2">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Standardkonton (när mappning saknas)</div>
+                    <MapInput label="Utgifter" value={sieConfig.fallbackExpenseAccount} placeholder={DEFAULT_FALLBACK_ACCOUNTS.fallbackExpenseAccount} onChange={v => updateSieConfig({ fallbackExpenseAccount: v })} />
+                    <MapInput label="Inkomster" value={sieConfig.fallbackIncomeAccount} placeholder={DEFAULT_FALLBACK_ACCOUNTS.fallbackIncomeAccount} onChange={v => updateSieConfig({ fallbackIncomeAccount: v })} />
+                    <MapInput label="Överföringar" value={sieConfig.fallbackTransferAccount} placeholder={DEFAULT_FALLBACK_ACCOUNTS.fallbackTransferAccount} onChange={v => updateSieConfig({ fallbackTransferAccount: v })} />
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <div className="flex-1">
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Från</label>
+                    <input type="date" className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white" value={startDate} onChange={e => setStartDate(e.target.value)} />
+                </div>
+                <div className="flex-1">
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Till</label>
+                    <input type="date" className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-white" value={endDate} onChange={e => setEndDate(e.target.value)} />
+                </div>
+            </div>
+
+            <Button variant="secondary" onClick={handleExport} disabled={!startDate || !endDate} className="w-full">
+                <FileDown size={16} /> Exportera SIE-fil
+            </Button>
+            {status && <p className={cn("text-xs", status.startsWith('Exporterade') ? "text-emerald-400" : "text-yellow-400")}>{status}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useApp } from '../store';
+import { RefreshCw, Smartphone } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button, Input, cn } from '../components/components';
+import { SyncSettings } from '../types';
+import { getDeviceId } from '../db';
+import { resetSyncState } from '../services/syncService';
+
+export const SettingsSync: React.FC = () => {
+    const { settings, updateSettings, syncStatus, syncNow } = useApp();
+    const config: SyncSettings = settings.sync || { serverUrl: '' };
+    const result = syncStatus.lastResult;
+
+    const update = (patch: Partial<SyncSettings>) => {
+        // A different server knows nothing of our cursor, start over against it
+        if (patch.serverUrl !== undefined && patch.serverUrl !== config.serverUrl) resetSyncState();
+        updateSettings({ sync: { ...config, ...patch } });
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-bold text-sm text-slate-400 uppercase flex items-center gap-2"><Smartphone size={14} /> Synka enheter</h3>
+            <p className="text-xs text-slate-500">Ändringar skickas post för post till en egen synkserver och hämtas till hushållets övriga enheter. Ändras samma post på två enheter vinner den senaste.</p>
+
+            <div className="space-y-2">
+                <Input label="Server-URL" value={config.serverUrl} onChange={e => update({ serverUrl: e.target.value.trim() })} placeholder="https://sync.example.se/familyflow" />
+                <Input label="Token" type="password" value={config.token || ''} onChange={e => update({ token: e.target.value })} placeholder="Samma på alla enheter" />
+            </div>
+
+            <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                <span>Synka automatiskt</span>
+                <input type="checkbox" checked={!!config.autoSync} onChange={e => update({ autoSync: e.target.checked })} className="rounded bg-slate-700 border-slate-600" />
+            </label>
+
+            <Button onClick={() => syncNow()} disabled={!config.serverUrl || syncStatus.isSyncing} className="w-full">
+                <RefreshCw className={cn("w-4 h-4 mr-2", syncStatus.isSyncing && "animate-spin")} />
+                {syncStatus.isSyncing ? 'Synkar...' : 'Synka nu'}
+            </Button>
+
+            {syncStatus.error && <p className="text-xs text-rose-400">{syncStatus.error}</p>}
+            {result && !syncStatus.error && (
+                <p className="text-xs text-emerald-400">
+                    {format(new Date(result.finishedAt), 'HH:mm')}: {result.pushed} skickade, {result.pulled} hämtade
+                    {result.conflicts > 0 && <span className="text-amber-400">, {result.conflicts} konflikter lösta till den andra enhetens fördel</span>}
+                </p>
+            )}
+            <p className="text-[10px] text-slate-600 font-mono">Enhets-id: {getDeviceId()}</p>
+        </div>
+    );
+};
@@ -2,21 +2,23 @@
 import React, { useMemo, useState } from 'react';
 import { useApp } from '../store';
 import { useBudgetMonth } from '../hooks/useBudgetMonth';
-import { formatMoney, getEffectiveBudgetGroupData, getBudgetInterval, calculateFixedBucketCost, calculateDailyBucketCost, calculateGoalBucketCost, getEffectiveBucketData, getTotalFamilyIncome, calculateSavedAmount, getUserIncome, calculateReimbursementMap, getEffectiveAmount, getEffectiveSubCategoryBudget, isBucketActiveInMonth } from '../utils';
+import { formatMoney, getEffectiveBudgetGroupData, getBudgetInterval, calculateFixedBucketCost, calculateDailyBucketCost, calculateGoalBucketCost, getEffectiveBucketData, getTotalFamilyIncome, calculateSavedAmount, getUserIncome, calculateReimbursementMap, getEffectiveAmount, getEffectiveSubCategoryBudget, isBucketActiveInMonth, expandSplitTransactions, generateId, getMonthLabel } from '../utils';
 import { 
     PieChart, Pie, Cell, Tooltip, ResponsiveContainer, 
     ComposedChart, Bar, XAxis, YAxis, CartesianGrid, Area, Legend,
     Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
     BarChart, Line
 } from 'recharts';
-import { ChevronRight, ChevronDown, Edit2, Check, AlertTriangle, TrendingUp, TrendingDown, Calendar, BarChart3, PieChart as PieIcon, Filter, Info, Plane, X, Sparkles, Zap, Trophy, ShoppingBag, Layers, Clock, DollarSign, Activity, Target, Coffee, Repeat, ArrowRight, ArrowUpRight, ArrowDownRight, AlertOctagon, Utensils, Search, Percent, ThermometerSnowflake, Rocket, Wallet, PiggyBank, LayoutGrid, Eye, EyeOff, Bot, Calculator } from 'lucide-react';
+import { ChevronRight, ChevronDown, Edit2, Check, AlertTriangle, TrendingUp, TrendingDown, Calendar, BarChart3, PieChart as PieIcon, Filter, Info, Plane, X, Sparkles, Zap, Trophy, ShoppingBag, Layers, Clock, DollarSign, Activity, Target, Coffee, Repeat, ArrowRight, ArrowUpRight, ArrowDownRight, AlertOctagon, Utensils, Search, Percent, ThermometerSnowflake, Rocket, Wallet, PiggyBank, LayoutGrid, Eye, EyeOff, Bot, Calculator, Archive, RefreshCw, Trash2 } from 'lucide-react';
 import { BudgetProgressBar } from '../components/BudgetProgressBar';
 import { cn, Button, Modal } from '../components/components';
-import { BudgetGroup, Bucket, Transaction, MainCategory, SubCategory, Account, BucketData } from '../types';
+import { BudgetGroup, Bucket, Transaction, MainCategory, SubCategory, Account, BucketData, FinancialSnapshot, AiReport } from '../types';
 import { format, subMonths, parseISO, differenceInDays, startOfDay, endOfDay, areIntervalsOverlapping, addDays, isValid, startOfMonth, endOfMonth, addMonths, getDay, startOfWeek, endOfWeek, subWeeks, getISOWeek, getDate, getDaysInMonth, eachDayOfInterval, subDays, subYears, isAfter, isBefore, isSameMonth } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { generateMonthlyReport, FinancialSnapshot } from '../services/aiService';
+import { generateMonthlyReport, selectPreviousReports } from '../services/aiService';
 import { EmojiPickerModal } from '../components/EmojiPicker';
+import { TransactionQueryBar } from '../components/TransactionQueryBar';
+import { reconcileAccount, isReconciliationCurrent, ReconciliationResult } from '../services/reconciliation';
 
 // --- SUB-COMPONENT: GROUPED DRILL DOWN (For Expenses) ---
 const GroupedDrillDown: React.FC<{ 
@@ -209,7 +211,8 @@ const SimpleMarkdownRenderer = ({ text }: { text: string }) => {
 const parseBold = (text: string) => text.replace(/\*\*(.*?)\*\*/g, '<b class="text-white">$1</b>');
 
 const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
-    const { budgetGroups, subCategories, transactions, buckets, settings, mainCategories, users, budgetTemplates, monthConfigs, updateBudgetGroup } = useApp();
+    const { budgetGroups, subCategories, transactions: storedTransactions, buckets, settings, mainCategories, users, budgetTemplates, monthConfigs, updateBudgetGroup, aiReports, addAiReport, deleteAiReport, activeBudgetId } = useApp();
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
     const [drillDownData, setDrillDownData] = useState<{ title: string, transactions: Transaction[], grouped?: boolean } | null>(null);
     const [timeframe, setTimeframe] = useState<1 | 3 | 6 | 12>(1);
@@ -223,7 +226,10 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
     } | null>(null);
 
     const [isAiModalOpen, setIsAiModalOpen] = useState(false);
-    const [aiReport, setAiReport] = useState<string>('');
+    const [aiReportView, setAiReportView] = useState<'report' | 'archive'>('report');
+    const [activeReportId, setActiveReportId] = useState<string | null>(null);
+    const [compareWithHistory, setCompareWithHistory] = useState(true);
+    const [aiError, setAiError] = useState('');
     const [isAiLoading, setIsAiLoading] = useState(false);
     const [iconPickerTarget, setIconPickerTarget] = useState<BudgetGroup | null>(null);
 
@@ -466,10 +472,30 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
         setBudgetBreakdownData({ groupName, items: [...items].sort((a, b) => b.amount - a.amount), total });
     };
 
-    const handleAiAnalysis = async () => {
+    // Newest first. The report shown for a month is its latest run.
+    const sortedAiReports = useMemo(() => [...aiReports].sort((a, b) => b.monthKey.localeCompare(a.monthKey) || b.createdAt.localeCompare(a.createdAt)), [aiReports]);
+    const monthReport = sortedAiReports.find(r => r.monthKey === selectedMonth && (r.timeframeMonths || 1) === timeframe);
+    const shownReport = (activeReportId && aiReports.find(r => r.id === activeReportId)) || monthReport;
+
+    const previousReports = useMemo(() => selectPreviousReports(aiReports, selectedMonth), [aiReports, selectedMonth]);
+
+    const handleAiAnalysis = () => {
         setIsAiModalOpen(true);
-        if (aiReport) return; 
+        setAiReportView('report');
+        setActiveReportId(null);
+        setAiError('');
+        if (!monthReport) generateAiReport();
+    };
+
+    const generateAiReport = async () => {
+        setAiReportView('report');
+        // The offline provider only answers with a placeholder, which must not end up in the archive
+        if (settings.ai?.provider === 'offline') {
+            setAiError('Ingen AI-modell är konfigurerad. Välj en leverantör under Inställningar > AI för att få en analys.');
+            return;
+        }
         setIsAiLoading(true);
+        setAiError('');
         try {
             const totalIncome = getTotalFamilyIncome(users, selectedMonth);
             const currentGroups = data.groupStats.map(g => ({ name: g.name, limit: g.limit, spent: g.spent }));
@@ -498,9 +524,22 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
             }).sort((a,b) => b.amount - a.amount);
             const topExpenses = currentTxs.map(t => ({ name: t.description, amount: Math.abs(getEffectiveAmount(t, reimbursementMap)) })).sort((a,b) => b.amount - a.amount).slice(0, 5);
             const snapshot: FinancialSnapshot = { totalIncome, budgetGroups: currentGroups, topExpenses, categoryBreakdownCurrent: breakdownCurrent, transactionLog, monthLabel: data.rangeLabel };
-            setAiReport(await generateMonthlyReport(snapshot));
+            const compared = compareWithHistory ? previousReports : [];
+            const markdown = await generateMonthlyReport(snapshot, settings.ai, compared);
+            const report: AiReport = {
+                id: generateId(),
+                budgetId: activeBudgetId,
+                monthKey: selectedMonth,
+                createdAt: new Date().toISOString(),
+                snapshot,
+                markdown,
+                comparedMonthKeys: compared.length > 0 ? compared.map(r => r.monthKey) : undefined,
+                timeframeMonths: timeframe > 1 ? timeframe : undefined
+            };
+            await addAiReport(report);
+            setActiveReportId(report.id);
         } catch (error) {
-            setAiReport("Kunde inte skapa analysen just nu.");
+            setAiError(error instanceof Error ? error.message : "Kunde inte skapa analysen just nu.");
         } finally {
             setIsAiLoading(false);
         }
@@ -790,9 +829,37 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
                 </div>
             </Modal>
 
-            <Modal isOpen={isAiModalOpen} onClose={() => setIsAiModalOpen(false)} title={`Ekonomisk Analys - ${data.rangeLabel}`}>
-                <div className="min-h-[300px]">
-                    {isAiLoading ? (
+            <Modal isOpen={isAiModalOpen} onClose={() => setIsAiModalOpen(false)} title={`Ekonomisk Analys - ${shownReport && aiReportView === 'report' ? shownReport.snapshot.monthLabel : data.rangeLabel}`}>
+                <div className="min-h-[300px] space-y-4">
+                    <div className="flex items-center gap-2">
+                        <div className="flex bg-slate-900 rounded-lg p-1 flex-1">
+                            <button onClick={() => setAiReportView('report')} className={cn("flex-1 text-xs py-1.5 rounded transition-all", aiReportView === 'report' ? "bg-purple-600 text-white" : "text-slate-400 hover:text-white")}>Rapport</button>
+                            <button onClick={() => setAiReportView('archive')} className={cn("flex-1 text-xs py-1.5 rounded transition-all flex items-center justify-center gap-1", aiReportView === 'archive' ? "bg-purple-600 text-white" : "text-slate-400 hover:text-white")}><Archive size={12} /> Arkiv ({aiReports.length})</button>
+                        </div>
+                        <Button variant="secondary" onClick={generateAiReport} disabled={isAiLoading} className="px-3 py-1.5 text-xs shrink-0"><RefreshCw size={12} /> Ny analys</Button>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input type="checkbox" checked={compareWithHistory} onChange={e => setCompareWithHistory(e.target.checked)} className="rounded bg-slate-700 border-slate-600" />
+                        Jämför med tidigare månader {previousReports.length > 0 ? `(${previousReports.map(r => getMonthLabel(r.monthKey)).join(', ')})` : '(inga sparade rapporter än)'}
+                    </label>
+
+                    {aiReportView === 'archive' ? (
+                        <div className="space-y-2">
+                            {sortedAiReports.length === 0 && <div className="text-center text-sm text-slate-500 py-10">Inga sparade rapporter.</div>}
+                            {sortedAiReports.map(r => (
+                                <div key={r.id} className={cn("flex items-center gap-2 p-3 rounded-lg border", shownReport?.id === r.id ? "bg-purple-950/30 border-purple-500/40" : "bg-slate-800 border-slate-700")}>
+                                    <button onClick={() => { setActiveReportId(r.id); setAiReportView('report'); }} className="flex-1 text-left min-w-0">
+                                        <div className="text-sm text-white font-medium capitalize">{r.timeframeMonths ? `Snitt ${r.timeframeMonths} mån, ${r.snapshot.monthLabel}` : getMonthLabel(r.monthKey)}</div>
+                                        <div className="text-[10px] text-slate-500">
+                                            Skapad {format(parseISO(r.createdAt), 'yyyy-MM-dd HH:mm')} • Inkomst {formatMoney(r.snapshot.totalIncome)}
+                                            {r.comparedMonthKeys && ` • Jämförd med ${r.comparedMonthKeys.length} mån`}
+                                        </div>
+                                    </button>
+                                    <button onClick={() => { if (confirm('Ta bort rapporten?')) deleteAiReport(r.id); }} className="p-1.5 text-slate-500 hover:text-rose-400"><Trash2 size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    ) : isAiLoading ? (
                         <div className="flex flex-col items-center justify-center py-20 space-y-4">
                             <Bot size={48} className="text-purple-400 animate-bounce" />
                             <div className="text-center">
@@ -802,7 +869,13 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
                         </div>
                     ) : (
                         <div className="prose prose-invert max-w-none">
-                            <SimpleMarkdownRenderer text={aiReport} />
+                            {aiError && <p className="text-sm text-rose-400 mb-4">{aiError}</p>}
+                            {shownReport ? (
+                                <>
+                                    <div className="text-[10px] text-slate-500 not-prose">Skapad {format(parseISO(shownReport.createdAt), 'yyyy-MM-dd HH:mm')}</div>
+                                    <SimpleMarkdownRenderer text={shownReport.markdown} />
+                                </>
+                            ) : !aiError && <p className="text-sm text-slate-400">Ingen analys för den här månaden än.</p>}
                         </div>
                     )}
                 </div>
@@ -812,8 +885,9 @@ const BudgetGroupStats = ({ selectedMonth }: { selectedMonth: string }) => {
 };
 
 const TrendsAnalysis = () => {
-    const { transactions, budgetGroups, subCategories, buckets, users, settings, budgetTemplates, monthConfigs } = useApp();
+    const { transactions: storedTransactions, budgetGroups, subCategories, buckets, users, settings, budgetTemplates, monthConfigs } = useApp();
     const { selectedMonth } = useApp();
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     const reimbursementMap = useMemo(() => calculateReimbursementMap(transactions), [transactions]);
 
     const trendData = useMemo(() => {
@@ -1058,9 +1132,67 @@ const TrendsAnalysis = () => {
     );
 };
 
+// --- SUB-COMPONENT: RECONCILIATION (Per account and budget period) ---
+const ReconciliationSummary: React.FC<{
+    result: ReconciliationResult;
+    isReconciled: boolean;
+    onMark: () => void;
+    onUnmark: () => void;
+    onShowTransactions: (title: string, txs: Transaction[]) => void;
+}> = ({ result, isReconciled, onMark, onUnmark, onShowTransactions }) => {
+    if (result.status === 'unknown') {
+        return <div className="text-[10px] text-slate-500 px-2 pb-2">Avstämning: inga saldon från banken i perioden{result.openingSource === 'none' ? ' och inget ingående saldo' : ''}.</div>;
+    }
+
+    return (
+        <div className={cn("mx-2 mb-3 p-3 rounded-lg border text-xs space-y-2", result.status === 'ok' ? "bg-emerald-950/20 border-emerald-500/20" : "bg-yellow-950/20 border-yellow-500/30")}>
+            <div className="flex items-center justify-between gap-2">
+                <div className={cn("font-bold flex items-center gap-2", result.status === 'ok' ? "text-emerald-400" : "text-yellow-400")}>
+                    {result.status === 'ok' ? <Check size={14} /> : <AlertTriangle size={14} />}
+                    {result.status === 'ok' ? 'Saldot stämmer med banken' : `${result.drifts.length} avvikelse${result.drifts.length > 1 ? 'r' : ''} mot bankens saldo`}
+                </div>
+                {isReconciled ? (
+                    <button onClick={onUnmark} className="text-[10px] text-emerald-300 hover:text-white underline">Avstämd ✓ (ångra)</button>
+                ) : (
+                    <button onClick={onMark} className="text-[10px] font-bold bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded">Markera som avstämd</button>
+                )}
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-400">
+                <div>Ingående<div className="font-mono text-slate-200">{result.openingBalance !== undefined ? formatMoney(result.openingBalance) : '-'}{result.openingSource === 'inferred' && ' *'}</div></div>
+                <div>Beräknat utgående<div className="font-mono text-slate-200">{result.computedClosing !== undefined ? formatMoney(result.computedClosing) : '-'}</div></div>
+                <div>Bankens saldo<div className="font-mono text-slate-200">{result.bankClosing !== undefined ? formatMoney(result.bankClosing) : '-'}</div></div>
+            </div>
+            {result.openingSource === 'inferred' && <div className="text-[10px] text-slate-500">* Härlett från första raden med saldo (inget ingående saldo angivet för kontot).</div>}
+            {result.drifts.map(d => (
+                <div key={d.transaction.id} className="bg-slate-900/60 rounded p-2 space-y-1">
+                    <div className="flex justify-between">
+                        <span className="text-slate-300 truncate">{d.transaction.date} {d.transaction.description}</span>
+                        <span className={cn("font-mono font-bold shrink-0 ml-2", d.difference < 0 ? "text-rose-400" : "text-emerald-400")}>{d.difference > 0 ? '+' : ''}{formatMoney(d.difference)}</span>
+                    </div>
+                    <div className="text-[10px] text-slate-500">
+                        Banken: {formatMoney(d.bankBalance)}, beräknat: {formatMoney(d.computedBalance)}
+                        {d.previousCheckpoint ? ` (stämde senast ${d.previousCheckpoint.date})` : ' (stämde inte från periodens start)'}
+                    </div>
+                    {d.suspectedDuplicates.length > 0 ? (
+                        <button onClick={() => onShowTransactions('Möjliga dubbletter', d.suspectedDuplicates)} className="text-[10px] text-yellow-300 hover:text-white underline">
+                            Troligen dubblett: {d.suspectedDuplicates.length} rad{d.suspectedDuplicates.length > 1 ? 'er' : ''} på {formatMoney(Math.abs(d.difference))}
+                        </button>
+                    ) : d.suspectedMissingAmount !== undefined && (
+                        <div className="text-[10px] text-yellow-300">
+                            Troligen saknas en {d.suspectedMissingAmount < 0 ? 'utgift' : 'insättning'} på {formatMoney(Math.abs(d.suspectedMissingAmount))}{d.previousCheckpoint ? ` mellan ${d.previousCheckpoint.date} och ${d.transaction.date}` : ` före ${d.transaction.date}`}.
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
 const AccountStats = () => {
     // Fix: Destructured mainCategories and subCategories from useApp for GroupedDrillDown usage
-    const { accounts, buckets, transactions, selectedMonth, settings, updateTransaction, mainCategories, subCategories, updateAccount, budgetTemplates, monthConfigs } = useApp();
+    const { accounts, buckets, transactions: storedTransactions, selectedMonth, settings, updateTransaction, mainCategories, subCategories, updateAccount, budgetTemplates, monthConfigs, reconciliations, markReconciled, unmarkReconciled } = useApp();
+    // Bucket flows count split lines, reconciliation works on the rows the bank reported
+    const transactions = useMemo(() => expandSplitTransactions(storedTransactions), [storedTransactions]);
     const { startStr, endStr, intervalLabel } = useBudgetMonth(selectedMonth);
     const [timeframe, setTimeframe] = useState<1 | 3 | 6 | 9 | 12>(1);
     const [expandedAccount, setExpandedAccount] = useState<string | null>(null);
@@ -1121,8 +1253,23 @@ const AccountStats = () => {
         return { processedAccounts, targetLabel };
     }, [accounts, buckets, transactions, selectedMonth, timeframe, settings.payday, startStr, endStr, reimbursementMap, budgetTemplates, monthConfigs]);
 
+    // Reconciliation always covers the selected budget period, regardless of the averaging timeframe
+    const reconciliationByAccount = useMemo(() => {
+        const map: Record<string, ReconciliationResult> = {};
+        accounts.forEach(acc => { map[acc.id] = reconcileAccount(acc, storedTransactions, selectedMonth, startStr, endStr); });
+        return map;
+    }, [accounts, storedTransactions, selectedMonth, startStr, endStr]);
+
     const handleDrillDown = (title: string, txs: Transaction[], grouped = false) => { if (txs.length > 0) setDrillDownData({ title, transactions: txs, grouped }); };
 
+    const handleMarkReconciled = (result: ReconciliationResult) => markReconciled({
+        accountId: result.accountId,
+        monthKey: selectedMonth,
+        transactionCount: result.transactionCount,
+        computedClosing: result.computedClosing,
+        bankClosing: result.bankClosing
+    });
+
     const handleAccountIconSelect = async (emoji: string) => {
         if (!iconPickerTarget) return;
         await updateAccount({ ...iconPickerTarget, icon: emoji });
@@ -1135,7 +1282,11 @@ const AccountStats = () => {
                 {[1, 3, 6, 9, 12].map(m => (<button key={m} onClick={() => setTimeframe(m as any)} className={cn("flex-1 px-4 py-2 rounded-lg text-xs font-bold transition-all", timeframe === m ? "bg-cyan-600 text-white" : "text-slate-400 hover:text-white")}>{m === 1 ? 'Denna månad' : `Snitt ${m} mån`}</button>))}
             </div>
             <div className="space-y-4">
-                {data.processedAccounts.map(acc => (
+                {data.processedAccounts.map(acc => {
+                    const reconciliation = reconciliationByAccount[acc.id];
+                    const reconciliationMark = reconciliations.find(r => r.accountId === acc.id && r.monthKey === selectedMonth);
+                    const isReconciled = isReconciliationCurrent(reconciliationMark, reconciliation);
+                    return (
                     <div key={acc.id} className="bg-surface border border-slate-700 rounded-xl overflow-hidden shadow-md">
                         <div className="p-4 cursor-pointer hover:bg-slate-800/80" onClick={() => setExpandedAccount(expandedAccount === acc.id ? null : acc.id)}>
                             <div className="flex items-center gap-3">
@@ -1146,12 +1297,28 @@ const AccountStats = () => {
                                 >
                                     {acc.icon}
                                 </button>
-                                <div className="flex-1 font-bold text-white text-lg">{acc.name}</div>
+                                <div className="flex-1 font-bold text-white text-lg flex items-center gap-2">
+                                    {acc.name}
+                                    {reconciliation.status === 'mismatch' && !isReconciled && (
+                                        <span className="flex items-center gap-1 text-[10px] font-bold text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 px-2 py-0.5 rounded-full" title="Beräknat saldo stämmer inte med bankens saldo">
+                                            <AlertTriangle size={12} /> Avviker
+                                        </span>
+                                    )}
+                                    {isReconciled && <span title="Avstämd"><Check size={14} className="text-emerald-400" /></span>}
+                                    {!isReconciled && reconciliationMark && <span className="text-[10px] text-slate-400" title="Transaktioner har ändrats sedan avstämningen">Ändrad sedan avstämning</span>}
+                                </div>
                                 <div className="text-right"><div className="text-[10px] text-slate-400 uppercase font-bold">Nettoflöde</div><div className={cn("font-mono font-bold", acc.netFlow >= 0 ? "text-emerald-400" : "text-rose-400")}>{formatMoney(acc.netFlow)}</div></div>
                             </div>
                         </div>
                         {expandedAccount === acc.id && (
                             <div className="bg-slate-900/30 border-t border-slate-700/50 p-2 overflow-x-auto">
+                                <ReconciliationSummary
+                                    result={reconciliation}
+                                    isReconciled={isReconciled}
+                                    onMark={() => handleMarkReconciled(reconciliation)}
+                                    onUnmark={() => reconciliationMark && unmarkReconciled(reconciliationMark.id)}
+                                    onShowTransactions={handleDrillDown}
+                                />
                                 <div className="grid grid-cols-5 gap-2 text-[9px] uppercase font-bold text-slate-500 tracking-wider border-b border-slate-700 pb-2 mb-2 px-2 min-w-[350px]">
                                     <div className="col-span-1">Post</div><div className="text-right text-blue-300">Plan Ins.</div><div className="text-right text-emerald-400">Insättning</div><div className="text-right text-orange-300">Uttag</div><div className="text-right text-rose-400">Utgifter</div>
                                 </div>
@@ -1174,7 +1341,8 @@ const AccountStats = () => {
                             </div>
                         )}
                     </div>
-                ))}
+                    );
+                })}
             </div>
 
             <EmojiPickerModal 
@@ -1209,6 +1377,7 @@ export const StatsView: React.FC = () => {
   return (
     <div className="space-y-6 pb-24 animate-in slide-in-from-right duration-300">
       <header><h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-400">Statistik</h1><p className="text-slate-400">Följ upp din ekonomi och se trender.</p></header>
+      <TransactionQueryBar />
       <div className="flex p-1 bg-slate-800 rounded-xl shadow-lg border border-slate-700/50 overflow-x-auto no-scrollbar">
           <button onClick={() => setActiveTab('snapshot')} className={cn("flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all whitespace-nowrap", activeTab === 'snapshot' ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white")}><PieIcon size={16} /> Budgetgrupper</button>
           <button onClick={() => setActiveTab('accounts')} className={cn("flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all whitespace-nowrap", activeTab === 'accounts' ? "bg-cyan-600 text-white shadow-lg" : "text-slate-400 hover:text-white")}><Wallet size={16} /> Konton</button>
@@ -1,17 +1,26 @@
 
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { useApp } from '../store';
-import { Transaction, ImportRule, Bucket, MainCategory, SubCategory, AppSettings, Account } from '../types';
-import { parseBankFile, runImportPipeline } from '../services/importService';
-import { categorizeTransactionsWithAi } from '../services/aiService';
+import { Transaction, ImportRule, Bucket, MainCategory, SubCategory, AppSettings, Account, ImportProfile, ImportBatchUpdate } from '../types';
+import { readBankFileRows, guessImportProfile, runImportPipeline, isStatementFile, parseStatementFile, hashFile, createImportBatch, countRuleMatches, compileRuleRegex, analyzeRuleConflicts } from '../services/importService';
+import { categorizeTransactionsWithAi, AI_SUGGESTION_CONFIDENCE } from '../services/aiService';
+import { getMatchConfidence, sortByConfidence, toCategorySuggestion, findRepeatedCorrections, CorrectionPattern } from '../services/categorizationFeedback';
 import { cn, Button, Card, Modal, Input } from '../components/components';
-import { Upload, Check, Wand2, Save, Trash2, Loader2, AlertTriangle, Zap, Clock, ArrowRightLeft, ShoppingCart, ArrowDownLeft, Sparkles, CheckCircle, Target, LayoutList, GalleryHorizontalEnd, ChevronLeft, ChevronRight, Search, Filter, Link2, CalendarClock, PlusCircle, CheckCircle2, Gavel, Edit2, FileText, X, Plus, XCircle, Smartphone, LayoutGrid, Square, CheckSquare, Layers, Plane, SlidersHorizontal, Unlink, Calendar, Link, FileInput, EyeOff, Eye } from 'lucide-react';
+import { ImportMappingWizard } from '../components/ImportMappingWizard';
+import { ImportHistoryList } from '../components/ImportHistoryList';
+import { DuplicateReviewModal } from '../components/DuplicateReviewModal';
+import { RuleReapplyModal } from '../components/RuleReapplyModal';
+import { SplitTransactionModal } from '../components/SplitTransactionModal';
+import { findImportDuplicates, DuplicatePair } from '../services/duplicateDetection';
+import { Upload, Check, Wand2, Save, Trash2, Loader2, AlertTriangle, Zap, Clock, ArrowRightLeft, ShoppingCart, ArrowDownLeft, Sparkles, CheckCircle, Target, LayoutList, GalleryHorizontalEnd, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Search, Filter, Link2, CalendarClock, PlusCircle, CheckCircle2, Gavel, Edit2, FileText, X, Plus, XCircle, Smartphone, LayoutGrid, Square, CheckSquare, Layers, Plane, SlidersHorizontal, Unlink, Calendar, Link, FileInput, EyeOff, Eye, RefreshCw, Split, BrainCircuit } from 'lucide-react';
 import { formatMoney, generateId, getBudgetInterval } from '../utils';
 import { useTransferMatching } from '../hooks/useTransferMatching';
-import { useSubscriptionDetection } from '../hooks/useSubscriptionDetection';
+import { useSubscriptionDetection, SubscriptionCandidate } from '../hooks/useSubscriptionDetection';
 import { format, subMonths } from 'date-fns';
 import { db } from '../db'; // Need DB access for auto-matching logic
 
+const getConfidenceColor = (confidence: number) => confidence >= 0.8 ? "text-emerald-400" : confidence >= 0.5 ? "text-yellow-400" : "text-rose-400";
+
 // --- SUB-COMPONENT: STAGING ROW (List View) ---
 
 const TransactionRow: React.FC<{ 
@@ -54,6 +63,7 @@ const TransactionRow: React.FC<{
     let title = "Ej kategoriserad";
     
     const matchType = tx.matchType || (tx.ruleMatch ? 'rule' : (tx.aiSuggested ? 'ai' : undefined));
+    const confidence = getMatchConfidence(tx);
 
     if (isReady) {
         statusColor = "bg-emerald-900/30 border-emerald-500/50 shadow-[inset_0_0_20px_-10px_rgba(16,185,129,0.3)]";
@@ -79,6 +89,10 @@ const TransactionRow: React.FC<{
         statusColor = "bg-purple-950/30 border-purple-500/30";
         icon = <Wand2 className="w-4 h-4 text-purple-400" />;
         title = "AI-gissning";
+    } else if (matchType === 'model') {
+        statusColor = "bg-cyan-950/30 border-cyan-500/30";
+        icon = <BrainCircuit className="w-4 h-4 text-cyan-400" />;
+        title = "Lokal modell";
     } else if (tx.linkedTransactionId) {
         statusColor = "bg-indigo-950/30 border-indigo-500/30";
         icon = <Link2 className="w-4 h-4 text-indigo-400" />;
@@ -97,12 +111,18 @@ const TransactionRow: React.FC<{
         <div className={cn("flex flex-col gap-3 p-3 rounded-lg border text-sm mb-2 transition-all hover:bg-slate-700/50", statusColor)}>
             {/* ROW 1: Info & Actions */}
             <div className="flex items-center gap-3">
-                <div className="flex justify-center w-8 shrink-0" title={title}>
+                <div className="flex flex-col items-center justify-center w-8 shrink-0" title={tx.matchExplanation ? `${title}: ${tx.matchExplanation}` : title}>
                     {isAiLoading ? <Loader2 className="w-4 h-4 animate-spin text-purple-400" /> : icon}
+                    {matchType && (
+                        <span className={cn("text-[9px] font-mono mt-0.5", getConfidenceColor(confidence))}>{Math.round(confidence * 100)}%</span>
+                    )}
                 </div>
                 <div className="text-slate-400 text-xs w-24 shrink-0">{tx.date}</div>
-                <div className="flex-1 font-medium text-white truncate min-w-0" title={tx.description}>
-                    {tx.description}
+                <div className="flex-1 min-w-0">
+                    <div className="font-medium text-white truncate" title={tx.description}>{tx.description}</div>
+                    {tx.matchExplanation && (
+                        <div className={cn("text-[10px] truncate", tx.correctedFrom ? "text-slate-600 line-through" : "text-slate-500")} title={tx.matchExplanation}>{tx.matchExplanation}</div>
+                    )}
                 </div>
                 <div className="text-right shrink-0">
                     <div className="font-mono">{formatMoney(tx.amount)}</div>
@@ -357,10 +377,16 @@ const TransactionCard: React.FC<{
                          {tx.matchType === 'rule' && <><Zap size={12}/> Regelmatch</>}
                          {tx.matchType === 'history' && <><Clock size={12}/> Historik</>}
                          {tx.matchType === 'ai' && <><Wand2 size={12}/> AI Gissning</>}
+                         {tx.matchType === 'model' && <><BrainCircuit size={12}/> Lokal modell</>}
+                         {tx.matchType === 'event' && <><Plane size={12}/> Resa/Event</>}
                          {tx.linkedTransactionId && <><Link2 size={12}/> Smart Länkning</>}
                          {tx.isManuallyApproved && <><CheckCircle size={12}/> Manuellt Godkänd</>}
+                         {tx.matchType && <span className={cn("font-mono", getConfidenceColor(getMatchConfidence(tx)))}>{Math.round(getMatchConfidence(tx) * 100)}%</span>}
                      </div>
                  )}
+                 {tx.matchExplanation && (
+                     <div className={cn("text-xs -mt-4", tx.correctedFrom ? "text-slate-600 line-through" : "text-slate-500")}>{tx.matchExplanation}</div>
+                 )}
 
                  {/* Controls */}
                  <div className="w-full max-w-sm space-y-4 pt-4 border-t border-slate-700/50">
@@ -446,6 +472,54 @@ const TransactionCard: React.FC<{
     );
 };
 
+// --- RULE CONDITIONS (Editor state, numbers kept as strings while typing) ---
+interface RuleConditionDraft {
+    accountId: string;
+    amountMin: string;
+    amountMax: string;
+    exactAmount: string;
+    dayOfMonthFrom: string;
+    dayOfMonthTo: string;
+    weekdays: number[];
+}
+
+const EMPTY_RULE_CONDITIONS: RuleConditionDraft = { accountId: '', amountMin: '', amountMax: '', exactAmount: '', dayOfMonthFrom: '', dayOfMonthTo: '', weekdays: [] };
+
+// Monday first, values follow Date.getDay()
+const WEEKDAY_OPTIONS = [{ value: 1, label: 'Mån' }, { value: 2, label: 'Tis' }, { value: 3, label: 'Ons' }, { value: 4, label: 'Tor' }, { value: 5, label: 'Fre' }, { value: 6, label: 'Lör' }, { value: 0, label: 'Sön' }];
+
+const parseDraftNumber = (val: string): number | undefined => {
+    if (val.trim() === '') return undefined;
+    const n = parseFloat(val.replace(',', '.'));
+    return isNaN(n) ? undefined : n;
+};
+
+// Day of month inputs stay within 1-31, empty means no limit
+const clampDayDraft = (val: string): string => {
+    const n = parseDraftNumber(val);
+    return n === undefined ? '' : String(Math.min(31, Math.max(1, Math.round(n))));
+};
+
+const ruleConditionsToDraft = (rule: ImportRule): RuleConditionDraft => ({
+    accountId: rule.accountId || '',
+    amountMin: rule.amountMin?.toString() ?? '',
+    amountMax: rule.amountMax?.toString() ?? '',
+    exactAmount: rule.exactAmount?.toString() ?? '',
+    dayOfMonthFrom: rule.dayOfMonthFrom?.toString() ?? '',
+    dayOfMonthTo: rule.dayOfMonthTo?.toString() ?? '',
+    weekdays: rule.weekdays || []
+});
+
+// Short labels for the rule list, e.g. ["99 - 129 kr", "Dag 25-5", "Mån, Tis"]
+const describeRuleConditions = (rule: ImportRule): string[] => {
+    const parts: string[] = [];
+    if (rule.exactAmount !== undefined) parts.push(`= ${rule.exactAmount} kr`);
+    if (rule.amountMin !== undefined || rule.amountMax !== undefined) parts.push(`${rule.amountMin ?? 0} - ${rule.amountMax ?? '∞'} kr`);
+    if (rule.dayOfMonthFrom !== undefined || rule.dayOfMonthTo !== undefined) parts.push(`Dag ${rule.dayOfMonthFrom ?? 1}-${rule.dayOfMonthTo ?? 31}`);
+    if (rule.weekdays && rule.weekdays.length > 0) parts.push(WEEKDAY_OPTIONS.filter(w => rule.weekdays!.includes(w.value)).map(w => w.label).join(', '));
+    return parts;
+};
+
 export const TransactionsView: React.FC = () => {
     const { 
         accounts, 
@@ -458,22 +532,34 @@ export const TransactionsView: React.FC = () => {
         importRules,
         deleteImportRule,
         updateImportRule,
+        reorderImportRules,
         transactions,
         updateTransaction,
+        updateTransactions,
         addBucket,
         ignoredSubscriptions,
         addIgnoredSubscription,
         deleteTransaction,
         deleteAllTransactions,
         selectedMonth,
+        importProfiles,
+        saveImportProfile,
+        importBatches,
+        addImportBatch,
+        dismissedDuplicates,
+        merchants,
         activeBudgetId // Extracted activeBudgetId from store
     } = useApp();
 
     const [viewMode, setViewMode] = useState<'import' | 'history' | 'smart-transfers' | 'subscriptions' | 'rules'>('import');
     
     // NEW: Sub-tab for Import view
-    const [importTab, setImportTab] = useState<'upload' | 'review'>('upload');
-    const [uploadStats, setUploadStats] = useState<{ count: number; updatedCount?: number; matchedCount?: number; filename: string } | null>(null);
+    const [importTab, setImportTab] = useState<'upload' | 'review' | 'batches'>('upload');
+    const [uploadStats, setUploadStats] = useState<{ count: number; updatedCount?: number; matchedCount?: number; invalidDateCount?: number; filename: string } | null>(null);
+    const [importDuplicates, setImportDuplicates] = useState<DuplicatePair[]>([]);
+    const [isImportDuplicatesOpen, setIsImportDuplicatesOpen] = useState(false);
+    // File waiting for the column-mapping wizard to be confirmed
+    const [pendingImport, setPendingImport] = useState<{ file: File; profile: ImportProfile; isSavedProfile: boolean } | null>(null);
 
     // View Format for Import Tab (List vs Cards)
     const [viewFormat, setViewFormat] = useState<'list'|'cards'>('list');
@@ -509,8 +595,13 @@ export const TransactionsView: React.FC = () => {
     const [ruleTransaction, setRuleTransaction] = useState<Transaction | null>(null);
     const [editingRule, setEditingRule] = useState<ImportRule | null>(null);
     const [ruleKeyword, setRuleKeyword] = useState('');
-    const [ruleMatchType, setRuleMatchType] = useState<'contains' | 'exact' | 'starts_with'>('contains');
+    const [ruleMatchType, setRuleMatchType] = useState<ImportRule['matchType']>('contains');
     const [ruleSign, setRuleSign] = useState<'positive' | 'negative' | undefined>(undefined);
+    const [ruleConditions, setRuleConditions] = useState<RuleConditionDraft>(EMPTY_RULE_CONDITIONS);
+    const [ruleContinue, setRuleContinue] = useState(false);
+    const [showRuleConflicts, setShowRuleConflicts] = useState(false);
+    const [isRuleReapplyOpen, setIsRuleReapplyOpen] = useState(false);
+    const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
 
     // Edit Transaction Modal State
     const [isEditTransactionModalOpen, setIsEditTransactionModalOpen] = useState(false);
@@ -558,7 +649,7 @@ export const TransactionsView: React.FC = () => {
     // --- NEW: Derive Unverified Transactions from global store ---
     // Instead of local state, we check the DB state (via store)
     const unverifiedTransactions = useMemo(() => {
-        return transactions.filter(t => !t.isVerified).sort((a,b) => b.date.localeCompare(a.date));
+        return sortByConfidence(transactions.filter(t => !t.isVerified));
     }, [transactions]);
 
     // Calculate map of reimbursements for display in history
@@ -635,6 +726,16 @@ export const TransactionsView: React.FC = () => {
         return dates;
     }, [transactions]);
 
+    // The same override made several times is offered as a rule
+    const correctionPatterns = useMemo(() => viewMode === 'import' ? findRepeatedCorrections(transactions, importRules) : [], [viewMode, transactions, importRules]);
+
+    const describeCategorization = (t: Transaction) => {
+        if (t.type === 'TRANSFER') return buckets.find(b => b.id === t.bucketId)?.name || 'Överföring';
+        const main = mainCategories.find(c => c.id === t.categoryMainId)?.name;
+        const sub = subCategories.find(s => s.id === t.categorySubId)?.name;
+        return main ? `${main}${sub ? ' / ' + sub : ''}` : 'Okategoriserad';
+    };
+
     // Filtered transaction list for "Import" tab (Review)
     const filteredReviewTransactions = useMemo(() => {
         if (!importSearch) return unverifiedTransactions;
@@ -675,7 +776,7 @@ export const TransactionsView: React.FC = () => {
     const handleBulkSave = async () => {
         if (!bulkTargetType) return;
         
-        const updates: Promise<void>[] = [];
+        const updates: Transaction[] = [];
         const ids = Array.from(selectedHistoryIds);
 
         for (const id of ids) {
@@ -686,7 +787,8 @@ export const TransactionsView: React.FC = () => {
             if (bulkTargetType === 'INCOME' && tx.amount < 0) continue;
 
             const updateData: Partial<Transaction> = {
-                type: bulkTargetType
+                type: bulkTargetType,
+                categorizedManually: true
             };
 
             if (bulkTargetType === 'TRANSFER') {
@@ -709,10 +811,10 @@ export const TransactionsView: React.FC = () => {
                 updateData.categorySubId = undefined;
             }
 
-            updates.push(updateTransaction({ ...tx, ...updateData }));
+            updates.push({ ...tx, ...updateData });
         }
 
-        await Promise.all(updates);
+        await updateTransactions(updates);
         setIsBulkEditOpen(false);
         setSelectedHistoryIds(new Set());
     };
@@ -736,6 +838,11 @@ export const TransactionsView: React.FC = () => {
             updatedTx.originalText = updatedTx.description;
         }
 
+        // Hand edits are protected from re-running rules, like a category picked in the list
+        if (editDescription !== updatedTx.description || editDate !== updatedTx.date || editIsHidden !== !!updatedTx.isHidden) {
+            updatedTx.categorizedManually = true;
+        }
+
         updatedTx.description = editDescription;
         updatedTx.isHidden = editIsHidden;
 
@@ -771,111 +878,181 @@ export const TransactionsView: React.FC = () => {
     };
 
     const transferMatches = useTransferMatching(transactions);
-    const subscriptionsRaw = useSubscriptionDetection(transactions);
+    const subscriptionsRaw = useSubscriptionDetection(transactions, merchants);
     const subscriptions = useMemo(() => {
+        // Ignored entries are keyed by merchant id, older ones by the raw description
         const ignoredIds = new Set(ignoredSubscriptions.map(i => i.id));
-        return subscriptionsRaw.filter(s => !ignoredIds.has(s.name));
+        return subscriptionsRaw.filter(s => !ignoredIds.has(s.id) && !s.transactions.some(t => ignoredIds.has(t.description.trim())));
     }, [subscriptionsRaw, ignoredSubscriptions]);
 
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (!e.target.files || e.target.files.length === 0 || !selectedAccount) return;
+        const file = e.target.files[0];
+        // Clear input so same file can be selected again if needed
+        e.target.value = '';
         try {
-            const file = e.target.files[0];
-            // Passed required activeBudgetId to parseBankFile
-            const rawTxs = await parseBankFile(file, selectedAccount, activeBudgetId);
-            // Run pipeline against ALL existing transactions (to detect dupes and updates)
-            const { newTransactions, updatedTransactions } = await runImportPipeline(rawTxs, transactions, importRules, buckets);
-            
-            let matchedCount = 0;
-
-            const promises = [];
-            if (newTransactions.length > 0) {
-                // Immediately save to DB as unverified
-                promises.push(addTransactions(newTransactions));
+            // OFX/QFX and CAMT.053 carry their own structure, skip the mapping wizard
+            if (isStatementFile(file.name)) {
+                let rawTxs: Transaction[];
+                try {
+                    rawTxs = await parseStatementFile(file, selectedAccount, activeBudgetId);
+                } catch (error) {
+                    // The parsers say what's wrong with the file, e.g. that it isn't a CAMT.053 statement
+                    alert(error instanceof Error && error.message ? error.message : "Kunde inte läsa filen. Kontrollera formatet.");
+                    console.error(error);
+                    return;
+                }
+                await importParsedTransactions(rawTxs, file);
+                return;
             }
-            
-            // Execute updates for existing transactions (e.g. balance updates)
-            if (updatedTransactions.length > 0) {
-                updatedTransactions.forEach(tx => promises.push(updateTransaction(tx)));
+            // Use the account's saved profile, otherwise guess one from the file headers
+            const savedProfile = importProfiles.find(p => p.accountId === selectedAccount);
+            let profile = savedProfile;
+            if (!profile) {
+                const rows = await readBankFileRows(file);
+                const accountName = accounts.find(a => a.id === selectedAccount)?.name;
+                profile = guessImportProfile(rows, selectedAccount, activeBudgetId, accountName);
             }
+            setPendingImport({ file, profile, isSavedProfile: !!savedProfile });
+        } catch (error) {
+            alert("Kunde inte läsa filen. Kontrollera formatet.");
+            console.error(error);
+        }
+    };
 
-            await Promise.all(promises);
+    const handleConfirmImport = async (rawTxs: Transaction[], profile: ImportProfile, shouldSaveProfile: boolean, invalidDateCount: number) => {
+        if (!pendingImport) return;
+        const { file } = pendingImport;
+        setPendingImport(null);
+        try {
+            if (shouldSaveProfile) await saveImportProfile(profile);
+            await importParsedTransactions(rawTxs, file, invalidDateCount);
+        } catch (error) {
+            alert("Kunde inte importera filen.");
+            console.error(error);
+        }
+    };
 
-            // --- AUTO MATCHING LOGIC (SMART TRANSFERS) ---
-            if (settings.autoApproveSmartTransfers && newTransactions.length > 0) {
-                // Fetch all unverified transactions from DB to include the newly added ones + existing unverified
-                const allUnverified = await db.transactions.filter(t => !t.isVerified).toArray();
-                
-                const updates: Promise<void>[] = [];
-                const usedIds = new Set<string>();
-
-                // Sort to make matching deterministic
-                allUnverified.sort((a,b) => b.date.localeCompare(a.date));
-
-                for (let i = 0; i < allUnverified.length; i++) {
-                    const t1 = allUnverified[i];
-                    if (usedIds.has(t1.id)) continue;
-
-                    // Find counterpart
-                    const t2 = allUnverified.find((t, idx) => 
-                        idx > i &&
-                        !usedIds.has(t.id) &&
-                        t.accountId !== t1.accountId && // Different account
-                        t.date === t1.date && // Same date
-                        t.amount === -t1.amount // Opposite amount
-                    );
-
-                    if (t2) {
-                        matchedCount += 2; // Count pairs
-                        
-                        // Link them and mark as verified
-                        updates.push(updateTransaction({ 
-                            ...t1, 
-                            type: 'TRANSFER', 
-                            bucketId: 'INTERNAL', 
-                            linkedTransactionId: t2.id,
-                            isVerified: true
-                        }));
-                        updates.push(updateTransaction({ 
-                            ...t2, 
-                            type: 'TRANSFER', 
-                            bucketId: 'INTERNAL', 
-                            linkedTransactionId: t1.id,
-                            isVerified: true
-                        }));
-
-                        usedIds.add(t1.id);
-                        usedIds.add(t2.id);
-                    }
-                }
-                
-                if (updates.length > 0) {
-                    await Promise.all(updates);
-                }
-            }
+    const importParsedTransactions = async (rawTxs: Transaction[], file: File, invalidDateCount = 0) => {
+        const filename = file.name;
+        const fileHash = await hashFile(file);
+        const previous = importBatches.find(b => b.fileHash === fileHash && b.accountId === selectedAccount);
+        if (previous && !confirm(`Filen importerades redan ${format(new Date(previous.createdAt), 'yyyy-MM-dd HH:mm')}. Importera igen?`)) return;
+
+        // Run pipeline against ALL existing transactions (to detect dupes and updates)
+        const pipelineResult = await runImportPipeline(rawTxs, transactions, importRules, buckets);
+        const { updatedTransactions } = pipelineResult;
+        const { batch, newTransactions } = createImportBatch({
+            filename,
+            fileHash,
+            accountId: selectedAccount,
+            budgetId: activeBudgetId,
+            rawTransactions: rawTxs,
+            newTransactions: pipelineResult.newTransactions,
+            updatedTransactions,
+            existingTransactions: transactions
+        });
+        
+        // Rows that passed the exact dedupe but look like an existing row with shifted date or trimmed text
+        const dismissedKeys = new Set(dismissedDuplicates.map(d => d.id));
+        setImportDuplicates(findImportDuplicates(newTransactions, transactions, dismissedKeys));
+
+        let matchedCount = 0;
+
+        const promises = [];
+        if (newTransactions.length > 0) {
+            // Immediately save to DB as unverified
+            promises.push(addTransactions(newTransactions));
+        }
+        
+        // Execute updates for existing transactions (e.g. balance updates)
+        if (updatedTransactions.length > 0) {
+            promises.push(updateTransactions(updatedTransactions));
+        }
+
+        await Promise.all(promises);
 
-            if (newTransactions.length > 0 || updatedTransactions.length > 0) {
-                setUploadStats({ 
-                    count: newTransactions.length, 
-                    updatedCount: updatedTransactions.length, 
-                    matchedCount: matchedCount,
-                    filename: file.name 
-                });
-            } else {
-                setUploadStats({ count: 0, updatedCount: 0, matchedCount: 0, filename: file.name });
+        // Existing rows the matching turns into transfers, restored if the batch is rolled back
+        const newIds = new Set(newTransactions.map(t => t.id));
+        const transferUpdates: ImportBatchUpdate[] = [];
+
+        // --- AUTO MATCHING LOGIC (SMART TRANSFERS) ---
+        if (settings.autoApproveSmartTransfers && newTransactions.length > 0) {
+            // Fetch all unverified transactions from DB to include the newly added ones + existing unverified
+            const allUnverified = await db.transactions.filter(t => !t.isVerified).toArray();
+            
+            const updates: Transaction[] = [];
+            const usedIds = new Set<string>();
+
+            // Sort to make matching deterministic
+            allUnverified.sort((a,b) => b.date.localeCompare(a.date));
+
+            for (let i = 0; i < allUnverified.length; i++) {
+                const t1 = allUnverified[i];
+                if (usedIds.has(t1.id)) continue;
+
+                // Find counterpart
+                const t2 = allUnverified.find((t, idx) => 
+                    idx > i &&
+                    !usedIds.has(t.id) &&
+                    t.accountId !== t1.accountId && // Different account
+                    t.date === t1.date && // Same date
+                    t.amount === -t1.amount // Opposite amount
+                );
+
+                if (t2) {
+                    matchedCount += 2; // Count pairs
+                    
+                    // Link them and mark as verified
+                    updates.push({ 
+                        ...t1, 
+                        type: 'TRANSFER', 
+                        bucketId: 'INTERNAL', 
+                        linkedTransactionId: t2.id,
+                        isVerified: true
+                    });
+                    updates.push({ 
+                        ...t2, 
+                        type: 'TRANSFER', 
+                        bucketId: 'INTERNAL', 
+                        linkedTransactionId: t1.id,
+                        isVerified: true
+                    });
+
+                    usedIds.add(t1.id);
+                    usedIds.add(t2.id);
+                    [t1, t2].filter(t => !newIds.has(t.id)).forEach(t => transferUpdates.push({
+                        transactionId: t.id,
+                        previousTransfer: { type: t.type, bucketId: t.bucketId, isVerified: t.isVerified, linkedTransactionId: t.linkedTransactionId }
+                    }));
+                }
             }
             
-            // Clear input so same file can be selected again if needed
-            e.target.value = '';
-        } catch (error) {
-            alert("Kunde inte läsa filen. Kontrollera formatet.");
-            console.error(error);
+            if (updates.length > 0) {
+                await updateTransactions(updates);
+            }
+        }
+
+        if (newTransactions.length > 0 || updatedTransactions.length > 0) {
+            await addImportBatch({ ...batch, updates: [...batch.updates, ...transferUpdates] });
+        }
+
+        if (newTransactions.length > 0 || updatedTransactions.length > 0) {
+            setUploadStats({ 
+                count: newTransactions.length, 
+                updatedCount: updatedTransactions.length, 
+                matchedCount: matchedCount,
+                invalidDateCount,
+                filename 
+            });
+        } else {
+            setUploadStats({ count: 0, updatedCount: 0, matchedCount: 0, invalidDateCount, filename });
         }
     };
 
     const handleAiGuess = async (tx: Transaction) => {
         setIsAiLoading(true);
-        const result = await categorizeTransactionsWithAi([tx], buckets, mainCategories, subCategories);
+        const result = await categorizeTransactionsWithAi([tx], buckets, mainCategories, subCategories, settings.ai);
         const match = result[tx.id];
         if (match) {
             await updateTransaction({
@@ -885,6 +1062,8 @@ export const TransactionsView: React.FC = () => {
                 categorySubId: match.subCatId || tx.categorySubId,
                 type: match.bucketId ? 'TRANSFER' : (match.mainCatId ? 'EXPENSE' : tx.type),
                 matchType: 'ai',
+                matchConfidence: AI_SUGGESTION_CONFIDENCE,
+                matchExplanation: 'AI-förslag',
                 aiSuggested: true
             });
         }
@@ -896,6 +1075,10 @@ export const TransactionsView: React.FC = () => {
         if (!targetTx) return;
 
         const updatedTx = { ...targetTx, [field]: value };
+        const isCategoryField = field === 'bucketId' || field === 'categoryMainId' || field === 'categorySubId' || field === 'type';
+        if (isCategoryField) updatedTx.categorizedManually = true;
+        // Keep the first suggestion the user overrode, repeated overrides turn into a rule suggestion
+        if (isCategoryField && !targetTx.isVerified && !targetTx.correctedFrom) updatedTx.correctedFrom = toCategorySuggestion(targetTx);
         
         // Type specific logic
         if (field === 'type' && value === 'TRANSFER') {
@@ -907,7 +1090,8 @@ export const TransactionsView: React.FC = () => {
         }
 
         // Apply changes to similar unverified transactions if changing key fields
-        if (field === 'bucketId' || field === 'categoryMainId' || field === 'categorySubId' || field === 'type') {
+        const propagatedTxs: Transaction[] = [];
+        if (isCategoryField) {
              // We can do a mini-bulk update for convenience
              const similar = unverifiedTransactions.filter(t => 
                  t.id !== id && 
@@ -927,18 +1111,19 @@ export const TransactionsView: React.FC = () => {
                          propagated.bucketId = undefined;
                      }
                      propagated.matchType = 'history';
-                     updateTransaction(propagated);
+                     propagated.matchExplanation = 'Samma text som en rad du ändrade';
+                     propagatedTxs.push(propagated);
                  });
              }
         }
         
-        updateTransaction(updatedTx);
+        updateTransactions([updatedTx, ...propagatedTxs]);
     };
 
     const handleUnapprove = async (id: string) => {
         const tx = transactions.find(t => t.id === id);
         if(tx) {
-            await updateTransaction({ ...tx, isManuallyApproved: false, matchType: undefined });
+            await updateTransaction({ ...tx, isManuallyApproved: false, matchType: undefined, matchConfidence: undefined, matchExplanation: undefined });
         }
     };
 
@@ -958,8 +1143,7 @@ export const TransactionsView: React.FC = () => {
 
         if (ready.length === 0) return;
         
-        const updates = ready.map(t => updateTransaction({ ...t, isVerified: true }));
-        await Promise.all(updates);
+        await updateTransactions(ready.map(t => ({ ...t, isVerified: true })));
         setCurrentCardIndex(0);
     };
     
@@ -979,6 +1163,8 @@ export const TransactionsView: React.FC = () => {
             setRuleKeyword(existingRule.keyword);
             setRuleMatchType(existingRule.matchType);
             setRuleSign(existingRule.sign);
+            setRuleConditions(ruleConditionsToDraft(existingRule));
+            setRuleContinue(!!existingRule.continueAfterMatch);
             setRuleTransaction(null);
         } else if (tx) {
             setRuleTransaction(tx);
@@ -986,18 +1172,82 @@ export const TransactionsView: React.FC = () => {
             setRuleKeyword(tx.description);
             setRuleMatchType('contains');
             setRuleSign(tx.amount < 0 ? 'negative' : 'positive');
+            setRuleConditions({ ...EMPTY_RULE_CONDITIONS, accountId: tx.accountId });
+            setRuleContinue(false);
+        } else {
+            setRuleTransaction(null);
+            setEditingRule(null);
+            setRuleKeyword('');
+            setRuleMatchType('contains');
+            setRuleSign(undefined);
+            setRuleConditions(EMPTY_RULE_CONDITIONS);
+            setRuleContinue(false);
         }
         setRuleModalOpen(true);
     };
 
+    const handleCreateRuleFromCorrections = (pattern: CorrectionPattern) => {
+        openRuleModal(pattern.sample);
+        setRuleKeyword(pattern.keyword);
+        if (!pattern.sameAccount) setRuleConditions(EMPTY_RULE_CONDITIONS);
+    };
+
+    // Forgetting the corrections keeps the offer from coming back until they are repeated again
+    const handleDismissCorrections = async (pattern: CorrectionPattern) => {
+        await updateTransactions(pattern.transactions.map(t => ({ ...t, correctedFrom: undefined })));
+    };
+
+    // The rule as it would be saved, used for the live match count
+    const draftRule = useMemo((): ImportRule => ({
+        id: editingRule ? editingRule.id : 'draft',
+        budgetId: activeBudgetId,
+        keyword: ruleKeyword,
+        matchType: ruleMatchType,
+        sign: ruleSign,
+        accountId: ruleConditions.accountId || undefined,
+        targetType: editingRule ? editingRule.targetType : ruleTransaction?.type,
+        amountMin: parseDraftNumber(ruleConditions.amountMin),
+        amountMax: parseDraftNumber(ruleConditions.amountMax),
+        exactAmount: parseDraftNumber(ruleConditions.exactAmount),
+        dayOfMonthFrom: parseDraftNumber(ruleConditions.dayOfMonthFrom),
+        dayOfMonthTo: parseDraftNumber(ruleConditions.dayOfMonthTo),
+        weekdays: ruleConditions.weekdays.length > 0 ? ruleConditions.weekdays : undefined,
+        priority: editingRule?.priority,
+        continueAfterMatch: ruleContinue || undefined
+    }), [editingRule, activeBudgetId, ruleKeyword, ruleMatchType, ruleSign, ruleConditions, ruleContinue, ruleTransaction]);
+
+    const isRuleRegexInvalid = ruleMatchType === 'regex' && !compileRuleRegex(ruleKeyword);
+    const hasRuleCondition = !!ruleKeyword || draftRule.amountMin !== undefined || draftRule.amountMax !== undefined || draftRule.exactAmount !== undefined
+        || draftRule.dayOfMonthFrom !== undefined || draftRule.dayOfMonthTo !== undefined || !!draftRule.weekdays;
+    const draftRuleMatchCount = useMemo(() => ruleModalOpen && !isRuleRegexInvalid ? countRuleMatches(draftRule, transactions) : 0, [ruleModalOpen, isRuleRegexInvalid, draftRule, transactions]);
+    const ruleMatchCounts = useMemo(() => {
+        if (viewMode !== 'rules') return {};
+        const counts: Record<string, number> = {};
+        importRules.forEach(r => { counts[r.id] = countRuleMatches(r, transactions); });
+        return counts;
+    }, [viewMode, importRules, transactions]);
+    const ruleConflicts = useMemo(() => {
+        if (viewMode !== 'rules') return { overlaps: [], shadowed: [] };
+        return analyzeRuleConflicts(importRules, transactions);
+    }, [viewMode, importRules, transactions]);
+    const shadowedRuleIds = useMemo(() => new Set(ruleConflicts.shadowed.map(s => s.rule.id)), [ruleConflicts]);
+
+    const handleMoveRule = async (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= importRules.length) return;
+        const ids = importRules.map(r => r.id);
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        await reorderImportRules(ids);
+    };
+
+    const getRuleLabel = (rule: ImportRule) => rule.keyword || describeRuleConditions(rule).join(', ') || 'Valfri text';
+
     const handleSaveRule = async () => {
-        if (!ruleKeyword) return;
+        if (!hasRuleCondition || isRuleRegexInvalid) return;
+        const { id: _draftId, budgetId: _budgetId, targetType: _targetType, ...conditions } = draftRule;
         const baseRule: any = {
-            id: editingRule ? editingRule.id : generateId(),
-            keyword: ruleKeyword,
-            accountId: editingRule ? editingRule.accountId : (ruleTransaction ? ruleTransaction.accountId : undefined),
-            matchType: ruleMatchType,
-            sign: ruleSign
+            ...conditions,
+            id: editingRule ? editingRule.id : generateId()
         };
         if (editingRule) {
              baseRule.targetType = editingRule.targetType;
@@ -1020,9 +1270,7 @@ export const TransactionsView: React.FC = () => {
         if (!editingRule) {
             const { newTransactions: processed } = await runImportPipeline(unverifiedTransactions, transactions, [...importRules, baseRule], buckets);
             // This will update them in DB
-            processed.forEach(t => {
-                if (t.matchType === 'rule') updateTransaction(t);
-            });
+            await updateTransactions(processed.filter(t => t.matchType === 'rule'));
         }
     };
     
@@ -1041,14 +1289,11 @@ export const TransactionsView: React.FC = () => {
         );
 
         const targets = similarMatches.length > 0 ? similarMatches : [{ from: t1, to: t2 }];
-        const updates: Promise<void>[] = [];
-
-        targets.forEach(match => {
-             updates.push(updateTransaction({ ...match.from, type: 'TRANSFER', linkedTransactionId: match.to.id, isVerified: true, categoryMainId: undefined, categorySubId: undefined, bucketId: 'INTERNAL' }));
-             updates.push(updateTransaction({ ...match.to, type: 'TRANSFER', linkedTransactionId: match.from.id, isVerified: true, categoryMainId: undefined, categorySubId: undefined, bucketId: 'INTERNAL' }));
-        });
 
-        await Promise.all(updates);
+        await updateTransactions(targets.flatMap(match => [
+             { ...match.from, type: 'TRANSFER' as const, linkedTransactionId: match.to.id, isVerified: true, categoryMainId: undefined, categorySubId: undefined, bucketId: 'INTERNAL' },
+             { ...match.to, type: 'TRANSFER' as const, linkedTransactionId: match.from.id, isVerified: true, categoryMainId: undefined, categorySubId: undefined, bucketId: 'INTERNAL' }
+        ]));
         
         if (targets.length > 1) {
              alert(`Kopplade ${targets.length} liknande par av överföringar automatiskt.`);
@@ -1075,9 +1320,9 @@ export const TransactionsView: React.FC = () => {
         alert(`Skapade fast utgift för ${sub.name}!`);
     };
 
-    const handleIgnoreSubscription = async (name: string) => {
-        if (confirm(`Är du säker på att du vill ignorera "${name}" från prenumerationslistan? Detta val sparas.`)) {
-            await addIgnoredSubscription(name);
+    const handleIgnoreSubscription = async (sub: SubscriptionCandidate) => {
+        if (confirm(`Är du säker på att du vill ignorera "${sub.name}" från prenumerationslistan? Detta val sparas.`)) {
+            await addIgnoredSubscription(sub.id);
         }
     };
 
@@ -1139,6 +1384,12 @@ export const TransactionsView: React.FC = () => {
                                 {unverifiedTransactions.length > 0 && <span className="bg-rose-500 text-white text-[10px] px-2 py-0.5 rounded-full">{unverifiedTransactions.length}</span>}
                             </span>
                         </button>
+                        <button 
+                            onClick={() => setImportTab('batches')}
+                            className={cn("px-6 py-2 text-sm font-bold border-b-2 transition-colors", importTab === 'batches' ? "border-blue-500 text-white" : "border-transparent text-slate-400 hover:text-white")}
+                        >
+                            <span className="flex items-center gap-2"><Clock size={14} /> Importer</span>
+                        </button>
                     </div>
 
                     {/* UPLOAD TAB */}
@@ -1149,7 +1400,7 @@ export const TransactionsView: React.FC = () => {
                             </div>
                             <div>
                                 <h3 className="text-lg font-bold text-white">Ladda upp fil</h3>
-                                <p className="text-sm text-slate-400 mt-1">Stödjer CSV och Excel från din bank.</p>
+                                <p className="text-sm text-slate-400 mt-1">Stödjer CSV, Excel, OFX/QFX och CAMT.053 (XML) från din bank.</p>
                                 <p className="text-xs text-slate-500 mt-2">Du kan ladda upp flera filer i rad. Nya transaktioner läggs till i granskningslistan.</p>
                             </div>
                             <select className="bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white w-64" value={selectedAccount} onChange={(e) => setSelectedAccount(e.target.value)}>
@@ -1164,7 +1415,10 @@ export const TransactionsView: React.FC = () => {
                                 })}
                             </select>
                             <Button onClick={() => fileInputRef.current?.click()} disabled={!selectedAccount} className="w-64">Välj fil</Button>
-                            <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.xlsx,.xls" onChange={handleFileUpload} />
+                            <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.xlsx,.xls,.ofx,.qfx,.xml" onChange={handleFileUpload} />
+                            {selectedAccount && importProfiles.some(p => p.accountId === selectedAccount) && (
+                                <p className="text-[10px] text-slate-500">Importprofil: {importProfiles.find(p => p.accountId === selectedAccount)?.name}</p>
+                            )}
 
                             {uploadStats && (
                                 <div className="mt-4 p-4 bg-emerald-950/30 border border-emerald-500/30 rounded-xl flex flex-col gap-2 items-center w-full max-w-sm animate-in zoom-in">
@@ -1175,7 +1429,7 @@ export const TransactionsView: React.FC = () => {
                                         Hittade <span className="font-bold text-white">{uploadStats.count}</span> nya transaktioner.
                                         {uploadStats.updatedCount ? (
                                             <div className="text-xs text-emerald-300 mt-1">
-                                                Samt uppdaterade saldo på <span className="font-bold">{uploadStats.updatedCount}</span> befintliga transaktioner.
+                                                Samt uppdaterade saldo/bank-id på <span className="font-bold">{uploadStats.updatedCount}</span> befintliga transaktioner.
                                             </div>
                                         ) : null}
                                         {uploadStats.matchedCount ? (
@@ -1183,6 +1437,16 @@ export const TransactionsView: React.FC = () => {
                                                 <span className="font-bold">{uploadStats.matchedCount}</span> st matchades automatiskt som överföringar!
                                             </div>
                                         ) : null}
+                                        {uploadStats.invalidDateCount ? (
+                                            <div className="text-xs text-amber-300 mt-1">
+                                                <span className="font-bold">{uploadStats.invalidDateCount}</span> rader hoppades över eftersom datumet inte kunde tolkas.
+                                            </div>
+                                        ) : null}
+                                        {importDuplicates.length > 0 && (
+                                            <button onClick={() => setIsImportDuplicatesOpen(true)} className="text-xs text-rose-300 mt-1 font-bold underline hover:text-white flex items-center gap-1 mx-auto">
+                                                <AlertTriangle size={12} /> {importDuplicates.length} möjliga dubbletter, granska
+                                            </button>
+                                        )}
                                     </div>
                                     <Button onClick={() => setImportTab('review')} className="mt-2 bg-emerald-600 hover:bg-emerald-500 text-xs w-full">
                                         Gå till Granskning
@@ -1192,6 +1456,9 @@ export const TransactionsView: React.FC = () => {
                         </div>
                     )}
 
+                    {/* IMPORT HISTORY TAB */}
+                    {importTab === 'batches' && <ImportHistoryList />}
+
                     {/* REVIEW TAB */}
                     {importTab === 'review' && (
                         <div className="space-y-4 animate-in fade-in">
@@ -1224,6 +1491,17 @@ export const TransactionsView: React.FC = () => {
                                         </div>
                                     </div>
                                     
+                                    {correctionPatterns.map(p => (
+                                        <div key={p.key} className="bg-blue-950/40 border border-blue-500/30 rounded-lg p-3 flex items-center gap-3">
+                                            <Zap size={16} className="text-blue-400 shrink-0" />
+                                            <div className="flex-1 min-w-0 text-sm text-slate-300">
+                                                Du har ändrat <span className="font-medium text-white">{p.keyword}</span> till <span className="font-medium text-white">{describeCategorization(p.sample)}</span> {p.transactions.length} gånger. Skapa en regel?
+                                            </div>
+                                            <Button onClick={() => handleCreateRuleFromCorrections(p)} className="px-3 py-1.5 text-xs shrink-0">Skapa regel</Button>
+                                            <button onClick={() => handleDismissCorrections(p)} className="p-1 text-slate-500 hover:text-white shrink-0" title="Ignorera"><X size={14} /></button>
+                                        </div>
+                                    ))}
+
                                     {viewFormat === 'list' && (
                                         <div className="space-y-2">
                                             {filteredReviewTransactions.map((tx) => (
@@ -1417,7 +1695,9 @@ export const TransactionsView: React.FC = () => {
                              const reimbursedAmount = reimbursementMap[tx.id] || 0;
                              
                              let categoryLabel = '';
-                             if (tx.type === 'EXPENSE') {
+                             if (tx.splits && tx.splits.length > 0) {
+                                 categoryLabel = `Delad i ${tx.splits.length} delar`;
+                             } else if (tx.type === 'EXPENSE') {
                                  const main = mainCategories.find(c => c.id === tx.categoryMainId)?.name;
                                  const sub = subCategories.find(c => c.id === tx.categorySubId)?.name;
                                  categoryLabel = main ? `${main} ${sub ? '/ ' + sub : ''}` : 'Okategoriserad';
@@ -1465,6 +1745,17 @@ export const TransactionsView: React.FC = () => {
                                                     <Edit2 size={10} />
                                                 </button>
 
+                                                {/* Split Button (transfer pairs and reimbursements stay whole) */}
+                                                {!isReimbursement && !tx.linkedTransactionId && (
+                                                    <button 
+                                                        onClick={(e) => { e.stopPropagation(); setSplittingTransaction(tx); }}
+                                                        className={cn("p-1 hover:text-white transition-opacity bg-slate-700/50 rounded", tx.splits && tx.splits.length > 0 ? "text-blue-400" : "opacity-0 group-hover:opacity-100 text-slate-400")}
+                                                        title="Dela upp på flera kategorier"
+                                                    >
+                                                        <Split size={10} />
+                                                    </button>
+                                                )}
+
                                                 {/* Reimburse Button (Only for incoming funds > 0 and not already a reimbursement) */}
                                                 {tx.amount > 0 && !isReimbursement && !tx.linkedTransactionId && (
                                                     <button
@@ -1637,7 +1928,7 @@ export const TransactionsView: React.FC = () => {
                                                 <span className="text-xs text-slate-500 italic">Redan tillagd</span>
                                             )}
                                         </div>
-                                        <button onClick={() => handleIgnoreSubscription(sub.name)} className="p-2 text-slate-600 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Dölj detta förslag permanent">
+                                        <button onClick={() => handleIgnoreSubscription(sub)} className="p-2 text-slate-600 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Dölj detta förslag permanent">
                                             <X size={16} />
                                         </button>
                                     </div>
@@ -1651,12 +1942,69 @@ export const TransactionsView: React.FC = () => {
 
             {viewMode === 'rules' && (
                 <div className="space-y-4">
+                    {importRules.length > 1 && (
+                        <div className="flex items-center justify-between gap-2 bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+                            <p className="text-xs text-slate-400">Reglerna körs uppifrån och ned. Första matchande regel gäller, om den inte är satt att fortsätta.</p>
+                            <button
+                                onClick={() => setShowRuleConflicts(!showRuleConflicts)}
+                                className={cn("shrink-0 text-xs px-3 py-1.5 rounded-lg flex items-center gap-1 transition-colors", ruleConflicts.shadowed.length > 0 || ruleConflicts.overlaps.length > 0 ? "bg-yellow-500/10 text-yellow-400 hover:bg-yellow-500/20" : "bg-slate-800 text-slate-400 hover:text-white")}
+                            >
+                                <AlertTriangle size={12} /> Konflikter ({ruleConflicts.shadowed.length + ruleConflicts.overlaps.length})
+                            </button>
+                        </div>
+                    )}
+
+                    {showRuleConflicts && (
+                        <div className="bg-slate-900/50 p-4 rounded-xl border border-yellow-500/20 space-y-4 animate-in fade-in">
+                            <div>
+                                <h4 className="text-xs font-bold text-yellow-400 uppercase mb-2">Skuggade regler ({ruleConflicts.shadowed.length})</h4>
+                                {ruleConflicts.shadowed.length === 0 ? (
+                                    <div className="text-xs text-slate-500">Alla regler som matchar något används också.</div>
+                                ) : (
+                                    <div className="space-y-1">
+                                        {ruleConflicts.shadowed.map(s => (
+                                            <div key={s.rule.id} className="text-xs text-slate-300">
+                                                <span className="font-bold text-white">{getRuleLabel(s.rule)}</span> ({s.matchCount} träffar) fångas alltid först av {s.by.map(b => `"${getRuleLabel(b)}"`).join(', ')}.
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div>
+                                <h4 className="text-xs font-bold text-yellow-400 uppercase mb-2">Transaktioner med flera regler ({ruleConflicts.overlaps.length})</h4>
+                                {ruleConflicts.overlaps.length === 0 ? (
+                                    <div className="text-xs text-slate-500">Ingen transaktion matchas av mer än en regel.</div>
+                                ) : (
+                                    <div className="space-y-1 max-h-64 overflow-y-auto no-scrollbar">
+                                        {ruleConflicts.overlaps.slice(0, 100).map(o => (
+                                            <div key={o.transaction.id} className="text-xs flex justify-between gap-3 border-b border-slate-800 py-1">
+                                                <div className="min-w-0">
+                                                    <div className="text-white truncate">{o.transaction.description}</div>
+                                                    <div className="text-[10px] text-slate-500">{o.transaction.date} • {formatMoney(o.transaction.amount)}</div>
+                                                </div>
+                                                <div className="text-right text-slate-400 shrink-0">
+                                                    {o.rules.map(r => <div key={r.id} className={cn(r.id === o.appliedRule.id ? "text-emerald-400" : "text-slate-500")}>{importRules.indexOf(r) + 1}. {getRuleLabel(r)}</div>)}
+                                                </div>
+                                            </div>
+                                        ))}
+                                        {ruleConflicts.overlaps.length > 100 && <div className="text-[10px] text-slate-500 text-center pt-1">Visar 100 av {ruleConflicts.overlaps.length}</div>}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="space-y-2">
-                        {importRules.map(rule => {
+                        {importRules.map((rule, index) => {
                             const account = accounts.find(a => a.id === rule.accountId);
                             return (
                                 <div key={rule.id} className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex justify-between items-center group">
                                     <div className="flex items-center gap-3">
+                                        <div className="flex flex-col items-center text-slate-500">
+                                            <button onClick={() => handleMoveRule(index, -1)} disabled={index === 0} className="hover:text-white disabled:opacity-20"><ChevronUp size={14} /></button>
+                                            <span className="text-[10px] font-mono">{index + 1}</span>
+                                            <button onClick={() => handleMoveRule(index, 1)} disabled={index === importRules.length - 1} className="hover:text-white disabled:opacity-20"><ChevronDown size={14} /></button>
+                                        </div>
                                         {rule.sign && (
                                             <div className={cn("w-6 h-6 rounded flex items-center justify-center text-xs font-bold", rule.sign === 'negative' ? "bg-rose-500/20 text-rose-400" : "bg-emerald-500/20 text-emerald-400")}>
                                                 {rule.sign === 'negative' ? '-' : '+'}
@@ -1664,15 +2012,19 @@ export const TransactionsView: React.FC = () => {
                                         )}
                                         <div>
                                             <div className="font-bold text-white flex items-center gap-2">
-                                                {rule.keyword}
+                                                {rule.keyword || <span className="italic text-slate-400">Valfri text</span>}
                                                 <span className="text-[10px] bg-slate-700 text-slate-300 px-1.5 rounded">{rule.matchType}</span>
                                                 {rule.accountId && <span className="text-[10px] bg-blue-900 text-blue-300 px-1.5 rounded flex items-center gap-1">{accounts.find(a => a.id === rule.accountId)?.icon} {accounts.find(a => a.id === rule.accountId)?.name}</span>}
+                                                {describeRuleConditions(rule).map(c => <span key={c} className="text-[10px] bg-purple-900/60 text-purple-300 px-1.5 rounded">{c}</span>)}
+                                                {rule.continueAfterMatch && <span className="text-[10px] bg-slate-700 text-slate-300 px-1.5 rounded">Fortsätter</span>}
+                                                {shadowedRuleIds.has(rule.id) && <span className="text-[10px] bg-yellow-500/20 text-yellow-400 px-1.5 rounded">Skuggad</span>}
                                             </div>
                                             <div className="text-xs text-slate-400">
                                                 {rule.targetType === 'TRANSFER' 
                                                     ? `Överföring till ${buckets.find(b => b.id === rule.targetBucketId)?.name || 'Okänd'}` 
                                                     : `Utgift: ${mainCategories.find(c => c.id === rule.targetCategoryMainId)?.name || 'Okänd'} ${rule.targetCategorySubId ? ' / ' + (subCategories.find(s => s.id === rule.targetCategorySubId)?.name || 'Okänd') : ''}`
                                                 }
+                                                <span className="text-slate-500"> • {ruleMatchCounts[rule.id] ?? 0} träffar</span>
                                             </div>
                                         </div>
                                     </div>
@@ -1685,22 +2037,49 @@ export const TransactionsView: React.FC = () => {
                         })}
                         {importRules.length === 0 && <div className="text-center text-slate-500 py-10">Inga regler skapade än.</div>}
                     </div>
-                    <Button variant="secondary" onClick={() => { setEditingRule(null); setRuleTransaction(null); setRuleKeyword(''); setRuleModalOpen(true); }} className="w-full">
-                        <Plus className="w-4 h-4 mr-2" /> Skapa ny regel manuellt
-                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="secondary" onClick={() => openRuleModal(null)} className="flex-1">
+                            <Plus className="w-4 h-4 mr-2" /> Skapa ny regel manuellt
+                        </Button>
+                        {importRules.length > 0 && (
+                            <Button variant="secondary" onClick={() => setIsRuleReapplyOpen(true)} className="flex-1">
+                                <RefreshCw className="w-4 h-4 mr-2" /> Kör regler på historik
+                            </Button>
+                        )}
+                    </div>
+                    <RuleReapplyModal isOpen={isRuleReapplyOpen} onClose={() => setIsRuleReapplyOpen(false)} />
                 </div>
             )}
 
+            {/* IMPORT MAPPING WIZARD */}
+            {pendingImport && (
+                <ImportMappingWizard
+                    file={pendingImport.file}
+                    accountId={selectedAccount}
+                    budgetId={activeBudgetId}
+                    initialProfile={pendingImport.profile}
+                    isSavedProfile={pendingImport.isSavedProfile}
+                    onCancel={() => setPendingImport(null)}
+                    onConfirm={handleConfirmImport}
+                />
+            )}
+
+            <SplitTransactionModal transaction={splittingTransaction} onClose={() => setSplittingTransaction(null)} />
+
+            <DuplicateReviewModal isOpen={isImportDuplicatesOpen} onClose={() => setIsImportDuplicatesOpen(false)} pairs={importDuplicates} />
+
             {/* RULE MODAL */}
             <Modal isOpen={ruleModalOpen} onClose={() => setRuleModalOpen(false)} title={editingRule ? "Redigera Regel" : "Skapa Ny Regel"}>
                 <div className="space-y-4">
-                    <Input label="Nyckelord / Text" value={ruleKeyword} onChange={(e) => setRuleKeyword(e.target.value)} />
+                    <Input label={ruleMatchType === 'regex' ? "Reguljärt uttryck" : "Nyckelord / Text"} value={ruleKeyword} onChange={(e) => setRuleKeyword(e.target.value)} placeholder={ruleMatchType === 'regex' ? "SPOTIFY|SPOTFY" : ruleMatchType === 'exact' ? "Hela texten som den står i banken" : "Lämna tomt för valfri text"} />
+                    {isRuleRegexInvalid && <div className="text-xs text-rose-400 -mt-2">Ogiltigt reguljärt uttryck.</div>}
                     <div>
                         <label className="text-xs font-medium text-slate-400 uppercase tracking-wider block mb-1">Matchningstyp</label>
                         <div className="flex bg-slate-900 rounded-lg p-1">
                             <button onClick={() => setRuleMatchType('contains')} className={cn("flex-1 text-xs py-2 rounded transition-all", ruleMatchType === 'contains' ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>Innehåller</button>
                             <button onClick={() => setRuleMatchType('starts_with')} className={cn("flex-1 text-xs py-2 rounded transition-all", ruleMatchType === 'starts_with' ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>Börjar med</button>
                             <button onClick={() => setRuleMatchType('exact')} className={cn("flex-1 text-xs py-2 rounded transition-all", ruleMatchType === 'exact' ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>Exakt</button>
+                            <button onClick={() => setRuleMatchType('regex')} className={cn("flex-1 text-xs py-2 rounded transition-all", ruleMatchType === 'regex' ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white")}>Regex</button>
                         </div>
                     </div>
                     <div>
@@ -1711,10 +2090,57 @@ export const TransactionsView: React.FC = () => {
                             <button onClick={() => setRuleSign(undefined)} className={cn("flex-1 text-xs py-2 rounded transition-all", !ruleSign ? "bg-slate-600 text-white" : "text-slate-400 hover:text-white")}>Båda</button>
                         </div>
                     </div>
+                    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700 space-y-3">
+                        <div className="text-xs font-medium text-slate-400 uppercase tracking-wider">Fler villkor (alla måste stämma)</div>
+                        <div>
+                            <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Konto</label>
+                            <select className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white" value={ruleConditions.accountId} onChange={e => setRuleConditions({ ...ruleConditions, accountId: e.target.value })}>
+                                <option value="">Alla konton</option>
+                                {accounts.map(a => <option key={a.id} value={a.id}>{a.icon} {a.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <Input label="Belopp från" inputMode="decimal" value={ruleConditions.amountMin} onChange={e => setRuleConditions({ ...ruleConditions, amountMin: e.target.value })} />
+                            <Input label="Belopp till" inputMode="decimal" value={ruleConditions.amountMax} onChange={e => setRuleConditions({ ...ruleConditions, amountMax: e.target.value })} />
+                            <Input label="Exakt belopp" inputMode="decimal" value={ruleConditions.exactAmount} onChange={e => setRuleConditions({ ...ruleConditions, exactAmount: e.target.value })} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input label="Från dag i mån" type="number" min={1} max={31} value={ruleConditions.dayOfMonthFrom} onChange={e => setRuleConditions({ ...ruleConditions, dayOfMonthFrom: clampDayDraft(e.target.value) })} />
+                            <Input label="Till dag i mån" type="number" min={1} max={31} value={ruleConditions.dayOfMonthTo} onChange={e => setRuleConditions({ ...ruleConditions, dayOfMonthTo: clampDayDraft(e.target.value) })} />
+                        </div>
+                        <div>
+                            <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Veckodagar</label>
+                            <div className="flex gap-1">
+                                {WEEKDAY_OPTIONS.map(w => {
+                                    const isActive = ruleConditions.weekdays.includes(w.value);
+                                    return (
+                                        <button
+                                            key={w.value}
+                                            onClick={() => setRuleConditions({ ...ruleConditions, weekdays: isActive ? ruleConditions.weekdays.filter(d => d !== w.value) : [...ruleConditions.weekdays, w.value] })}
+                                            className={cn("flex-1 text-[10px] py-1.5 rounded transition-all", isActive ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white")}
+                                        >
+                                            {w.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-500">Beloppen jämförs utan tecken. Ett dagintervall som 25 - 5 går över månadsskiftet.</p>
+                    </div>
                     {ruleTransaction && (
                         <div className="bg-slate-800 p-3 rounded-lg text-xs text-slate-300">Baserat på: <span className="font-bold text-white">{ruleTransaction.description}</span></div>
                     )}
-                    <Button onClick={handleSaveRule} disabled={!ruleKeyword} className="w-full">Spara Regel</Button>
+                    <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={ruleContinue} onChange={e => setRuleContinue(e.target.checked)} className="mt-1 rounded bg-slate-700 border-slate-600" />
+                        <span>
+                            Fortsätt till nästa regel
+                            <span className="block text-[10px] text-slate-500">Senare regler som också matchar får fylla i det denna lämnar tomt. Annars stoppar regeln vid träff.</span>
+                        </span>
+                    </label>
+                    <div className={cn("text-xs text-center", draftRuleMatchCount > 0 ? "text-blue-300" : "text-slate-500")}>
+                        Regeln matchar <span className="font-bold">{draftRuleMatchCount}</span> befintliga transaktioner.
+                    </div>
+                    <Button onClick={handleSaveRule} disabled={!hasRuleCondition || isRuleRegexInvalid} className="w-full">Spara Regel</Button>
                 </div>
             </Modal>
 